@@ -12,6 +12,9 @@ import {
     Stmt,
     Local
 } from "../../arkanalyzer/src/index";
+import { LIFECYCLE_METHOD_NAME, COMPONENT_LIFECYCLE_METHOD_NAME } from "../../arkanalyzer/src/utils/entryMethodUtils";
+import { ScopeFilter } from '../version3.0/scopeFilter';
+import { loadAnalysisConfig } from '../version3.0/analysisConfig';
 
 /**
  * 分析统计信息
@@ -21,9 +24,27 @@ interface AnalysisStats {
     totalClasses: number;
     totalMethods: number;
     analyzedMethods: number;
+    /** 无 CFG 的方法 */
+    skippedMethods: number;
+    /** 求解器抛出异常的方法 */
+    failedMethods: number;
     issuesFound: number;
 }
 
+/**
+ * 分析器内部错误
+ */
+interface AnalysisError {
+    file: string;
+    className: string;
+    methodName: string;
+    signature: string;
+    /** 生命周期阶段（按方法名识别 Ability / Component 生命周期），非生命周期方法为 null */
+    phase: string | null;
+    message: string;
+    stack: string | null;
+}
+
 /**
  * 未定义变量问题
  */
@@ -43,17 +64,23 @@ class OpenEyeAnalyzer {
     private scene: Scene;
     private stats: AnalysisStats;
     private issues: UndefinedIssue[];
+    private errors: AnalysisError[];
+    private scope: ScopeFilter;
     
-    constructor(scene: Scene) {
+    constructor(scene: Scene, scope: ScopeFilter = new ScopeFilter({ excludeClasses: [] })) {
         this.scene = scene;
+        this.scope = scope;
         this.stats = {
             totalFiles: 0,
             totalClasses: 0,
             totalMethods: 0,
             analyzedMethods: 0,
+            skippedMethods: 0,
+            failedMethods: 0,
             issuesFound: 0
         };
         this.issues = [];
+        this.errors = [];
     }
     
     /**
@@ -82,14 +109,14 @@ class OpenEyeAnalyzer {
     private analyzeFile(file: ArkFile): void {
         const fileName = file.getName();
         
-        // 跳过测试文件
-        if (fileName.includes('test') || fileName.includes('Test')) {
+        // 按配置的 include / exclude 过滤文件
+        if (!this.scope.acceptFile(fileName)) {
             return;
         }
         
         console.log(`\n📄 分析文件: ${fileName}`);
         
-        const classes = file.getClasses();
+        const classes = file.getClasses().filter(cls => this.scope.acceptClass(cls.getName(), fileName));
         this.stats.totalClasses += classes.length;
         
         for (const cls of classes) {
@@ -124,10 +151,9 @@ class OpenEyeAnalyzer {
             return;
         }
         
-        this.stats.analyzedMethods++;
-        
         const cfg = method.getCfg();
         if (!cfg) {
+            this.stats.skippedMethods++;
             return;
         }
         
@@ -141,8 +167,18 @@ class OpenEyeAnalyzer {
                 this.checkStatement(stmt, method, className, fileName);
             }
             
+            this.stats.analyzedMethods++;
         } catch (error) {
-            // 静默处理分析错误
+            this.stats.failedMethods++;
+            this.errors.push({
+                file: fileName,
+                className,
+                methodName,
+                signature: method.getSignature().toString(),
+                phase: LIFECYCLE_METHOD_NAME.includes(methodName) || COMPONENT_LIFECYCLE_METHOD_NAME.includes(methodName) ? methodName : null,
+                message: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack ?? null : null
+            });
         }
     }
     
@@ -198,6 +234,13 @@ class OpenEyeAnalyzer {
         }
     }
     
+    /**
+     * 分析过程中的内部错误数
+     */
+    public getErrorCount(): number {
+        return this.errors.length;
+    }
+    
     /**
      * 添加问题
      */
@@ -220,8 +263,33 @@ class OpenEyeAnalyzer {
         console.log(`   类数量: ${this.stats.totalClasses}`);
         console.log(`   方法总数: ${this.stats.totalMethods}`);
         console.log(`   已分析方法: ${this.stats.analyzedMethods}`);
+        console.log(`   跳过方法: ${this.stats.skippedMethods} (无 CFG)`);
+        console.log(`   分析失败: ${this.stats.failedMethods}`);
         console.log(`   发现问题: ${this.stats.issuesFound}`);
         
+        // 排除范围
+        const excludedFiles = this.scope.getExcludedFiles();
+        const excludedClasses = this.scope.getExcludedClasses();
+        if (excludedFiles.length > 0 || excludedClasses.length > 0) {
+            console.log('\n⏭️  排除范围:');
+            for (const exclusion of [...excludedFiles, ...excludedClasses]) {
+                console.log(`   • ${exclusion.target}  ← ${exclusion.rule}`);
+            }
+        }
+        
+        // 内部错误：这些方法没有被真正分析，问题数可能偏低
+        if (this.errors.length > 0) {
+            console.log(`\n❌ 分析失败的方法 (${this.errors.length} 个${this.errors.length > 10 ? '，前10个' : ''}):`);
+            for (const error of this.errors.slice(0, 10)) {
+                console.log(`   • ${error.signature}${error.phase ? ` [${error.phase}]` : ''}`);
+                console.log(`     ${error.message}`);
+                const frame = (error.stack ?? '').split('\n').find(line => line.trim().startsWith('at '));
+                if (frame) {
+                    console.log(`     ${frame.trim()}`);
+                }
+            }
+        }
+        
         // 问题详情
         if (this.issues.length > 0) {
             console.log('\n⚠️  发现的潜在问题:\n');
@@ -290,8 +358,10 @@ class OpenEyeAnalyzer {
 
 /**
  * 主函数
+ *
+ * `strict` 为 true 时，出现内部错误即以退出码 1 结束
  */
-function analyzeOpenEyeProject(): void {
+function analyzeOpenEyeProject(strict: boolean): void {
     console.log('='.repeat(80));
     console.log('🔬 HarmoneyOpenEye 项目 UndefinedVariable 数据流分析');
     console.log('='.repeat(80));
@@ -316,17 +386,26 @@ function analyzeOpenEyeProject(): void {
         scene.inferTypes();
         console.log('   ✓ 类型推导完成');
         
-        // 4. 创建分析器并执行分析
-        const analyzer = new OpenEyeAnalyzer(scene);
+        // 4. 创建分析器并执行分析（类名过滤仅在配置中显式给出时生效）
+        const analysisConfig = loadAnalysisConfig(configPath);
+        const scope = new ScopeFilter({ ...analysisConfig, excludeClasses: analysisConfig.excludeClasses ?? [] });
+        const analyzer = new OpenEyeAnalyzer(scene, scope);
         analyzer.analyze();
         
+        if (strict && analyzer.getErrorCount() > 0) {
+            console.error(`\n❌ 严格模式: ${analyzer.getErrorCount()} 个方法分析失败`);
+            process.exitCode = 1;
+            return;
+        }
+        
         console.log('\n✅ 分析完成！');
         
     } catch (error) {
         console.error('\n❌ 分析失败:', error);
         console.error(error);
+        process.exitCode = 1;
     }
 }
 
 // 执行分析
-analyzeOpenEyeProject();
+analyzeOpenEyeProject(process.argv.includes('--strict'));
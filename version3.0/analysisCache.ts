@@ -0,0 +1,383 @@
+// analysisCache.ts - 按文件内容哈希的分析缓存
+// 整体结果缓存：源码、配置、Pass 和分析器版本都未变化时跳过 Scene 构建，直接复用上次结果
+// 方法级缓存：未定义变量求解和数据流提取结果按所在文件及其导入文件的内容哈希复用，修改一个文件只重新分析受影响的方法
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { ANALYZER_VERSION, AnalysisResult, CallGraphData, DataFlowInfo, ModuleInfo } from './types';
+import { t } from './i18n';
+
+/**
+ * 缓存格式版本，缓存结构变化时递增
+ */
+const CACHE_FORMAT = 4;
+
+/**
+ * import / export ... from 语句和动态 import() 中的模块说明符
+ */
+const IMPORT_PATTERN = /\b(?:import|export)\b[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]|\bimport\s*\(?\s*['"]([^'"]+)['"]/g;
+
+/**
+ * 相对导入省略扩展名时依次尝试的后缀
+ */
+const IMPORT_SUFFIXES = ['', '.ets', '.ts', '/index.ets', '/index.ts'];
+
+/**
+ * 参与哈希的源文件扩展名（含模块配置）
+ */
+const SOURCE_EXTENSIONS = ['.ets', '.ts', '.json5'];
+
+/**
+ * 不参与哈希的目录
+ */
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'oh_modules', 'build', '.hvigor', '.git', '.idea', '.preview']);
+
+/**
+ * 语句级的未定义变量检查结果（所属方法、模块、严重程度等字段由当前分析重新生成）
+ */
+export interface CachedStatementIssue {
+    line: number;
+    column: number;
+    statement: string;
+}
+
+/**
+ * 方法中的一条数据流（来源方法名和文件由当前分析重新生成）
+ */
+export type CachedDataFlow = Omit<DataFlowInfo, 'from' | 'filePath'>;
+
+/**
+ * 一个方法各种分析的缓存结果，未执行过的分析没有对应字段
+ */
+export interface CachedMethodResults {
+    undefined?: CachedStatementIssue[];
+    dataflow?: CachedDataFlow[];
+}
+
+/**
+ * 可按方法缓存的分析
+ */
+export type CachedMethodKind = keyof CachedMethodResults;
+
+/**
+ * 缓存的整体分析结果
+ */
+export interface CachedRun {
+    result: AnalysisResult;
+    /** 完整调用图，供 DOT 导出使用 */
+    fullCallGraph: CallGraphData | null;
+    /** 分析阶段生成的产物 */
+    artifacts: string[];
+}
+
+interface ResultCacheFile {
+    format: number;
+    key: string;
+    run: CachedRun;
+}
+
+interface MethodCacheFile {
+    format: number;
+    version: string;
+    /** 文件依赖哈希 -> 方法签名 -> 各分析的结果 */
+    files: Record<string, Record<string, CachedMethodResults>>;
+}
+
+/**
+ * 相对项目目录的路径是否为参与哈希的源文件
+ */
+export function isSourcePath(relativePath: string): boolean {
+    const segments = relativePath.split(/[\\/]/);
+    return SOURCE_EXTENSIONS.includes(path.extname(relativePath))
+        && !segments.slice(0, -1).some(segment => IGNORED_DIRECTORIES.has(segment));
+}
+
+/**
+ * 计算字符串或文件内容的 SHA-256
+ */
+export function sha256(content: string | Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 计算项目目录下全部源文件的内容哈希，键为相对项目目录的路径（/ 分隔）
+ */
+export function hashProjectFiles(projectDirectory: string): Map<string, string> {
+    const hashes = new Map<string, string>();
+    const walk = (dir: string): void => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!IGNORED_DIRECTORIES.has(entry.name)) {
+                    walk(fullPath);
+                }
+            } else if (SOURCE_EXTENSIONS.includes(path.extname(entry.name))) {
+                const relative = path.relative(projectDirectory, fullPath).split(path.sep).join('/');
+                hashes.set(relative, sha256(fs.readFileSync(fullPath)));
+            }
+        }
+    };
+    walk(projectDirectory);
+    return hashes;
+}
+
+/**
+ * 提取源码中导入的模块说明符（相对路径或包名）
+ */
+export function parseImports(source: string): string[] {
+    const specifiers: string[] = [];
+    for (const match of source.matchAll(IMPORT_PATTERN)) {
+        specifiers.push(match[1] ?? match[2]);
+    }
+    return specifiers;
+}
+
+/**
+ * 把导入解析为项目内的文件（相对项目目录，/ 分隔），无法解析到项目内时返回空数组
+ *
+ * 相对路径按 .ets / .ts / index 补全；包名（含 `包名/子路径`）对应本工程的 HSP / HAR 模块时
+ * 解析为该模块的全部源文件，系统 API（@kit.* / @ohos.*）和三方包不参与
+ */
+function resolveImport(
+    fromFile: string,
+    specifier: string,
+    fileHashes: Map<string, string>,
+    moduleFiles: Map<string, string[]>
+): string[] {
+    if (specifier.startsWith('.')) {
+        const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier));
+        const resolved = IMPORT_SUFFIXES.map(suffix => base + suffix).find(candidate => fileHashes.has(candidate));
+        return resolved ? [resolved] : [];
+    }
+    for (const [packageName, files] of moduleFiles) {
+        if (specifier === packageName || specifier.startsWith(`${packageName}/`)) {
+            return files;
+        }
+    }
+    return [];
+}
+
+/**
+ * 项目内源文件的导入关系：文件 -> 它直接导入的项目内文件
+ */
+export function buildImportGraph(
+    projectDirectory: string,
+    fileHashes: Map<string, string>,
+    modules: ModuleInfo[]
+): Map<string, string[]> {
+    const moduleFiles = new Map<string, string[]>();
+    for (const module of modules) {
+        const prefix = module.srcPath.replace(/^\.\/?/, '').replace(/\/$/, '');
+        if (module.packageName && prefix) {
+            moduleFiles.set(module.packageName, Array.from(fileHashes.keys()).filter(file => file.startsWith(`${prefix}/`)));
+        }
+    }
+
+    const imports = new Map<string, string[]>();
+    for (const file of fileHashes.keys()) {
+        if (path.extname(file) === '.json5') {
+            continue;
+        }
+        const source = fs.readFileSync(path.join(projectDirectory, file), 'utf-8');
+        imports.set(file, parseImports(source).flatMap(specifier => resolveImport(file, specifier, fileHashes, moduleFiles)));
+    }
+    return imports;
+}
+
+/**
+ * 沿导入关系可达的全部文件（含起点）
+ */
+export function collectReachable(graph: Map<string, string[]>, start: Iterable<string>): Set<string> {
+    const reachable = new Set<string>(start);
+    const pending = Array.from(reachable);
+    while (pending.length > 0) {
+        for (const next of graph.get(pending.pop()!) ?? []) {
+            if (!reachable.has(next)) {
+                reachable.add(next);
+                pending.push(next);
+            }
+        }
+    }
+    return reachable;
+}
+
+/**
+ * 反转导入关系：文件 -> 直接导入它的文件
+ */
+export function invertImportGraph(graph: Map<string, string[]>): Map<string, string[]> {
+    const importers = new Map<string, string[]>();
+    for (const [file, dependencies] of graph) {
+        for (const dependency of dependencies) {
+            const list = importers.get(dependency) ?? [];
+            list.push(file);
+            importers.set(dependency, list);
+        }
+    }
+    return importers;
+}
+
+/**
+ * 计算各源文件的依赖哈希：文件自身及其直接、间接导入的项目内文件的内容哈希
+ *
+ * 过程间求解的结果取决于被调用方法的实现，方法级缓存以此为键，
+ * 被导入的文件（包括跨模块导入的 HSP / HAR）变化时导入方的方法也会重新求解
+ */
+export function computeDependencyHashes(
+    projectDirectory: string,
+    fileHashes: Map<string, string>,
+    modules: ModuleInfo[]
+): Map<string, string> {
+    const imports = buildImportGraph(projectDirectory, fileHashes, modules);
+    const dependencyHashes = new Map<string, string>();
+    for (const [file, hash] of fileHashes) {
+        const dependencies = Array.from(collectReachable(imports, [file]))
+            .filter(dependency => dependency !== file)
+            .sort()
+            .map(dependency => `${dependency}:${fileHashes.get(dependency)}`);
+        dependencyHashes.set(file, dependencies.length === 0 ? hash : sha256([hash, ...dependencies].join('\n')));
+    }
+    return dependencyHashes;
+}
+
+/**
+ * 整体结果的缓存键：分析器版本 + 全部源文件哈希 + 其他影响结果的输入
+ */
+export function computeResultKey(fileHashes: Map<string, string>, inputs: string[]): string {
+    const files = Array.from(fileHashes.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([file, hash]) => `${file}:${hash}`);
+    return sha256([`format:${CACHE_FORMAT}`, `version:${ANALYZER_VERSION}`, ...inputs, ...files].join('\n'));
+}
+
+/**
+ * 读取 JSON 文件，不存在或损坏时返回 null
+ */
+function readJson<T>(filePath: string): T | null {
+    try {
+        return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T : null;
+    } catch {
+        return null;
+    }
+}
+
+function writeJson(filePath: string, data: unknown): void {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    // 先写临时文件再改名，避免中断时留下损坏的缓存
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data), 'utf-8');
+    fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * 磁盘缓存
+ */
+export class AnalysisCache {
+    private cacheDir: string;
+    private log: Logger;
+    /** 文件路径 -> 依赖哈希（见 computeDependencyHashes） */
+    private dependencyHashes: Map<string, string>;
+    private methods: MethodCacheFile['files'] = {};
+    /** 本次运行用到的方法级结果，保存时只保留这些，旧文件版本的条目随之清除 */
+    private usedMethods: MethodCacheFile['files'] = {};
+    /** 本次查询过的分析 */
+    private usedKinds = new Set<CachedMethodKind>();
+    private hits = 0;
+    private misses = 0;
+
+    constructor(cacheDir: string, dependencyHashes: Map<string, string>, log: Logger = () => undefined) {
+        this.cacheDir = cacheDir;
+        this.dependencyHashes = dependencyHashes;
+        this.log = log;
+
+        const cached = readJson<MethodCacheFile>(path.join(cacheDir, 'methods.json'));
+        if (cached && cached.format === CACHE_FORMAT && cached.version === ANALYZER_VERSION) {
+            this.methods = cached.files;
+        }
+    }
+
+    /**
+     * 读取整体结果缓存，键不一致时返回 null
+     */
+    public loadRun(key: string): CachedRun | null {
+        const cached = readJson<ResultCacheFile>(path.join(this.cacheDir, 'result.json'));
+        if (!cached || cached.format !== CACHE_FORMAT || cached.key !== key) {
+            return null;
+        }
+        return cached.run;
+    }
+
+    public saveRun(key: string, run: CachedRun): void {
+        this.write('result.json', { format: CACHE_FORMAT, key, run });
+    }
+
+    /**
+     * 读取方法的一种分析结果，所在文件或其导入的文件变化、未缓存时返回 null
+     */
+    public getMethodResult<K extends CachedMethodKind>(kind: K, filePath: string, methodSignature: string): CachedMethodResults[K] | null {
+        this.usedKinds.add(kind);
+        const dependencyHash = this.dependencyHashes.get(filePath);
+        const value = dependencyHash ? this.methods[dependencyHash]?.[methodSignature]?.[kind] : undefined;
+        if (!dependencyHash || !value) {
+            this.misses++;
+            return null;
+        }
+        this.hits++;
+        this.setMethodResult(kind, filePath, methodSignature, value);
+        return value;
+    }
+
+    /**
+     * 是否有可用的方法级结果（不计入命中统计）
+     */
+    public hasMethodResult(kind: CachedMethodKind, filePath: string, methodSignature: string): boolean {
+        const dependencyHash = this.dependencyHashes.get(filePath);
+        return !!dependencyHash && !!this.methods[dependencyHash]?.[methodSignature]?.[kind];
+    }
+
+    public setMethodResult<K extends CachedMethodKind>(kind: K, filePath: string, methodSignature: string, value: CachedMethodResults[K]): void {
+        const dependencyHash = this.dependencyHashes.get(filePath);
+        if (dependencyHash) {
+            ((this.usedMethods[dependencyHash] ??= {})[methodSignature] ??= {})[kind] = value;
+        }
+    }
+
+    /**
+     * 保存方法级缓存并输出命中情况
+     */
+    public saveMethods(): void {
+        // 本次未执行逐方法分析时保留原有缓存
+        if (this.usedKinds.size === 0) {
+            return;
+        }
+        // 本次未执行的分析保留依赖哈希仍有效的旧结果
+        const current = new Set(this.dependencyHashes.values());
+        for (const [dependencyHash, methods] of Object.entries(this.methods)) {
+            if (!current.has(dependencyHash)) {
+                continue;
+            }
+            for (const [methodSignature, results] of Object.entries(methods)) {
+                const kept = Object.entries(results).filter(([kind]) => !this.usedKinds.has(kind as CachedMethodKind));
+                if (kept.length > 0) {
+                    const entry = ((this.usedMethods[dependencyHash] ??= {})[methodSignature] ??= {});
+                    Object.assign(entry, Object.fromEntries(kept));
+                }
+            }
+        }
+        this.log(`   💾 ${t('cache.methods', { hits: this.hits, misses: this.misses })}`);
+        this.write('methods.json', { format: CACHE_FORMAT, version: ANALYZER_VERSION, files: this.usedMethods });
+    }
+
+    private write(fileName: string, data: unknown): void {
+        try {
+            writeJson(path.join(this.cacheDir, fileName), data);
+        } catch (error) {
+            // 缓存写入失败不影响分析结果
+            this.log(`   ⚠️  ${t('cache.writeFailed', { error: String(error) })}`);
+        }
+    }
+}
@@ -0,0 +1,63 @@
+// analysisConfig.ts - 分析配置加载
+// SceneConfig 只读取项目路径，这里读取同一个 config.json 中的分析相关设置
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { AnalysisPass, PassSettings } from './passes';
+import { ScopeConfig } from './scopeFilter';
+import { GateConfig } from './qualityGates';
+import { t } from './i18n';
+
+/**
+ * config.json 中的分析设置
+ */
+export interface AnalysisConfig extends Partial<ScopeConfig> {
+    targetProjectName?: string;
+    targetProjectDirectory: string;
+    /** 按 Pass 名称开关和配置 */
+    passes: Record<string, PassSettings>;
+    /** 自定义 Pass 模块路径（相对配置文件） */
+    passModules: string[];
+    /** 基线文件路径（相对配置文件） */
+    baseline?: string;
+    /** 质量门禁阈值 */
+    gates?: GateConfig;
+}
+
+/**
+ * 读取配置文件
+ */
+export function loadAnalysisConfig(configPath: string): AnalysisConfig {
+    const raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    return {
+        targetProjectName: raw.targetProjectName,
+        targetProjectDirectory: raw.targetProjectDirectory,
+        passes: raw.passes ?? {},
+        passModules: raw.passModules ?? [],
+        baseline: raw.baseline,
+        gates: raw.gates,
+        include: raw.include,
+        exclude: raw.exclude,
+        excludeClasses: raw.excludeClasses
+    };
+}
+
+/**
+ * 加载自定义 Pass 模块
+ *
+ * 模块可以导出 `passes` 数组，或以默认导出提供单个 Pass / Pass 数组。
+ */
+export function loadPassModules(modules: string[], baseDir: string): AnalysisPass[] {
+    const passes: AnalysisPass[] = [];
+    for (const modulePath of modules) {
+        const resolved = path.resolve(baseDir, modulePath);
+        const loaded = require(resolved);
+        const exported = loaded.passes ?? loaded.default ?? [];
+        const list: AnalysisPass[] = Array.isArray(exported) ? exported : [exported];
+        if (list.length === 0) {
+            throw new Error(t('config.error.noPasses', { path: resolved }));
+        }
+        passes.push(...list);
+    }
+    return passes;
+}
@@ -0,0 +1,6 @@
+// analysisWorker.ts - 并行分析的工作线程入口
+// 每个工作线程按配置独立构建 Scene，分析分配到的方法后把结果发回主线程
+import { serveWorker } from './workerPool';
+import { analyzeMethodShard } from './methodAnalysis';
+
+serveWorker(analyzeMethodShard);
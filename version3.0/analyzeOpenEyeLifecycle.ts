@@ -5,11 +5,9 @@ import {
     SceneConfig, 
     ArkMethod, 
     ArkClass,
-    DummyMainCreater,
     CallGraph,
     Cfg,
-    UndefinedVariableChecker,
-    UndefinedVariableSolver
+    MethodSignature
 } from "../../arkanalyzer/src/index";
 
 // ✅ 导入框架的完整生命周期定义
@@ -20,21 +18,64 @@ import {
 } from "../../arkanalyzer/src/utils/entryMethodUtils";
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
-/**
- * 生命周期方法类型
- */
-enum LifecycleType {
-    ABILITY = 'Ability',
-    COMPONENT = 'Component',
-    CALLBACK = 'Callback'
-}
+import {
+    LifecycleType,
+    LifecycleMethodRecord,
+    DataFlowInfo,
+    UndefinedIssue,
+    AnalysisStats,
+    CoverageStats,
+    AnalysisStep,
+    AnalyzeOptions,
+    AnalysisResult,
+    Finding,
+    CrossModuleCall,
+    ModuleSummary,
+    CallGraphData,
+    CallGraphNode,
+    Diagnostic,
+    MethodAnalysisSummary,
+    SuppressedFinding,
+    SourceSnippet,
+    IncrementalReport,
+    UNDEFINED_ACCESS_RULE,
+    LISTENER_CLEANUP_RULE
+} from './types';
+import { AnalysisPass, PassContext, PassPhase, PassRegistry } from './passes';
+import { createDefaultRegistry } from './builtinPasses';
+import { AnalysisConfig, loadAnalysisConfig, loadPassModules } from './analysisConfig';
+import { ScopeFilter } from './scopeFilter';
+import { discoverModules, singleModule, ModuleResolver } from './projectModules';
+import { DotExportOptions, writeCallGraphDot } from './callGraphDot';
+import { BaselineFile, applyBaseline, createBaseline, loadBaseline, writeBaseline } from './baseline';
+import { SuppressionIndex } from './suppressions';
+import { SourceFiles } from './sourceSnippets';
+import { ChangeSet } from './gitDiff';
+import { AnalysisCache, CachedRun, computeDependencyHashes, computeResultKey, hashProjectFiles, sha256 } from './analysisCache';
+import { Profiler } from './profiler';
+import {
+    MethodAnalysisKind,
+    MethodOutcome,
+    MethodShard,
+    MethodTask,
+    extractDataFlows,
+    mergeShardOutcomes,
+    shardTasks,
+    solveUndefinedVariables
+} from './methodAnalysis';
+import { WorkerOutcome, runWorkersSync } from './workerPool';
+import { buildLifecycleCallGraph, buildScene, buildSceneFromFiles } from './sceneBuilder';
+import { exportDataFlowToJson, exportDataFlowToMarkdown } from './dataFlowExport';
+import { EXIT_CODES, GateResult, evaluateGates, gateExitCode, printGateSummary, requiredPassesForGates } from './qualityGates';
+import { formatMessage, setLocale, t } from './i18n';
 
 /**
  * 生命周期方法信息
  */
-interface LifecycleMethodInfo {
+export interface LifecycleMethodInfo {
     method: ArkMethod;
     type: LifecycleType;
     phase: string;
@@ -42,56 +83,68 @@ interface LifecycleMethodInfo {
     filePath: string;
     lineNumber: number;
     hasImplementation: boolean;
+    module: string;
 }
 
 /**
- * 数据流信息
+ * 进度日志输出函数
  */
-interface DataFlowInfo {
-    from: string;
-    to: string;
-    variable: string;
-    line: number;
-    callChain: string[];
+export type Logger = (message: string) => void;
+
+/**
+ * 分析器选项
+ */
+export interface AnalyzerOptions {
+    log?: Logger;
+    scope?: ScopeFilter;
+    modules?: ModuleResolver;
+    /** 源码中的 openeye-ignore 注释，未提供时不做抑制 */
+    suppressions?: SuppressionIndex;
+    /** 项目源码，用于为问题附上源码片段；未提供时不附片段 */
+    sources?: SourceFiles;
+    /** 方法级分析缓存，未提供时每次重新求解 */
+    cache?: AnalysisCache;
+    /** 性能分析器，未提供时不计时 */
+    profiler?: Profiler;
+    /** 在工作线程中执行逐方法分析，未提供时串行执行 */
+    parallel?: ParallelOptions;
 }
 
 /**
- * 未定义变量问题
+ * 并行分析选项
  */
-interface UndefinedIssue {
-    method: string;
-    className: string;
-    line: number;
-    description: string;
-    severity: 'high' | 'medium' | 'low';
+export interface ParallelOptions {
+    /** 工作线程按此配置文件重新构建 Scene */
+    configPath: string;
+    workers: number;
+    /** 本次要执行的逐方法分析，首次需要时一起分发 */
+    kinds: MethodAnalysisKind[];
 }
 
 /**
- * 分析结果统计
+ * 模块内的文件、类、方法与调用计数
  */
-interface AnalysisStats {
-    totalFiles: number;
-    totalClasses: number;
-    totalMethods: number;
-    abilityClasses: number;
-    componentClasses: number;
-    lifecycleMethods: number;
-    callGraphNodes: number;
-    callGraphEdges: number;
-    dataFlowPaths: number;
-    undefinedIssues: number;
+interface ModuleCounts {
+    files: number;
+    classes: number;
+    methods: number;
+    internalCalls: number;
+    crossModuleCalls: number;
+    unresolvedCalls: number;
 }
 
 /**
- * 生命周期覆盖统计
+ * 无法归属到任何模块的文件所用的模块名
  */
-interface CoverageStats {
-    methodName: string;
-    isDefined: boolean;
-    isUsed: boolean;
-    usageCount: number;
-    classes: string[];
-    files: string[];
+const UNKNOWN_MODULE = '(unknown)';
+
+/**
+ * 还原工作线程中抛出的异常
+ */
+function toError(error: { message: string; stack: string | null }): Error {
+    const restored = new Error(error.message);
+    restored.stack = error.stack ?? restored.stack;
+    return restored;
 }
 
 /**
@@ -104,13 +157,31 @@ interface CoverageStats {
  * 4. ✅ 区分定义的 vs 实际使用的生命周期
  * 5. ✅ 详细的覆盖率分析和推荐
  */
-class OpenEyeLifecycleAnalyzerV3 {
+export class OpenEyeLifecycleAnalyzerV3 {
     private scene: Scene;
     private lifecycleMethods: LifecycleMethodInfo[] = [];
     private callGraph: CallGraph | null = null;
+    /** 已执行调用图构建（生成 @dummyMain 会改变 Scene） */
+    private callGraphRequested = false;
     private dataFlows: DataFlowInfo[] = [];
     private undefinedIssues: UndefinedIssue[] = [];
+    private findings: Finding[] = [];
+    private diagnostics: Diagnostic[] = [];
+    private methodSummaries: Record<string, MethodAnalysisSummary> = {};
+    private baseline: { file: BaselineFile; path: string } | null = null;
+    private changes: ChangeSet | null = null;
     private stats: AnalysisStats;
+    private log: Logger;
+    private scope: ScopeFilter;
+    private modules: ModuleResolver;
+    private suppressions: SuppressionIndex | null;
+    private sources: SourceFiles | null;
+    private cache: AnalysisCache | null;
+    private profiler: Profiler | null;
+    private parallel: ParallelOptions | null;
+    private parallelOutcomes: Map<string, MethodOutcome> | null = null;
+    private moduleCounts: Map<string, ModuleCounts> = new Map();
+    private crossModuleCalls: Map<string, CrossModuleCall> = new Map();
     
     // 生命周期覆盖统计
     private abilityLifecycleStats: Map<string, CoverageStats> = new Map();
@@ -126,8 +197,16 @@ class OpenEyeLifecycleAnalyzerV3 {
     // ✅ 使用框架的完整定义（16 种回调方法）
     private static readonly CALLBACK_METHODS = CALLBACK_METHOD_NAME;
     
-    constructor(scene: Scene) {
+    constructor(scene: Scene, options: AnalyzerOptions = {}) {
         this.scene = scene;
+        this.log = options.log ?? console.log;
+        this.scope = options.scope ?? new ScopeFilter();
+        this.modules = options.modules ?? new ModuleResolver([singleModule('default')]);
+        this.suppressions = options.suppressions ?? null;
+        this.sources = options.sources ?? null;
+        this.cache = options.cache ?? null;
+        this.profiler = options.profiler ?? null;
+        this.parallel = options.parallel && options.parallel.workers > 1 ? options.parallel : null;
         this.stats = {
             totalFiles: 0,
             totalClasses: 0,
@@ -189,8 +268,12 @@ class OpenEyeLifecycleAnalyzerV3 {
      * 识别生命周期方法
      */
     public identifyLifecycleMethods(): void {
-        console.log('\n🔍 识别生命周期方法...');
-        console.log(`   📋 框架定义: ${OpenEyeLifecycleAnalyzerV3.ABILITY_LIFECYCLE.length} 种 Ability + ${OpenEyeLifecycleAnalyzerV3.COMPONENT_LIFECYCLE.length} 种 Component = ${OpenEyeLifecycleAnalyzerV3.ABILITY_LIFECYCLE.length + OpenEyeLifecycleAnalyzerV3.COMPONENT_LIFECYCLE.length} 种生命周期`);
+        this.log(`\n🔍 ${t('analyze.lifecycle.start')}...`);
+        this.log(`   📋 ${t('analyze.lifecycle.defined', {
+            ability: OpenEyeLifecycleAnalyzerV3.ABILITY_LIFECYCLE.length,
+            component: OpenEyeLifecycleAnalyzerV3.COMPONENT_LIFECYCLE.length,
+            total: OpenEyeLifecycleAnalyzerV3.ABILITY_LIFECYCLE.length + OpenEyeLifecycleAnalyzerV3.COMPONENT_LIFECYCLE.length
+        })}`);
         
         const files = this.scene.getFiles();
         this.stats.totalFiles = files.length;
@@ -198,22 +281,25 @@ class OpenEyeLifecycleAnalyzerV3 {
         for (const file of files) {
             const fileName = file.getName();
             
-            // 跳过测试文件
-            if (fileName.includes('test') || fileName.includes('Test')) {
+            // 按配置的 include / exclude 过滤文件
+            if (!this.scope.acceptFile(fileName)) {
                 continue;
             }
             
+            const moduleName = this.modules.moduleOf(fileName) ?? UNKNOWN_MODULE;
+            const moduleCounts = this.getModuleCounts(moduleName);
+            moduleCounts.files++;
+            
             for (const cls of file.getClasses()) {
                 const className = cls.getName();
                 
-                // 跳过默认类和匿名类
-                if (className.includes('_DEFAULT_') || 
-                    className.includes('%AC') || 
-                    className.includes('%dflt')) {
+                // 按配置的类名模式过滤（默认排除默认类和匿名类）
+                if (!this.scope.acceptClass(className, fileName)) {
                     continue;
                 }
                 
                 this.stats.totalClasses++;
+                moduleCounts.classes++;
                 
                 const isAbility = this.isAbilityClass(cls);
                 const isComponent = this.isComponentClass(cls);
@@ -224,6 +310,7 @@ class OpenEyeLifecycleAnalyzerV3 {
                 for (const method of cls.getMethods()) {
                     const methodName = method.getName();
                     this.stats.totalMethods++;
+                    moduleCounts.methods++;
                     
                     const lineCol = method.getLineCol() || 0;
                     const cfg = method.getCfg();
@@ -238,7 +325,8 @@ class OpenEyeLifecycleAnalyzerV3 {
                             className: className,
                             filePath: fileName,
                             lineNumber: lineCol,
-                            hasImplementation: hasImpl
+                            hasImplementation: hasImpl,
+                            module: moduleName
                         });
                         
                         const stat = this.abilityLifecycleStats.get(methodName)!;
@@ -261,7 +349,8 @@ class OpenEyeLifecycleAnalyzerV3 {
                             className: className,
                             filePath: fileName,
                             lineNumber: lineCol,
-                            hasImplementation: hasImpl
+                            hasImplementation: hasImpl,
+                            module: moduleName
                         });
                         
                         const stat = this.componentLifecycleStats.get(methodName)!;
@@ -279,11 +368,12 @@ class OpenEyeLifecycleAnalyzerV3 {
         }
         
         this.stats.lifecycleMethods = this.lifecycleMethods.length;
-        console.log(`   ✓ 扫描完成`);
-        console.log(`   📦 总类数: ${this.stats.totalClasses}`);
-        console.log(`   📱 Ability 类: ${this.stats.abilityClasses}`);
-        console.log(`   🎨 Component 类: ${this.stats.componentClasses}`);
-        console.log(`   ✅ 发现生命周期方法: ${this.lifecycleMethods.length} 个实例`);
+        this.log(`   ✓ ${t('analyze.lifecycle.scanned')}`);
+        this.log(`   📦 ${t('analyze.lifecycle.classes', { count: this.stats.totalClasses })}`);
+        this.log(`   📱 ${t('report.stats.abilityClasses')}: ${this.stats.abilityClasses}`);
+        this.log(`   🎨 ${t('report.stats.componentClasses')}: ${this.stats.componentClasses}`);
+        this.log(`   ✅ ${t('analyze.lifecycle.found', { count: this.lifecycleMethods.length })}`);
+        this.log(`   ⏭️  ${t('analyze.lifecycle.excluded', { files: this.scope.getExcludedFiles().length, classes: this.scope.getExcludedClasses().length })}`);
     }
     
     /**
@@ -329,51 +419,37 @@ class OpenEyeLifecycleAnalyzerV3 {
      * 构建调用图（使用 DummyMainCreater）
      */
     public buildCallGraph(): void {
-        console.log('\n📊 构建调用图（使用 DummyMainCreater）...');
+        this.log(`\n📊 ${t('analyze.callgraph.start')}...`);
         
+        // 并行分析的工作线程按同样的步骤构建调用图
+        this.callGraphRequested = true;
         try {
             // ✅ 使用框架的 DummyMainCreater
-            // 它会自动收集所有 26+17=43 种生命周期方法
-            const dummyMainCreater = new DummyMainCreater(this.scene);
-            dummyMainCreater.createDummyMain();
-            console.log('   ✓ DummyMainCreater 已创建虚拟入口: @dummyMain');
-            
-            // 获取 DummyMain 收集的入口方法
-            const dummyMain = dummyMainCreater.getDummyMain();
-            console.log(`   ✓ DummyMain 方法签名: ${dummyMain.getSignature()}`);
-            
-            // 使用 @dummyMain 作为入口构建调用图
-            const entryMethods = this.scene.getMethods().filter((m: ArkMethod) => 
-                m.getName() === '@dummyMain'
+            // 它会自动收集所有 26+17=43 种生命周期方法，以 @dummyMain 作为入口构建调用图
+            const built = buildLifecycleCallGraph(
+                this.scene,
+                this.lifecycleMethods.map(lm => lm.method.getSignature()),
+                (name, fn) => this.measure(name, fn)
             );
+            this.log(`   ✓ ${t('analyze.callgraph.dummyMain')}`);
+            this.log(`   ✓ ${t('analyze.callgraph.dummyMainSignature', { signature: built.dummyMainSignature })}`);
+            if (built.fallback) {
+                this.log(`   ⚠️  ${t('analyze.callgraph.noDummyMain')}`);
+                // 备用方案：使用所有生命周期方法作为入口
+                this.log(`   📝 ${t('analyze.callgraph.fallback')}`);
+            }
             
-            if (entryMethods.length > 0) {
-                const entryPoints = entryMethods.map((m: ArkMethod) => m.getSignature());
-                this.callGraph = this.scene.makeCallGraphCHA(entryPoints);
-                
+            this.callGraph = built.callGraph;
+            if (this.callGraph) {
                 this.stats.callGraphNodes = this.callGraph.getNodeNum();
                 this.stats.callGraphEdges = this.callGraph.getEdgeNum();
-                
-                console.log(`   ✓ 调用图构建完成`);
-                console.log(`   ✓ 节点数: ${this.stats.callGraphNodes}`);
-                console.log(`   ✓ 边数: ${this.stats.callGraphEdges}`);
-            } else {
-                console.log('   ⚠️  未找到 @dummyMain 方法');
-                
-                // 备用方案：使用所有生命周期方法作为入口
-                console.log('   📝 使用备用方案：所有生命周期方法作为入口');
-                const lifecycleEntryPoints = this.lifecycleMethods.map(lm => lm.method.getSignature());
-                if (lifecycleEntryPoints.length > 0) {
-                    this.callGraph = this.scene.makeCallGraphCHA(lifecycleEntryPoints);
-                    this.stats.callGraphNodes = this.callGraph.getNodeNum();
-                    this.stats.callGraphEdges = this.callGraph.getEdgeNum();
-                    console.log(`   ✓ 备用调用图构建完成`);
-                    console.log(`   ✓ 节点数: ${this.stats.callGraphNodes}`);
-                    console.log(`   ✓ 边数: ${this.stats.callGraphEdges}`);
-                }
+                this.log(`   ✓ ${t(built.fallback ? 'analyze.callgraph.fallbackBuilt' : 'analyze.callgraph.built')}`);
+                this.log(`   ✓ ${t('analyze.callgraph.nodes', { count: this.stats.callGraphNodes })}`);
+                this.log(`   ✓ ${t('analyze.callgraph.edges', { count: this.stats.callGraphEdges })}`);
             }
         } catch (error) {
-            console.error(`   ✗ 构建调用图失败: ${error}`);
+            console.error(`   ✗ ${t('analyze.callgraph.failed', { error: String(error) })}`);
+            this.recordError('callgraph', error);
         }
     }
     
@@ -381,67 +457,71 @@ class OpenEyeLifecycleAnalyzerV3 {
      * 分析未定义变量（使用 IFDS 框架）
      */
     public analyzeUndefinedVariables(): void {
-        console.log('\n🔬 分析未定义变量（生命周期方法）...');
+        this.log(`\n🔬 ${t('analyze.undefined.start')}...`);
         
-        let analyzedCount = 0;
+        const summary: MethodAnalysisSummary = { analyzed: 0, skipped: 0, failed: 0 };
+        this.methodSummaries.undefined = summary;
         let issueCount = 0;
         
         for (const lifecycleMethod of this.lifecycleMethods) {
             try {
                 const method = lifecycleMethod.method;
-                const cfg = method.getCfg();
+                const signature = method.getSignature().toString();
+                const methodName = `${lifecycleMethod.className}.${lifecycleMethod.phase}`;
+                let stmtIssues = this.cache?.getMethodResult('undefined', lifecycleMethod.filePath, signature) ?? null;
                 
-                if (!cfg || cfg.getBlocks().size === 0) {
-                    continue;
-                }
-                
-                analyzedCount++;
-                
-                // 获取方法的第一个基本块的第一个语句
-                const blocks = [...cfg.getBlocks()];
-                if (blocks.length > 0 && blocks[0].getStmts().length > 0) {
-                    const firstStmt = blocks[0].getStmts()[0];
-                    
-                    // 创建 UndefinedVariableChecker
-                    const problem = new UndefinedVariableChecker(firstStmt, method);
-                    const solver = new UndefinedVariableSolver(problem, this.scene);
-                    
-                    // 执行分析
-                    solver.solve();
-                    
-                    // 检查结果
-                    for (const stmt of cfg.getStmts()) {
-                        const stmtStr = stmt.toString();
-                        
-                        if (this.containsUndefinedRisk(stmtStr)) {
-                            issueCount++;
-                            this.undefinedIssues.push({
-                                method: `${lifecycleMethod.className}.${lifecycleMethod.phase}`,
-                                className: lifecycleMethod.className,
-                                line: stmt.getOriginPositionInfo().getLineNo(),
-                                description: `可能的未定义变量访问: ${stmtStr.substring(0, 60)}`,
-                                severity: this.assessSeverity(stmtStr)
-                            });
+                if (stmtIssues) {
+                    this.profiler?.recordCachedMethod('undefined', methodName, lifecycleMethod.filePath);
+                } else {
+                    const outcome = this.getParallelOutcome(lifecycleMethod);
+                    const parallel = outcome?.undefined;
+                    if (outcome && parallel) {
+                        this.profiler?.recordMethod('undefined', methodName, lifecycleMethod.filePath, parallel, outcome.worker);
+                        if ('error' in parallel) {
+                            throw toError(parallel.error);
                         }
+                        stmtIssues = parallel.value;
+                    } else {
+                        stmtIssues = solveUndefinedVariables(method, this.scene, solve => this.measureMethod('undefined', lifecycleMethod, solve));
                     }
+                    
+                    if (!stmtIssues) {
+                        summary.skipped++;
+                        continue;
+                    }
+                    this.cache?.setMethodResult('undefined', lifecycleMethod.filePath, signature, stmtIssues);
                 }
+                
+                for (const stmtIssue of stmtIssues) {
+                    issueCount++;
+                    this.undefinedIssues.push({
+                        ruleId: UNDEFINED_ACCESS_RULE,
+                        method: methodName,
+                        className: lifecycleMethod.className,
+                        phase: lifecycleMethod.phase,
+                        module: lifecycleMethod.module,
+                        filePath: lifecycleMethod.filePath,
+                        line: stmtIssue.line,
+                        column: stmtIssue.column,
+                        description: t('rule.undefined-access.message', { statement: stmtIssue.statement.substring(0, 60) }),
+                        statement: stmtIssue.statement,
+                        severity: this.assessSeverity(stmtIssue.statement)
+                    });
+                }
+                
+                summary.analyzed++;
             } catch (error) {
-                // 静默处理错误
+                summary.failed++;
+                this.recordError('undefined', error, lifecycleMethod);
             }
         }
         
         this.stats.undefinedIssues = issueCount;
-        console.log(`   ✓ 已分析 ${analyzedCount} 个生命周期方法`);
-        console.log(`   ✓ 发现 ${issueCount} 个潜在问题`);
-    }
-    
-    /**
-     * 检查语句是否包含未定义风险
-     */
-    private containsUndefinedRisk(stmtStr: string): boolean {
-        return stmtStr.includes('undefined') || 
-               stmtStr.includes('null') ||
-               (stmtStr.includes('fieldload') && stmtStr.includes('?'));
+        this.log(`   ✓ ${t('analyze.undefined.analyzed', { analyzed: summary.analyzed, skipped: summary.skipped, failed: summary.failed })}`);
+        this.log(`   ✓ ${t('analyze.undefined.found', { count: issueCount })}`);
+        if (summary.failed > 0) {
+            this.log(`   ⚠️  ${t('analyze.undefined.failed', { count: summary.failed })}`);
+        }
     }
     
     /**
@@ -461,618 +541,746 @@ class OpenEyeLifecycleAnalyzerV3 {
      * 分析数据流
      */
     public analyzeDataFlow(): void {
-        console.log('\n🔄 分析函数间数据流...');
+        this.log(`\n🔄 ${t('analyze.dataflow.start')}...`);
         
         if (!this.callGraph) {
-            console.log('   ⚠️  未构建调用图，跳过数据流分析');
+            this.log(`   ⚠️  ${t('analyze.dataflow.noCallGraph')}`);
             return;
         }
         
+        const summary: MethodAnalysisSummary = { analyzed: 0, skipped: 0, failed: 0 };
+        this.methodSummaries.dataflow = summary;
+        
         for (const lifecycleMethod of this.lifecycleMethods) {
-            this.analyzeMethodDataFlow(lifecycleMethod);
+            try {
+                const from = `${lifecycleMethod.className}.${lifecycleMethod.phase}`;
+                const filePath = lifecycleMethod.filePath;
+                const signature = lifecycleMethod.method.getSignature().toString();
+                const cached = this.cache?.getMethodResult('dataflow', filePath, signature) ?? null;
+                if (cached) {
+                    this.profiler?.recordCachedMethod('dataflow', from, filePath);
+                    this.dataFlows.push(...cached.map(flow => ({ from, filePath, ...flow, callChain: [...flow.callChain] })));
+                    summary.analyzed++;
+                    continue;
+                }
+                
+                let flows: DataFlowInfo[];
+                const outcome = this.getParallelOutcome(lifecycleMethod);
+                const parallel = outcome?.dataflow;
+                if (outcome && parallel) {
+                    this.profiler?.recordMethod('dataflow', from, filePath, parallel, outcome.worker);
+                    if ('error' in parallel) {
+                        throw toError(parallel.error);
+                    }
+                    flows = parallel.value;
+                } else {
+                    flows = this.measureMethod('dataflow', lifecycleMethod, () => extractDataFlows(lifecycleMethod.method, from, filePath));
+                }
+                this.cache?.setMethodResult('dataflow', filePath, signature, flows.map(({ from: _from, filePath: _filePath, ...flow }) => flow));
+                this.dataFlows.push(...flows);
+                summary.analyzed++;
+            } catch (error) {
+                // 单个方法失败（含工作线程中的失败）只记录诊断，不中断整个 Pass
+                summary.failed++;
+                this.recordError('dataflow', error, lifecycleMethod);
+            }
         }
         
         this.stats.dataFlowPaths = this.dataFlows.length;
-        console.log(`   ✓ 共发现 ${this.dataFlows.length} 条数据流路径`);
+        this.log(`   ✓ ${t('analyze.dataflow.found', { count: this.dataFlows.length })}`);
+        if (summary.failed > 0) {
+            this.log(`   ⚠️  ${t('analyze.dataflow.failed', { count: summary.failed })}`);
+        }
     }
     
     /**
-     * 分析单个方法的数据流
+     * 检查注册了监听却没有实现 aboutToDisappear 的组件
+     *
+     * `apis` 为视为注册监听的方法名（如 emitter.on 的 on）
      */
-    private analyzeMethodDataFlow(lifecycleMethod: LifecycleMethodInfo): void {
-        const method = lifecycleMethod.method;
-        const cfg = method.getCfg();
+    public analyzeListenerCleanup(apis: string[]): void {
+        this.log(`\n🎧 ${t('analyze.listeners.start')}...`);
         
-        if (!cfg) {
-            return;
-        }
+        let checkedCount = 0;
+        let missingCount = 0;
         
-        const callChain: string[] = [`${lifecycleMethod.className}.${lifecycleMethod.phase}`];
-        
-        for (const stmt of cfg.getStmts()) {
-            const exprs = stmt.getExprs();
-            for (const expr of exprs) {
-                const exprStr = expr.toString();
+        for (const file of this.scene.getFiles()) {
+            const fileName = file.getName();
+            if (!this.scope.acceptFile(fileName)) {
+                continue;
+            }
+            for (const cls of file.getClasses()) {
+                const className = cls.getName();
+                if (!this.scope.acceptClass(className, fileName) || !this.isComponentClass(cls)) {
+                    continue;
+                }
+                checkedCount++;
                 
-                if (exprStr.includes('invoke') || exprStr.includes('call')) {
-                    const position = stmt.getOriginPositionInfo();
-                    const targetMethod = this.extractMethodFromInvoke(exprStr);
-                    
-                    this.dataFlows.push({
-                        from: `${lifecycleMethod.className}.${lifecycleMethod.phase}`,
-                        to: targetMethod || exprStr.substring(0, 60),
-                        variable: 'data',
-                        line: position.getLineNo(),
-                        callChain: [...callChain, targetMethod || 'unknown']
-                    });
+                const hasCleanup = cls.getMethods().some((m: ArkMethod) => {
+                    const cfg = m.getCfg();
+                    return m.getName() === 'aboutToDisappear' && cfg !== null && cfg !== undefined && cfg.getBlocks().size > 0;
+                });
+                if (hasCleanup) {
+                    continue;
                 }
+                
+                const registration = this.findListenerRegistration(cls, apis);
+                if (!registration) {
+                    continue;
+                }
+                
+                missingCount++;
+                this.addFinding({
+                    ruleId: LISTENER_CLEANUP_RULE,
+                    message: '',
+                    messageId: 'rule.listener-without-cleanup.message',
+                    messageArgs: { method: registration.method, api: registration.api },
+                    severity: 'high',
+                    className,
+                    method: registration.method,
+                    filePath: fileName,
+                    line: registration.line,
+                    column: registration.column
+                });
             }
         }
+        
+        this.log(`   ✓ ${t('analyze.listeners.checked', { count: checkedCount })}`);
+        this.log(`   ✓ ${t('analyze.listeners.missing', { count: missingCount })}`);
     }
     
     /**
-     * 从 invoke 表达式中提取方法名
+     * 查找类中第一处注册监听的调用
      */
-    private extractMethodFromInvoke(invokeExpr: string): string | null {
-        const match = invokeExpr.match(/invoke\s+(\w+)\.<[^>]+:\s*\.(\w+)\(\)>/);
-        if (match) {
-            return `${match[1]}.${match[2]}`;
-        }
-        
-        const simpleMatch = invokeExpr.match(/\.(\w+)\(\)/);
-        if (simpleMatch) {
-            return simpleMatch[1];
+    private findListenerRegistration(
+        cls: ArkClass,
+        apis: string[]
+    ): { method: string; api: string; line: number; column: number } | null {
+        for (const method of cls.getMethods()) {
+            const cfg = method.getCfg();
+            if (!cfg) {
+                continue;
+            }
+            for (const stmt of cfg.getStmts()) {
+                const invokeExpr = stmt.getInvokeExpr();
+                if (!invokeExpr) {
+                    continue;
+                }
+                const api = invokeExpr.getMethodSignature().getMethodSubSignature().getMethodName();
+                if (apis.includes(api)) {
+                    const position = stmt.getOriginPositionInfo();
+                    return { method: method.getName(), api, line: position.getLineNo(), column: position.getColNo() };
+                }
+            }
         }
-        
         return null;
     }
     
     /**
-     * 生成详细报告
+     * 统计模块内调用、跨模块调用和未解析调用
      */
-    public generateDetailedReport(): void {
-        console.log('\n' + '='.repeat(80));
-        console.log('📋 Version 3.0 - 生命周期深度分析报告');
-        console.log('='.repeat(80));
+    public analyzeModules(): void {
+        this.log(`\n📦 ${t('analyze.modules.start')}...`);
         
-        this.printBasicStats();
-        this.printLifecycleCoverage();
-        this.printDetailedUsage();
-        this.printUnusedLifecycles();
-        this.printUndefinedIssues();
-        this.printDataFlowSummary();
-        this.printRecommendations();
+        for (const file of this.scene.getFiles()) {
+            const fileName = file.getName();
+            if (!this.scope.acceptFile(fileName)) {
+                continue;
+            }
+            const fromModule = this.modules.moduleOf(fileName) ?? UNKNOWN_MODULE;
+            const counts = this.getModuleCounts(fromModule);
+            
+            for (const cls of file.getClasses()) {
+                if (!this.scope.acceptClass(cls.getName(), fileName)) {
+                    continue;
+                }
+                for (const method of cls.getMethods()) {
+                    const cfg = method.getCfg();
+                    if (!cfg) {
+                        continue;
+                    }
+                    for (const stmt of cfg.getStmts()) {
+                        const invokeExpr = stmt.getInvokeExpr();
+                        if (!invokeExpr) {
+                            continue;
+                        }
+                        const calleeSignature = invokeExpr.getMethodSignature();
+                        const calleeFile = calleeSignature.getDeclaringClassSignature().getDeclaringFileSignature().getFileName();
+                        const scope = this.modules.classifyCall(fromModule, calleeFile);
+                        
+                        if (scope === 'unresolved') {
+                            counts.unresolvedCalls++;
+                        } else if (scope === 'internal') {
+                            counts.internalCalls++;
+                        } else {
+                            counts.crossModuleCalls++;
+                            const toModule = this.modules.moduleOf(calleeFile)!;
+                            const caller = this.getMethodSignature(method);
+                            const callee = `${calleeSignature.getDeclaringClassSignature().getClassName()}.${calleeSignature.getMethodSubSignature().getMethodName()}`;
+                            const key = `${fromModule}|${toModule}|${caller}|${callee}`;
+                            const call = this.crossModuleCalls.get(key);
+                            if (call) {
+                                call.count++;
+                            } else {
+                                this.crossModuleCalls.set(key, { fromModule, toModule, caller, callee, count: 1 });
+                            }
+                        }
+                    }
+                }
+            }
+        }
         
-        console.log('\n' + '='.repeat(80));
+        const modules = this.modules.getModules();
+        this.log(`   ✓ ${t('analyze.modules.count', { count: modules.length, modules: modules.map(m => `${m.name}:${m.type}`).join(', ') })}`);
+        this.log(`   ✓ ${t('analyze.modules.crossCalls', { count: this.crossModuleCalls.size })}`);
+    }
+    
+    private getModuleCounts(moduleName: string): ModuleCounts {
+        let counts = this.moduleCounts.get(moduleName);
+        if (!counts) {
+            counts = { files: 0, classes: 0, methods: 0, internalCalls: 0, crossModuleCalls: 0, unresolvedCalls: 0 };
+            this.moduleCounts.set(moduleName, counts);
+        }
+        return counts;
     }
     
     /**
-     * 打印基础统计
+     * 按模块汇总生命周期、问题和数据流
      */
-    private printBasicStats(): void {
-        console.log('\n📊 基础统计:\n');
-        console.log(`   文件数: ${this.stats.totalFiles}`);
-        console.log(`   类数量: ${this.stats.totalClasses}`);
-        console.log(`   方法总数: ${this.stats.totalMethods}`);
-        console.log(`   Ability 类: ${this.stats.abilityClasses}`);
-        console.log(`   Component 类: ${this.stats.componentClasses}`);
-        console.log(`   生命周期方法实例: ${this.stats.lifecycleMethods}`);
-        console.log(`   调用图节点: ${this.stats.callGraphNodes}`);
-        console.log(`   调用图边: ${this.stats.callGraphEdges}`);
-        console.log(`   数据流路径: ${this.stats.dataFlowPaths}`);
-        console.log(`   潜在问题: ${this.stats.undefinedIssues}`);
+    private buildModuleSummaries(): ModuleSummary[] {
+        const names = new Set<string>([
+            ...this.modules.getModules().map(m => m.name),
+            ...this.moduleCounts.keys()
+        ]);
+        const moduleOfMethod = new Map<string, string>();
+        for (const lm of this.lifecycleMethods) {
+            moduleOfMethod.set(`${lm.className}.${lm.phase}`, lm.module);
+        }
+        
+        return Array.from(names).map(name => {
+            const counts = this.moduleCounts.get(name);
+            const lifecycles = this.lifecycleMethods.filter(lm => lm.module === name);
+            return {
+                module: name,
+                type: this.modules.getModules().find(m => m.name === name)?.type ?? 'unknown',
+                files: counts?.files ?? 0,
+                classes: counts?.classes ?? 0,
+                methods: counts?.methods ?? 0,
+                abilityLifecycles: lifecycles.filter(lm => lm.type === LifecycleType.ABILITY).length,
+                componentLifecycles: lifecycles.filter(lm => lm.type === LifecycleType.COMPONENT).length,
+                undefinedIssues: this.undefinedIssues.filter(issue => issue.module === name).length,
+                findings: this.findings.filter(f => (this.modules.moduleOf(f.filePath) ?? UNKNOWN_MODULE) === name).length,
+                dataFlows: this.dataFlows.filter(flow => moduleOfMethod.get(flow.from) === name).length,
+                internalCalls: counts?.internalCalls ?? 0,
+                crossModuleCalls: counts?.crossModuleCalls ?? 0,
+                unresolvedCalls: counts?.unresolvedCalls ?? 0
+            };
+        });
     }
     
     /**
-     * 打印生命周期覆盖情况
+     * 获取可序列化的分析结果
      */
-    private printLifecycleCoverage(): void {
-        console.log('\n📈 生命周期覆盖情况:\n');
-        
-        // Ability 生命周期
-        const abilityUsed = Array.from(this.abilityLifecycleStats.values()).filter(s => s.isUsed);
-        const abilityTotal = this.abilityLifecycleStats.size;
-        const abilityUsageCount = abilityUsed.reduce((sum, s) => sum + s.usageCount, 0);
+    public getResult(projectDirectory: string, steps: AnalysisStep[]): AnalysisResult {
+        const { issues, findings, suppressed } = this.applySuppressions();
+        const scoped = this.changes
+            ? this.applyChangeSet(this.changes, issues, findings)
+            : { issues, findings, lifecycleMethods: this.lifecycleMethods, dataFlows: this.dataFlows, report: null };
+        const filtered = this.baseline
+            ? applyBaseline(this.baseline.file, this.baseline.path, scoped.issues, scoped.findings)
+            : { undefinedIssues: scoped.issues, findings: scoped.findings, summary: null };
         
-        console.log(`   📱 Ability 生命周期:`);
-        console.log(`      框架定义: ${abilityTotal} 种`);
-        console.log(`      实际使用: ${abilityUsed.length} 种 (${(abilityUsed.length/abilityTotal*100).toFixed(1)}%)`);
-        console.log(`      使用实例: ${abilityUsageCount} 个`);
+        return {
+            generatedAt: new Date().toISOString(),
+            projectDirectory,
+            steps,
+            stats: { ...this.stats },
+            lifecycleMethods: scoped.lifecycleMethods.map(lm => this.toRecord(lm)),
+            coverage: {
+                ability: Array.from(this.abilityLifecycleStats.values()).map(s => ({ ...s })),
+                component: Array.from(this.componentLifecycleStats.values()).map(s => ({ ...s })),
+                callback: Array.from(this.callbackStats.values()).map(s => ({ ...s }))
+            },
+            undefinedIssues: filtered.undefinedIssues,
+            dataFlows: scoped.dataFlows.map(flow => ({ ...flow, callChain: [...flow.callChain] })),
+            findings: filtered.findings,
+            exclusions: {
+                files: this.scope.getExcludedFiles(),
+                classes: this.scope.getExcludedClasses()
+            },
+            modules: {
+                modules: this.modules.getModules().map(m => ({ ...m, dependencies: [...m.dependencies] })),
+                summaries: this.buildModuleSummaries(),
+                crossModuleCalls: Array.from(this.crossModuleCalls.values())
+                    .map(call => ({ ...call }))
+                    .sort((a, b) => b.count - a.count)
+            },
+            callGraph: this.getCallGraphData(),
+            diagnostics: {
+                errors: this.diagnostics.map(d => ({ ...d })),
+                methods: Object.fromEntries(
+                    Object.entries(this.methodSummaries).map(([pass, summary]) => [pass, { ...summary }])
+                )
+            },
+            suppressed,
+            baseline: filtered.summary,
+            incremental: scoped.report,
+            profile: this.profiler?.getReport() ?? null
+        };
+    }
+    
+    /**
+     * 增量模式：只保留变更行内的结果，调用者 / 被调用者中的问题单独列出
+     */
+    private applyChangeSet(changes: ChangeSet, issues: UndefinedIssue[], findings: Finding[]): {
+        issues: UndefinedIssue[];
+        findings: Finding[];
+        lifecycleMethods: LifecycleMethodInfo[];
+        dataFlows: DataFlowInfo[];
+        report: IncrementalReport;
+    } {
+        // 与变更行相交的方法
+        const changedSignatures = new Set<string>();
+        const changedMethods = new Set<string>();
+        for (const file of this.scene.getFiles()) {
+            const fileName = file.getName();
+            if (!changes.isFileChanged(fileName) || !this.scope.acceptFile(fileName)) {
+                continue;
+            }
+            for (const cls of file.getClasses()) {
+                for (const method of cls.getMethods()) {
+                    const range = this.getMethodLineRange(method);
+                    if (range && changes.overlaps(fileName, range.start, range.end)) {
+                        changedSignatures.add(method.getSignature().toString());
+                        changedMethods.add(this.getMethodSignature(method));
+                    }
+                }
+            }
+        }
         
-        if (abilityUsed.length > 0) {
-            console.log(`\n      已使用的方法:`);
-            abilityUsed.sort((a, b) => b.usageCount - a.usageCount);
-            for (const stat of abilityUsed) {
-                console.log(`        • ${stat.methodName.padEnd(30)} ${stat.usageCount} 次`);
+        // 调用图中变更方法的直接调用者和被调用者
+        const relatedMethods = new Set<string>();
+        if (this.callGraph) {
+            const nameOf = (signature: MethodSignature): string =>
+                `${signature.getDeclaringClassSignature().getClassName()}.${signature.getMethodSubSignature().getMethodName()}`;
+            for (const node of this.callGraph.nodesItor()) {
+                const caller = node.getMethod();
+                for (const edge of node.getOutgoingEdges()) {
+                    const callee = edge.getDstNode().getMethod();
+                    if (changedSignatures.has(caller.toString())) {
+                        relatedMethods.add(nameOf(callee));
+                    }
+                    if (changedSignatures.has(callee.toString())) {
+                        relatedMethods.add(nameOf(caller));
+                    }
+                }
             }
         }
+        for (const name of changedMethods) {
+            relatedMethods.delete(name);
+        }
         
-        // Component 生命周期
-        const componentUsed = Array.from(this.componentLifecycleStats.values()).filter(s => s.isUsed);
-        const componentTotal = this.componentLifecycleStats.size;
-        const componentUsageCount = componentUsed.reduce((sum, s) => sum + s.usageCount, 0);
+        const lifecycleMethods = this.lifecycleMethods.filter(lm => {
+            const range = this.getMethodLineRange(lm.method);
+            return range !== null && changes.overlaps(lm.filePath, range.start, range.end);
+        });
+        const fileOfLifecycle = new Map<string, string>(
+            this.lifecycleMethods.map(lm => [`${lm.className}.${lm.phase}`, lm.filePath])
+        );
+        const dataFlows = this.dataFlows.filter(flow => {
+            const filePath = fileOfLifecycle.get(flow.from);
+            return filePath !== undefined && changes.isLineChanged(filePath, flow.line);
+        });
         
-        console.log(`\n   🎨 Component 生命周期:`);
-        console.log(`      框架定义: ${componentTotal} 种`);
-        console.log(`      实际使用: ${componentUsed.length} 种 (${(componentUsed.length/componentTotal*100).toFixed(1)}%)`);
-        console.log(`      使用实例: ${componentUsageCount} 个`);
+        const changedIssues = issues.filter(issue => changes.isLineChanged(issue.filePath, issue.line));
+        const changedFindings = findings.filter(finding => changes.isLineChanged(finding.filePath, finding.line));
         
-        if (componentUsed.length > 0) {
-            console.log(`\n      已使用的方法 (按使用频率排序):`);
-            componentUsed.sort((a, b) => b.usageCount - a.usageCount);
-            for (const stat of componentUsed) {
-                const uniqueComponents = new Set(stat.classes).size;
-                console.log(`        • ${stat.methodName.padEnd(30)} ${stat.usageCount} 次 (${uniqueComponents} 个组件)`);
+        return {
+            issues: changedIssues,
+            findings: changedFindings,
+            lifecycleMethods,
+            dataFlows,
+            report: {
+                range: changes.range,
+                changedFiles: changes.getChangedFiles(),
+                changedMethods: Array.from(changedMethods).sort(),
+                relatedMethods: Array.from(relatedMethods).sort(),
+                related: {
+                    undefinedIssues: issues.filter(issue =>
+                        !changedIssues.includes(issue) && relatedMethods.has(`${issue.className}.${issue.phase}`)),
+                    findings: findings.filter(finding =>
+                        !changedFindings.includes(finding) && relatedMethods.has(`${finding.className}.${finding.method}`))
+                }
+            }
+        };
+    }
+    
+    /**
+     * 方法体语句覆盖的源码行范围，无 CFG 或没有位置信息时返回 null
+     */
+    private getMethodLineRange(method: ArkMethod): { start: number; end: number } | null {
+        const cfg = method.getCfg();
+        if (!cfg) {
+            return null;
+        }
+        let start = Infinity;
+        let end = -Infinity;
+        for (const stmt of cfg.getStmts()) {
+            const line = stmt.getOriginPositionInfo().getLineNo();
+            if (line > 0) {
+                start = Math.min(start, line);
+                end = Math.max(end, line);
             }
         }
+        return start <= end ? { start, end } : null;
     }
     
     /**
-     * 打印详细使用情况
+     * 复制问题并附上源码片段；取不到片段时不写 snippet 字段
      */
-    private printDetailedUsage(): void {
-        console.log('\n📋 详细使用情况:\n');
-        
-        // 按类型分组
-        const abilityMethods = this.lifecycleMethods.filter(m => m.type === LifecycleType.ABILITY);
-        const componentMethods = this.lifecycleMethods.filter(m => m.type === LifecycleType.COMPONENT);
+    private withSnippet<T extends { filePath: string; line: number; column?: number; snippet?: SourceSnippet }>(item: T): T {
+        const snippet = this.sources?.snippet(item.filePath, item.line, item.column);
+        return snippet ? { ...item, snippet } : { ...item };
+    }
+    
+    /**
+     * 按源码中的 openeye-ignore 注释拆分出被抑制的问题，并为保留的问题附上源码片段
+     */
+    private applySuppressions(): { issues: UndefinedIssue[]; findings: Finding[]; suppressed: SuppressedFinding[] } {
+        const issues: UndefinedIssue[] = [];
+        const findings: Finding[] = [];
+        const suppressed: SuppressedFinding[] = [];
         
-        if (abilityMethods.length > 0) {
-            console.log('   📱 Ability 生命周期使用详情:\n');
-            const methodsByClass = new Map<string, LifecycleMethodInfo[]>();
-            for (const method of abilityMethods) {
-                if (!methodsByClass.has(method.className)) {
-                    methodsByClass.set(method.className, []);
-                }
-                methodsByClass.get(method.className)!.push(method);
-            }
-            
-            for (const [className, methods] of methodsByClass) {
-                console.log(`      ${className}:`);
-                for (const method of methods) {
-                    const filePath = method.filePath.split('/').slice(-3).join('/');
-                    const impl = method.hasImplementation ? '✓' : '○';
-                    console.log(`        ${impl} ${method.phase}()  [${filePath}:${method.lineNumber}]`);
-                }
-                console.log('');
+        for (const issue of this.undefinedIssues) {
+            const suppression = this.suppressions?.find(issue.filePath, issue.line, issue.ruleId);
+            if (!suppression) {
+                issues.push(this.withSnippet(issue));
+                continue;
             }
+            suppressed.push({
+                ruleId: issue.ruleId,
+                method: issue.method,
+                filePath: issue.filePath,
+                line: issue.line,
+                column: issue.column,
+                message: issue.description,
+                severity: issue.severity,
+                reason: suppression.reason,
+                commentLine: suppression.line
+            });
         }
         
-        if (componentMethods.length > 0) {
-            console.log('   🎨 Component 生命周期使用详情 (按方法类型):\n');
-            const methodsByPhase = new Map<string, LifecycleMethodInfo[]>();
-            for (const method of componentMethods) {
-                if (!methodsByPhase.has(method.phase)) {
-                    methodsByPhase.set(method.phase, []);
-                }
-                methodsByPhase.get(method.phase)!.push(method);
-            }
-            
-            const sortedPhases = Array.from(methodsByPhase.entries())
-                .sort((a, b) => b[1].length - a[1].length);
-            
-            for (const [phase, methods] of sortedPhases) {
-                console.log(`      ${phase}() - ${methods.length} 个使用:`);
-                const displayCount = Math.min(methods.length, 8);
-                for (const method of methods.slice(0, displayCount)) {
-                    const impl = method.hasImplementation ? '✓' : '○';
-                    console.log(`        ${impl} ${method.className}`);
-                }
-                if (methods.length > displayCount) {
-                    console.log(`        ... 还有 ${methods.length - displayCount} 个组件`);
-                }
-                console.log('');
+        for (const finding of this.findings) {
+            const suppression = this.suppressions?.find(finding.filePath, finding.line, finding.ruleId);
+            if (!suppression) {
+                findings.push(this.withSnippet(finding));
+                continue;
             }
+            suppressed.push({
+                ruleId: finding.ruleId,
+                method: `${finding.className}.${finding.method}`,
+                filePath: finding.filePath,
+                line: finding.line,
+                column: finding.column ?? 0,
+                message: finding.message,
+                severity: finding.severity,
+                reason: suppression.reason,
+                commentLine: suppression.line
+            });
         }
+        
+        return { issues, findings, suppressed };
     }
     
     /**
-     * 打印未使用的生命周期
+     * 生命周期方法及其直接调用的方法组成的调用图，未构建调用图时返回 null
      */
-    private printUnusedLifecycles(): void {
-        const unusedAbility = Array.from(this.abilityLifecycleStats.values())
-            .filter(s => !s.isUsed)
-            .map(s => s.methodName);
+    public getCallGraphData(): CallGraphData | null {
+        if (!this.callGraph) {
+            return null;
+        }
         
-        const unusedComponent = Array.from(this.componentLifecycleStats.values())
-            .filter(s => !s.isUsed)
-            .map(s => s.methodName);
+        const nodes = new Map<string, CallGraphNode>();
+        const edges = new Map<string, { from: string; to: string }>();
+        const lifecycleById = new Map(
+            this.lifecycleMethods.map(lm => [lm.method.getSignature().toString(), lm] as const)
+        );
         
-        if (unusedAbility.length > 0 || unusedComponent.length > 0) {
-            console.log('\n⚪ 未使用的生命周期方法:\n');
-            
-            if (unusedAbility.length > 0) {
-                console.log(`   📱 Ability (${unusedAbility.length} 种):`);
-                console.log(`      ${unusedAbility.join(', ')}`);
+        for (const [id, lm] of lifecycleById) {
+            nodes.set(id, this.toCallGraphNode(lm.method.getSignature(), lifecycleById));
+        }
+        
+        for (const lm of this.lifecycleMethods) {
+            const cfg = lm.method.getCfg();
+            if (!cfg) {
+                continue;
             }
-            
-            if (unusedComponent.length > 0) {
-                console.log(`\n   🎨 Component (${unusedComponent.length} 种):`);
-                console.log(`      ${unusedComponent.join(', ')}`);
+            const from = lm.method.getSignature().toString();
+            for (const stmt of cfg.getStmts()) {
+                const invokeExpr = stmt.getInvokeExpr();
+                if (!invokeExpr) {
+                    continue;
+                }
+                const callee = this.toCallGraphNode(invokeExpr.getMethodSignature(), lifecycleById);
+                const to = callee.id;
+                if (!nodes.has(to)) {
+                    nodes.set(to, callee);
+                }
+                edges.set(`${from}->${to}`, { from, to });
             }
         }
+        
+        return {
+            nodes: Array.from(nodes.values()),
+            edges: Array.from(edges.values())
+        };
     }
     
     /**
-     * 打印未定义变量问题
+     * 已识别的生命周期方法（供自定义 Pass 使用）
      */
-    private printUndefinedIssues(): void {
-        if (this.undefinedIssues.length > 0) {
-            console.log('\n⚠️  未定义变量问题 (前10个):\n');
-            const displayIssues = this.undefinedIssues.slice(0, 10);
-            displayIssues.forEach((issue, index) => {
-                const severityIcon = issue.severity === 'high' ? '🔴' : 
-                                    issue.severity === 'medium' ? '🟡' : '🟢';
-                console.log(`   ${index + 1}. ${severityIcon} ${issue.method}`);
-                console.log(`      行号: ${issue.line}`);
-                console.log(`      说明: ${issue.description}`);
-                console.log('');
-            });
-            
-            if (this.undefinedIssues.length > 10) {
-                console.log(`   ... 还有 ${this.undefinedIssues.length - 10} 个问题未显示\n`);
-            }
-        }
+    public getLifecycleMethods(): readonly LifecycleMethodInfo[] {
+        return this.lifecycleMethods;
     }
     
     /**
-     * 打印数据流摘要
+     * 已构建的调用图，未构建时为 null
      */
-    private printDataFlowSummary(): void {
-        if (this.dataFlows.length > 0) {
-            console.log('\n🔄 数据流分析摘要:\n');
-            console.log(`   总数据流路径: ${this.dataFlows.length} 条`);
-            
-            // 统计每个生命周期方法的数据流
-            const flowsByMethod = new Map<string, number>();
-            for (const flow of this.dataFlows) {
-                flowsByMethod.set(flow.from, (flowsByMethod.get(flow.from) || 0) + 1);
+    public getCallGraph(): CallGraph | null {
+        return this.callGraph;
+    }
+    
+    /**
+     * 记录自定义规则的检查结果
+     */
+    public addFinding(finding: Finding): void {
+        this.findings.push(finding.messageId
+            ? { ...finding, message: formatMessage(finding.messageId, finding.messageArgs) }
+            : finding);
+    }
+    
+    /**
+     * 设置增量模式的变更集合，之后 getResult() 只返回变更部分的结果
+     */
+    public setChangeSet(changes: ChangeSet): void {
+        this.changes = changes;
+    }
+    
+    /**
+     * 设置基线，之后 getResult() 只返回基线中没有的问题
+     */
+    public setBaseline(file: BaselineFile, baselinePath: string): void {
+        this.baseline = { file, path: baselinePath };
+    }
+    
+    /**
+     * 记录分析器内部错误
+     */
+    public addDiagnostic(diagnostic: Diagnostic): void {
+        this.diagnostics.push(diagnostic);
+    }
+    
+    /**
+     * 已记录的内部错误数
+     */
+    public getErrorCount(): number {
+        return this.diagnostics.length;
+    }
+    
+    /**
+     * 并行模式下方法在工作线程中的分析结果，未开启并行或工作线程中找不到该方法时返回 null
+     *
+     * 首次调用时把全部生命周期方法分片交给工作线程，已有方法级缓存的分析不再交给工作线程
+     */
+    private getParallelOutcome(lifecycleMethod: LifecycleMethodInfo): MethodOutcome | null {
+        if (!this.parallel) {
+            return null;
+        }
+        if (!this.parallelOutcomes) {
+            this.parallelOutcomes = this.measure(t('profile.span.workers'), () => this.runParallel(this.parallel!));
+        }
+        const outcome = this.parallelOutcomes.get(lifecycleMethod.method.getSignature().toString());
+        return outcome && outcome.found ? outcome : null;
+    }
+    
+    private runParallel(parallel: ParallelOptions): Map<string, MethodOutcome> {
+        const outcomes = new Map<string, MethodOutcome>();
+        const tasks: MethodTask[] = [];
+        const seen = new Set<string>();
+        for (const lm of this.lifecycleMethods) {
+            const signature = lm.method.getSignature().toString();
+            if (seen.has(signature)) {
+                continue;
             }
-            
-            const sortedMethods = Array.from(flowsByMethod.entries())
-                .sort((a, b) => b[1] - a[1])
-                .slice(0, 10);
-            
-            console.log(`\n   数据流最多的生命周期方法 (前10):`);
-            for (const [method, count] of sortedMethods) {
-                console.log(`      • ${method.padEnd(40)} ${count} 条`);
+            seen.add(signature);
+            const kinds = parallel.kinds.filter(kind => !this.cache?.hasMethodResult(kind, lm.filePath, signature));
+            if (kinds.length > 0) {
+                tasks.push({ signature, from: `${lm.className}.${lm.phase}`, filePath: lm.filePath, kinds });
             }
         }
+        if (tasks.length === 0) {
+            return outcomes;
+        }
+        
+        // 工作线程的 Scene 需要经过与主线程相同的调用图构建步骤
+        const callGraphEntries = this.callGraphRequested
+            ? this.lifecycleMethods.map(lm => lm.method.getSignature().toString())
+            : null;
+        const shards = shardTasks(tasks, parallel.workers);
+        this.log(`   ⚙️  ${t('analyze.parallel.start', { workers: shards.length, methods: tasks.length })}`);
+        const workerScript = path.join(__dirname, `analysisWorker${path.extname(__filename)}`);
+        let results: WorkerOutcome<MethodOutcome[]>[];
+        try {
+            results = runWorkersSync<MethodOutcome[]>(
+                workerScript,
+                shards.map((methods): MethodShard => ({ configPath: path.resolve(parallel.configPath), callGraphEntries, methods }))
+            );
+        } catch (error) {
+            this.log(`   ⚠️  ${t('analyze.parallel.startFailed', { error: String(error) })}`);
+            this.recordError('parallel', error);
+            return outcomes;
+        }
+        
+        const merged = mergeShardOutcomes(results);
+        for (const index of merged.failed) {
+            // 该分片的方法回退到主线程串行分析
+            this.log(`   ⚠️  ${t('analyze.parallel.workerFailed', { index: index + 1, count: shards[index].length })}`);
+            this.recordError('parallel', new Error(results[index].error ?? t('analyze.parallel.noResult')));
+        }
+        return merged.outcomes;
     }
     
     /**
-     * 打印推荐信息
+     * 开启性能分析时计时执行 `fn`
      */
-    private printRecommendations(): void {
-        console.log('\n💡 推荐关注的生命周期方法:\n');
-        
-        const importantUnused = [
-            { name: 'onBackPress', type: 'Component', reason: '处理返回键，提升用户体验' },
-            { name: 'aboutToReuse', type: 'Component', reason: '组件复用优化，提升性能' },
-            { name: 'aboutToRecycle', type: 'Component', reason: '组件回收优化，提升性能' },
-            { name: 'onNewWant', type: 'Ability', reason: '处理新 Intent，支持应用唤起' },
-            { name: 'onConfigurationUpdate', type: 'Ability', reason: '响应系统配置变化' },
-            { name: 'onDidBuild', type: 'Component', reason: '组件构建完成后处理' },
-            { name: 'onWillApplyTheme', type: 'Component', reason: '主题切换支持' },
-        ];
-        
-        for (const item of importantUnused) {
-            const isUnused = item.type === 'Component' 
-                ? !this.componentLifecycleStats.get(item.name)?.isUsed
-                : !this.abilityLifecycleStats.get(item.name)?.isUsed;
-            
-            if (isUnused) {
-                const icon = item.type === 'Component' ? '🎨' : '📱';
-                console.log(`   ${icon} ${item.name.padEnd(25)} - ${item.reason}`);
-            }
+    private measure<T>(name: string, fn: () => T): T {
+        return this.profiler ? this.profiler.measure(name, fn) : fn();
+    }
+    
+    private measureMethod<T>(pass: string, lifecycleMethod: LifecycleMethodInfo, fn: () => T): T {
+        if (!this.profiler) {
+            return fn();
         }
+        const name = `${lifecycleMethod.className}.${lifecycleMethod.phase}`;
+        return this.profiler.measureMethod(pass, name, lifecycleMethod.filePath, fn);
+    }
+    
+    /**
+     * 把捕获的异常记录为诊断信息
+     */
+    private recordError(pass: string, error: unknown, lifecycleMethod?: LifecycleMethodInfo): void {
+        this.addDiagnostic({
+            pass,
+            method: lifecycleMethod ? lifecycleMethod.method.getSignature().toString() : null,
+            phase: lifecycleMethod?.phase ?? null,
+            filePath: lifecycleMethod?.filePath ?? null,
+            message: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack ?? null : null
+        });
+    }
+    
+    /**
+     * 转换为不含 ArkMethod 引用的记录
+     */
+    private toRecord(info: LifecycleMethodInfo): LifecycleMethodRecord {
+        return {
+            signature: info.method.getSignature().toString(),
+            type: info.type,
+            phase: info.phase,
+            className: info.className,
+            filePath: info.filePath,
+            lineNumber: info.lineNumber,
+            hasImplementation: info.hasImplementation,
+            module: info.module
+        };
     }
     
     /**
      * 导出数据流详情到 JSON 文件
      */
     public exportDataFlowToJson(outputPath: string): void {
-        console.log('\n📤 导出数据流详情...');
-        
-        if (this.dataFlows.length === 0) {
-            console.log('   ⚠️  没有数据流数据可导出');
-            return;
-        }
-        
-        try {
-            // 按源方法分组
-            const flowsByMethod = new Map<string, DataFlowInfo[]>();
-            for (const flow of this.dataFlows) {
-                if (!flowsByMethod.has(flow.from)) {
-                    flowsByMethod.set(flow.from, []);
-                }
-                flowsByMethod.get(flow.from)!.push(flow);
-            }
-            
-            // 构造导出数据
-            const exportData = {
-                metadata: {
-                    totalFlows: this.dataFlows.length,
-                    lifecycleMethods: this.lifecycleMethods.length,
-                    timestamp: new Date().toISOString()
-                },
-                dataFlowsByMethod: Array.from(flowsByMethod.entries()).map(([method, flows]) => ({
-                    method: method,
-                    flowCount: flows.length,
-                    flows: flows.map(f => ({
-                        to: f.to,
-                        variable: f.variable,
-                        line: f.line,
-                        callChain: f.callChain
-                    }))
-                })).sort((a, b) => b.flowCount - a.flowCount),
-                allFlows: this.dataFlows
-            };
-            
-            // 确保输出目录存在
-            const outputDir = path.dirname(outputPath);
-            if (!fs.existsSync(outputDir)) {
-                fs.mkdirSync(outputDir, { recursive: true });
-            }
-            
-            // 写入文件
-            fs.writeFileSync(outputPath, JSON.stringify(exportData, null, 2), 'utf-8');
-            
-            console.log(`   ✓ 数据流详情已导出至: ${outputPath}`);
-            console.log(`   📊 总数据流: ${this.dataFlows.length} 条`);
-            console.log(`   📋 覆盖方法: ${flowsByMethod.size} 个`);
-        } catch (error) {
-            console.error(`   ✗ 导出失败: ${error}`);
-        }
+        exportDataFlowToJson(this.dataFlows, this.lifecycleMethods, outputPath, this.log);
     }
     
     /**
      * 导出数据流详情到 Markdown
      */
     public exportDataFlowToMarkdown(outputPath: string): void {
-        console.log('\n📝 导出数据流 Markdown 报告...');
-        
-        if (this.dataFlows.length === 0) {
-            console.log('   ⚠️  没有数据流数据可导出');
-            return;
-        }
-        
-        try {
-            let mdContent = '# OpenEye 数据流分析报告\n\n';
-            mdContent += `生成时间: ${new Date().toLocaleString('zh-CN')}\n\n`;
-            mdContent += '---\n\n';
-            
-            // 总览
-            mdContent += '## 📊 总览\n\n';
-            mdContent += `- **总数据流**: ${this.dataFlows.length} 条\n`;
-            mdContent += `- **生命周期方法**: ${this.lifecycleMethods.length} 个\n`;
-            
-            const flowsByMethod = new Map<string, DataFlowInfo[]>();
-            for (const flow of this.dataFlows) {
-                if (!flowsByMethod.has(flow.from)) {
-                    flowsByMethod.set(flow.from, []);
-                }
-                flowsByMethod.get(flow.from)!.push(flow);
-            }
-            mdContent += `- **涉及方法**: ${flowsByMethod.size} 个\n\n`;
-            
-            // Top 数据流
-            mdContent += '## 🔝 数据流最多的方法 (Top 20)\n\n';
-            mdContent += '| 排名 | 方法 | 数据流数量 |\n';
-            mdContent += '|------|------|------------|\n';
-            
-            const sortedMethods = Array.from(flowsByMethod.entries())
-                .sort((a, b) => b[1].length - a[1].length)
-                .slice(0, 20);
-            
-            sortedMethods.forEach(([method, flows], index) => {
-                mdContent += `| ${index + 1} | ${method} | ${flows.length} |\n`;
-            });
-            
-            // 详细数据流
-            mdContent += '\n## 📋 详细数据流\n\n';
-            
-            for (const [method, flows] of sortedMethods.slice(0, 10)) {
-                mdContent += `### ${method}\n\n`;
-                mdContent += `**数据流**: ${flows.length} 条\n\n`;
-                
-                // 按目标方法分组
-                const flowsByTarget = new Map<string, DataFlowInfo[]>();
-                for (const flow of flows) {
-                    if (!flowsByTarget.has(flow.to)) {
-                        flowsByTarget.set(flow.to, []);
-                    }
-                    flowsByTarget.get(flow.to)!.push(flow);
-                }
-                
-                mdContent += '| 目标方法 | 调用次数 | 示例行号 |\n';
-                mdContent += '|----------|----------|----------|\n';
-                
-                const topTargets = Array.from(flowsByTarget.entries())
-                    .sort((a, b) => b[1].length - a[1].length)
-                    .slice(0, 10);
-                
-                for (const [target, targetFlows] of topTargets) {
-                    const exampleLine = targetFlows[0].line;
-                    mdContent += `| ${target} | ${targetFlows.length} | ${exampleLine} |\n`;
-                }
-                
-                mdContent += '\n';
-            }
-            
-            // 数据流统计
-            mdContent += '## 📈 数据流统计\n\n';
-            
-            // 按类型统计
-            const abilityFlows = this.dataFlows.filter(f => 
-                this.lifecycleMethods.find(m => `${m.className}.${m.phase}` === f.from && m.type === LifecycleType.ABILITY)
-            );
-            const componentFlows = this.dataFlows.filter(f => 
-                this.lifecycleMethods.find(m => `${m.className}.${m.phase}` === f.from && m.type === LifecycleType.COMPONENT)
-            );
-            
-            mdContent += '### 按生命周期类型\n\n';
-            mdContent += `- **Ability 生命周期**: ${abilityFlows.length} 条数据流\n`;
-            mdContent += `- **Component 生命周期**: ${componentFlows.length} 条数据流\n\n`;
-            
-            // 平均数据流
-            const avgFlowsPerMethod = (this.dataFlows.length / flowsByMethod.size).toFixed(2);
-            mdContent += '### 平均数据流\n\n';
-            mdContent += `每个生命周期方法平均: **${avgFlowsPerMethod}** 条数据流\n\n`;
-            
-            // 数据流深度
-            const maxDepth = Math.max(...this.dataFlows.map(f => f.callChain.length));
-            const avgDepth = (this.dataFlows.reduce((sum, f) => sum + f.callChain.length, 0) / this.dataFlows.length).toFixed(2);
-            mdContent += '### 调用深度\n\n';
-            mdContent += `- **最大深度**: ${maxDepth} 层\n`;
-            mdContent += `- **平均深度**: ${avgDepth} 层\n\n`;
-            
-            mdContent += '---\n\n';
-            mdContent += '*报告生成于 Version 3.0*\n';
-            
-            // 确保输出目录存在
-            const outputDir = path.dirname(outputPath);
-            if (!fs.existsSync(outputDir)) {
-                fs.mkdirSync(outputDir, { recursive: true });
-            }
-            
-            // 写入文件
-            fs.writeFileSync(outputPath, mdContent, 'utf-8');
-            
-            console.log(`   ✓ Markdown 报告已导出至: ${outputPath}`);
-        } catch (error) {
-            console.error(`   ✗ 导出失败: ${error}`);
-        }
+        exportDataFlowToMarkdown(this.dataFlows, this.lifecycleMethods, outputPath, this.log);
     }
     
     /**
-     * 打印详细数据流（控制台）
+     * 导出调用图
+     *
+     * 默认导出完整的 CHA 调用图，按文件和类分组；`options` 可限制根节点和深度、折叠 %unk 调用
      */
-    public printDetailedDataFlow(limit: number = 5): void {
-        console.log('\n🔍 详细数据流 (前 ' + limit + ' 个方法):\n');
-        
-        if (this.dataFlows.length === 0) {
-            console.log('   ⚠️  没有数据流数据');
+    public exportCallGraphToDot(outputPath: string, options: DotExportOptions = {}): void {
+        if (!this.callGraph) {
+            this.log(`   ⚠️  ${t('export.callgraph.notBuilt')}`);
             return;
         }
-        
-        // 按源方法分组
-        const flowsByMethod = new Map<string, DataFlowInfo[]>();
-        for (const flow of this.dataFlows) {
-            if (!flowsByMethod.has(flow.from)) {
-                flowsByMethod.set(flow.from, []);
-            }
-            flowsByMethod.get(flow.from)!.push(flow);
+        writeCallGraphDot(this.getFullCallGraphData()!, outputPath, options, this.log);
+    }
+    
+    /**
+     * 完整调用图（全部节点和边），未构建调用图时返回 null
+     */
+    public getFullCallGraphData(): CallGraphData | null {
+        if (!this.callGraph) {
+            return null;
         }
         
-        // 排序并显示 top 方法
-        const sortedMethods = Array.from(flowsByMethod.entries())
-            .sort((a, b) => b[1].length - a[1].length)
-            .slice(0, limit);
+        const nodes = new Map<string, CallGraphNode>();
+        const edges = new Map<string, { from: string; to: string }>();
+        const lifecycleById = new Map(
+            this.lifecycleMethods.map(lm => [lm.method.getSignature().toString(), lm] as const)
+        );
         
-        for (const [method, flows] of sortedMethods) {
-            console.log(`   📍 ${method} (${flows.length} 条数据流):\n`);
-            
-            // 显示前 10 条数据流
-            const displayFlows = flows.slice(0, 10);
-            for (const flow of displayFlows) {
-                console.log(`      → ${flow.to}`);
-                console.log(`        行号: ${flow.line}`);
-                console.log(`        调用链: ${flow.callChain.join(' → ')}`);
-                console.log('');
-            }
-            
-            if (flows.length > 10) {
-                console.log(`      ... 还有 ${flows.length - 10} 条数据流\n`);
+        for (const node of this.callGraph.nodesItor()) {
+            const from = this.toCallGraphNode(node.getMethod(), lifecycleById);
+            nodes.set(from.id, from);
+            for (const edge of node.getOutgoingEdges()) {
+                const to = this.toCallGraphNode(edge.getDstNode().getMethod(), lifecycleById);
+                nodes.set(to.id, to);
+                edges.set(`${from.id}->${to.id}`, { from: from.id, to: to.id });
             }
         }
+        
+        return {
+            nodes: Array.from(nodes.values()),
+            edges: Array.from(edges.values())
+        };
     }
     
     /**
-     * 导出调用图
+     * 方法签名转换为调用图节点，生命周期方法带上生命周期类型
      */
-    public exportCallGraphToDot(outputPath: string): void {
-        if (!this.callGraph) {
-            console.log('   ⚠️  调用图未构建，无法导出');
-            return;
+    private toCallGraphNode(
+        signature: MethodSignature,
+        lifecycleById: Map<string, LifecycleMethodInfo>
+    ): CallGraphNode {
+        const id = signature.toString();
+        const lifecycleMethod = lifecycleById.get(id);
+        if (lifecycleMethod) {
+            return {
+                id,
+                label: `${lifecycleMethod.className}.${lifecycleMethod.phase}`,
+                className: lifecycleMethod.className,
+                filePath: lifecycleMethod.filePath,
+                lifecycle: lifecycleMethod.type
+            };
         }
         
-        console.log('\n📊 导出调用图...');
-        
-        try {
-            let dotContent = 'digraph CallGraph {\n';
-            dotContent += '    node [shape=box, style=filled, fillcolor=lightblue];\n';
-            dotContent += '    rankdir=TB;\n';
-            dotContent += '    concentrate=true;\n\n';
-            
-            const nodes = new Set<string>();
-            const edges: Array<{from: string, to: string}> = [];
-            
-            const lifecycleSignatures = new Set(
-                this.lifecycleMethods.map(lm => this.getMethodSignature(lm.method))
-            );
-            
-            for (const file of this.scene.getFiles()) {
-                for (const cls of file.getClasses()) {
-                    for (const method of cls.getMethods()) {
-                        const methodSig = this.getMethodSignature(method);
-                        
-                        if (!lifecycleSignatures.has(methodSig)) {
-                            continue;
-                        }
-                        
-                        nodes.add(methodSig);
-                        
-                        const cfg = method.getCfg();
-                        if (cfg) {
-                            for (const stmt of cfg.getStmts()) {
-                                const invokeExpr = stmt.getInvokeExpr();
-                                if (invokeExpr) {
-                                    const targetSig = invokeExpr.getMethodSignature().toString();
-                                    nodes.add(targetSig);
-                                    edges.push({ from: methodSig, to: targetSig });
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-            
-            let nodeCount = 0;
-            for (const node of nodes) {
-                if (nodeCount++ > 50) break;
-                
-                const nodeId = this.sanitizeDotId(node);
-                const label = this.simplifyMethodSignature(node);
-                const color = lifecycleSignatures.has(node) ? 'lightcoral' : 'lightblue';
-                dotContent += `    "${nodeId}" [label="${label}", fillcolor=${color}];\n`;
-            }
-            
-            dotContent += '\n';
-            
-            let edgeCount = 0;
-            for (const edge of edges) {
-                if (edgeCount++ > 100) break;
-                
-                const fromId = this.sanitizeDotId(edge.from);
-                const toId = this.sanitizeDotId(edge.to);
-                dotContent += `    "${fromId}" -> "${toId}";\n`;
-            }
-            
-            dotContent += '}\n';
-            
-            const outputDir = path.dirname(outputPath);
-            if (!fs.existsSync(outputDir)) {
-                fs.mkdirSync(outputDir, { recursive: true });
-            }
-            
-            fs.writeFileSync(outputPath, dotContent, 'utf-8');
-            console.log(`   ✓ 调用图已导出至: ${outputPath}`);
-            console.log(`   💡 可使用 Graphviz 查看: dot -Tpng ${outputPath} -o callgraph.png`);
-            
-        } catch (error) {
-            console.error(`   ✗ 导出失败: ${error}`);
-        }
+        const classSignature = signature.getDeclaringClassSignature();
+        const className = classSignature.getClassName();
+        const methodName = signature.getMethodSubSignature().getMethodName();
+        return {
+            id,
+            label: className ? `${className}.${methodName}` : methodName,
+            className,
+            filePath: classSignature.getDeclaringFileSignature().getFileName(),
+            lifecycle: null
+        };
     }
     
     private getMethodSignature(method: ArkMethod): string {
@@ -1081,111 +1289,337 @@ class OpenEyeLifecycleAnalyzerV3 {
         const methodName = method.getName();
         return `${className}.${methodName}`;
     }
+}
+
+
+/**
+ * 默认分析选项
+ */
+export const DEFAULT_OPTIONS: AnalyzeOptions = {
+    configPath: './config.json',
+    outputDir: path.resolve(__dirname, '../output'),
+    steps: null,
+    passes: [],
+    silent: false,
+    strict: false,
+    baselinePath: null,
+    updateBaseline: false,
+    diffRange: null,
+    cacheDir: null,
+    profile: false,
+    workers: 1,
+    lang: 'zh'
+};
+
+/**
+ * 可由工作线程执行的内置 Pass
+ */
+const PARALLEL_KINDS: MethodAnalysisKind[] = ['undefined', 'dataflow'];
+
+/**
+ * 分析运行结果：分析器实例 + 可序列化结果
+ */
+export interface AnalysisRun {
+    /** 整体缓存命中时未构建 Scene，分析器为 null */
+    analyzer: OpenEyeLifecycleAnalyzerV3 | null;
+    result: AnalysisResult;
+    /** 配置文件中 gates 的检查结果，未配置时为空 */
+    gates: GateResult[];
+}
+
+/**
+ * 只分析项目中的部分文件（监听模式）
+ */
+export interface FileSelection {
+    /** 重新分析的文件（相对项目目录，/ 分隔），结果只包含这些文件 */
+    analyze: string[];
+    /** 构建 Scene 的文件：要分析的文件及其直接、间接导入的文件 */
+    load: string[];
+}
+
+/**
+ * 构建 Scene 并执行指定阶段的 Pass
+ *
+ * 指定了 cacheDir 时先比对源文件哈希：整体命中则跳过 Scene 构建，直接复用上次结果执行输出 Pass；
+ * 否则重新构建 Scene，未变化文件中方法的未定义变量求解结果从方法级缓存读取。
+ * 指定 `selection` 时只用所选文件构建 Scene 并只分析其中要分析的文件（不使用整体缓存和工作线程）。
+ */
+export function runAnalysis(opts: AnalyzeOptions, phases: PassPhase[] = ['analysis'], selection?: FileSelection): AnalysisRun {
+    const log: Logger = opts.silent ? () => undefined : console.log;
+    setLocale(opts.lang);
+    const profiler = opts.profile ? new Profiler() : null;
+    const measure = <T>(name: string, fn: () => T): T => profiler ? profiler.measure(name, fn) : fn();
+    
+    // 1. 加载配置
+    log(`\n📋 ${t('run.step', { index: 1, name: t('run.loadConfig') })}`);
+    const config = new SceneConfig();
+    config.buildFromJson(opts.configPath);
+    const analysisConfig = loadAnalysisConfig(opts.configPath);
+    const projectDirectory = config.getTargetProjectDirectory();
+    log(`   ✓ ${t('run.configFile')}: ${opts.configPath}`);
+    log(`   ✓ ${t('run.projectDirectory')}: ${projectDirectory}`);
+    
+    // 注册内置、配置文件和调用方提供的 Pass
+    const registry = createDefaultRegistry();
+    const customPasses = [
+        ...loadPassModules(analysisConfig.passModules, path.dirname(path.resolve(opts.configPath))),
+        ...opts.passes
+    ];
+    for (const pass of customPasses) {
+        registry.register(pass);
+    }
+    
+    const selected = [
+        ...(opts.steps ?? registry.select(analysisConfig.passes)),
+        ...requiredPassesForGates(analysisConfig.gates)
+    ];
+    const passes = registry.resolve(selected, log).filter(pass => phases.includes(pass.phase));
+    const analysisPasses = passes.filter(pass => pass.phase === 'analysis');
+    const outputPasses = passes.filter(pass => pass.phase === 'output');
+    log(`   ✓ ${t('run.passes')}: ${passes.map(p => p.name).join(', ')}`);
+    
+    const configuredBaseline = analysisConfig.baseline
+        ? path.resolve(path.dirname(path.resolve(opts.configPath)), analysisConfig.baseline)
+        : null;
+    const baselinePath = opts.baselinePath ?? configuredBaseline;
+    if (opts.updateBaseline && !baselinePath) {
+        throw new Error(t('run.error.baselineRequired'));
+    }
+    if (opts.diffRange && opts.updateBaseline) {
+        throw new Error(t('run.error.incrementalBaseline'));
+    }
+    const baseline = baselinePath && !opts.updateBaseline ? loadBaseline(baselinePath) : null;
+    
+    const projectModules = discoverModules(projectDirectory, analysisConfig.targetProjectName);
+    
+    // 自定义 Pass 的实现不参与哈希，增量模式和更新基线依赖 Scene，性能分析需要实际执行，这些情况只使用方法级缓存
+    let cache: AnalysisCache | null = null;
+    let resultKey: string | null = null;
+    if (opts.cacheDir) {
+        const fileHashes = hashProjectFiles(projectDirectory);
+        cache = new AnalysisCache(opts.cacheDir, computeDependencyHashes(projectDirectory, fileHashes, projectModules), log);
+        if (!selection && customPasses.length === 0 && !opts.diffRange && !opts.updateBaseline && !opts.profile) {
+            resultKey = computeResultKey(fileHashes, [
+                `project:${path.resolve(projectDirectory)}`,
+                `config:${sha256(fs.readFileSync(opts.configPath))}`,
+                `passes:${analysisPasses.map(p => p.name).join(',')}`,
+                `baseline:${baseline ? sha256(JSON.stringify(baseline)) : ''}`,
+                `lang:${opts.lang}`
+            ]);
+        }
+    }
+    
+    const cached = resultKey ? cache!.loadRun(resultKey) : null;
+    if (cached && outputPasses.every(pass => pass.requiresScene === false)) {
+        return runCachedOutput(cached, outputPasses, registry, analysisConfig, opts, log);
+    }
+    
+    // 2. 构建 Scene
+    log(`\n🏗️  ${t('run.step', { index: 2, name: t('run.buildScene') })}`);
+    const scene = selection
+        ? buildSceneFromFiles(config, selection.load.map(file => path.join(projectDirectory, file)), measure)
+        : buildScene(config, measure, () => {
+            log(`   ✓ ${t('run.sceneBuilt')}`);
+            
+            // 3. 类型推导
+            log(`\n🔬 ${t('run.step', { index: 3, name: t('run.inferTypes') })}`);
+        });
+    log(`   ✓ ${t('run.typesInferred')}`);
     
-    private sanitizeDotId(id: string): string {
-        return id.replace(/[^a-zA-Z0-9_.]/g, '_');
+    log(`\n📚 ${t('run.filesFound', { count: scene.getFiles().length })}`);
+    
+    // 4. 创建分析器
+    log(`\n🔧 ${t('run.step', { index: 4, name: t('run.initAnalyzer') })}`);
+    const modules = new ModuleResolver(projectModules);
+    const sources = new SourceFiles(projectDirectory);
+    const scope = new ScopeFilter(analysisConfig);
+    if (selection) {
+        scope.restrictTo(selection.analyze);
+    }
+    const analyzer = new OpenEyeLifecycleAnalyzerV3(scene, {
+        log,
+        scope,
+        modules,
+        suppressions: new SuppressionIndex(projectDirectory, sources),
+        sources,
+        cache: cache ?? undefined,
+        profiler: profiler ?? undefined,
+        parallel: {
+            configPath: opts.configPath,
+            // 工作线程按配置文件构建完整 Scene，只分析部分文件时串行执行
+            workers: selection ? 1 : opts.workers > 0 ? opts.workers : os.cpus().length,
+            kinds: PARALLEL_KINDS.filter(kind => analysisPasses.some(pass => pass.name === kind))
+        }
+    });
+    log(`   ✓ ${t('run.analyzerReady')}`);
+    
+    if (opts.diffRange) {
+        const changes = ChangeSet.fromGit(projectDirectory, opts.diffRange);
+        analyzer.setChangeSet(changes);
+        log(`   ✓ ${t('run.incremental', { range: opts.diffRange, count: changes.getChangedFiles().length })}`);
+    }
+    if (baselinePath && baseline) {
+        analyzer.setBaseline(baseline, baselinePath);
+        log(`   ✓ ${t('run.baseline', { path: baselinePath, count: baseline.entries.length })}`);
+    }
+    log(`   ✓ ${t('run.abilityLifecycles', { count: OpenEyeLifecycleAnalyzerV3['ABILITY_LIFECYCLE'].length })}`);
+    log(`   ✓ ${t('run.componentLifecycles', { count: OpenEyeLifecycleAnalyzerV3['COMPONENT_LIFECYCLE'].length })}`);
+    if (modules.isMultiModule()) {
+        log(`   ✓ ${t('run.multiModule')}: ${modules.getModules().map(m => `${m.name} (${m.type})`).join(', ')}`);
     }
     
-    private simplifyMethodSignature(signature: string): string {
-        if (signature.length > 40) {
-            return signature.substring(0, 37) + '...';
+    // 5+. 按注册表顺序执行 Pass
+    const executed: AnalysisStep[] = [];
+    const context: PassContext = {
+        scene,
+        analyzer,
+        projectDirectory,
+        outputDir: opts.outputDir,
+        log,
+        artifacts: new Set(),
+        addFinding: finding => analyzer.addFinding(finding),
+        addDiagnostic: diagnostic => analyzer.addDiagnostic(diagnostic),
+        getResult: () => analyzer.getResult(projectDirectory, executed),
+        getFullCallGraph: () => analyzer.getFullCallGraphData(),
+        getGateResults: () => evaluateGates(analyzer.getResult(projectDirectory, executed), analysisConfig.gates)
+    };
+    passes.forEach((pass, index) => {
+        if (index === analysisPasses.length && cache) {
+            saveCache(cache, resultKey, analyzer, context, executed);
         }
-        return signature;
+        log(`\n▶️  ${t('run.step', { index: index + 5, name: `${pass.description} (${pass.name})` })}`);
+        executed.push(...measure(`Pass ${pass.name}`, () => registry.run([pass], context, analysisConfig.passes)));
+    });
+    if (outputPasses.length === 0 && cache) {
+        saveCache(cache, resultKey, analyzer, context, executed);
     }
+    
+    if (opts.updateBaseline && baselinePath) {
+        const updated = createBaseline(analyzer.getResult(projectDirectory, executed));
+        writeBaseline(baselinePath, updated);
+        log(`\n🧾 ${t('run.baselineUpdated', { path: baselinePath, count: updated.entries.length })}`);
+    }
+    
+    const result = analyzer.getResult(projectDirectory, executed);
+    checkErrors(result, opts, log);
+    return {
+        analyzer,
+        result,
+        gates: evaluateGates(result, analysisConfig.gates)
+    };
 }
 
 /**
- * 主分析函数
+ * 分析阶段结束后写入缓存；出现内部错误时不写整体结果，避免下次直接复用不完整的结果
  */
-function analyzeOpenEyeLifecycleV3(): void {
+function saveCache(
+    cache: AnalysisCache,
+    resultKey: string | null,
+    analyzer: OpenEyeLifecycleAnalyzerV3,
+    context: PassContext,
+    executed: AnalysisStep[]
+): void {
+    cache.saveMethods();
+    if (resultKey && analyzer.getErrorCount() === 0) {
+        cache.saveRun(resultKey, {
+            result: context.getResult(),
+            fullCallGraph: analyzer.getFullCallGraphData(),
+            artifacts: Array.from(context.artifacts)
+        });
+        context.log(`   💾 ${t('run.cacheSaved', { count: executed.length })}`);
+    }
+}
+
+/**
+ * 整体缓存命中：不构建 Scene，以缓存的结果执行输出 Pass
+ */
+function runCachedOutput(
+    cached: CachedRun,
+    outputPasses: AnalysisPass[],
+    registry: PassRegistry,
+    analysisConfig: AnalysisConfig,
+    opts: AnalyzeOptions,
+    log: Logger
+): AnalysisRun {
+    log(`\n💾 ${t('run.step', { index: 2, name: t('run.cacheHit') })}`);
+    
+    const result: AnalysisResult = { ...cached.result, generatedAt: new Date().toISOString() };
+    const analysisSteps = [...result.steps];
+    const unavailable = (name: string): never => {
+        throw new Error(t('run.error.sceneUnavailable', { name }));
+    };
+    const context: PassContext = {
+        get scene(): Scene {
+            return unavailable('scene');
+        },
+        get analyzer(): OpenEyeLifecycleAnalyzerV3 {
+            return unavailable('analyzer');
+        },
+        projectDirectory: result.projectDirectory,
+        outputDir: opts.outputDir,
+        log,
+        artifacts: new Set(cached.artifacts),
+        addFinding: finding => result.findings.push(finding),
+        addDiagnostic: diagnostic => result.diagnostics.errors.push(diagnostic),
+        getResult: () => result,
+        getFullCallGraph: () => cached.fullCallGraph,
+        getGateResults: () => evaluateGates(result, analysisConfig.gates)
+    };
+    outputPasses.forEach((pass, index) => {
+        log(`\n▶️  ${t('run.step', { index: index + 3, name: `${pass.description} (${pass.name})` })}`);
+        result.steps = [...analysisSteps, ...registry.run([pass], context, analysisConfig.passes)];
+    });
+    
+    checkErrors(result, opts, log);
+    return {
+        analyzer: null,
+        result,
+        gates: evaluateGates(result, analysisConfig.gates)
+    };
+}
+
+/**
+ * 输出内部错误数，严格模式下存在内部错误时抛出异常
+ */
+function checkErrors(result: AnalysisResult, opts: AnalyzeOptions, log: Logger): void {
+    const errorCount = result.diagnostics.errors.length;
+    if (errorCount > 0) {
+        log(`\n⚠️  ${t('run.internalErrors', { count: errorCount })}`);
+        if (opts.strict) {
+            throw new Error(t('run.error.strict', { count: errorCount }));
+        }
+    }
+}
+
+/**
+ * 主分析函数，返回进程退出码（见 EXIT_CODES）
+ */
+export function analyzeOpenEyeLifecycleV3(options: Partial<AnalyzeOptions> = {}): number {
+    const opts: AnalyzeOptions = { ...DEFAULT_OPTIONS, ...options };
+    setLocale(opts.lang);
+    
     console.log('='.repeat(80));
-    console.log('🔬 Version 3.0 - HarmoneyOpenEye 生命周期深度分析');
+    console.log(`🔬 ${t('run.title')}`);
     console.log('='.repeat(80));
     
     try {
-        // 1. 加载配置
-        console.log('\n📋 步骤 1: 加载配置');
-        const configPath = "./config.json";
-        const config = new SceneConfig();
-        config.buildFromJson(configPath);
-        console.log(`   ✓ 项目目录: ${config.getTargetProjectDirectory()}`);
-        
-        // 2. 构建 Scene
-        console.log('\n🏗️  步骤 2: 构建 Scene');
-        const scene = new Scene();
-        scene.buildBasicInfo(config);
-        scene.buildSceneFromProjectDir(config);
-        console.log('   ✓ Scene 构建完成');
-        
-        // 3. 类型推导
-        console.log('\n🔬 步骤 3: 类型推导');
-        scene.inferTypes();
-        console.log('   ✓ 类型推导完成');
-        
-        console.log(`\n📚 发现 ${scene.getFiles().length} 个文件`);
-        
-        // 4. 创建分析器
-        console.log('\n🔧 步骤 4: 初始化 V3 分析器');
-        const analyzer = new OpenEyeLifecycleAnalyzerV3(scene);
-        console.log('   ✓ 分析器初始化完成');
-        console.log(`   ✓ 支持 ${OpenEyeLifecycleAnalyzerV3['ABILITY_LIFECYCLE'].length} 种 Ability 生命周期`);
-        console.log(`   ✓ 支持 ${OpenEyeLifecycleAnalyzerV3['COMPONENT_LIFECYCLE'].length} 种 Component 生命周期`);
-        
-        // 5. 识别生命周期方法
-        console.log('\n🎯 步骤 5: 识别生命周期方法');
-        analyzer.identifyLifecycleMethods();
-        
-        // 6. 构建调用图
-        console.log('\n🌐 步骤 6: 构建调用图');
-        analyzer.buildCallGraph();
-        
-        // 7. 分析未定义变量
-        console.log('\n🔍 步骤 7: 分析未定义变量');
-        analyzer.analyzeUndefinedVariables();
-        
-        // 8. 分析数据流
-        console.log('\n📈 步骤 8: 分析数据流');
-        analyzer.analyzeDataFlow();
-        
-        // 9. 生成报告
-        console.log('\n📝 步骤 9: 生成详细报告');
-        analyzer.generateDetailedReport();
-        
-        // 10. 打印详细数据流
-        console.log('\n🔍 步骤 10: 打印详细数据流');
-        analyzer.printDetailedDataFlow(5);
-        
-        // 11. 导出数据流到 JSON
-        console.log('\n💾 步骤 11: 导出数据流');
-        const dataFlowJsonPath = '../output/dataflow-v3.json';
-        analyzer.exportDataFlowToJson(dataFlowJsonPath);
-        
-        // 12. 导出数据流到 Markdown
-        const dataFlowMdPath = '../output/dataflow-v3.md';
-        analyzer.exportDataFlowToMarkdown(dataFlowMdPath);
-        
-        // 13. 导出调用图
-        console.log('\n🗺️  步骤 13: 导出调用图');
-        const callGraphPath = '../output/openeye-callgraph-v3.dot';
-        analyzer.exportCallGraphToDot(callGraphPath);
-        
-        console.log('\n✅ Version 3.0 分析完成！');
-        console.log('\n📂 生成的文件:');
-        console.log(`   • ${dataFlowJsonPath} - 数据流 JSON 详情`);
-        console.log(`   • ${dataFlowMdPath} - 数据流 Markdown 报告`);
-        console.log(`   • ${callGraphPath} - 调用图 DOT 文件`);
-        console.log('\n💡 Version 3.0 改进:');
-        console.log('   • 使用框架完整的 43 种生命周期定义');
-        console.log('   • 与 DummyMainCreater 保持完全一致');
-        console.log('   • 详细的覆盖率分析和推荐');
-        console.log('   • 区分已使用 vs 未使用的生命周期');
-        console.log('   • 完整的数据流导出和可视化');
-        
+        const { gates } = runAnalysis(opts, ['analysis', 'output']);
+        printGateSummary(gates);
+        const exitCode = gateExitCode(gates);
+        if (exitCode !== EXIT_CODES.OK) {
+            console.log(`\n🚫 ${t('run.gatesFailed', { code: exitCode })}`);
+            return exitCode;
+        }
+        console.log(`\n✅ ${t('run.done')}`);
+        return EXIT_CODES.OK;
     } catch (error) {
-        console.error('\n❌ 分析失败:', error);
+        console.error(`\n❌ ${t('run.failed')}:`, error);
         console.error(error);
+        return EXIT_CODES.ANALYSIS_FAILED;
     }
 }
 
-// 执行分析
-analyzeOpenEyeLifecycleV3();
+// 直接运行时执行完整分析
+if (require.main === module) {
+    process.exitCode = analyzeOpenEyeLifecycleV3();
+}
@@ -0,0 +1,156 @@
+// baseline.ts - 问题基线
+// 把已知问题记录到基线文件，之后的运行只报告基线中没有的新问题
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { AnalysisResult, BaselineSummary, Finding, UndefinedIssue } from './types';
+import { formatMessage, t } from './i18n';
+
+/**
+ * 基线文件格式版本
+ */
+export const BASELINE_VERSION = 1;
+
+/**
+ * 基线中的一条已知问题
+ */
+export interface BaselineEntry {
+    fingerprint: string;
+    ruleId: string;
+    /** 类名.方法名，便于人工审阅 */
+    method: string;
+    description: string;
+    /** 同一指纹在基线中的出现次数 */
+    count: number;
+}
+
+/**
+ * 基线文件
+ */
+export interface BaselineFile {
+    version: number;
+    generatedAt: string;
+    entries: BaselineEntry[];
+}
+
+/**
+ * 规范化 IR 语句：临时变量编号和空白不参与指纹计算
+ */
+export function normalizeStatement(statement: string): string {
+    return statement
+        .replace(/%\d+/g, '%_')
+        .replace(/\$temp\d+/g, '$temp_')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function hash(parts: string[]): string {
+    return crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex').substring(0, 16);
+}
+
+/**
+ * 未定义变量问题的指纹：规则 + 类名.方法名 + 规范化语句，不含行号
+ */
+export function fingerprintIssue(issue: UndefinedIssue): string {
+    return hash([issue.ruleId, `${issue.className}.${issue.phase}`, normalizeStatement(issue.statement)]);
+}
+
+/**
+ * 自定义规则结果的指纹：规则 + 类名.方法名 + 消息，不含行号
+ *
+ * 带 messageId 的结果按中文消息计算，切换 --lang 不影响基线匹配。
+ */
+export function fingerprintFinding(finding: Finding): string {
+    const message = finding.messageId ? formatMessage(finding.messageId, finding.messageArgs, 'zh') : finding.message;
+    return hash([finding.ruleId, `${finding.className}.${finding.method}`, message.replace(/\s+/g, ' ').trim()]);
+}
+
+/**
+ * 从分析结果生成基线
+ */
+export function createBaseline(result: AnalysisResult): BaselineFile {
+    const entries = new Map<string, BaselineEntry>();
+    const add = (fingerprint: string, ruleId: string, method: string, description: string): void => {
+        const entry = entries.get(fingerprint);
+        if (entry) {
+            entry.count++;
+        } else {
+            entries.set(fingerprint, { fingerprint, ruleId, method, description, count: 1 });
+        }
+    };
+
+    for (const issue of result.undefinedIssues) {
+        add(fingerprintIssue(issue), issue.ruleId, issue.method, issue.description);
+    }
+    for (const finding of result.findings) {
+        add(fingerprintFinding(finding), finding.ruleId, `${finding.className}.${finding.method}`, finding.message);
+    }
+
+    return {
+        version: BASELINE_VERSION,
+        generatedAt: result.generatedAt,
+        entries: Array.from(entries.values())
+            .sort((a, b) => a.method.localeCompare(b.method) || a.fingerprint.localeCompare(b.fingerprint))
+    };
+}
+
+/**
+ * 读取基线文件
+ */
+export function loadBaseline(baselinePath: string): BaselineFile {
+    if (!fs.existsSync(baselinePath)) {
+        throw new Error(t('baseline.error.missing', { path: baselinePath }));
+    }
+    const raw = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+    if (raw.version !== BASELINE_VERSION || !Array.isArray(raw.entries)) {
+        throw new Error(t('baseline.error.invalid', { path: baselinePath }));
+    }
+    return raw as BaselineFile;
+}
+
+/**
+ * 写出基线文件
+ */
+export function writeBaseline(baselinePath: string, baseline: BaselineFile): void {
+    const outputDir = path.dirname(baselinePath);
+    if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+    }
+    fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * 过滤掉基线中已有的问题
+ *
+ * 同一指纹按次数匹配：基线记录 2 次而本次出现 3 次时，多出的 1 次作为新问题报告。
+ */
+export function applyBaseline(
+    baseline: BaselineFile,
+    baselinePath: string,
+    undefinedIssues: UndefinedIssue[],
+    findings: Finding[]
+): { undefinedIssues: UndefinedIssue[]; findings: Finding[]; summary: BaselineSummary } {
+    const remaining = new Map(baseline.entries.map(entry => [entry.fingerprint, entry.count]));
+    const isKnown = (fingerprint: string): boolean => {
+        const count = remaining.get(fingerprint) ?? 0;
+        if (count > 0) {
+            remaining.set(fingerprint, count - 1);
+            return true;
+        }
+        return false;
+    };
+
+    const newIssues = undefinedIssues.filter(issue => !isKnown(fingerprintIssue(issue)));
+    const newFindings = findings.filter(finding => !isKnown(fingerprintFinding(finding)));
+
+    return {
+        undefinedIssues: newIssues,
+        findings: newFindings,
+        summary: {
+            path: baselinePath,
+            suppressed: (undefinedIssues.length - newIssues.length) + (findings.length - newFindings.length),
+            fixed: Array.from(remaining.values()).reduce((sum, count) => sum + count, 0)
+        }
+    };
+}
@@ -0,0 +1,222 @@
+// builtinPasses.ts - 内置分析 Pass
+// 对应原先 analyzeOpenEyeLifecycleV3() 中固定顺序的步骤 5-13
+import * as path from 'path';
+
+import { AnalysisPass, ARTIFACTS, PassRegistry } from './passes';
+import { printDetailedReport, printDetailedDataFlow } from './consoleReport';
+import { EXPORT_TARGETS } from './exportTargets';
+import { t } from './i18n';
+
+/**
+ * 识别生命周期方法
+ */
+export const lifecyclePass: AnalysisPass = {
+    name: 'lifecycle',
+    get description() {
+        return t('pass.lifecycle.description');
+    },
+    phase: 'analysis',
+    requires: [],
+    produces: [ARTIFACTS.LIFECYCLE_METHODS],
+    run(context) {
+        context.analyzer.identifyLifecycleMethods();
+    }
+};
+
+/**
+ * 构建调用图
+ */
+export const callGraphPass: AnalysisPass = {
+    name: 'callgraph',
+    get description() {
+        return t('pass.callgraph.description');
+    },
+    phase: 'analysis',
+    requires: [ARTIFACTS.LIFECYCLE_METHODS],
+    produces: [ARTIFACTS.CALL_GRAPH],
+    run(context) {
+        context.analyzer.buildCallGraph();
+    }
+};
+
+/**
+ * 分析未定义变量
+ */
+export const undefinedPass: AnalysisPass = {
+    name: 'undefined',
+    get description() {
+        return t('pass.undefined.description');
+    },
+    phase: 'analysis',
+    requires: [ARTIFACTS.LIFECYCLE_METHODS],
+    produces: [ARTIFACTS.UNDEFINED_ISSUES],
+    run(context) {
+        context.analyzer.analyzeUndefinedVariables();
+    }
+};
+
+/**
+ * 分析函数间数据流
+ */
+export const dataFlowPass: AnalysisPass = {
+    name: 'dataflow',
+    get description() {
+        return t('pass.dataflow.description');
+    },
+    phase: 'analysis',
+    requires: [ARTIFACTS.LIFECYCLE_METHODS, ARTIFACTS.CALL_GRAPH],
+    produces: [ARTIFACTS.DATA_FLOWS],
+    run(context) {
+        context.analyzer.analyzeDataFlow();
+    }
+};
+
+/**
+ * 按模块统计并分析跨模块调用
+ */
+export const modulePass: AnalysisPass = {
+    name: 'modules',
+    get description() {
+        return t('pass.modules.description');
+    },
+    phase: 'analysis',
+    requires: [ARTIFACTS.LIFECYCLE_METHODS],
+    produces: [ARTIFACTS.MODULES],
+    run(context) {
+        context.analyzer.analyzeModules();
+    }
+};
+
+/**
+ * 默认视为注册监听的方法名
+ */
+export const DEFAULT_LISTENER_APIS = ['on', 'once', 'subscribe', 'addEventListener'];
+
+/**
+ * 检查注册了监听却没有实现 aboutToDisappear 的组件
+ *
+ * 选项: `apis` 视为注册监听的方法名（默认 DEFAULT_LISTENER_APIS）
+ */
+export const listenerPass: AnalysisPass = {
+    name: 'listeners',
+    get description() {
+        return t('pass.listeners.description');
+    },
+    phase: 'analysis',
+    requires: [ARTIFACTS.LIFECYCLE_METHODS],
+    produces: [ARTIFACTS.FINDINGS],
+    run(context, options) {
+        const apis = Array.isArray(options.apis) ? options.apis.map(String) : DEFAULT_LISTENER_APIS;
+        context.analyzer.analyzeListenerCleanup(apis);
+    }
+};
+
+/**
+ * 控制台详细报告
+ *
+ * 选项: `dataFlowLimit` 详细数据流打印的方法数（默认 5）
+ */
+export const reportPass: AnalysisPass = {
+    name: 'report',
+    get description() {
+        return t('pass.report.description');
+    },
+    phase: 'output',
+    requires: [ARTIFACTS.LIFECYCLE_METHODS],
+    produces: [],
+    requiresScene: false,
+    run(context, options) {
+        const result = context.getResult();
+        printDetailedReport(result);
+
+        if (context.artifacts.has(ARTIFACTS.DATA_FLOWS)) {
+            const limit = typeof options.dataFlowLimit === 'number' ? options.dataFlowLimit : 5;
+            printDetailedDataFlow(result, limit);
+        }
+    }
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 导出结果文件
+ *
+ * 选项: `formats` 只导出指定格式（默认全部，见 EXPORT_TARGETS）；
+ * 以格式名为键的对象作为该格式的选项，如 `dot: { depth: 3 }`
+ */
+export const exportPass: AnalysisPass = {
+    name: 'export',
+    get description() {
+        return t('pass.export.description');
+    },
+    phase: 'output',
+    requires: [],
+    produces: [],
+    requiresScene: false,
+    run(context, options) {
+        const formats = Array.isArray(options.formats) ? options.formats as string[] : null;
+        const generatedFiles: string[] = [];
+        context.log(`   📂 ${t('export.outputDir')}: ${context.outputDir}`);
+
+        for (const target of EXPORT_TARGETS) {
+            if (formats && !formats.includes(target.format)) {
+                continue;
+            }
+            if (!target.when(context)) {
+                continue;
+            }
+            const outputPath = path.join(context.outputDir, target.fileName);
+            const targetOptions = options[target.format];
+            try {
+                const written = target.write(context, outputPath, isRecord(targetOptions) ? targetOptions : {});
+                for (const file of Array.isArray(written) ? written : [outputPath]) {
+                    generatedFiles.push(`${file} - ${target.description}`);
+                }
+            } catch (error) {
+                // 单个格式失败不影响其他格式，记录为内部错误（--strict 时分析失败）
+                context.addDiagnostic({
+                    pass: 'export',
+                    method: null,
+                    phase: null,
+                    filePath: null,
+                    message: `${target.format}: ${error instanceof Error ? error.message : String(error)}`,
+                    stack: error instanceof Error ? error.stack ?? null : null
+                });
+            }
+        }
+
+        if (generatedFiles.length > 0) {
+            context.log(`\n📂 ${t('export.generatedFiles')}:`);
+            for (const file of generatedFiles) {
+                context.log(`   • ${file}`);
+            }
+        }
+    }
+};
+
+/**
+ * 全部内置 Pass（按默认执行顺序）
+ */
+export const BUILTIN_PASSES: AnalysisPass[] = [
+    lifecyclePass,
+    callGraphPass,
+    undefinedPass,
+    dataFlowPass,
+    modulePass,
+    listenerPass,
+    reportPass,
+    exportPass
+];
+
+/**
+ * 创建注册了全部内置 Pass 的注册表
+ */
+export function createDefaultRegistry(): PassRegistry {
+    const registry = new PassRegistry();
+    for (const pass of BUILTIN_PASSES) {
+        registry.register(pass);
+    }
+    return registry;
+}
@@ -0,0 +1,336 @@
+// callGraphDiagrams.ts - 调用图 Mermaid / PlantUML 渲染
+// 与 DOT 导出使用相同的深度限制、%unk 折叠、按文件和类分组以及生命周期着色，便于直接嵌入 Markdown
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import {
+    DotExportOptions,
+    UNKNOWN_FILE,
+    collapseUnknownCalls,
+    fileClusterLabel,
+    groupByFileAndClass,
+    limitDepth,
+    nodeColor,
+    parseDotOptions,
+    prepareCallGraph
+} from './callGraphDot';
+import { CallGraphData, CallGraphNode } from './types';
+import { t } from './i18n';
+
+/**
+ * 图表格式
+ */
+export type DiagramFormat = 'mermaid' | 'plantuml';
+
+/**
+ * Mermaid / PlantUML 导出选项（对应 export Pass 的 `options.mermaid` / `options.plantuml`）
+ */
+export interface DiagramExportOptions extends DotExportOptions {
+    /** 是否另外导出每个生命周期方法的调用子树，默认 true */
+    subtrees?: boolean;
+    /** 调用子树的最大深度，默认 3 */
+    subtreeDepth?: number;
+}
+
+/**
+ * 一个根节点的调用子树
+ */
+export interface CallSubtree {
+    root: CallGraphNode;
+    graph: CallGraphData;
+}
+
+/**
+ * 调用子树文件名
+ */
+export const SUBTREE_FILES: Record<DiagramFormat, string> = {
+    mermaid: 'openeye-callgraph-lifecycles-v3.md',
+    plantuml: 'openeye-callgraph-lifecycles-v3.puml'
+};
+
+const DEFAULT_SUBTREE_DEPTH = 3;
+
+/**
+ * Mermaid 默认最多渲染的边数（GitHub 使用默认配置）
+ */
+export const MERMAID_MAX_EDGES = 500;
+
+/**
+ * DOT 颜色名对应的十六进制颜色（lightgoldenrod 不是 CSS / PlantUML 颜色名）
+ */
+const COLOR_HEX: Record<string, string> = {
+    lightcoral: '#F08080',
+    palegreen: '#98FB98',
+    lightgoldenrod: '#EEDD82',
+    lightblue: '#ADD8E6',
+    lightgray: '#D3D3D3'
+};
+
+function hexColor(node: CallGraphNode): string {
+    return COLOR_HEX[nodeColor(node)] ?? COLOR_HEX.lightblue;
+}
+
+/**
+ * 从 export Pass 的原始选项中读取图表选项，忽略类型不符的字段
+ */
+export function parseDiagramOptions(raw: Record<string, unknown>): DiagramExportOptions {
+    const options: DiagramExportOptions = parseDotOptions(raw);
+    if (typeof raw.subtrees === 'boolean') {
+        options.subtrees = raw.subtrees;
+    }
+    if (typeof raw.subtreeDepth === 'number' && raw.subtreeDepth >= 0) {
+        options.subtreeDepth = Math.floor(raw.subtreeDepth);
+    }
+    return options;
+}
+
+/**
+ * 为每个根节点（默认全部生命周期方法）提取调用子树，跳过没有调用的根
+ */
+export function extractCallSubtrees(graph: CallGraphData, options: DiagramExportOptions = {}): CallSubtree[] {
+    const roots = options.roots && options.roots.length > 0
+        ? graph.nodes.filter(n => options.roots!.includes(n.id) || options.roots!.includes(n.label))
+        : graph.nodes.filter(n => n.lifecycle !== null);
+    const depth = options.subtreeDepth ?? DEFAULT_SUBTREE_DEPTH;
+
+    const subtrees: CallSubtree[] = [];
+    for (const root of [...roots].sort((a, b) => a.label.localeCompare(b.label))) {
+        let subtree = limitDepth(graph, [root.id], depth).graph;
+        if (subtree.edges.length === 0) {
+            continue;
+        }
+        if (options.collapseUnknown) {
+            subtree = collapseUnknownCalls(subtree);
+        }
+        subtrees.push({ root, graph: subtree });
+    }
+    return subtrees;
+}
+
+/**
+ * 节点的样式类：生命周期类型、普通方法或 %unk 调用
+ */
+function styleClass(node: CallGraphNode): string {
+    if (node.lifecycle) {
+        return node.lifecycle.toLowerCase();
+    }
+    return node.filePath === UNKNOWN_FILE ? 'unknown' : 'method';
+}
+
+/**
+ * 为节点分配短 ID（签名中含有 Mermaid / PlantUML 不接受的字符）
+ */
+function assignIds(graph: CallGraphData): Map<string, string> {
+    return new Map(graph.nodes.map((node, index) => [node.id, `n${index}`] as [string, string]));
+}
+
+/**
+ * Mermaid 标签转义
+ */
+function mermaidText(value: string): string {
+    return value
+        .replace(/#/g, '#35;')
+        .replace(/"/g, '#quot;')
+        .replace(/</g, '#lt;')
+        .replace(/>/g, '#gt;')
+        .replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * 渲染 Mermaid flowchart
+ */
+export function renderCallGraphMermaid(graph: CallGraphData, options: DotExportOptions = {}): string {
+    const ids = assignIds(graph);
+    const renderNode = (node: CallGraphNode, indent: string): string => {
+        const label = `"${mermaidText(node.label)}"`;
+        const shape = node.filePath === UNKNOWN_FILE ? `([${label}])` : `[${label}]`;
+        return `${indent}${ids.get(node.id)}${shape}\n`;
+    };
+
+    let mermaid = 'flowchart LR\n';
+    if (options.cluster === false) {
+        for (const node of graph.nodes) {
+            mermaid += renderNode(node, '    ');
+        }
+    } else {
+        let fileIndex = 0;
+        for (const [filePath, classes] of groupByFileAndClass(graph.nodes)) {
+            const fileId = `f${fileIndex++}`;
+            mermaid += `    subgraph ${fileId}["${mermaidText(fileClusterLabel(filePath))}"]\n`;
+
+            let classIndex = 0;
+            for (const [className, members] of classes) {
+                if (filePath === UNKNOWN_FILE || !className) {
+                    for (const node of members) {
+                        mermaid += renderNode(node, '        ');
+                    }
+                    continue;
+                }
+                mermaid += `        subgraph ${fileId}_c${classIndex++}["${mermaidText(className)}"]\n`;
+                for (const node of members) {
+                    mermaid += renderNode(node, '            ');
+                }
+                mermaid += '        end\n';
+            }
+            mermaid += '    end\n';
+        }
+    }
+
+    for (const edge of graph.edges) {
+        mermaid += `    ${ids.get(edge.from)} --> ${ids.get(edge.to)}\n`;
+    }
+
+    // 按样式类着色
+    const styled = new Map<string, { color: string; ids: string[] }>();
+    for (const node of graph.nodes) {
+        const name = styleClass(node);
+        const entry = styled.get(name) ?? { color: hexColor(node), ids: [] };
+        entry.ids.push(ids.get(node.id)!);
+        styled.set(name, entry);
+    }
+    for (const [name, { color, ids: members }] of styled) {
+        mermaid += `    classDef ${name} fill:${color},stroke:#555\n`;
+        mermaid += `    class ${members.join(',')} ${name}\n`;
+    }
+
+    return mermaid;
+}
+
+/**
+ * PlantUML 标签转义（引号内不能出现双引号）
+ */
+function plantUmlText(value: string): string {
+    return value.replace(/"/g, '\'').replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * 渲染 PlantUML 图（普通方法为矩形，%unk 调用为椭圆）
+ */
+export function renderCallGraphPlantUml(graph: CallGraphData, options: DotExportOptions = {}, title?: string): string {
+    const ids = assignIds(graph);
+    const renderNode = (node: CallGraphNode, indent: string): string => {
+        const kind = node.filePath === UNKNOWN_FILE ? 'usecase' : 'rectangle';
+        return `${indent}${kind} "${plantUmlText(node.label)}" as ${ids.get(node.id)} ${hexColor(node)}\n`;
+    };
+
+    let uml = '@startuml\n';
+    if (title) {
+        uml += `title ${plantUmlText(title)}\n`;
+    }
+    uml += 'left to right direction\n';
+    uml += 'skinparam shadowing false\n';
+    uml += 'skinparam defaultFontSize 10\n\n';
+
+    if (options.cluster === false) {
+        for (const node of graph.nodes) {
+            uml += renderNode(node, '');
+        }
+    } else {
+        let fileIndex = 0;
+        for (const [filePath, classes] of groupByFileAndClass(graph.nodes)) {
+            const fileId = `f${fileIndex++}`;
+            uml += `package "${plantUmlText(fileClusterLabel(filePath))}" as ${fileId} {\n`;
+
+            let classIndex = 0;
+            for (const [className, members] of classes) {
+                if (filePath === UNKNOWN_FILE || !className) {
+                    for (const node of members) {
+                        uml += renderNode(node, '    ');
+                    }
+                    continue;
+                }
+                uml += `    rectangle "${plantUmlText(className)}" as ${fileId}_c${classIndex++} {\n`;
+                for (const node of members) {
+                    uml += renderNode(node, '        ');
+                }
+                uml += '    }\n';
+            }
+            uml += '}\n';
+        }
+    }
+
+    uml += '\n';
+    for (const edge of graph.edges) {
+        uml += `${ids.get(edge.from)} --> ${ids.get(edge.to)}\n`;
+    }
+    uml += '@enduml\n';
+
+    return uml;
+}
+
+/**
+ * 渲染调用子树文件：Mermaid 为每个子树一个 ```mermaid 代码块的 Markdown，PlantUML 为多个 @startuml 图
+ */
+export function renderCallSubtrees(subtrees: CallSubtree[], format: DiagramFormat, options: DiagramExportOptions = {}): string {
+    const depth = options.subtreeDepth ?? DEFAULT_SUBTREE_DEPTH;
+
+    if (format === 'plantuml') {
+        return subtrees
+            .map(({ root, graph }) => renderCallGraphPlantUml(graph, options, `${root.label} (${t('export.subtrees.depth', { depth })})`))
+            .join('\n');
+    }
+
+    let md = `# ${t('export.subtrees.title')}\n\n`;
+    md += `> ${t('export.subtrees.intro', { depth, count: subtrees.length })}\n\n`;
+    for (const { root, graph } of subtrees) {
+        md += `## ${root.label}\n\n`;
+        md += `- **${t('export.subtrees.type')}**: ${root.lifecycle ?? t('export.subtrees.plainMethod')}\n`;
+        md += `- **${t('export.subtrees.file')}**: \`${root.filePath}\`\n`;
+        md += `- **${t('export.subtrees.nodes')}**: ${graph.nodes.length}, **${t('export.subtrees.edges')}**: ${graph.edges.length}\n\n`;
+        md += '```mermaid\n';
+        md += renderCallGraphMermaid(graph, options);
+        md += '```\n\n';
+    }
+    return md;
+}
+
+/**
+ * 按选项裁剪调用图并写出 Mermaid / PlantUML 文件，返回写出的文件
+ */
+export function writeCallGraphDiagram(
+    fullGraph: CallGraphData,
+    format: DiagramFormat,
+    outputPath: string,
+    options: DiagramExportOptions = {},
+    log: Logger = console.log
+): string[] {
+    log(`\n📊 ${t('export.callgraph.start')} (${format === 'mermaid' ? 'Mermaid' : 'PlantUML'})...`);
+
+    const written: string[] = [];
+    try {
+        const graph = prepareCallGraph(fullGraph, options, log);
+
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        const content = format === 'mermaid'
+            ? renderCallGraphMermaid(graph, options)
+            : renderCallGraphPlantUml(graph, options);
+        fs.writeFileSync(outputPath, content, 'utf-8');
+        written.push(outputPath);
+        log(`   ✓ ${t('export.callgraph.done', { path: outputPath })}`);
+        log(`   📊 ${t('export.callgraph.size', { nodes: graph.nodes.length, edges: graph.edges.length })}`);
+        if (format === 'mermaid' && graph.edges.length > MERMAID_MAX_EDGES) {
+            log(`   ⚠️  ${t('export.mermaid.tooLarge', { max: MERMAID_MAX_EDGES })}`);
+        }
+
+        if (options.subtrees !== false) {
+            const subtrees = extractCallSubtrees(fullGraph, options);
+            const subtreePath = path.join(outputDir, SUBTREE_FILES[format]);
+            fs.writeFileSync(subtreePath, renderCallSubtrees(subtrees, format, options), 'utf-8');
+            written.push(subtreePath);
+            log(`   ✓ ${t('export.subtrees.done', { path: subtreePath, count: subtrees.length })}`);
+        }
+
+        log(format === 'mermaid'
+            ? `   💡 ${t('export.mermaid.hint')}`
+            : `   💡 ${t('export.plantuml.hint', { path: outputPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+    return written;
+}
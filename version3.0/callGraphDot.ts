@@ -0,0 +1,293 @@
+// callGraphDot.ts - 调用图 DOT 渲染
+// 按文件和类分组为 subgraph cluster，支持从指定根节点限制深度、折叠 %unk SDK 调用
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { CallGraphData, CallGraphNode, CallGraphEdge, LifecycleType } from './types';
+import { t } from './i18n';
+
+/**
+ * DOT 导出选项（对应 config.json 中 export Pass 的 `options.dot`）
+ */
+export interface DotExportOptions {
+    /** 起始节点（`类名.方法名` 或完整签名），只导出从这些节点可达的部分；未指定时以全部生命周期方法为根 */
+    roots?: string[];
+    /** 从根节点出发的最大调用深度；未指定 depth 和 roots 时导出完整调用图 */
+    depth?: number;
+    /** 把无法解析的 %unk 调用按 API 折叠为一个节点 */
+    collapseUnknown?: boolean;
+    /** 是否按文件和类分组，默认 true */
+    cluster?: boolean;
+}
+
+/**
+ * 生命周期类型对应的节点颜色
+ */
+export const LIFECYCLE_COLORS: Record<LifecycleType, string> = {
+    [LifecycleType.ABILITY]: 'lightcoral',
+    [LifecycleType.COMPONENT]: 'palegreen',
+    [LifecycleType.CALLBACK]: 'lightgoldenrod'
+};
+
+export const DEFAULT_COLOR = 'lightblue';
+export const UNKNOWN_COLOR = 'lightgray';
+
+/**
+ * 无法解析的方法所在的伪文件名
+ */
+export const UNKNOWN_FILE = '%unk';
+
+/**
+ * 从 export Pass 的原始选项中读取 DOT 选项，忽略类型不符的字段
+ */
+export function parseDotOptions(raw: Record<string, unknown>): DotExportOptions {
+    const options: DotExportOptions = {};
+    if (Array.isArray(raw.roots)) {
+        options.roots = raw.roots.map(String);
+    }
+    if (typeof raw.depth === 'number' && raw.depth >= 0) {
+        options.depth = Math.floor(raw.depth);
+    }
+    if (typeof raw.collapseUnknown === 'boolean') {
+        options.collapseUnknown = raw.collapseUnknown;
+    }
+    if (typeof raw.cluster === 'boolean') {
+        options.cluster = raw.cluster;
+    }
+    return options;
+}
+
+/**
+ * 从根节点出发按深度裁剪调用图（`depth` 为 Infinity 时保留全部可达节点），返回裁剪结果和未匹配的根
+ */
+export function limitDepth(
+    graph: CallGraphData,
+    roots: string[] | undefined,
+    depth: number
+): { graph: CallGraphData; unmatchedRoots: string[] } {
+    const unmatchedRoots: string[] = [];
+    let start: CallGraphNode[];
+    if (roots && roots.length > 0) {
+        start = [];
+        for (const root of roots) {
+            const matched = graph.nodes.filter(n => n.id === root || n.label === root);
+            if (matched.length === 0) {
+                unmatchedRoots.push(root);
+            }
+            start.push(...matched);
+        }
+    } else {
+        start = graph.nodes.filter(n => n.lifecycle !== null);
+    }
+
+    const outgoing = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+        const targets = outgoing.get(edge.from) ?? [];
+        targets.push(edge.to);
+        outgoing.set(edge.from, targets);
+    }
+
+    const reached = new Map<string, number>();
+    const queue: string[] = [];
+    for (const node of start) {
+        if (!reached.has(node.id)) {
+            reached.set(node.id, 0);
+            queue.push(node.id);
+        }
+    }
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        const level = reached.get(id)!;
+        if (level >= depth) {
+            continue;
+        }
+        for (const to of outgoing.get(id) ?? []) {
+            if (!reached.has(to)) {
+                reached.set(to, level + 1);
+                queue.push(to);
+            }
+        }
+    }
+
+    return {
+        graph: {
+            nodes: graph.nodes.filter(n => reached.has(n.id)),
+            edges: graph.edges.filter(e => reached.has(e.from) && reached.has(e.to))
+        },
+        unmatchedRoots
+    };
+}
+
+/**
+ * 把 %unk 调用按 API（类名.方法名）折叠为一个节点，合并重复的边
+ */
+export function collapseUnknownCalls(graph: CallGraphData): CallGraphData {
+    const mapping = new Map<string, string>();
+    const nodes = new Map<string, CallGraphNode>();
+
+    for (const node of graph.nodes) {
+        if (node.filePath !== UNKNOWN_FILE) {
+            nodes.set(node.id, node);
+            continue;
+        }
+        const id = `${UNKNOWN_FILE}:${node.label}`;
+        mapping.set(node.id, id);
+        if (!nodes.has(id)) {
+            nodes.set(id, { ...node, id });
+        }
+    }
+
+    const edges = new Map<string, CallGraphEdge>();
+    for (const edge of graph.edges) {
+        const from = mapping.get(edge.from) ?? edge.from;
+        const to = mapping.get(edge.to) ?? edge.to;
+        edges.set(`${from}->${to}`, { from, to });
+    }
+
+    return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+/**
+ * 按选项裁剪调用图：先按根节点和深度限制，再折叠 %unk 调用
+ */
+export function prepareCallGraph(fullGraph: CallGraphData, options: DotExportOptions, log: Logger = console.log): CallGraphData {
+    let graph = fullGraph;
+
+    const hasRoots = options.roots !== undefined && options.roots.length > 0;
+    if (options.depth !== undefined || hasRoots) {
+        const limited = limitDepth(graph, options.roots, options.depth ?? Infinity);
+        for (const root of limited.unmatchedRoots) {
+            log(`   ⚠️  ${t('export.callgraph.rootNotFound', { root })}`);
+        }
+        graph = limited.graph;
+    }
+    if (options.collapseUnknown) {
+        graph = collapseUnknownCalls(graph);
+    }
+    return graph;
+}
+
+/**
+ * 节点颜色：生命周期方法按类型着色，%unk 调用为灰色
+ */
+export function nodeColor(node: CallGraphNode): string {
+    if (node.lifecycle) {
+        return LIFECYCLE_COLORS[node.lifecycle];
+    }
+    return node.filePath === UNKNOWN_FILE ? UNKNOWN_COLOR : DEFAULT_COLOR;
+}
+
+/**
+ * 按文件、类分组节点（文件 -> 类 -> 节点），保持节点出现顺序
+ */
+export function groupByFileAndClass(nodes: CallGraphNode[]): Map<string, Map<string, CallGraphNode[]>> {
+    const files = new Map<string, Map<string, CallGraphNode[]>>();
+    for (const node of nodes) {
+        const classes = files.get(node.filePath) ?? new Map<string, CallGraphNode[]>();
+        const members = classes.get(node.className) ?? [];
+        members.push(node);
+        classes.set(node.className, members);
+        files.set(node.filePath, classes);
+    }
+    return files;
+}
+
+/**
+ * 文件分组的标题
+ */
+export function fileClusterLabel(filePath: string): string {
+    return filePath === UNKNOWN_FILE ? t('export.callgraph.unresolved') : filePath;
+}
+
+/**
+ * DOT 字符串转义
+ */
+function quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function renderNode(node: CallGraphNode, indent: string): string {
+    const shape = node.filePath === UNKNOWN_FILE ? ', shape=ellipse' : '';
+    return `${indent}${quote(node.id)} [label=${quote(node.label)}, tooltip=${quote(node.id)}, fillcolor=${nodeColor(node)}${shape}];\n`;
+}
+
+/**
+ * 渲染 DOT 文本
+ */
+export function renderCallGraphDot(graph: CallGraphData, options: DotExportOptions = {}): string {
+    let dot = 'digraph CallGraph {\n';
+    dot += '    node [shape=box, style=filled, fillcolor=lightblue, fontsize=10];\n';
+    dot += '    rankdir=LR;\n';
+    dot += '    compound=true;\n\n';
+
+    if (options.cluster === false) {
+        for (const node of graph.nodes) {
+            dot += renderNode(node, '    ');
+        }
+    } else {
+        let fileIndex = 0;
+        for (const [filePath, classes] of groupByFileAndClass(graph.nodes)) {
+            const fileId = `cluster_f${fileIndex++}`;
+            dot += `    subgraph ${fileId} {\n`;
+            dot += `        label=${quote(fileClusterLabel(filePath))};\n`;
+            dot += '        style=rounded;\n';
+            dot += '        color=gray60;\n';
+
+            let classIndex = 0;
+            for (const [className, members] of classes) {
+                if (filePath === UNKNOWN_FILE || !className) {
+                    for (const node of members) {
+                        dot += renderNode(node, '        ');
+                    }
+                    continue;
+                }
+                dot += `        subgraph ${fileId}_c${classIndex++} {\n`;
+                dot += `            label=${quote(className)};\n`;
+                dot += '            style=dashed;\n';
+                for (const node of members) {
+                    dot += renderNode(node, '            ');
+                }
+                dot += '        }\n';
+            }
+            dot += '    }\n';
+        }
+    }
+
+    dot += '\n';
+    for (const edge of graph.edges) {
+        dot += `    ${quote(edge.from)} -> ${quote(edge.to)};\n`;
+    }
+    dot += '}\n';
+
+    return dot;
+}
+
+/**
+ * 按选项裁剪调用图并写出 DOT 文件
+ */
+export function writeCallGraphDot(
+    fullGraph: CallGraphData,
+    outputPath: string,
+    options: DotExportOptions = {},
+    log: Logger = console.log
+): void {
+    log(`\n📊 ${t('export.callgraph.start')}...`);
+
+    try {
+        const graph = prepareCallGraph(fullGraph, options, log);
+
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, renderCallGraphDot(graph, options), 'utf-8');
+        log(`   ✓ ${t('export.callgraph.done', { path: outputPath })}`);
+        log(`   📊 ${t('export.callgraph.size', { nodes: graph.nodes.length, edges: graph.edges.length })}`);
+        log(`   💡 ${t('export.callgraph.graphviz', { path: outputPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
@@ -0,0 +1,314 @@
+// cli.ts - openeye-analyze 命令行入口
+// 用一个命令 + 子命令替代各版本目录中写死路径的分析脚本
+import * as path from 'path';
+
+import { AnalysisStep, AnalyzeOptions } from './types';
+import { DEFAULT_OPTIONS, analyzeOpenEyeLifecycleV3 } from './analyzeOpenEyeLifecycle';
+import { BUILTIN_PASSES } from './builtinPasses';
+import { EXIT_CODES } from './qualityGates';
+import { exportResultDiff } from './diffReport';
+import { migrateExportFile } from './schemaMigration';
+import { watchProject } from './watchMode';
+import { Locale, MessageKey, parseLocale, setLocale, t } from './i18n';
+
+/**
+ * 子命令及其默认执行的步骤（null 表示按配置文件选择 Pass；diff / migrate 不执行分析）
+ */
+const COMMANDS: Record<string, { description: MessageKey; steps: AnalysisStep[] | null }> = {
+    lifecycle: {
+        description: 'cli.command.lifecycle',
+        steps: ['lifecycle', 'report']
+    },
+    undefined: {
+        description: 'cli.command.undefined',
+        steps: ['lifecycle', 'undefined', 'report', 'export']
+    },
+    dataflow: {
+        description: 'cli.command.dataflow',
+        steps: ['lifecycle', 'callgraph', 'dataflow', 'report', 'export']
+    },
+    callgraph: {
+        description: 'cli.command.callgraph',
+        steps: ['lifecycle', 'callgraph', 'export']
+    },
+    report: {
+        description: 'cli.command.report',
+        steps: null
+    },
+    diff: {
+        description: 'cli.command.diff',
+        steps: null
+    },
+    migrate: {
+        description: 'cli.command.migrate',
+        steps: null
+    }
+};
+
+/**
+ * 命令行默认使用的分析缓存目录（程序化 API 默认不使用缓存）
+ */
+export const CLI_CACHE_DIR = path.resolve(__dirname, '../.cache/openeye');
+
+/**
+ * 以文件为参数、不执行分析的子命令
+ */
+const FILE_COMMANDS = ['diff', 'migrate'];
+
+/**
+ * 命令行参数解析结果
+ */
+interface CliArgs {
+    command: string;
+    options: AnalyzeOptions;
+    help: boolean;
+    watch: boolean;
+    /** diff 子命令的两个结果文件或输出目录，migrate 子命令要升级的导出文件 */
+    files: string[];
+}
+
+/**
+ * 打印帮助信息
+ */
+function printUsage(): void {
+    console.log(`${t('cli.usage')}: openeye-analyze <command> [options]`);
+    console.log(`      openeye-analyze diff <${t('cli.usage.baseline')}> <${t('cli.usage.current')}> [-o <dir>]`);
+    console.log(`      openeye-analyze migrate <${t('cli.usage.file')}>...\n`);
+    console.log(`${t('cli.commands')}:`);
+    for (const [name, command] of Object.entries(COMMANDS)) {
+        console.log(`   ${name.padEnd(12)} ${t(command.description)}`);
+    }
+    console.log(`\n${t('cli.options')}:`);
+    console.log(`   -c, --config <path>   ${t('cli.option.config', { default: DEFAULT_OPTIONS.configPath })}`);
+    console.log(`   -o, --output <dir>    ${t('cli.option.output', { default: DEFAULT_OPTIONS.outputDir })}`);
+    console.log(`   -s, --steps <list>    ${t('cli.option.steps')}`);
+    console.log(`                         ${t('cli.option.steps.builtin')}: ${BUILTIN_PASSES.map(p => p.name).join(', ')}`);
+    console.log(`       --strict          ${t('cli.option.strict')}`);
+    console.log(`       --baseline <path> ${t('cli.option.baseline')}`);
+    console.log(`       --update-baseline ${t('cli.option.updateBaseline')}`);
+    console.log(`       --diff <range>    ${t('cli.option.diff')}`);
+    console.log(`       --cache-dir <dir> ${t('cli.option.cacheDir', { default: CLI_CACHE_DIR })}`);
+    console.log(`       --no-cache        ${t('cli.option.noCache')}`);
+    console.log(`   -w, --watch           ${t('cli.option.watch')}`);
+    console.log(`       --profile         ${t('cli.option.profile')}`);
+    console.log(`   -j, --jobs <n>        ${t('cli.option.jobs')}`);
+    console.log(`       --lang <zh|en>    ${t('cli.option.lang', { default: DEFAULT_OPTIONS.lang })}`);
+    console.log(`   -h, --help            ${t('cli.option.help')}`);
+    console.log(`\n${t('cli.exitCodes')}:`);
+    console.log(`   ${EXIT_CODES.OK}  ${t('cli.exit.ok')}    ${EXIT_CODES.ANALYSIS_FAILED}  ${t('cli.exit.failed')}    ${EXIT_CODES.USAGE}  ${t('cli.exit.usage')}`);
+    console.log(`   ${EXIT_CODES.GATE_ISSUES}  ${t('cli.exit.gateIssues')}    ${EXIT_CODES.GATE_LISTENER_CLEANUP}  ${t('cli.exit.gateListener')}    ${EXIT_CODES.GATE_COVERAGE}  ${t('cli.exit.gateCoverage')}`);
+}
+
+/**
+ * 解析步骤列表（Pass 名称在加载自定义 Pass 后由注册表校验）
+ */
+function parseSteps(value: string): AnalysisStep[] {
+    const steps = value.split(',').map(s => s.trim()).filter(s => s.length > 0);
+    if (steps.length === 0) {
+        throw new Error(t('cli.error.emptySteps'));
+    }
+    return steps;
+}
+
+/**
+ * 解析工作线程数
+ */
+function parseJobs(value: string): number {
+    const jobs = Number(value);
+    if (!Number.isInteger(jobs) || jobs < 0) {
+        throw new Error(t('cli.error.jobs', { value }));
+    }
+    return jobs;
+}
+
+/**
+ * 解析命令行参数
+ */
+export function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = {
+        command: 'report',
+        options: { ...DEFAULT_OPTIONS, cacheDir: CLI_CACHE_DIR },
+        help: false,
+        watch: false,
+        files: []
+    };
+    let steps: AnalysisStep[] | null = null;
+    let commandSeen = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = (): string => {
+            const value = argv[++i];
+            if (value === undefined || value.startsWith('-')) {
+                throw new Error(t('cli.error.missingValue', { option: arg }));
+            }
+            return value;
+        };
+
+        switch (arg) {
+            case '-c':
+            case '--config':
+                args.options.configPath = next();
+                break;
+            case '-o':
+            case '--output':
+                args.options.outputDir = next();
+                break;
+            case '-s':
+            case '--steps':
+                steps = parseSteps(next());
+                break;
+            case '--strict':
+                args.options.strict = true;
+                break;
+            case '--baseline':
+                args.options.baselinePath = next();
+                break;
+            case '--update-baseline':
+                args.options.updateBaseline = true;
+                break;
+            case '--diff':
+                args.options.diffRange = next();
+                break;
+            case '--cache-dir':
+                args.options.cacheDir = next();
+                break;
+            case '--no-cache':
+                args.options.cacheDir = null;
+                break;
+            case '-j':
+            case '--jobs':
+                args.options.workers = parseJobs(next());
+                break;
+            case '--lang':
+                args.options.lang = parseLocale(next());
+                break;
+            case '--profile':
+                args.options.profile = true;
+                break;
+            case '-w':
+            case '--watch':
+                args.watch = true;
+                break;
+            case '-h':
+            case '--help':
+                args.help = true;
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new Error(t('cli.error.unknownOption', { option: arg }));
+                }
+                if (commandSeen && FILE_COMMANDS.includes(args.command)) {
+                    args.files.push(arg);
+                    break;
+                }
+                if (commandSeen) {
+                    throw new Error(t('cli.error.extraArgument', { value: arg }));
+                }
+                if (!Object.prototype.hasOwnProperty.call(COMMANDS, arg)) {
+                    throw new Error(t('cli.error.unknownCommand', { command: arg }));
+                }
+                args.command = arg;
+                commandSeen = true;
+        }
+    }
+
+    args.options.steps = steps ?? COMMANDS[args.command].steps;
+    return args;
+}
+
+/**
+ * diff 子命令：比较两个结果文件（或包含 openeye-result-v3.json 的输出目录）
+ */
+function runDiff(args: CliArgs): number {
+    if (args.files.length !== 2) {
+        console.error(`❌ ${t('cli.error.diffFiles')}\n`);
+        printUsage();
+        return EXIT_CODES.USAGE;
+    }
+    try {
+        exportResultDiff(args.files[0], args.files[1], args.options.outputDir);
+        return EXIT_CODES.OK;
+    } catch (error) {
+        console.error(`❌ ${(error as Error).message}`);
+        return EXIT_CODES.ANALYSIS_FAILED;
+    }
+}
+
+/**
+ * migrate 子命令：把旧版本的导出文件原地升级到当前 schemaVersion
+ */
+function runMigrate(args: CliArgs): number {
+    if (args.files.length === 0) {
+        console.error(`❌ ${t('cli.error.migrateFiles')}\n`);
+        printUsage();
+        return EXIT_CODES.USAGE;
+    }
+    let failed = 0;
+    for (const file of args.files) {
+        try {
+            migrateExportFile(file);
+        } catch (error) {
+            console.error(`   ✗ ${(error as Error).message}`);
+            failed++;
+        }
+    }
+    return failed > 0 ? EXIT_CODES.ANALYSIS_FAILED : EXIT_CODES.OK;
+}
+
+/**
+ * 预先读取 --lang，使参数错误和帮助信息也按指定语言输出；值无效时由 parseArgs 报错
+ */
+function scanLocale(argv: string[]): Locale | null {
+    const index = argv.indexOf('--lang');
+    try {
+        return index >= 0 && argv[index + 1] !== undefined ? parseLocale(argv[index + 1]) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 命令行主函数
+ */
+export function main(argv: string[]): number {
+    setLocale(scanLocale(argv) ?? DEFAULT_OPTIONS.lang);
+    let args: CliArgs;
+    try {
+        args = parseArgs(argv);
+    } catch (error) {
+        console.error(`❌ ${(error as Error).message}\n`);
+        printUsage();
+        return EXIT_CODES.USAGE;
+    }
+
+    if (args.help) {
+        printUsage();
+        return EXIT_CODES.OK;
+    }
+
+    if (args.command === 'diff') {
+        return runDiff(args);
+    }
+
+    if (args.command === 'migrate') {
+        return runMigrate(args);
+    }
+
+    if (args.watch) {
+        // 监听期间进程保持运行，Ctrl+C 退出；配置或项目目录无效时不开始监听
+        try {
+            watchProject(args.options);
+        } catch (error) {
+            console.error(`\n❌ ${t('run.failed')}: ${(error as Error).message}`);
+            return EXIT_CODES.ANALYSIS_FAILED;
+        }
+        return EXIT_CODES.OK;
+    }
+
+    return analyzeOpenEyeLifecycleV3(args.options);
+}
+
+if (require.main === module) {
+    process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,525 @@
+// consoleReport.ts - 控制台报告输出
+// 只依赖可序列化的 AnalysisResult，是分析结果的一个消费者
+import { t } from './i18n';
+import { AnalysisResult, DataFlowInfo, Finding, LifecycleMethodRecord, LifecycleType, SourceSnippet } from './types';
+import { renderSnippetText } from './sourceSnippets';
+
+/**
+ * 生成详细报告
+ */
+export function printDetailedReport(result: AnalysisResult): void {
+    console.log('\n' + '='.repeat(80));
+    console.log(`📋 ${t('report.title')}`);
+    console.log('='.repeat(80));
+    
+    printBasicStats(result);
+    printIncremental(result);
+    printExclusions(result);
+    printModules(result);
+    printLifecycleCoverage(result);
+    printDetailedUsage(result);
+    printUnusedLifecycles(result);
+    printUndefinedIssues(result);
+    printFindings(result);
+    printSuppressed(result);
+    printDiagnostics(result);
+    printProfile(result);
+    printDataFlowSummary(result);
+    printRecommendations(result);
+    
+    console.log('\n' + '='.repeat(80));
+}
+
+/**
+ * 打印基础统计
+ */
+function printBasicStats(result: AnalysisResult): void {
+    console.log(`\n📊 ${t('report.stats.title')}:\n`);
+    console.log(`   ${t('report.stats.files')}: ${result.stats.totalFiles}`);
+    console.log(`   ${t('report.stats.classes')}: ${result.stats.totalClasses}`);
+    console.log(`   ${t('report.stats.methods')}: ${result.stats.totalMethods}`);
+    console.log(`   ${t('report.stats.abilityClasses')}: ${result.stats.abilityClasses}`);
+    console.log(`   ${t('report.stats.componentClasses')}: ${result.stats.componentClasses}`);
+    console.log(`   ${t('report.stats.lifecycleMethods')}: ${result.stats.lifecycleMethods}`);
+    console.log(`   ${t('report.stats.callGraphNodes')}: ${result.stats.callGraphNodes}`);
+    console.log(`   ${t('report.stats.callGraphEdges')}: ${result.stats.callGraphEdges}`);
+    console.log(`   ${t('report.stats.dataFlowPaths')}: ${result.stats.dataFlowPaths}`);
+    console.log(`   ${t('report.stats.issues')}: ${result.stats.undefinedIssues}`);
+    
+    if (result.baseline) {
+        console.log(`\n🧾 ${t('report.baseline.title')}: ${result.baseline.path}`);
+        console.log(`   ${t('report.baseline.new')}: ${result.undefinedIssues.length + result.findings.length}`);
+        console.log(`   ${t('report.baseline.known')}: ${result.baseline.suppressed}`);
+        if (result.baseline.fixed > 0) {
+            console.log(`   💡 ${t('report.baseline.fixed', { count: result.baseline.fixed })}`);
+        }
+    }
+}
+
+/**
+ * 打印增量模式的变更范围和相关方法中的问题
+ */
+function printIncremental(result: AnalysisResult): void {
+    const incremental = result.incremental;
+    if (!incremental) {
+        return;
+    }
+    
+    console.log(`\n🔀 ${t('report.incremental.title')}: ${incremental.range}\n`);
+    console.log(`   ${t('report.incremental.changedFiles')}: ${incremental.changedFiles.length}`);
+    console.log(`   ${t('report.incremental.changedMethods')}: ${incremental.changedMethods.length}`);
+    console.log(`   ${t('report.incremental.relatedMethods')}: ${incremental.relatedMethods.length}`);
+    console.log(`   💡 ${t('report.incremental.hint')}`);
+    
+    const { undefinedIssues, findings } = incremental.related;
+    if (undefinedIssues.length + findings.length > 0) {
+        console.log(`\n   🔗 ${t('report.incremental.related', { count: undefinedIssues.length + findings.length })}:`);
+        for (const issue of undefinedIssues) {
+            console.log(`      • [${issue.ruleId}] ${issue.method}  [${issue.filePath}:${issue.line}]  ${issue.description}`);
+        }
+        for (const finding of findings) {
+            console.log(`      • [${finding.ruleId}] ${finding.className}.${finding.method}  [${finding.filePath}:${finding.line}]  ${finding.message}`);
+        }
+    }
+}
+
+/**
+ * 打印被排除的文件和类
+ */
+function printExclusions(result: AnalysisResult): void {
+    const { files, classes } = result.exclusions;
+    if (files.length === 0 && classes.length === 0) {
+        return;
+    }
+    
+    console.log(`\n⏭️  ${t('report.exclusions.title')}:\n`);
+    if (files.length > 0) {
+        console.log(`   📄 ${t('report.exclusions.files', { count: files.length })}:`);
+        for (const exclusion of files) {
+            console.log(`      • ${exclusion.target}  ← ${exclusion.rule}`);
+        }
+    }
+    if (classes.length > 0) {
+        console.log(`\n   📦 ${t('report.exclusions.classes', { count: classes.length })}:`);
+        for (const exclusion of classes) {
+            console.log(`      • ${exclusion.target}  ← ${exclusion.rule}`);
+        }
+    }
+}
+
+/**
+ * 打印模块统计和跨模块调用（仅多模块工程）
+ */
+function printModules(result: AnalysisResult): void {
+    const { modules, summaries, crossModuleCalls } = result.modules;
+    if (modules.length <= 1 && crossModuleCalls.length === 0) {
+        return;
+    }
+    
+    console.log(`\n📦 ${t('report.modules.title')}:\n`);
+    console.log(`   ${t('report.modules.module').padEnd(16)} ${t('report.modules.type').padEnd(8)} ${t('report.modules.columns')}`);
+    for (const summary of summaries) {
+        console.log(`   ${summary.module.padEnd(16)} ${summary.type.padEnd(8)} ${String(summary.files).padStart(4)} ${String(summary.classes).padStart(3)} ${String(summary.abilityLifecycles).padStart(8)} ${String(summary.componentLifecycles).padStart(10)} ${String(summary.undefinedIssues + summary.findings).padStart(5)} ${String(summary.internalCalls).padStart(9)} ${String(summary.crossModuleCalls).padStart(7)} ${String(summary.unresolvedCalls).padStart(7)}`);
+    }
+    
+    const dependencies = modules.filter(m => m.dependencies.length > 0);
+    if (dependencies.length > 0) {
+        console.log(`\n   ${t('report.modules.dependencies')}:`);
+        for (const module of dependencies) {
+            console.log(`      ${module.name} → ${module.dependencies.join(', ')}`);
+        }
+    }
+    
+    if (crossModuleCalls.length > 0) {
+        console.log(`\n   ${t('report.modules.crossCalls')}:`);
+        for (const call of crossModuleCalls.slice(0, 10)) {
+            console.log(`      • [${call.fromModule} → ${call.toModule}] ${call.caller} → ${call.callee}  ${t('report.times', { count: call.count })}`);
+        }
+        if (crossModuleCalls.length > 10) {
+            console.log(`      ... ${t('report.modules.moreCrossCalls', { count: crossModuleCalls.length - 10 })}`);
+        }
+    }
+}
+
+/**
+ * 打印生命周期覆盖情况
+ */
+function printLifecycleCoverage(result: AnalysisResult): void {
+    console.log(`\n📈 ${t('report.coverage.title')}:\n`);
+    
+    // Ability 生命周期
+    const abilityUsed = result.coverage.ability.filter(s => s.isUsed);
+    const abilityTotal = result.coverage.ability.length;
+    const abilityUsageCount = abilityUsed.reduce((sum, s) => sum + s.usageCount, 0);
+    
+    console.log(`   📱 ${t('report.coverage.ability')}:`);
+    console.log(`      ${t('report.coverage.defined', { count: abilityTotal })}`);
+    console.log(`      ${t('report.coverage.used', { count: abilityUsed.length, percent: (abilityUsed.length/abilityTotal*100).toFixed(1) })}`);
+    console.log(`      ${t('report.coverage.instances', { count: abilityUsageCount })}`);
+    
+    if (abilityUsed.length > 0) {
+        console.log(`\n      ${t('report.coverage.usedMethods')}:`);
+        abilityUsed.sort((a, b) => b.usageCount - a.usageCount);
+        for (const stat of abilityUsed) {
+            console.log(`        • ${stat.methodName.padEnd(30)} ${t('report.times', { count: stat.usageCount })}`);
+        }
+    }
+    
+    // Component 生命周期
+    const componentUsed = result.coverage.component.filter(s => s.isUsed);
+    const componentTotal = result.coverage.component.length;
+    const componentUsageCount = componentUsed.reduce((sum, s) => sum + s.usageCount, 0);
+    
+    console.log(`\n   🎨 ${t('report.coverage.component')}:`);
+    console.log(`      ${t('report.coverage.defined', { count: componentTotal })}`);
+    console.log(`      ${t('report.coverage.used', { count: componentUsed.length, percent: (componentUsed.length/componentTotal*100).toFixed(1) })}`);
+    console.log(`      ${t('report.coverage.instances', { count: componentUsageCount })}`);
+    
+    if (componentUsed.length > 0) {
+        console.log(`\n      ${t('report.coverage.usedMethodsByFrequency')}:`);
+        componentUsed.sort((a, b) => b.usageCount - a.usageCount);
+        for (const stat of componentUsed) {
+            const uniqueComponents = new Set(stat.classes).size;
+            console.log(`        • ${stat.methodName.padEnd(30)} ${t('report.times', { count: stat.usageCount })} (${t('report.coverage.components', { count: uniqueComponents })})`);
+        }
+    }
+}
+
+/**
+ * 打印详细使用情况
+ */
+function printDetailedUsage(result: AnalysisResult): void {
+    console.log(`\n📋 ${t('report.usage.title')}:\n`);
+    
+    // 按类型分组
+    const abilityMethods = result.lifecycleMethods.filter(m => m.type === LifecycleType.ABILITY);
+    const componentMethods = result.lifecycleMethods.filter(m => m.type === LifecycleType.COMPONENT);
+    
+    if (abilityMethods.length > 0) {
+        console.log(`   📱 ${t('report.usage.ability')}:\n`);
+        const methodsByClass = new Map<string, LifecycleMethodRecord[]>();
+        for (const method of abilityMethods) {
+            if (!methodsByClass.has(method.className)) {
+                methodsByClass.set(method.className, []);
+            }
+            methodsByClass.get(method.className)!.push(method);
+        }
+        
+        for (const [className, methods] of methodsByClass) {
+            console.log(`      ${className}:`);
+            for (const method of methods) {
+                const filePath = method.filePath.split('/').slice(-3).join('/');
+                const impl = method.hasImplementation ? '✓' : '○';
+                console.log(`        ${impl} ${method.phase}()  [${filePath}:${method.lineNumber}]`);
+            }
+            console.log('');
+        }
+    }
+    
+    if (componentMethods.length > 0) {
+        console.log(`   🎨 ${t('report.usage.component')}:\n`);
+        const methodsByPhase = new Map<string, LifecycleMethodRecord[]>();
+        for (const method of componentMethods) {
+            if (!methodsByPhase.has(method.phase)) {
+                methodsByPhase.set(method.phase, []);
+            }
+            methodsByPhase.get(method.phase)!.push(method);
+        }
+        
+        const sortedPhases = Array.from(methodsByPhase.entries())
+            .sort((a, b) => b[1].length - a[1].length);
+        
+        for (const [phase, methods] of sortedPhases) {
+            console.log(`      ${phase}() - ${t('report.usage.uses', { count: methods.length })}:`);
+            const displayCount = Math.min(methods.length, 8);
+            for (const method of methods.slice(0, displayCount)) {
+                const impl = method.hasImplementation ? '✓' : '○';
+                console.log(`        ${impl} ${method.className}`);
+            }
+            if (methods.length > displayCount) {
+                console.log(`        ... ${t('report.usage.moreComponents', { count: methods.length - displayCount })}`);
+            }
+            console.log('');
+        }
+    }
+}
+
+/**
+ * 打印未使用的生命周期
+ */
+function printUnusedLifecycles(result: AnalysisResult): void {
+    const unusedAbility = result.coverage.ability
+        .filter(s => !s.isUsed)
+        .map(s => s.methodName);
+    
+    const unusedComponent = result.coverage.component
+        .filter(s => !s.isUsed)
+        .map(s => s.methodName);
+    
+    if (unusedAbility.length > 0 || unusedComponent.length > 0) {
+        console.log(`\n⚪ ${t('report.unused.title')}:\n`);
+        
+        if (unusedAbility.length > 0) {
+            console.log(`   📱 ${t('report.unused.ability', { count: unusedAbility.length })}:`);
+            console.log(`      ${unusedAbility.join(', ')}`);
+        }
+        
+        if (unusedComponent.length > 0) {
+            console.log(`\n   🎨 ${t('report.unused.component', { count: unusedComponent.length })}:`);
+            console.log(`      ${unusedComponent.join(', ')}`);
+        }
+    }
+}
+
+/**
+ * 打印未定义变量问题
+ */
+function printUndefinedIssues(result: AnalysisResult): void {
+    if (result.undefinedIssues.length > 0) {
+        console.log(`\n⚠️  ${t('report.issues.title')}:\n`);
+        const displayIssues = result.undefinedIssues.slice(0, 10);
+        displayIssues.forEach((issue, index) => {
+            const severityIcon = issue.severity === 'high' ? '🔴' : 
+                                issue.severity === 'medium' ? '🟡' : '🟢';
+            console.log(`   ${index + 1}. ${severityIcon} ${issue.method}`);
+            console.log(`      ${t('report.location')}: ${issue.filePath}:${issue.line}:${issue.column}`);
+            console.log(`      ${t('report.issues.description')}: ${issue.description}`);
+            printSnippet(issue.snippet, '      ');
+            console.log('');
+        });
+        
+        if (result.undefinedIssues.length > 10) {
+            console.log(`   ... ${t('report.issues.more', { count: result.undefinedIssues.length - 10 })}\n`);
+        }
+    }
+}
+
+/**
+ * 打印问题所在的源码片段
+ */
+function printSnippet(snippet: SourceSnippet | undefined, indent: string): void {
+    if (!snippet) {
+        return;
+    }
+    for (const line of renderSnippetText(snippet)) {
+        console.log(`${indent}${line}`);
+    }
+}
+
+/**
+ * 打印自定义 Pass 的检查结果
+ */
+function printFindings(result: AnalysisResult): void {
+    if (result.findings.length === 0) {
+        return;
+    }
+    
+    console.log(`\n🧩 ${t('report.findings.title')}:\n`);
+    const findingsByRule = new Map<string, Finding[]>();
+    for (const finding of result.findings) {
+        if (!findingsByRule.has(finding.ruleId)) {
+            findingsByRule.set(finding.ruleId, []);
+        }
+        findingsByRule.get(finding.ruleId)!.push(finding);
+    }
+    
+    for (const [ruleId, findings] of findingsByRule) {
+        console.log(`   ${ruleId} (${findings.length}):`);
+        for (const finding of findings) {
+            const severityIcon = finding.severity === 'high' ? '🔴' : 
+                                finding.severity === 'medium' ? '🟡' : '🟢';
+            const column = finding.column ? `:${finding.column}` : '';
+            console.log(`      ${severityIcon} ${finding.className}.${finding.method}  [${finding.filePath}:${finding.line}${column}]`);
+            console.log(`         ${finding.message}`);
+            printSnippet(finding.snippet, '         ');
+        }
+        console.log('');
+    }
+}
+
+/**
+ * 打印被行内注释抑制的问题及理由，供评审核对
+ */
+function printSuppressed(result: AnalysisResult): void {
+    if (result.suppressed.length === 0) {
+        return;
+    }
+    
+    console.log(`\n🔕 ${t('report.suppressed.title', { count: result.suppressed.length })}:\n`);
+    for (const item of result.suppressed) {
+        console.log(`   • [${item.ruleId}] ${item.method}  [${item.filePath}:${item.line}]`);
+        console.log(`     ${item.message}`);
+        const reason = item.reason || `⚠️  ${t('report.suppressed.noReason')}`;
+        console.log(`     ${t('report.suppressed.reason')}: ${reason}  (${t('report.suppressed.commentLine', { line: item.commentLine })})`);
+    }
+}
+
+/**
+ * 打印分析诊断（方法统计和内部错误）
+ */
+function printDiagnostics(result: AnalysisResult): void {
+    const { errors, methods } = result.diagnostics;
+    if (errors.length === 0 && Object.keys(methods).length === 0) {
+        return;
+    }
+    
+    console.log(`\n🩺 ${t('report.diagnostics.title')}:\n`);
+    for (const [pass, summary] of Object.entries(methods)) {
+        console.log(`   ${pass}: ${t('report.diagnostics.methods', { analyzed: summary.analyzed, skipped: summary.skipped, failed: summary.failed })}`);
+    }
+    
+    if (errors.length === 0) {
+        console.log(`   ✓ ${t('report.diagnostics.noErrors')}`);
+        return;
+    }
+    
+    const errorTitle = errors.length > 10 ? 'report.diagnostics.errorsTop' : 'report.diagnostics.errors';
+    console.log(`\n   ❌ ${t(errorTitle, { count: errors.length })}:`);
+    for (const error of errors.slice(0, 10)) {
+        const location = error.method ? `${error.method}${error.phase ? ` [${error.phase}]` : ''}` : t('report.diagnostics.passExecution');
+        console.log(`      • [${error.pass}] ${location}`);
+        console.log(`        ${error.message}`);
+        // 只打印最靠近出错位置的几帧
+        const frames = (error.stack ?? '').split('\n').filter(line => line.trim().startsWith('at ')).slice(0, 3);
+        for (const frame of frames) {
+            console.log(`          ${frame.trim()}`);
+        }
+    }
+}
+
+/**
+ * 打印性能分析（开启 --profile 时）
+ */
+function printProfile(result: AnalysisResult): void {
+    const profile = result.profile;
+    if (!profile) {
+        return;
+    }
+    
+    const seconds = (ms: number): string => `${(ms / 1000).toFixed(2)}s`;
+    console.log(`\n⏱️  ${t('report.profile.title')}:\n`);
+    console.log(`   ${t('report.profile.total', { total: seconds(profile.totalMs), heap: profile.peakHeapMb, rss: profile.peakRssMb })}`);
+    
+    console.log(`\n   ${t('report.profile.steps')}:`);
+    for (const span of profile.spans) {
+        const name = `${'  '.repeat(span.depth)}${span.name}`;
+        const share = profile.totalMs > 0 ? (span.durationMs / profile.totalMs * 100).toFixed(1) : '0.0';
+        console.log(`      ${name.padEnd(40)} ${seconds(span.durationMs).padStart(9)} ${share.padStart(5)}%   ${t('report.profile.heap')} ${span.heapBeforeMb} → ${span.heapAfterMb} MB`);
+    }
+    
+    const cached = profile.methods.filter(m => m.cached).length;
+    if (profile.slowestMethods.length > 0) {
+        console.log(`\n   ${t('report.profile.slowest', { count: profile.slowestMethods.length, total: profile.methods.length, cached })}:`);
+        for (const method of profile.slowestMethods) {
+            console.log(`      ${method.durationMs.toFixed(1).padStart(9)} ms  [${method.pass}] ${method.method}  (${method.filePath})`);
+        }
+    }
+}
+
+/**
+ * 打印数据流摘要
+ */
+function printDataFlowSummary(result: AnalysisResult): void {
+    if (result.dataFlows.length > 0) {
+        console.log(`\n🔄 ${t('report.dataflow.title')}:\n`);
+        console.log(`   ${t('report.dataflow.total', { count: result.dataFlows.length })}`);
+        
+        // 统计每个生命周期方法的数据流
+        const flowsByMethod = new Map<string, number>();
+        for (const flow of result.dataFlows) {
+            flowsByMethod.set(flow.from, (flowsByMethod.get(flow.from) || 0) + 1);
+        }
+        
+        const sortedMethods = Array.from(flowsByMethod.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 10);
+        
+        console.log(`\n   ${t('report.dataflow.topMethods')}:`);
+        for (const [method, count] of sortedMethods) {
+            console.log(`      • ${method.padEnd(40)} ${t('report.dataflow.flows', { count })}`);
+        }
+    }
+}
+
+/**
+ * 值得关注但未使用的生命周期方法
+ */
+export interface Recommendation {
+    name: string;
+    type: 'Ability' | 'Component';
+    reason: string;
+}
+
+/**
+ * 收集推荐关注的生命周期方法（只包含项目中未使用的）
+ */
+export function collectRecommendations(result: AnalysisResult): Recommendation[] {
+    const importantUnused: Recommendation[] = [
+        { name: 'onBackPress', type: 'Component', reason: t('recommendation.onBackPress') },
+        { name: 'aboutToReuse', type: 'Component', reason: t('recommendation.aboutToReuse') },
+        { name: 'aboutToRecycle', type: 'Component', reason: t('recommendation.aboutToRecycle') },
+        { name: 'onNewWant', type: 'Ability', reason: t('recommendation.onNewWant') },
+        { name: 'onConfigurationUpdate', type: 'Ability', reason: t('recommendation.onConfigurationUpdate') },
+        { name: 'onDidBuild', type: 'Component', reason: t('recommendation.onDidBuild') },
+        { name: 'onWillApplyTheme', type: 'Component', reason: t('recommendation.onWillApplyTheme') },
+    ];
+    
+    return importantUnused.filter(item => item.type === 'Component' 
+        ? !result.coverage.component.find(s => s.methodName === item.name)?.isUsed
+        : !result.coverage.ability.find(s => s.methodName === item.name)?.isUsed);
+}
+
+/**
+ * 打印推荐信息
+ */
+function printRecommendations(result: AnalysisResult): void {
+    console.log(`\n💡 ${t('report.recommendations.title')}:\n`);
+    
+    for (const item of collectRecommendations(result)) {
+        const icon = item.type === 'Component' ? '🎨' : '📱';
+        console.log(`   ${icon} ${item.name.padEnd(25)} - ${item.reason}`);
+    }
+}
+
+/**
+ * 打印详细数据流（控制台）
+ */
+export function printDetailedDataFlow(result: AnalysisResult, limit: number = 5): void {
+    console.log(`\n🔍 ${t('report.dataflowDetail.title', { limit })}:\n`);
+    
+    if (result.dataFlows.length === 0) {
+        console.log(`   ⚠️  ${t('report.dataflowDetail.empty')}`);
+        return;
+    }
+    
+    // 按源方法分组
+    const flowsByMethod = new Map<string, DataFlowInfo[]>();
+    for (const flow of result.dataFlows) {
+        if (!flowsByMethod.has(flow.from)) {
+            flowsByMethod.set(flow.from, []);
+        }
+        flowsByMethod.get(flow.from)!.push(flow);
+    }
+    
+    // 排序并显示 top 方法
+    const sortedMethods = Array.from(flowsByMethod.entries())
+        .sort((a, b) => b[1].length - a[1].length)
+        .slice(0, limit);
+    
+    for (const [method, flows] of sortedMethods) {
+        console.log(`   📍 ${method} (${t('report.dataflowDetail.flows', { count: flows.length })}):\n`);
+        
+        // 显示前 10 条数据流
+        const displayFlows = flows.slice(0, 10);
+        for (const flow of displayFlows) {
+            console.log(`      → ${flow.to}`);
+            console.log(`        ${t('report.line')}: ${flow.line}`);
+            console.log(`        ${t('report.dataflowDetail.callChain')}: ${flow.callChain.join(' → ')}`);
+            console.log('');
+        }
+        
+        if (flows.length > 10) {
+            console.log(`      ... ${t('report.dataflowDetail.more', { count: flows.length - 10 })}\n`);
+        }
+    }
+}
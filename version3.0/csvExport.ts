@@ -0,0 +1,180 @@
+// csvExport.ts - 生命周期覆盖与使用情况的 CSV / TSV 导出
+// 导出 printLifecycleCoverage() / printDetailedUsage() 中的数据，便于在表格中跨版本对比
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { AnalysisResult, CoverageStats, LifecycleMethodRecord, LifecycleType } from './types';
+import { t } from './i18n';
+
+/**
+ * 导出的三张表
+ */
+export type CoverageTable = 'lifecycle' | 'classes' | 'files';
+
+/**
+ * 表名对应的文件名（不含扩展名）
+ */
+export const COVERAGE_TABLE_FILES: Record<CoverageTable, string> = {
+    lifecycle: 'openeye-lifecycle-v3',
+    classes: 'openeye-classes-v3',
+    files: 'openeye-files-v3'
+};
+
+/**
+ * 单元格内多个值的分隔符
+ */
+const LIST_SEPARATOR = '; ';
+
+/**
+ * 按 RFC 4180 转义单元格：包含分隔符、引号或换行时加引号
+ */
+function escapeCell(value: string, delimiter: string): string {
+    if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+}
+
+/**
+ * 渲染为分隔文本（首行为表头，行尾 CRLF）
+ */
+export function renderDelimited(rows: (string | number | boolean)[][], delimiter: string): string {
+    return rows.map(row => row.map(cell => escapeCell(String(cell), delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+function unique(values: string[]): string[] {
+    return Array.from(new Set(values)).sort();
+}
+
+/**
+ * 每种生命周期一行：框架是否定义、是否使用、使用次数、类和文件
+ */
+function buildLifecycleTable(result: AnalysisResult): (string | number | boolean)[][] {
+    const rows: (string | number | boolean)[][] = [
+        ['type', 'lifecycle', 'defined', 'used', 'usageCount', 'classCount', 'classes', 'files']
+    ];
+    const add = (type: LifecycleType, stats: CoverageStats[]): void => {
+        for (const stat of stats) {
+            const classes = unique(stat.classes);
+            rows.push([
+                type,
+                stat.methodName,
+                stat.isDefined,
+                stat.isUsed,
+                stat.usageCount,
+                classes.length,
+                classes.join(LIST_SEPARATOR),
+                unique(stat.files).join(LIST_SEPARATOR)
+            ]);
+        }
+    };
+    add(LifecycleType.ABILITY, result.coverage.ability);
+    add(LifecycleType.COMPONENT, result.coverage.component);
+    add(LifecycleType.CALLBACK, result.coverage.callback);
+    return rows;
+}
+
+function byLocation(a: LifecycleMethodRecord, b: LifecycleMethodRecord): number {
+    return a.filePath.localeCompare(b.filePath) || a.className.localeCompare(b.className) || a.lineNumber - b.lineNumber;
+}
+
+/**
+ * 每个类的每个生命周期方法一行，含是否有实现（报告中的 ✓ / ○）
+ */
+function buildClassTable(result: AnalysisResult): (string | number | boolean)[][] {
+    const rows: (string | number | boolean)[][] = [
+        ['module', 'className', 'type', 'lifecycle', 'hasImplementation', 'filePath', 'line']
+    ];
+    for (const method of [...result.lifecycleMethods].sort(byLocation)) {
+        rows.push([
+            method.module,
+            method.className,
+            method.type,
+            method.phase,
+            method.hasImplementation,
+            method.filePath,
+            method.lineNumber
+        ]);
+    }
+    return rows;
+}
+
+/**
+ * 每个文件一行：类数、各类型生命周期方法数、有实现的数量和生命周期列表
+ */
+function buildFileTable(result: AnalysisResult): (string | number | boolean)[][] {
+    const rows: (string | number | boolean)[][] = [
+        ['filePath', 'module', 'classCount', 'lifecycleMethods', 'implemented', 'ability', 'component', 'callback', 'classes', 'lifecycles']
+    ];
+    const byFile = new Map<string, LifecycleMethodRecord[]>();
+    for (const method of result.lifecycleMethods) {
+        const methods = byFile.get(method.filePath) ?? [];
+        methods.push(method);
+        byFile.set(method.filePath, methods);
+    }
+
+    for (const filePath of Array.from(byFile.keys()).sort()) {
+        const methods = byFile.get(filePath)!;
+        const classes = unique(methods.map(m => m.className));
+        const countType = (type: LifecycleType): number => methods.filter(m => m.type === type).length;
+        rows.push([
+            filePath,
+            unique(methods.map(m => m.module)).join(LIST_SEPARATOR),
+            classes.length,
+            methods.length,
+            methods.filter(m => m.hasImplementation).length,
+            countType(LifecycleType.ABILITY),
+            countType(LifecycleType.COMPONENT),
+            countType(LifecycleType.CALLBACK),
+            classes.join(LIST_SEPARATOR),
+            unique(methods.map(m => m.phase)).join(LIST_SEPARATOR)
+        ]);
+    }
+    return rows;
+}
+
+/**
+ * 生成三张表的行数据（首行为表头）
+ */
+export function buildCoverageTables(result: AnalysisResult): Record<CoverageTable, (string | number | boolean)[][]> {
+    return {
+        lifecycle: buildLifecycleTable(result),
+        classes: buildClassTable(result),
+        files: buildFileTable(result)
+    };
+}
+
+/**
+ * 把三张表写到输出目录，`delimiter` 为制表符时写 .tsv，否则写 .csv；返回写出的文件
+ *
+ * 文件以 UTF-8 BOM 开头，Excel 打开时中文路径和类名不会乱码。
+ */
+export function exportCoverageTables(
+    result: AnalysisResult,
+    outputDir: string,
+    delimiter: string = ',',
+    log: Logger = console.log
+): string[] {
+    log(`\n📑 ${t('export.csv.start')}...`);
+
+    const extension = delimiter === '\t' ? 'tsv' : 'csv';
+    const written: string[] = [];
+    try {
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        const tables = buildCoverageTables(result);
+        for (const table of Object.keys(tables) as CoverageTable[]) {
+            const outputPath = path.join(outputDir, `${COVERAGE_TABLE_FILES[table]}.${extension}`);
+            fs.writeFileSync(outputPath, '\uFEFF' + renderDelimited(tables[table], delimiter), 'utf-8');
+            written.push(outputPath);
+            log(`   ✓ ${table}: ${outputPath} (${t('export.csv.rows', { count: tables[table].length - 1 })})`);
+        }
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+    return written;
+}
@@ -0,0 +1,234 @@
+// dataFlowExport.ts - 数据流 JSON / Markdown 导出
+// 只依赖可序列化的数据流和生命周期记录，缓存命中时无需分析器也能导出
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { DataFlowInfo, LifecycleMethodRecord, LifecycleType } from './types';
+import { formatDate, t } from './i18n';
+import { SCHEMA_VERSION, serializeExport } from './exportSchemas';
+
+/**
+ * 导出用到的生命周期方法字段
+ */
+export type LifecycleMethodRef = Pick<LifecycleMethodRecord, 'className' | 'phase' | 'type'>;
+
+/**
+ * dataflow-v3.json 的内容（格式见 schemas/dataflow.schema.json）
+ */
+export interface DataFlowExport {
+    schemaVersion: number;
+    metadata: {
+        totalFlows: number;
+        lifecycleMethods: number;
+        timestamp: string;
+    };
+    dataFlowsByMethod: Array<{
+        method: string;
+        filePath: string;
+        flowCount: number;
+        flows: Array<Omit<DataFlowInfo, 'from' | 'filePath'>>;
+    }>;
+    allFlows: DataFlowInfo[];
+}
+
+/**
+ * 按源方法（文件 + 类名.生命周期阶段）分组构造 dataflow-v3.json 的内容
+ */
+export function buildDataFlowExport(
+    dataFlows: DataFlowInfo[],
+    lifecycleMethodCount: number,
+    timestamp: string = new Date().toISOString()
+): DataFlowExport {
+    const flowsByMethod = new Map<string, DataFlowInfo[]>();
+    for (const flow of dataFlows) {
+        const key = `${flow.filePath}\0${flow.from}`;
+        if (!flowsByMethod.has(key)) {
+            flowsByMethod.set(key, []);
+        }
+        flowsByMethod.get(key)!.push(flow);
+    }
+
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        metadata: {
+            totalFlows: dataFlows.length,
+            lifecycleMethods: lifecycleMethodCount,
+            timestamp
+        },
+        dataFlowsByMethod: Array.from(flowsByMethod.values()).map(flows => ({
+            method: flows[0].from,
+            filePath: flows[0].filePath,
+            flowCount: flows.length,
+            flows: flows.map(f => ({
+                to: f.to,
+                variable: f.variable,
+                line: f.line,
+                callChain: f.callChain
+            }))
+        })).sort((a, b) => b.flowCount - a.flowCount),
+        allFlows: dataFlows
+    };
+}
+
+/**
+ * 导出数据流详情到 JSON 文件；失败时抛出，由 export Pass 记录为诊断
+ */
+export function exportDataFlowToJson(
+    dataFlows: DataFlowInfo[],
+    lifecycleMethods: LifecycleMethodRef[],
+    outputPath: string,
+    log: Logger = console.log
+): void {
+    log(`\n📤 ${t('export.dataflowJson.start')}...`);
+    
+    if (dataFlows.length === 0) {
+        log(`   ⚠️  ${t('export.dataflow.empty')}`);
+        return;
+    }
+    
+    try {
+        const exportData = buildDataFlowExport(dataFlows, lifecycleMethods.length);
+        
+        // 确保输出目录存在
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+        
+        // 按 Schema 校验后写入文件
+        fs.writeFileSync(outputPath, serializeExport('dataflow', exportData), 'utf-8');
+        
+        log(`   ✓ ${t('export.dataflowJson.done', { path: outputPath })}`);
+        log(`   📊 ${t('export.dataflowJson.flows', { count: dataFlows.length })}`);
+        log(`   📋 ${t('export.dataflowJson.methods', { count: exportData.dataFlowsByMethod.length })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
+
+/**
+ * 导出数据流详情到 Markdown
+ */
+export function exportDataFlowToMarkdown(
+    dataFlows: DataFlowInfo[],
+    lifecycleMethods: LifecycleMethodRef[],
+    outputPath: string,
+    log: Logger = console.log
+): void {
+    log(`\n📝 ${t('export.dataflowMd.start')}...`);
+    
+    if (dataFlows.length === 0) {
+        log(`   ⚠️  ${t('export.dataflow.empty')}`);
+        return;
+    }
+    
+    try {
+        let mdContent = `# ${t('export.dataflowMd.title')}\n\n`;
+        mdContent += `${t('export.generatedAt')}: ${formatDate(new Date())}\n\n`;
+        mdContent += '---\n\n';
+        
+        // 总览
+        mdContent += `## 📊 ${t('export.dataflowMd.overview')}\n\n`;
+        mdContent += `- **${t('export.dataflowMd.totalFlows')}**: ${t('export.dataflowMd.flowCount', { count: dataFlows.length })}\n`;
+        mdContent += `- **${t('export.dataflowMd.lifecycleMethods')}**: ${lifecycleMethods.length}\n`;
+        
+        const flowsByMethod = new Map<string, DataFlowInfo[]>();
+        for (const flow of dataFlows) {
+            if (!flowsByMethod.has(flow.from)) {
+                flowsByMethod.set(flow.from, []);
+            }
+            flowsByMethod.get(flow.from)!.push(flow);
+        }
+        mdContent += `- **${t('export.dataflowMd.methods')}**: ${flowsByMethod.size}\n\n`;
+        
+        // Top 数据流
+        mdContent += `## 🔝 ${t('export.dataflowMd.top')} (Top 20)\n\n`;
+        mdContent += `| ${t('export.dataflowMd.rank')} | ${t('export.dataflowMd.method')} | ${t('export.dataflowMd.flows')} |\n`;
+        mdContent += '|------|------|------------|\n';
+        
+        const sortedMethods = Array.from(flowsByMethod.entries())
+            .sort((a, b) => b[1].length - a[1].length)
+            .slice(0, 20);
+        
+        sortedMethods.forEach(([method, flows], index) => {
+            mdContent += `| ${index + 1} | ${method} | ${flows.length} |\n`;
+        });
+        
+        // 详细数据流
+        mdContent += `\n## 📋 ${t('export.dataflowMd.details')}\n\n`;
+        
+        for (const [method, flows] of sortedMethods.slice(0, 10)) {
+            mdContent += `### ${method}\n\n`;
+            mdContent += `**${t('export.dataflowMd.dataFlows')}**: ${t('export.dataflowMd.flowCount', { count: flows.length })}\n\n`;
+            
+            // 按目标方法分组
+            const flowsByTarget = new Map<string, DataFlowInfo[]>();
+            for (const flow of flows) {
+                if (!flowsByTarget.has(flow.to)) {
+                    flowsByTarget.set(flow.to, []);
+                }
+                flowsByTarget.get(flow.to)!.push(flow);
+            }
+            
+            mdContent += `| ${t('export.dataflowMd.target')} | ${t('export.dataflowMd.calls')} | ${t('export.dataflowMd.exampleLine')} |\n`;
+            mdContent += '|----------|----------|----------|\n';
+            
+            const topTargets = Array.from(flowsByTarget.entries())
+                .sort((a, b) => b[1].length - a[1].length)
+                .slice(0, 10);
+            
+            for (const [target, targetFlows] of topTargets) {
+                const exampleLine = targetFlows[0].line;
+                mdContent += `| ${target} | ${targetFlows.length} | ${exampleLine} |\n`;
+            }
+            
+            mdContent += '\n';
+        }
+        
+        // 数据流统计
+        mdContent += `## 📈 ${t('export.dataflowMd.stats')}\n\n`;
+        
+        // 按类型统计
+        const abilityFlows = dataFlows.filter(f => 
+            lifecycleMethods.find(m => `${m.className}.${m.phase}` === f.from && m.type === LifecycleType.ABILITY)
+        );
+        const componentFlows = dataFlows.filter(f => 
+            lifecycleMethods.find(m => `${m.className}.${m.phase}` === f.from && m.type === LifecycleType.COMPONENT)
+        );
+        
+        mdContent += `### ${t('export.dataflowMd.byType')}\n\n`;
+        mdContent += `- **${t('export.dataflowMd.abilityLifecycle')}**: ${t('export.dataflowMd.typeFlows', { count: abilityFlows.length })}\n`;
+        mdContent += `- **${t('export.dataflowMd.componentLifecycle')}**: ${t('export.dataflowMd.typeFlows', { count: componentFlows.length })}\n\n`;
+        
+        // 平均数据流
+        const avgFlowsPerMethod = (dataFlows.length / flowsByMethod.size).toFixed(2);
+        mdContent += `### ${t('export.dataflowMd.average')}\n\n`;
+        mdContent += `${t('export.dataflowMd.averagePerMethod', { average: `**${avgFlowsPerMethod}**` })}\n\n`;
+        
+        // 数据流深度
+        const maxDepth = Math.max(...dataFlows.map(f => f.callChain.length));
+        const avgDepth = (dataFlows.reduce((sum, f) => sum + f.callChain.length, 0) / dataFlows.length).toFixed(2);
+        mdContent += `### ${t('export.dataflowMd.depth')}\n\n`;
+        mdContent += `- **${t('export.dataflowMd.maxDepth')}**: ${t('export.dataflowMd.levels', { count: maxDepth })}\n`;
+        mdContent += `- **${t('export.dataflowMd.avgDepth')}**: ${t('export.dataflowMd.levels', { count: avgDepth })}\n\n`;
+        
+        mdContent += '---\n\n';
+        mdContent += `*${t('export.dataflowMd.footer')}*\n`;
+        
+        // 确保输出目录存在
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+        
+        // 写入文件
+        fs.writeFileSync(outputPath, mdContent, 'utf-8');
+        
+        log(`   ✓ ${t('export.markdown.done', { path: outputPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
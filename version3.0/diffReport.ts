@@ -0,0 +1,177 @@
+// diffReport.ts - 两次分析结果的差异报告
+// diff 子命令读取两个结果文件，输出问题、生命周期方法、覆盖率和数据流的变化（Markdown + JSON）
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { loadResultFile } from './resultFile';
+import { CoverageDelta, DiffIssue, ResultDiff, diffResults, summarizeDiff } from './resultDiff';
+import { AnalysisResult } from './types';
+import { formatDate, t } from './i18n';
+
+/**
+ * 差异报告文件名（不含扩展名）
+ */
+export const DIFF_REPORT_NAME = 'openeye-diff-v3';
+
+/**
+ * 参与比较的一次结果
+ */
+export interface DiffSource {
+    path: string;
+    generatedAt: string;
+    projectDirectory: string;
+}
+
+/**
+ * 差异报告（JSON 导出内容）
+ */
+export interface DiffReport extends ResultDiff {
+    generatedAt: string;
+    previous: DiffSource;
+    current: DiffSource;
+    summary: string;
+}
+
+function toSource(resultPath: string, result: AnalysisResult): DiffSource {
+    return { path: resultPath, generatedAt: result.generatedAt, projectDirectory: result.projectDirectory };
+}
+
+/**
+ * 比较两次结果并生成报告数据
+ */
+export function buildDiffReport(
+    previous: AnalysisResult,
+    current: AnalysisResult,
+    previousPath: string,
+    currentPath: string
+): DiffReport {
+    const diff = diffResults(previous, current);
+    return {
+        generatedAt: new Date().toISOString(),
+        previous: toSource(previousPath, previous),
+        current: toSource(currentPath, current),
+        summary: summarizeDiff(diff),
+        ...diff
+    };
+}
+
+/**
+ * Markdown 表格单元格转义
+ */
+function cell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+}
+
+function renderIssueTable(issues: DiffIssue[]): string {
+    let md = `| ${t('diff.column.severity')} | ${t('diff.column.rule')} | ${t('diff.column.method')} | `
+        + `${t('diff.column.location')} | ${t('diff.column.message')} |\n`;
+    md += '|----------|------|------|------|------|\n';
+    for (const issue of issues) {
+        md += `| ${issue.severity} | ${cell(issue.ruleId)} | ${cell(issue.method)} | `
+            + `\`${cell(issue.filePath)}:${issue.line}\` | ${cell(issue.message)} |\n`;
+    }
+    return md + '\n';
+}
+
+function signed(value: number, digits: number = 0): string {
+    return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+/**
+ * 渲染 Markdown 差异报告
+ */
+export function renderDiffMarkdown(report: DiffReport): string {
+    let md = `# ${t('diff.title')}\n\n`;
+    md += `- **${t('diff.previous')}**: \`${report.previous.path}\` (${formatDate(report.previous.generatedAt)})\n`;
+    md += `- **${t('diff.current')}**: \`${report.current.path}\` (${formatDate(report.current.generatedAt)})\n`;
+    md += `- **${t('diff.summary')}**: ${report.summary}\n\n`;
+
+    // 问题
+    md += `## 🐛 ${t('diff.issues')}\n\n`;
+    md += `### ${t('diff.newIssues')} (${report.newIssues.length})\n\n`;
+    md += report.newIssues.length > 0 ? renderIssueTable(report.newIssues) : `${t('diff.none')}\n\n`;
+    md += `### ${t('diff.resolvedIssues')} (${report.resolvedIssues.length})\n\n`;
+    md += report.resolvedIssues.length > 0 ? renderIssueTable(report.resolvedIssues) : `${t('diff.none')}\n\n`;
+
+    // 生命周期方法
+    md += `## 🔄 ${t('diff.lifecycleMethods')} (${signed(report.lifecycleMethodDelta)})\n\n`;
+    if (report.lifecycleClasses.length > 0) {
+        md += `| ${t('diff.column.class')} | ${t('diff.column.file')} | ${t('diff.column.added')} | ${t('diff.column.removed')} |\n`;
+        md += '|----|------|------|------|\n';
+        for (const delta of report.lifecycleClasses) {
+            md += `| ${cell(delta.className)} | \`${cell(delta.filePath)}\` | `
+                + `${delta.added.join(', ') || '-'} | ${delta.removed.join(', ') || '-'} |\n`;
+        }
+        md += '\n';
+    } else {
+        md += `${t('diff.unchanged')}\n\n`;
+    }
+
+    // 覆盖率
+    md += `## 📈 ${t('diff.coverage')}\n\n`;
+    md += `| ${t('diff.column.type')} | ${t('diff.previous')} | ${t('diff.current')} | ${t('diff.column.change')} | `
+        + `${t('diff.column.gained')} | ${t('diff.column.lost')} |\n`;
+    md += '|------|------|------|------|----------|----------|\n';
+    const coverageRow = (label: string, delta: CoverageDelta): string =>
+        `| ${label} | ${delta.previousPercent.toFixed(1)}% | ${delta.currentPercent.toFixed(1)}% | `
+        + `${signed(delta.currentPercent - delta.previousPercent, 1)}% | `
+        + `${delta.gained.join(', ') || '-'} | ${delta.lost.join(', ') || '-'} |\n`;
+    md += coverageRow('Ability', report.coverage.ability);
+    md += coverageRow('Component', report.coverage.component);
+    md += coverageRow('Callback', report.coverage.callback);
+    md += '\n';
+
+    // 数据流
+    md += `## 🌊 ${t('diff.dataFlows')}\n\n`;
+    if (report.dataFlows.length > 0) {
+        md += `| ${t('diff.column.lifecycleMethod')} | ${t('diff.column.file')} | ${t('diff.column.addedCalls')} | ${t('diff.column.removedCalls')} |\n`;
+        md += '|--------------|------|----------|----------|\n';
+        for (const delta of report.dataFlows) {
+            md += `| ${cell(delta.method)} | \`${cell(delta.filePath)}\` | `
+                + `${cell(delta.added.join(', ')) || '-'} | ${cell(delta.removed.join(', ')) || '-'} |\n`;
+        }
+        md += '\n';
+    } else {
+        md += `${t('diff.unchanged')}\n\n`;
+    }
+
+    return md;
+}
+
+/**
+ * 读取两个结果文件（或包含结果文件的输出目录），把差异报告写到 `outputDir`
+ *
+ * 结果文件无法读取或报告写入失败时抛出异常，由调用方决定退出码。
+ */
+export function exportResultDiff(
+    previousPath: string,
+    currentPath: string,
+    outputDir: string,
+    log: Logger = console.log
+): DiffReport {
+    const report = buildDiffReport(loadResultFile(previousPath), loadResultFile(currentPath), previousPath, currentPath);
+
+    log(`\n🔍 ${t('diff.title')}`);
+    log(`   ${t('diff.previous')}: ${previousPath}`);
+    log(`   ${t('diff.current')}: ${currentPath}`);
+    log(`   ${report.summary}`);
+
+    try {
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        const markdownPath = path.join(outputDir, `${DIFF_REPORT_NAME}.md`);
+        const jsonPath = path.join(outputDir, `${DIFF_REPORT_NAME}.json`);
+        fs.writeFileSync(markdownPath, renderDiffMarkdown(report), 'utf-8');
+        fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+
+        log(`   ✓ ${t('export.markdown.done', { path: markdownPath })}`);
+        log(`   ✓ ${t('export.json.done', { path: jsonPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+    return report;
+}
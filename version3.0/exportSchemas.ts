@@ -0,0 +1,196 @@
+// exportSchemas.ts - 导出 JSON 文件的版本化 Schema
+// Schema 以 JSON Schema（2020-12）发布在 schemas/ 目录，导出时按 Schema 校验后再写出
+import commonSchema from './schemas/common.schema.json';
+import dataflowSchema from './schemas/dataflow.schema.json';
+import issuesSchema from './schemas/issues.schema.json';
+import coverageSchema from './schemas/coverage.schema.json';
+import callgraphSchema from './schemas/callgraph.schema.json';
+import resultSchema from './schemas/result.schema.json';
+import { t } from './i18n';
+
+/**
+ * 导出格式版本，写入每个导出文件的 schemaVersion
+ *
+ * 导出格式变化时递增，同时更新 schemas/ 中的 Schema 并在 schemaMigration 中补充升级步骤；
+ * 加入版本号之前写出的文件没有 schemaVersion，视为版本 0
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * 带 Schema 的导出文件
+ */
+export type ExportKind = 'dataflow' | 'issues' | 'coverage' | 'callgraph' | 'result';
+
+/**
+ * 校验器支持的 JSON Schema 子集
+ */
+export interface JsonSchema {
+    $id?: string;
+    $ref?: string;
+    $defs?: Record<string, JsonSchema>;
+    type?: string | string[];
+    const?: unknown;
+    enum?: unknown[];
+    anyOf?: JsonSchema[];
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minimum?: number;
+    [keyword: string]: unknown;
+}
+
+/**
+ * 按 $id 索引的全部 Schema 文件（跨文件 $ref 由此解析）
+ */
+const SCHEMA_FILES: Map<string, JsonSchema> = new Map(
+    [commonSchema, dataflowSchema, issuesSchema, coverageSchema, callgraphSchema, resultSchema]
+        .map((schema): [string, JsonSchema] => [schema.$id, schema as JsonSchema])
+);
+
+/**
+ * 各导出文件的 Schema
+ */
+export const EXPORT_SCHEMAS: Record<ExportKind, JsonSchema> = {
+    dataflow: dataflowSchema as JsonSchema,
+    issues: issuesSchema as JsonSchema,
+    coverage: coverageSchema as JsonSchema,
+    callgraph: callgraphSchema as JsonSchema,
+    result: resultSchema as JsonSchema
+};
+
+/**
+ * 错误信息中最多列出的校验错误数
+ */
+const MAX_REPORTED_ERRORS = 5;
+
+/**
+ * 解析 `$ref`（`文件#/$defs/名称` 或同文件的 `#/$defs/名称`），返回目标 Schema 及其所在文件
+ */
+function resolveRef(ref: string, baseId: string): { schema: JsonSchema; baseId: string } {
+    const [file, fragment = ''] = ref.split('#');
+    const documentId = file || baseId;
+    let schema: unknown = SCHEMA_FILES.get(documentId);
+    for (const segment of fragment.split('/').filter(s => s.length > 0)) {
+        schema = schema && typeof schema === 'object' ? (schema as Record<string, unknown>)[segment] : undefined;
+    }
+    if (!schema || typeof schema !== 'object') {
+        throw new Error(t('schema.error.ref', { ref }));
+    }
+    return { schema: schema as JsonSchema, baseId: documentId };
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+/**
+ * 按 Schema 校验一个值，错误以 `JSON Pointer: 说明` 的形式追加到 errors
+ */
+function validateValue(schema: JsonSchema, value: unknown, pointer: string, baseId: string, errors: string[]): void {
+    const where = pointer || '/';
+
+    if (schema.$ref) {
+        const target = resolveRef(schema.$ref, baseId);
+        validateValue(target.schema, value, pointer, target.baseId, errors);
+        return;
+    }
+    if (schema.anyOf) {
+        const matched = schema.anyOf.some(option => {
+            const optionErrors: string[] = [];
+            validateValue(option, value, pointer, baseId, optionErrors);
+            return optionErrors.length === 0;
+        });
+        if (!matched) {
+            errors.push(`${where}: ${t('schema.error.anyOf')}`);
+        }
+        return;
+    }
+    if ('const' in schema && value !== schema.const) {
+        errors.push(`${where}: ${t('schema.error.const', { expected: JSON.stringify(schema.const), actual: JSON.stringify(value) })}`);
+        return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${where}: ${t('schema.error.enum', { expected: schema.enum.join(' | '), actual: JSON.stringify(value) })}`);
+        return;
+    }
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+            errors.push(`${where}: ${t('schema.error.type', { expected: types.join(' | '), actual })}`);
+            return;
+        }
+    }
+
+    if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${where}: ${t('schema.error.minimum', { minimum: schema.minimum, actual: value })}`);
+    }
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => validateValue(schema.items!, item, `${pointer}/${index}`, baseId, errors));
+    }
+    if (matchesType(value, 'object')) {
+        const object = value as Record<string, unknown>;
+        // 值为 undefined 的属性不会被 JSON.stringify 写出，按不存在处理
+        for (const key of schema.required ?? []) {
+            if (object[key] === undefined) {
+                errors.push(`${where}: ${t('schema.error.required', { property: key })}`);
+            }
+        }
+        for (const [key, child] of Object.entries(object)) {
+            if (child === undefined) {
+                continue;
+            }
+            const childSchema = schema.properties?.[key]
+                ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+            if (childSchema) {
+                validateValue(childSchema, child, `${pointer}/${key}`, baseId, errors);
+            } else if (schema.additionalProperties === false && !schema.properties?.[key]) {
+                errors.push(`${where}: ${t('schema.error.additional', { property: key })}`);
+            }
+        }
+    }
+}
+
+/**
+ * 按导出文件的 Schema 校验数据，返回全部校验错误（通过时为空数组）
+ */
+export function validateExport(kind: ExportKind, data: unknown): string[] {
+    const schema = EXPORT_SCHEMAS[kind];
+    const errors: string[] = [];
+    validateValue(schema, data, '', schema.$id!, errors);
+    return errors;
+}
+
+/**
+ * 校验失败时抛出错误，错误信息列出前几条校验错误
+ */
+export function assertValidExport(kind: ExportKind, data: unknown): void {
+    const errors = validateExport(kind, data);
+    if (errors.length === 0) {
+        return;
+    }
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ');
+    const more = errors.length > MAX_REPORTED_ERRORS ? ` ${t('schema.error.more', { count: errors.length - MAX_REPORTED_ERRORS })}` : '';
+    throw new Error(t('schema.error.invalid', { kind, errors: shown + more }));
+}
+
+/**
+ * 序列化导出数据并校验序列化后的内容（各导出函数写文件前调用），不符合 Schema 时抛出
+ */
+export function serializeExport(kind: ExportKind, data: unknown): string {
+    const json = JSON.stringify(data, null, 2);
+    assertValidExport(kind, JSON.parse(json));
+    return json;
+}
@@ -0,0 +1,218 @@
+// exportTargets.ts - export Pass 写出的文件格式
+// 每种格式声明输出文件名和生成条件，export Pass 依次写出满足条件的格式
+// 只读取 PassContext 的结果，不访问 Scene，整体缓存命中时同样可用
+import * as path from 'path';
+
+import { PassContext, ARTIFACTS } from './passes';
+import { exportIssuesToSarif } from './sarifExport';
+import { exportHtmlReport } from './htmlReport';
+import { parseDotOptions, writeCallGraphDot } from './callGraphDot';
+import { parseDiagramOptions, writeCallGraphDiagram } from './callGraphDiagrams';
+import { exportDataFlowToJson, exportDataFlowToMarkdown } from './dataFlowExport';
+import { exportProfileTrace } from './profiler';
+import { exportJUnitXml } from './junitExport';
+import { exportCoverageTables } from './csvExport';
+import { RESULT_FILE_NAME, exportResultJson } from './resultFile';
+import { exportMarkdownReport, parseMarkdownReportOptions } from './markdownReport';
+import { buildCallGraphExport, buildCoverageExport, buildIssuesExport, exportSchemaJson } from './jsonExport';
+import { t } from './i18n';
+
+/**
+ * 导出格式
+ */
+export interface ExportTarget {
+    format: string;
+    fileName: string;
+    description: string;
+    /** 是否有可导出的数据 */
+    when(context: PassContext): boolean;
+    /**
+     * `options` 为 export Pass 选项中以格式名为键的对象；
+     * 写出多个文件或文件名与 fileName 不同时返回实际写出的文件
+     */
+    write(context: PassContext, outputPath: string, options: Record<string, unknown>): void | string[];
+}
+
+/**
+ * 全部导出格式（按写出顺序）
+ */
+export const EXPORT_TARGETS: ExportTarget[] = [
+    {
+        format: 'dataflow-json',
+        fileName: 'dataflow-v3.json',
+        get description() {
+            return t('export.dataflow-json.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.DATA_FLOWS),
+        write: (context, outputPath) => {
+            const result = context.getResult();
+            exportDataFlowToJson(result.dataFlows, result.lifecycleMethods, outputPath, context.log);
+        }
+    },
+    {
+        format: 'dataflow-md',
+        fileName: 'dataflow-v3.md',
+        get description() {
+            return t('export.dataflow-md.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.DATA_FLOWS),
+        write: (context, outputPath) => {
+            const result = context.getResult();
+            exportDataFlowToMarkdown(result.dataFlows, result.lifecycleMethods, outputPath, context.log);
+        }
+    },
+    {
+        format: 'dot',
+        fileName: 'openeye-callgraph-v3.dot',
+        get description() {
+            return t('export.dot.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.CALL_GRAPH),
+        write: (context, outputPath, options) => {
+            const graph = context.getFullCallGraph();
+            if (!graph) {
+                context.log(`   ⚠️  ${t('export.callgraph.notBuilt')}`);
+                return;
+            }
+            writeCallGraphDot(graph, outputPath, parseDotOptions(options), context.log);
+        }
+    },
+    {
+        format: 'mermaid',
+        fileName: 'openeye-callgraph-v3.mmd',
+        get description() {
+            return t('export.mermaid.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.CALL_GRAPH),
+        write: (context, outputPath, options) => {
+            const graph = context.getFullCallGraph();
+            if (!graph) {
+                context.log(`   ⚠️  ${t('export.callgraph.notBuilt')}`);
+                return [];
+            }
+            return writeCallGraphDiagram(graph, 'mermaid', outputPath, parseDiagramOptions(options), context.log);
+        }
+    },
+    {
+        format: 'plantuml',
+        fileName: 'openeye-callgraph-v3.puml',
+        get description() {
+            return t('export.plantuml.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.CALL_GRAPH),
+        write: (context, outputPath, options) => {
+            const graph = context.getFullCallGraph();
+            if (!graph) {
+                context.log(`   ⚠️  ${t('export.callgraph.notBuilt')}`);
+                return [];
+            }
+            return writeCallGraphDiagram(graph, 'plantuml', outputPath, parseDiagramOptions(options), context.log);
+        }
+    },
+    {
+        format: 'callgraph-json',
+        fileName: 'openeye-callgraph-v3.json',
+        get description() {
+            return t('export.callgraph-json.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.CALL_GRAPH),
+        write: (context, outputPath) => {
+            const graph = context.getFullCallGraph();
+            if (!graph) {
+                context.log(`   ⚠️  ${t('export.callgraph.notBuilt')}`);
+                return;
+            }
+            exportSchemaJson('callgraph', buildCallGraphExport(context.getResult(), graph), outputPath, context.log);
+        }
+    },
+    {
+        format: 'sarif',
+        fileName: 'openeye-issues-v3.sarif',
+        get description() {
+            return t('export.sarif.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.UNDEFINED_ISSUES) || context.artifacts.has(ARTIFACTS.FINDINGS),
+        write: (context, outputPath) => exportIssuesToSarif(context.getResult(), outputPath, context.log)
+    },
+    {
+        format: 'issues-json',
+        fileName: 'openeye-issues-v3.json',
+        get description() {
+            return t('export.issues-json.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.UNDEFINED_ISSUES) || context.artifacts.has(ARTIFACTS.FINDINGS),
+        write: (context, outputPath) => exportSchemaJson('issues', buildIssuesExport(context.getResult()), outputPath, context.log)
+    },
+    {
+        format: 'junit',
+        fileName: 'openeye-junit-v3.xml',
+        get description() {
+            return t('export.junit.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.LIFECYCLE_METHODS),
+        write: (context, outputPath) => exportJUnitXml(context.getResult(), context.getGateResults(), outputPath, context.log)
+    },
+    {
+        format: 'csv',
+        fileName: 'openeye-lifecycle-v3.csv',
+        get description() {
+            return t('export.csv.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.LIFECYCLE_METHODS),
+        write: (context, outputPath, options) => {
+            const delimiter = options.delimiter === 'tab' || options.delimiter === '\t' ? '\t' : ',';
+            return exportCoverageTables(context.getResult(), path.dirname(outputPath), delimiter, context.log);
+        }
+    },
+    {
+        format: 'coverage-json',
+        fileName: 'openeye-coverage-v3.json',
+        get description() {
+            return t('export.coverage-json.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.LIFECYCLE_METHODS),
+        write: (context, outputPath) => exportSchemaJson('coverage', buildCoverageExport(context.getResult()), outputPath, context.log)
+    },
+    {
+        format: 'result',
+        fileName: RESULT_FILE_NAME,
+        get description() {
+            return t('export.result.description');
+        },
+        when: () => true,
+        write: (context, outputPath) => exportResultJson(context.getResult(), outputPath, context.log)
+    },
+    {
+        format: 'html',
+        fileName: 'openeye-report-v3.html',
+        get description() {
+            return t('export.html.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.LIFECYCLE_METHODS),
+        write: (context, outputPath) => exportHtmlReport(context.getResult(), outputPath, context.log)
+    },
+    {
+        format: 'markdown',
+        fileName: 'openeye-report-v3.md',
+        get description() {
+            return t('export.markdown.description');
+        },
+        when: context => context.artifacts.has(ARTIFACTS.LIFECYCLE_METHODS),
+        write: (context, outputPath, options) => exportMarkdownReport(
+            context.getResult(),
+            context.getFullCallGraph(),
+            outputPath,
+            parseMarkdownReportOptions(options),
+            context.log
+        )
+    },
+    {
+        format: 'profile',
+        fileName: 'openeye-profile-v3.json',
+        get description() {
+            return t('export.profile.description');
+        },
+        when: context => context.getResult().profile !== null,
+        write: (context, outputPath) => exportProfileTrace(context.getResult().profile!, outputPath, context.log)
+    }
+];
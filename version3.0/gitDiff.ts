@@ -0,0 +1,145 @@
+// gitDiff.ts - 增量分析的变更范围
+// 读取目标项目中 git range 的 diff，记录每个文件变更的行区间（新版本的行号）
+import { execFileSync } from 'child_process';
+import { t } from './i18n';
+
+/**
+ * 闭区间行范围
+ */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * C 风格转义字符
+ */
+const ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+/**
+ * 还原 git 加了引号的路径（含非 ASCII 字符或特殊字符时，如 `"b/\346\226\207.ets"`），
+ * 八进制转义为 UTF-8 字节；没有引号时原样返回
+ */
+export function unquotePath(text: string): string {
+    if (!text.startsWith('"') || !text.endsWith('"') || text.length < 2) {
+        return text;
+    }
+    const bytes: number[] = [];
+    const body = text.slice(1, -1);
+    for (let i = 0; i < body.length; i++) {
+        const char = body[i];
+        if (char !== '\\' || i + 1 >= body.length) {
+            bytes.push(...Buffer.from(char, 'utf-8'));
+            continue;
+        }
+        const next = body[++i];
+        const octal = body.substring(i, i + 3);
+        if (/^[0-3][0-7]{2}$/.test(octal)) {
+            bytes.push(parseInt(octal, 8));
+            i += 2;
+        } else {
+            bytes.push(ESCAPES[next] ?? next.charCodeAt(0));
+        }
+    }
+    return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * 解析 `git diff --unified=0` 输出，返回 文件 -> 变更行区间
+ *
+ * 纯删除的 hunk 记录为删除位置前后两行，使紧邻删除处的语句也算作变更。
+ */
+export function parseUnifiedDiff(diff: string): Map<string, LineRange[]> {
+    const files = new Map<string, LineRange[]>();
+    let current: LineRange[] | null = null;
+
+    for (const line of diff.split(/\r?\n/)) {
+        if (line.startsWith('+++ ')) {
+            // 路径含空格时 git 在行尾加一个制表符
+            const target = unquotePath(line.substring(4).replace(/\t$/, ''));
+            if (target === '/dev/null') {
+                current = null;
+                continue;
+            }
+            const filePath = target.replace(/^b\//, '');
+            current = files.get(filePath) ?? [];
+            files.set(filePath, current);
+            continue;
+        }
+        const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+        if (hunk && current) {
+            const start = parseInt(hunk[1], 10);
+            const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+            if (count === 0) {
+                current.push({ start: Math.max(start, 1), end: start + 1 });
+            } else {
+                current.push({ start, end: start + count - 1 });
+            }
+        }
+    }
+
+    return files;
+}
+
+/**
+ * 一次 git range 的变更集合（文件路径相对项目目录）
+ */
+export class ChangeSet {
+    public readonly range: string;
+    private files: Map<string, LineRange[]>;
+
+    constructor(range: string, files: Map<string, LineRange[]>) {
+        this.range = range;
+        this.files = files;
+    }
+
+    /**
+     * 在项目目录执行 `git diff --relative`，只包含项目目录内的文件
+     *
+     * 显式指定 a/ b/ 前缀，不受 diff.noprefix / diff.mnemonicPrefix 配置影响。
+     */
+    public static fromGit(projectDirectory: string, range: string): ChangeSet {
+        let diff: string;
+        try {
+            diff = execFileSync('git', [
+                'diff', '--relative', '--unified=0', '--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/', range, '--'
+            ], {
+                cwd: projectDirectory,
+                encoding: 'utf-8',
+                maxBuffer: 64 * 1024 * 1024,
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+        } catch (error) {
+            const stderr = (error as { stderr?: string }).stderr?.trim();
+            throw new Error(t('gitDiff.error.failed', { range, error: String(stderr || error) }));
+        }
+        return new ChangeSet(range, parseUnifiedDiff(diff));
+    }
+
+    public getChangedFiles(): string[] {
+        return Array.from(this.files.keys()).sort();
+    }
+
+    public isFileChanged(filePath: string): boolean {
+        return this.files.has(normalize(filePath));
+    }
+
+    /**
+     * 行是否在变更区间内
+     */
+    public isLineChanged(filePath: string, line: number): boolean {
+        return this.overlaps(filePath, line, line);
+    }
+
+    /**
+     * 行区间是否与变更区间相交
+     */
+    public overlaps(filePath: string, start: number, end: number): boolean {
+        const ranges = this.files.get(normalize(filePath));
+        return !!ranges && ranges.some(range => range.start <= end && start <= range.end);
+    }
+}
+
+function normalize(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
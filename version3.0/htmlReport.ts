@@ -0,0 +1,492 @@
+// htmlReport.ts - 自包含的交互式 HTML 报告
+// 单个离线 HTML 文件：覆盖率表格、问题筛选、数据流浏览和可缩放的调用图，无需 Graphviz
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { AnalysisResult } from './types';
+import { MessageKey, formatDate, languageTag, t } from './i18n';
+
+/**
+ * 页面样式
+ */
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; margin: 0; color: #222; background: #f6f7f9; }
+header { background: #2d3e50; color: #fff; padding: 16px 24px; }
+header h1 { margin: 0; font-size: 20px; }
+header p { margin: 4px 0 0; opacity: .8; font-size: 13px; }
+nav { position: sticky; top: 0; background: #fff; border-bottom: 1px solid #ddd; padding: 8px 24px; z-index: 10; }
+nav a { margin-right: 16px; color: #2d3e50; text-decoration: none; font-size: 14px; }
+section { background: #fff; margin: 16px 24px; padding: 16px 20px; border-radius: 6px; box-shadow: 0 1px 2px rgba(0,0,0,.08); }
+h2 { font-size: 17px; margin: 0 0 12px; }
+h3 { font-size: 15px; margin: 16px 0 8px; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; }
+.card { background: #f0f3f7; border-radius: 6px; padding: 10px 14px; min-width: 110px; }
+.card b { display: block; font-size: 20px; }
+.card span { font-size: 12px; color: #555; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; }
+th, td { border-bottom: 1px solid #eee; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #fafafa; cursor: pointer; user-select: none; white-space: nowrap; }
+th.asc::after { content: " ▲"; font-size: 10px; }
+th.desc::after { content: " ▼"; font-size: 10px; }
+tr.unused td { color: #999; }
+.filters { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; margin-bottom: 10px; font-size: 13px; }
+input[type=search], select { padding: 4px 6px; font-size: 13px; }
+.sev { display: inline-block; padding: 1px 6px; border-radius: 3px; color: #fff; font-size: 12px; }
+.sev-high { background: #d9534f; }
+.sev-medium { background: #f0ad4e; }
+.sev-low { background: #5cb85c; }
+code { font-family: Menlo, Consolas, monospace; font-size: 12px; background: #f4f4f4; padding: 1px 3px; border-radius: 3px; }
+details { border-bottom: 1px solid #eee; padding: 4px 0; }
+summary { cursor: pointer; font-size: 14px; }
+.muted { color: #888; font-size: 12px; }
+pre.snippet { font-family: Menlo, Consolas, monospace; font-size: 12px; background: #f8f8f8; border: 1px solid #eee; border-radius: 3px; margin: 4px 0 0; padding: 4px 0; overflow-x: auto; }
+pre.snippet span { display: block; padding: 0 8px; }
+pre.snippet span.hit { background: #fff4e0; }
+pre.snippet i { display: inline-block; min-width: 3em; color: #999; font-style: normal; user-select: none; }
+pre.snippet mark { background: #ffd27a; }
+#graph { width: 100%; height: 600px; border: 1px solid #ddd; border-radius: 4px; cursor: grab; background: #fcfcfc; }
+#graph.dragging { cursor: grabbing; }
+#graph text { font-size: 11px; pointer-events: none; }
+#graph .edge { stroke: #aab; stroke-width: 1; fill: none; }
+#graph .node rect { stroke: #667; stroke-width: 1; rx: 3; }
+#graph .node.dim { opacity: .15; }
+#graph .edge.dim { opacity: .08; }
+`;
+
+/**
+ * 页面脚本（数据从 #report-data 读取）
+ */
+const SCRIPT = `
+(function () {
+    var data = JSON.parse(document.getElementById('report-data').textContent);
+    var messages = JSON.parse(document.getElementById('report-messages').textContent);
+
+    // 按键取消息并替换 {name} 占位符
+    function msg(key, params) {
+        return (messages[key] || key).replace(/\\{(\\w+)\\}/g, function (m, name) {
+            return params && name in params ? String(params[name]) : m;
+        });
+    }
+
+    function esc(value) {
+        return String(value).replace(/[&<>"']/g, function (c) {
+            return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+        });
+    }
+
+    // 可排序表格：columns = [{ key, title, html? }]
+    function sortableTable(container, columns, rows, rowClass) {
+        var sortKey = null;
+        var sortDir = 1;
+        function render() {
+            var sorted = rows.slice();
+            if (sortKey) {
+                sorted.sort(function (a, b) {
+                    var x = a[sortKey], y = b[sortKey];
+                    if (typeof x === 'number' && typeof y === 'number') return (x - y) * sortDir;
+                    return String(x).localeCompare(String(y)) * sortDir;
+                });
+            }
+            var html = '<table><thead><tr>';
+            columns.forEach(function (col) {
+                var cls = col.key === sortKey ? (sortDir > 0 ? 'asc' : 'desc') : '';
+                html += '<th data-key="' + col.key + '" class="' + cls + '">' + esc(col.title) + '</th>';
+            });
+            html += '</tr></thead><tbody>';
+            sorted.forEach(function (row) {
+                html += '<tr class="' + (rowClass ? rowClass(row) : '') + '">';
+                columns.forEach(function (col) {
+                    html += '<td>' + (col.html ? col.html(row) : esc(row[col.key])) + '</td>';
+                });
+                html += '</tr>';
+            });
+            if (sorted.length === 0) {
+                html += '<tr><td colspan="' + columns.length + '" class="muted">' + esc(msg('html.noData')) + '</td></tr>';
+            }
+            container.innerHTML = html + '</tbody></table>';
+            container.querySelectorAll('th').forEach(function (th) {
+                th.onclick = function () {
+                    var key = th.getAttribute('data-key');
+                    sortDir = key === sortKey ? -sortDir : 1;
+                    sortKey = key;
+                    render();
+                };
+            });
+        }
+        render();
+        return function (newRows) { rows = newRows; render(); };
+    }
+
+    // 基础统计
+    var stats = data.stats;
+    var cards = [
+        [msg('html.stats.files'), stats.totalFiles], [msg('html.stats.classes'), stats.totalClasses],
+        [msg('html.stats.methods'), stats.totalMethods], [msg('html.stats.abilityClasses'), stats.abilityClasses],
+        [msg('html.stats.componentClasses'), stats.componentClasses], [msg('html.stats.lifecycleMethods'), stats.lifecycleMethods],
+        [msg('html.stats.callGraphNodes'), stats.callGraphNodes], [msg('html.stats.callGraphEdges'), stats.callGraphEdges],
+        [msg('html.stats.dataFlows'), stats.dataFlowPaths], [msg('html.stats.issues'), data.undefinedIssues.length + data.findings.length]
+    ];
+    document.getElementById('stats').innerHTML = cards.map(function (c) {
+        return '<div class="card"><b>' + esc(c[1]) + '</b><span>' + esc(c[0]) + '</span></div>';
+    }).join('');
+
+    // 覆盖率
+    var coverageColumns = [
+        { key: 'methodName', title: msg('html.coverage.methodName') },
+        { key: 'used', title: msg('html.coverage.used') },
+        { key: 'usageCount', title: msg('html.coverage.usageCount') },
+        { key: 'classCount', title: msg('html.coverage.classCount') },
+        { key: 'classes', title: msg('html.coverage.classes') }
+    ];
+    function coverageRows(stats) {
+        return stats.map(function (s) {
+            return { methodName: s.methodName, used: s.isUsed ? '✓' : '—', usageCount: s.usageCount,
+                classCount: s.classes.length, classes: s.classes.join(', '), isUsed: s.isUsed };
+        });
+    }
+    function coverageSummary(stats) {
+        var used = stats.filter(function (s) { return s.isUsed; }).length;
+        return msg('html.coverage.summary', { used: used, total: stats.length,
+            percent: stats.length ? (used / stats.length * 100).toFixed(1) : '0.0' });
+    }
+    document.getElementById('ability-summary').textContent = coverageSummary(data.coverage.ability);
+    document.getElementById('component-summary').textContent = coverageSummary(data.coverage.component);
+    var unusedClass = function (row) { return row.isUsed ? '' : 'unused'; };
+    sortableTable(document.getElementById('ability-table'), coverageColumns, coverageRows(data.coverage.ability), unusedClass);
+    sortableTable(document.getElementById('component-table'), coverageColumns, coverageRows(data.coverage.component), unusedClass);
+
+    // 源码片段：带行号，出错行高亮并标出表达式
+    function renderSnippet(snippet) {
+        if (!snippet) return '';
+        return '<pre class="snippet">' + snippet.lines.map(function (text, index) {
+            var lineNumber = snippet.startLine + index;
+            if (lineNumber !== snippet.line) {
+                return '<span><i>' + lineNumber + '</i>' + esc(text) + '</span>';
+            }
+            var start = snippet.column - 1;
+            var end = start + snippet.length;
+            return '<span class="hit"><i>' + lineNumber + '</i>' + esc(text.substring(0, start)) +
+                '<mark>' + esc(text.substring(start, end)) + '</mark>' + esc(text.substring(end)) + '</span>';
+        }).join('') + '</pre>';
+    }
+
+    // 问题列表
+    function location(filePath, line, column) {
+        return filePath + ':' + line + (column > 0 ? ':' + column : '');
+    }
+    var issues = data.undefinedIssues.map(function (i) {
+        return { severity: i.severity, ruleId: i.ruleId, module: i.module, method: i.method,
+            location: location(i.filePath, i.line, i.column), message: i.description, statement: i.statement, snippet: i.snippet };
+    }).concat(data.findings.map(function (f) {
+        return { severity: f.severity, ruleId: f.ruleId, module: '', method: f.className + '.' + f.method,
+            location: location(f.filePath, f.line, f.column), message: f.message, statement: '', snippet: f.snippet };
+    }));
+    var severityRank = { high: 3, medium: 2, low: 1 };
+    issues.forEach(function (i) { i.rank = severityRank[i.severity] || 0; });
+    function fillSelect(id, values) {
+        var select = document.getElementById(id);
+        values.filter(function (v, idx) { return v && values.indexOf(v) === idx; }).sort().forEach(function (v) {
+            var option = document.createElement('option');
+            option.value = v;
+            option.textContent = v;
+            select.appendChild(option);
+        });
+    }
+    fillSelect('issue-rule', issues.map(function (i) { return i.ruleId; }));
+    fillSelect('issue-module', issues.map(function (i) { return i.module; }));
+    var updateIssues = sortableTable(document.getElementById('issue-table'), [
+        { key: 'rank', title: msg('html.issues.severity'), html: function (r) { return '<span class="sev sev-' + r.severity + '">' + r.severity + '</span>'; } },
+        { key: 'ruleId', title: msg('html.issues.ruleId') },
+        { key: 'method', title: msg('html.issues.method') },
+        { key: 'location', title: msg('html.issues.location') },
+        { key: 'message', title: msg('html.issues.message'), html: function (r) {
+            return esc(r.message) + (r.statement ? '<br><code>' + esc(r.statement) + '</code>' : '') + renderSnippet(r.snippet);
+        } }
+    ], issues);
+    function filterIssues() {
+        var severities = Array.prototype.map.call(document.querySelectorAll('.issue-sev:checked'), function (c) { return c.value; });
+        var rule = document.getElementById('issue-rule').value;
+        var module = document.getElementById('issue-module').value;
+        var text = document.getElementById('issue-search').value.toLowerCase();
+        var rows = issues.filter(function (i) {
+            return severities.indexOf(i.severity) >= 0 && (!rule || i.ruleId === rule) && (!module || i.module === module) &&
+                (!text || (i.method + ' ' + i.location + ' ' + i.message + ' ' + i.statement).toLowerCase().indexOf(text) >= 0);
+        });
+        document.getElementById('issue-count').textContent = rows.length + ' / ' + issues.length;
+        updateIssues(rows);
+    }
+    document.querySelectorAll('#issues input, #issues select').forEach(function (input) {
+        input.addEventListener('input', filterIssues);
+    });
+    filterIssues();
+
+    // 数据流浏览
+    var flowsByMethod = {};
+    data.dataFlows.forEach(function (f) { (flowsByMethod[f.from] = flowsByMethod[f.from] || []).push(f); });
+    var flowMethods = Object.keys(flowsByMethod).sort(function (a, b) { return flowsByMethod[b].length - flowsByMethod[a].length; });
+    function renderFlows() {
+        var text = document.getElementById('flow-search').value.toLowerCase();
+        var html = '';
+        var shown = 0;
+        flowMethods.forEach(function (method) {
+            var flows = flowsByMethod[method].filter(function (f) {
+                return !text || (f.from + ' ' + f.to + ' ' + f.callChain.join(' ')).toLowerCase().indexOf(text) >= 0;
+            });
+            if (flows.length === 0) return;
+            shown += flows.length;
+            html += '<details' + (text ? ' open' : '') + '><summary>' + esc(method) + ' <span class="muted">(' + esc(msg('html.flows.count', { count: flows.length })) + ')</span></summary>';
+            html += '<table><thead><tr><th>' + esc(msg('html.flows.target')) + '</th><th>' + esc(msg('html.flows.line'))
+                + '</th><th>' + esc(msg('html.flows.callChain')) + '</th></tr></thead><tbody>';
+            flows.forEach(function (f) {
+                html += '<tr><td><code>' + esc(f.to) + '</code></td><td>' + esc(f.line) + '</td><td>' + esc(f.callChain.join(' → ')) + '</td></tr>';
+            });
+            html += '</tbody></table></details>';
+        });
+        document.getElementById('flow-list').innerHTML = html || '<p class="muted">' + esc(msg('html.flows.empty')) + '</p>';
+        document.getElementById('flow-count').textContent = shown + ' / ' + data.dataFlows.length;
+    }
+    document.getElementById('flow-search').addEventListener('input', renderFlows);
+    renderFlows();
+
+    // 调用图：按从生命周期方法出发的 BFS 深度分层布局，支持滚轮缩放和拖拽平移
+    var svg = document.getElementById('graph');
+    var graph = data.callGraph;
+    if (!graph || graph.nodes.length === 0) {
+        svg.outerHTML = '<p class="muted">' + esc(msg('html.graph.missing')) + '</p>';
+        return;
+    }
+    var NS = 'http://www.w3.org/2000/svg';
+    var colors = { Ability: '#f4a7a0', Component: '#a8d5a2', Callback: '#f7d794' };
+    var depth = {};
+    var queue = [];
+    graph.nodes.forEach(function (n) { if (n.lifecycle) { depth[n.id] = 0; queue.push(n.id); } });
+    var out = {};
+    graph.edges.forEach(function (e) { (out[e.from] = out[e.from] || []).push(e.to); });
+    while (queue.length > 0) {
+        var id = queue.shift();
+        (out[id] || []).forEach(function (to) {
+            if (depth[to] === undefined) { depth[to] = depth[id] + 1; queue.push(to); }
+        });
+    }
+    var columns = [];
+    var position = {};
+    graph.nodes.forEach(function (n) {
+        var d = depth[n.id] === undefined ? 0 : depth[n.id];
+        (columns[d] = columns[d] || []).push(n);
+    });
+    columns.forEach(function (column, d) {
+        column.sort(function (a, b) { return a.label.localeCompare(b.label); });
+        column.forEach(function (n, i) { position[n.id] = { x: 20 + d * 300, y: 20 + i * 30 }; });
+    });
+    var viewport = document.createElementNS(NS, 'g');
+    svg.appendChild(viewport);
+    var edgeElements = graph.edges.map(function (e) {
+        var a = position[e.from], b = position[e.to];
+        var line = document.createElementNS(NS, 'path');
+        var x1 = a.x + 240, y1 = a.y + 10, x2 = b.x, y2 = b.y + 10;
+        line.setAttribute('d', 'M' + x1 + ',' + y1 + ' C' + (x1 + 30) + ',' + y1 + ' ' + (x2 - 30) + ',' + y2 + ' ' + x2 + ',' + y2);
+        line.setAttribute('class', 'edge');
+        viewport.appendChild(line);
+        return { edge: e, element: line };
+    });
+    var nodeElements = graph.nodes.map(function (n) {
+        var g = document.createElementNS(NS, 'g');
+        g.setAttribute('class', 'node');
+        g.setAttribute('transform', 'translate(' + position[n.id].x + ',' + position[n.id].y + ')');
+        var rect = document.createElementNS(NS, 'rect');
+        rect.setAttribute('width', 240);
+        rect.setAttribute('height', 20);
+        rect.setAttribute('fill', n.lifecycle ? colors[n.lifecycle] : '#d6e4f0');
+        var text = document.createElementNS(NS, 'text');
+        text.setAttribute('x', 5);
+        text.setAttribute('y', 14);
+        text.textContent = n.label.length > 38 ? n.label.substring(0, 35) + '...' : n.label;
+        var title = document.createElementNS(NS, 'title');
+        title.textContent = n.id + (n.filePath ? '\\n' + n.filePath : '');
+        g.appendChild(rect);
+        g.appendChild(text);
+        g.appendChild(title);
+        viewport.appendChild(g);
+        return { node: n, element: g };
+    });
+    var view = { x: 0, y: 0, k: 1 };
+    function applyView() {
+        viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.k + ')');
+    }
+    svg.addEventListener('wheel', function (event) {
+        event.preventDefault();
+        var rect = svg.getBoundingClientRect();
+        var mx = event.clientX - rect.left, my = event.clientY - rect.top;
+        var factor = event.deltaY < 0 ? 1.15 : 1 / 1.15;
+        var k = Math.min(8, Math.max(0.05, view.k * factor));
+        view.x = mx - (mx - view.x) * (k / view.k);
+        view.y = my - (my - view.y) * (k / view.k);
+        view.k = k;
+        applyView();
+    }, { passive: false });
+    var drag = null;
+    svg.addEventListener('mousedown', function (event) {
+        drag = { x: event.clientX - view.x, y: event.clientY - view.y };
+        svg.classList.add('dragging');
+    });
+    window.addEventListener('mousemove', function (event) {
+        if (!drag) return;
+        view.x = event.clientX - drag.x;
+        view.y = event.clientY - drag.y;
+        applyView();
+    });
+    window.addEventListener('mouseup', function () {
+        drag = null;
+        svg.classList.remove('dragging');
+    });
+    document.getElementById('graph-reset').onclick = function () {
+        view = { x: 0, y: 0, k: 1 };
+        applyView();
+    };
+    document.getElementById('graph-search').addEventListener('input', function (event) {
+        var text = event.target.value.toLowerCase();
+        var matched = {};
+        nodeElements.forEach(function (item) {
+            var hit = !text || (item.node.label + ' ' + item.node.id).toLowerCase().indexOf(text) >= 0;
+            if (hit) matched[item.node.id] = true;
+            item.element.classList.toggle('dim', !hit);
+        });
+        edgeElements.forEach(function (item) {
+            item.element.classList.toggle('dim', !!text && !(matched[item.edge.from] || matched[item.edge.to]));
+        });
+    });
+    document.getElementById('graph-summary').textContent = msg('html.graph.summary', { nodes: graph.nodes.length, edges: graph.edges.length });
+    applyView();
+})();
+`;
+
+/**
+ * 页面脚本用到的消息，按当前语言写入 #report-messages
+ */
+const PAGE_MESSAGES: MessageKey[] = [
+    'html.noData',
+    'html.stats.files',
+    'html.stats.classes',
+    'html.stats.methods',
+    'html.stats.abilityClasses',
+    'html.stats.componentClasses',
+    'html.stats.lifecycleMethods',
+    'html.stats.callGraphNodes',
+    'html.stats.callGraphEdges',
+    'html.stats.dataFlows',
+    'html.stats.issues',
+    'html.coverage.methodName',
+    'html.coverage.used',
+    'html.coverage.usageCount',
+    'html.coverage.classCount',
+    'html.coverage.classes',
+    'html.coverage.summary',
+    'html.issues.severity',
+    'html.issues.ruleId',
+    'html.issues.method',
+    'html.issues.location',
+    'html.issues.message',
+    'html.flows.count',
+    'html.flows.target',
+    'html.flows.line',
+    'html.flows.callChain',
+    'html.flows.empty',
+    'html.graph.missing',
+    'html.graph.summary'
+];
+
+/**
+ * 生成 HTML 报告内容
+ */
+export function renderHtmlReport(result: AnalysisResult): string {
+    // 防止数据中的 </script> 提前结束脚本块
+    const json = JSON.stringify(result).replace(/</g, '\\u003c');
+    const messages = JSON.stringify(Object.fromEntries(PAGE_MESSAGES.map(key => [key, t(key)]))).replace(/</g, '\\u003c');
+    const escape = (value: string) => value.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+    return `<!DOCTYPE html>
+<html lang="${languageTag()}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${t('html.title')}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>📋 ${t('html.title')}</h1>
+  <p>${t('html.project')}: ${escape(result.projectDirectory)} · ${t('export.generatedAt')}: ${escape(formatDate(result.generatedAt))} · Pass: ${escape(result.steps.join(', '))}</p>
+</header>
+<nav>
+  <a href="#overview">📊 ${t('html.section.overview')}</a>
+  <a href="#coverage">📈 ${t('html.section.coverage')}</a>
+  <a href="#issues">⚠️ ${t('html.section.issues')}</a>
+  <a href="#dataflow">🔄 ${t('html.section.dataflow')}</a>
+  <a href="#callgraph">🗺️ ${t('html.section.callgraph')}</a>
+</nav>
+<section id="overview">
+  <h2>📊 ${t('html.section.overview')}</h2>
+  <div class="cards" id="stats"></div>
+</section>
+<section id="coverage">
+  <h2>📈 ${t('html.section.coverage')}</h2>
+  <h3>📱 Ability <span class="muted" id="ability-summary"></span></h3>
+  <div id="ability-table"></div>
+  <h3>🎨 Component <span class="muted" id="component-summary"></span></h3>
+  <div id="component-table"></div>
+</section>
+<section id="issues">
+  <h2>⚠️ ${t('html.section.issues')} <span class="muted" id="issue-count"></span></h2>
+  <div class="filters">
+    <label><input type="checkbox" class="issue-sev" value="high" checked> high</label>
+    <label><input type="checkbox" class="issue-sev" value="medium" checked> medium</label>
+    <label><input type="checkbox" class="issue-sev" value="low" checked> low</label>
+    <select id="issue-rule"><option value="">${t('html.filter.allRules')}</option></select>
+    <select id="issue-module"><option value="">${t('html.filter.allModules')}</option></select>
+    <input type="search" id="issue-search" placeholder="${t('html.filter.issueSearch')}">
+  </div>
+  <div id="issue-table"></div>
+</section>
+<section id="dataflow">
+  <h2>🔄 ${t('html.section.dataflow')} <span class="muted" id="flow-count"></span></h2>
+  <div class="filters"><input type="search" id="flow-search" placeholder="${t('html.filter.flowSearch')}"></div>
+  <div id="flow-list"></div>
+</section>
+<section id="callgraph">
+  <h2>🗺️ ${t('html.section.callgraph')} <span class="muted" id="graph-summary"></span></h2>
+  <div class="filters">
+    <input type="search" id="graph-search" placeholder="${t('html.graph.search')}">
+    <button id="graph-reset">${t('html.graph.reset')}</button>
+    <span class="muted">${t('html.graph.hint')}</span>
+  </div>
+  <svg id="graph"></svg>
+</section>
+<script type="application/json" id="report-data">${json}</script>
+<script type="application/json" id="report-messages">${messages}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * 导出 HTML 报告
+ */
+export function exportHtmlReport(result: AnalysisResult, outputPath: string, log: Logger = console.log): void {
+    log(`\n🌐 ${t('export.html.start')}...`);
+
+    try {
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, renderHtmlReport(result), 'utf-8');
+
+        log(`   ✓ ${t('export.html.done', { path: outputPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
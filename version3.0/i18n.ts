@@ -0,0 +1,105 @@
+// i18n.ts - 控制台输出与导出文件的多语言支持
+// 消息按稳定的键存放在各语言目录中（messages.zh.ts / messages.en.ts），由 --lang 选择语言
+import { zh } from './messages.zh';
+import { en } from './messages.en';
+
+/**
+ * 支持的语言
+ */
+export type Locale = 'zh' | 'en';
+
+export const LOCALES: Locale[] = ['zh', 'en'];
+
+/**
+ * 内置消息的键
+ */
+export type MessageKey = keyof typeof zh;
+
+/**
+ * 消息参数，替换消息中的 `{name}` 占位符
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 语言对应的 BCP 47 标签，用于日期格式和 HTML / SARIF 的语言声明
+ */
+const LANGUAGE_TAGS: Record<Locale, string> = {
+    zh: 'zh-CN',
+    en: 'en-US'
+};
+
+const catalogs: Record<Locale, Map<string, string>> = {
+    zh: new Map(Object.entries(zh)),
+    en: new Map(Object.entries(en))
+};
+
+let currentLocale: Locale = 'zh';
+
+/**
+ * 切换当前语言（分析开始时按 AnalyzeOptions.lang 设置）
+ */
+export function setLocale(locale: Locale): void {
+    currentLocale = locale;
+}
+
+export function getLocale(): Locale {
+    return currentLocale;
+}
+
+export function languageTag(locale: Locale = currentLocale): string {
+    return LANGUAGE_TAGS[locale];
+}
+
+/**
+ * 解析 --lang 参数
+ */
+export function parseLocale(value: string): Locale {
+    const locale = value.toLowerCase().split(/[-_]/)[0];
+    if (!(LOCALES as string[]).includes(locale)) {
+        throw new Error(formatMessage('cli.error.lang', { value, locales: LOCALES.join(', ') }));
+    }
+    return locale as Locale;
+}
+
+/**
+ * 注册消息（自定义规则和 Pass 用自己的键添加各语言的消息，同名键会覆盖）
+ */
+export function registerMessages(locale: Locale, messages: Record<string, string>): void {
+    for (const [key, message] of Object.entries(messages)) {
+        catalogs[locale].set(key, message);
+    }
+}
+
+export function hasMessage(key: string, locale: Locale = currentLocale): boolean {
+    return catalogs[locale].has(key) || catalogs.zh.has(key);
+}
+
+/**
+ * 按键格式化消息；当前语言缺少该键时使用中文，都没有时返回键本身
+ */
+export function formatMessage(key: string, params: MessageParams = {}, locale: Locale = currentLocale): string {
+    const template = catalogs[locale].get(key) ?? catalogs.zh.get(key) ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(params, name) ? String(params[name]) : match);
+}
+
+/**
+ * 格式化内置消息
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+    return formatMessage(key, params);
+}
+
+/**
+ * 按当前语言格式化日期时间
+ */
+export function formatDate(value: Date | string): string {
+    return new Date(value).toLocaleString(languageTag());
+}
+
+/**
+ * 按当前语言格式化时间
+ */
+export function formatTime(value: Date | string): string {
+    return new Date(value).toLocaleTimeString(languageTag());
+}
@@ -0,0 +1,54 @@
+// index.ts - Version 3.0 程序化 API
+// 运行分析并返回可序列化的 AnalysisResult，不向控制台输出
+import { AnalysisResult, AnalyzeOptions } from './types';
+import { DEFAULT_OPTIONS, runAnalysis } from './analyzeOpenEyeLifecycle';
+
+export * from './types';
+export { DEFAULT_OPTIONS, OpenEyeLifecycleAnalyzerV3 } from './analyzeOpenEyeLifecycle';
+export type { LifecycleMethodInfo, Logger } from './analyzeOpenEyeLifecycle';
+export { PassRegistry, ARTIFACTS } from './passes';
+export type { AnalysisPass, PassContext, PassPhase, PassSettings } from './passes';
+export { BUILTIN_PASSES, createDefaultRegistry } from './builtinPasses';
+export { printDetailedReport, printDetailedDataFlow } from './consoleReport';
+export type { DotExportOptions } from './callGraphDot';
+export { renderCallGraphMermaid, renderCallGraphPlantUml, extractCallSubtrees } from './callGraphDiagrams';
+export type { DiagramExportOptions, DiagramFormat, CallSubtree } from './callGraphDiagrams';
+export { createBaseline, loadBaseline, writeBaseline, applyBaseline, fingerprintIssue, fingerprintFinding } from './baseline';
+export type { BaselineFile, BaselineEntry } from './baseline';
+export { EXIT_CODES, evaluateGates, gateExitCode, printGateSummary } from './qualityGates';
+export type { GateConfig, GateResult } from './qualityGates';
+export { diffResults, summarizeDiff } from './resultDiff';
+export type { ResultDiff, DiffIssue, CoverageDelta, LifecycleClassDelta, DataFlowDelta } from './resultDiff';
+export { buildDiffReport, renderDiffMarkdown } from './diffReport';
+export type { DiffReport, DiffSource } from './diffReport';
+export { loadResultFile } from './resultFile';
+export { SCHEMA_VERSION, EXPORT_SCHEMAS, validateExport } from './exportSchemas';
+export type { ExportKind, JsonSchema } from './exportSchemas';
+export { detectExportKind, migrateExport, migrateExportFile } from './schemaMigration';
+export type { MigrationResult } from './schemaMigration';
+export { buildDataFlowExport } from './dataFlowExport';
+export type { DataFlowExport } from './dataFlowExport';
+export { buildIssuesExport, buildCoverageExport, buildCallGraphExport } from './jsonExport';
+export type { IssuesExport, CoverageExport, CallGraphExport } from './jsonExport';
+export { renderMarkdownReport } from './markdownReport';
+export type { MarkdownReportOptions } from './markdownReport';
+export { SourceFiles, extractSnippet, renderSnippetText } from './sourceSnippets';
+export { formatMessage, registerMessages, setLocale, t } from './i18n';
+export type { Locale, MessageKey, MessageParams } from './i18n';
+export { watchProject } from './watchMode';
+export { Profiler, toChromeTrace } from './profiler';
+
+/**
+ * 分析项目并返回结果
+ *
+ * 默认执行全部分析步骤且不输出进度日志，报告和导出由调用方自行处理：
+ *
+ * ```typescript
+ * const result = analyzeProject({ configPath: './config.json' });
+ * fs.writeFileSync('result.json', JSON.stringify(result, null, 2));
+ * ```
+ */
+export function analyzeProject(options: Partial<AnalyzeOptions> = {}): AnalysisResult {
+    const opts: AnalyzeOptions = { ...DEFAULT_OPTIONS, silent: true, ...options };
+    return runAnalysis(opts).result;
+}
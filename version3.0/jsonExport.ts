@@ -0,0 +1,87 @@
+// jsonExport.ts - 问题、生命周期覆盖和调用图的 JSON 导出
+// 供下游工具读取的独立文件，格式见 schemas/ 中对应的 Schema，写出前按 Schema 校验
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { ExportKind, SCHEMA_VERSION, serializeExport } from './exportSchemas';
+import { AnalysisResult, CallGraphData } from './types';
+import { t } from './i18n';
+
+/**
+ * 导出文件的公共头部
+ */
+interface ExportHeader {
+    schemaVersion: number;
+    generatedAt: string;
+    projectDirectory: string;
+}
+
+/**
+ * openeye-issues-v3.json 的内容
+ */
+export interface IssuesExport extends ExportHeader, Pick<AnalysisResult, 'undefinedIssues' | 'findings' | 'suppressed'> {}
+
+/**
+ * openeye-coverage-v3.json 的内容
+ */
+export interface CoverageExport extends ExportHeader, Pick<AnalysisResult, 'lifecycleMethods' | 'coverage'> {}
+
+/**
+ * openeye-callgraph-v3.json 的内容
+ */
+export interface CallGraphExport extends ExportHeader, CallGraphData {}
+
+function header(result: AnalysisResult): ExportHeader {
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        generatedAt: result.generatedAt,
+        projectDirectory: result.projectDirectory
+    };
+}
+
+export function buildIssuesExport(result: AnalysisResult): IssuesExport {
+    return {
+        ...header(result),
+        undefinedIssues: result.undefinedIssues,
+        findings: result.findings,
+        suppressed: result.suppressed
+    };
+}
+
+export function buildCoverageExport(result: AnalysisResult): CoverageExport {
+    return {
+        ...header(result),
+        lifecycleMethods: result.lifecycleMethods,
+        coverage: result.coverage
+    };
+}
+
+export function buildCallGraphExport(result: AnalysisResult, callGraph: CallGraphData): CallGraphExport {
+    return {
+        ...header(result),
+        nodes: callGraph.nodes,
+        edges: callGraph.edges
+    };
+}
+
+/**
+ * 按 Schema 校验并写出 JSON 文件；校验或写入失败时抛出，由 export Pass 记录为诊断
+ */
+export function exportSchemaJson(kind: ExportKind, data: unknown, outputPath: string, log: Logger = console.log): void {
+    log(`\n📤 ${t('export.schemaJson.start', { kind })}...`);
+
+    try {
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, serializeExport(kind, data), 'utf-8');
+
+        log(`   ✓ ${t('export.json.done', { path: outputPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
@@ -0,0 +1,263 @@
+// junitExport.ts - JUnit XML 导出
+// 每条规则一个测试套件、每个生命周期方法一个测试用例，有问题时失败；门禁和生命周期覆盖也作为测试套件
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import type { GateResult } from './qualityGates';
+import {
+    AnalysisResult,
+    CoverageStats,
+    LifecycleMethodRecord,
+    LISTENER_CLEANUP_RULE,
+    UNDEFINED_ACCESS_RULE
+} from './types';
+import { t } from './i18n';
+
+/**
+ * 测试用例中的一个问题
+ */
+interface CaseIssue {
+    filePath: string;
+    line: number;
+    column: number | null;
+    severity: string;
+    message: string;
+}
+
+/**
+ * 测试用例
+ */
+interface TestCase {
+    name: string;
+    classname: string;
+    file?: string;
+    line?: number;
+    failure?: { message: string; type: string; text: string };
+    skipped?: string;
+}
+
+/**
+ * 测试套件
+ */
+interface TestSuite {
+    name: string;
+    cases: TestCase[];
+}
+
+/**
+ * 内置规则对应的 Pass，Pass 执行过才输出该规则的测试套件
+ */
+const RULE_PASSES: Record<string, string> = {
+    [UNDEFINED_ACCESS_RULE]: 'undefined',
+    [LISTENER_CLEANUP_RULE]: 'listeners'
+};
+
+/**
+ * XML 转义（同时去掉 XML 1.0 不允许的控制字符）
+ */
+function escapeXml(value: string): string {
+    return value
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * 按规则和方法（类名.方法名）分组问题
+ */
+function groupIssues(result: AnalysisResult): Map<string, Map<string, CaseIssue[]>> {
+    const rules = new Map<string, Map<string, CaseIssue[]>>();
+    const add = (ruleId: string, method: string, issue: CaseIssue): void => {
+        const methods = rules.get(ruleId) ?? new Map<string, CaseIssue[]>();
+        const issues = methods.get(method) ?? [];
+        issues.push(issue);
+        methods.set(method, issues);
+        rules.set(ruleId, methods);
+    };
+
+    for (const issue of result.undefinedIssues) {
+        add(issue.ruleId, `${issue.className}.${issue.phase}`, {
+            filePath: issue.filePath,
+            line: issue.line,
+            column: issue.column,
+            severity: issue.severity,
+            message: issue.description
+        });
+    }
+    for (const finding of result.findings) {
+        add(finding.ruleId, `${finding.className}.${finding.method}`, {
+            filePath: finding.filePath,
+            line: finding.line,
+            column: null,
+            severity: finding.severity,
+            message: finding.message
+        });
+    }
+    return rules;
+}
+
+function toFailure(ruleId: string, issues: CaseIssue[]): TestCase['failure'] {
+    return {
+        message: t('export.junit.issues', { count: issues.length }),
+        type: ruleId,
+        text: issues
+            .map(i => `${i.filePath}:${i.line}${i.column !== null ? `:${i.column}` : ''} [${i.severity}] ${i.message}`)
+            .join('\n')
+    };
+}
+
+/**
+ * 规则测试套件：每个生命周期方法一个用例，不属于生命周期方法的问题单独成为用例
+ */
+function buildRuleSuite(
+    ruleId: string,
+    lifecycleMethods: LifecycleMethodRecord[],
+    issuesByMethod: Map<string, CaseIssue[]>
+): TestSuite {
+    const cases: TestCase[] = [];
+    const covered = new Set<string>();
+
+    for (const lm of lifecycleMethods) {
+        const key = `${lm.className}.${lm.phase}`;
+        if (covered.has(key)) {
+            continue;
+        }
+        covered.add(key);
+        const issues = issuesByMethod.get(key);
+        cases.push({
+            name: lm.phase,
+            classname: lm.className,
+            file: lm.filePath,
+            line: lm.lineNumber,
+            failure: issues ? toFailure(ruleId, issues) : undefined
+        });
+    }
+    for (const [key, issues] of issuesByMethod) {
+        if (covered.has(key)) {
+            continue;
+        }
+        const separator = key.lastIndexOf('.');
+        cases.push({
+            name: key.substring(separator + 1),
+            classname: key.substring(0, separator),
+            file: issues[0].filePath,
+            line: issues[0].line,
+            failure: toFailure(ruleId, issues)
+        });
+    }
+
+    return { name: ruleId, cases };
+}
+
+/**
+ * 生命周期覆盖套件：已使用的生命周期通过，未使用的记为跳过
+ */
+function buildCoverageSuite(name: string, stats: CoverageStats[]): TestSuite {
+    return {
+        name,
+        cases: stats.map(s => ({
+            name: s.methodName,
+            classname: name,
+            skipped: s.isUsed ? undefined : t('export.junit.unused')
+        }))
+    };
+}
+
+function buildGateSuite(gates: GateResult[]): TestSuite {
+    return {
+        name: 'quality-gates',
+        cases: gates.map(gate => ({
+            name: gate.name,
+            classname: 'quality-gates',
+            failure: gate.passed
+                ? undefined
+                : { message: gate.message, type: `exit-code-${gate.exitCode}`, text: t('export.junit.gate', { actual: gate.actual, threshold: gate.threshold }) }
+        }))
+    };
+}
+
+function renderCase(testCase: TestCase): string {
+    const attributes = [
+        `name="${escapeXml(testCase.name)}"`,
+        `classname="${escapeXml(testCase.classname)}"`,
+        testCase.file ? `file="${escapeXml(testCase.file)}"` : '',
+        testCase.line !== undefined ? `line="${testCase.line}"` : '',
+        'time="0"'
+    ].filter(a => a.length > 0).join(' ');
+
+    if (testCase.failure) {
+        const { message, type, text } = testCase.failure;
+        return `    <testcase ${attributes}>\n`
+            + `      <failure message="${escapeXml(message)}" type="${escapeXml(type)}">${escapeXml(text)}</failure>\n`
+            + '    </testcase>\n';
+    }
+    if (testCase.skipped) {
+        return `    <testcase ${attributes}>\n      <skipped message="${escapeXml(testCase.skipped)}"/>\n    </testcase>\n`;
+    }
+    return `    <testcase ${attributes}/>\n`;
+}
+
+/**
+ * 生成 JUnit XML
+ */
+export function renderJUnitXml(result: AnalysisResult, gates: GateResult[]): string {
+    const grouped = groupIssues(result);
+    const ruleIds = new Set<string>([
+        ...Object.keys(RULE_PASSES).filter(ruleId => result.steps.includes(RULE_PASSES[ruleId])),
+        ...grouped.keys()
+    ]);
+
+    const suites: TestSuite[] = Array.from(ruleIds)
+        .sort()
+        .map(ruleId => buildRuleSuite(ruleId, result.lifecycleMethods, grouped.get(ruleId) ?? new Map()));
+    if (result.lifecycleMethods.length > 0) {
+        suites.push(buildCoverageSuite('coverage.ability', result.coverage.ability));
+        suites.push(buildCoverageSuite('coverage.component', result.coverage.component));
+        suites.push(buildCoverageSuite('coverage.callback', result.coverage.callback));
+    }
+    if (gates.length > 0) {
+        suites.push(buildGateSuite(gates));
+    }
+
+    const count = (suite: TestSuite, predicate: (c: TestCase) => boolean): number => suite.cases.filter(predicate).length;
+    const total = suites.reduce((sum, suite) => sum + suite.cases.length, 0);
+    const failures = suites.reduce((sum, suite) => sum + count(suite, c => !!c.failure), 0);
+
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += `<testsuites name="OpenEye" tests="${total}" failures="${failures}" errors="0" time="0">\n`;
+    for (const suite of suites) {
+        xml += `  <testsuite name="${escapeXml(suite.name)}" tests="${suite.cases.length}" `
+            + `failures="${count(suite, c => !!c.failure)}" errors="0" skipped="${count(suite, c => !!c.skipped)}" `
+            + `time="0" timestamp="${escapeXml(result.generatedAt)}">\n`;
+        for (const testCase of suite.cases) {
+            xml += renderCase(testCase);
+        }
+        xml += '  </testsuite>\n';
+    }
+    xml += '</testsuites>\n';
+    return xml;
+}
+
+/**
+ * 导出 JUnit XML 文件
+ */
+export function exportJUnitXml(result: AnalysisResult, gates: GateResult[], outputPath: string, log: Logger = console.log): void {
+    log(`\n🧪 ${t('export.junit.start')}...`);
+
+    try {
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, renderJUnitXml(result, gates), 'utf-8');
+
+        log(`   ✓ ${t('export.junit.done', { path: outputPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
@@ -0,0 +1,289 @@
+// markdownReport.ts - 完整的 Markdown 生命周期报告
+// 由 AnalysisResult 生成，替代根据控制台输出手写的分析结果文档
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { DotExportOptions, parseDotOptions, prepareCallGraph } from './callGraphDot';
+import { MERMAID_MAX_EDGES, renderCallGraphMermaid } from './callGraphDiagrams';
+import { collectRecommendations } from './consoleReport';
+import { formatDate, t } from './i18n';
+import { renderSnippetText } from './sourceSnippets';
+import { AnalysisResult, CallGraphData, CoverageStats, LifecycleMethodRecord, LifecycleType, Severity } from './types';
+
+/**
+ * Markdown 报告选项；嵌入的调用图按 DOT 选项裁剪
+ */
+export interface MarkdownReportOptions extends DotExportOptions {
+    /** 是否嵌入调用图，默认 true */
+    callGraph?: boolean;
+}
+
+/**
+ * 嵌入调用图的默认深度：完整调用图在 Markdown 中通常无法阅读
+ */
+const DEFAULT_CALL_GRAPH_DEPTH = 2;
+
+const SEVERITY_ORDER: Record<Severity, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * 从 export Pass 的原始选项中读取报告选项，忽略类型不符的字段
+ */
+export function parseMarkdownReportOptions(raw: Record<string, unknown>): MarkdownReportOptions {
+    const options: MarkdownReportOptions = parseDotOptions(raw);
+    if (typeof raw.callGraph === 'boolean') {
+        options.callGraph = raw.callGraph;
+    }
+    return options;
+}
+
+/**
+ * Markdown 表格单元格转义
+ */
+function cell(value: string | number): string {
+    return String(value).replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+}
+
+function row(values: Array<string | number>): string {
+    return `| ${values.map(cell).join(' | ')} |\n`;
+}
+
+function table(header: string[], rows: Array<Array<string | number>>): string {
+    let md = row(header);
+    md += `|${header.map(() => '------').join('|')}|\n`;
+    for (const values of rows) {
+        md += row(values);
+    }
+    return md + '\n';
+}
+
+function renderStats(result: AnalysisResult): string {
+    const { stats } = result;
+    let md = `## 📊 ${t('report.stats.title')}\n\n`;
+    md += table([t('markdown.stats.item'), t('markdown.stats.value')], [
+        [t('report.stats.files'), stats.totalFiles],
+        [t('report.stats.classes'), stats.totalClasses],
+        [t('report.stats.methods'), stats.totalMethods],
+        [t('report.stats.abilityClasses'), stats.abilityClasses],
+        [t('report.stats.componentClasses'), stats.componentClasses],
+        [t('report.stats.lifecycleMethods'), stats.lifecycleMethods],
+        [t('report.stats.callGraphNodes'), stats.callGraphNodes],
+        [t('report.stats.callGraphEdges'), stats.callGraphEdges],
+        [t('report.stats.dataFlowPaths'), stats.dataFlowPaths],
+        [t('report.stats.issues'), result.undefinedIssues.length + result.findings.length]
+    ]);
+    return md;
+}
+
+function renderCoverageTable(title: string, stats: CoverageStats[]): string {
+    const used = stats.filter(s => s.isUsed).length;
+    const percent = stats.length > 0 ? (used / stats.length * 100).toFixed(1) : '0.0';
+    let md = `### ${title}\n\n`;
+    md += `${t('markdown.coverage.summary', { used, total: stats.length, percent })}\n\n`;
+    const sorted = [...stats].sort((a, b) => b.usageCount - a.usageCount || a.methodName.localeCompare(b.methodName));
+    md += table(
+        [t('markdown.coverage.method'), t('markdown.coverage.used'), t('markdown.coverage.usageCount'), t('markdown.coverage.classes')],
+        sorted.map(s => [s.methodName, s.isUsed ? '✓' : '—', s.usageCount, Array.from(new Set(s.classes)).join(', ') || '-'])
+    );
+    return md;
+}
+
+function renderCoverage(result: AnalysisResult): string {
+    let md = `## 📈 ${t('report.coverage.title')}\n\n`;
+    md += renderCoverageTable(`📱 ${t('report.coverage.ability')}`, result.coverage.ability);
+    md += renderCoverageTable(`🎨 ${t('report.coverage.component')}`, result.coverage.component);
+    return md;
+}
+
+function renderClassUsage(result: AnalysisResult): string {
+    let md = `## 📋 ${t('markdown.usage.title')}\n\n`;
+    md += `> ${t('markdown.usage.legend')}\n\n`;
+
+    const sections: Array<[string, LifecycleType]> = [
+        [`📱 ${t('markdown.usage.ability')}`, LifecycleType.ABILITY],
+        [`🎨 ${t('markdown.usage.component')}`, LifecycleType.COMPONENT]
+    ];
+    for (const [title, type] of sections) {
+        const methods = result.lifecycleMethods.filter(m => m.type === type);
+        if (methods.length === 0) {
+            continue;
+        }
+
+        const methodsByClass = new Map<string, LifecycleMethodRecord[]>();
+        for (const method of methods) {
+            if (!methodsByClass.has(method.className)) {
+                methodsByClass.set(method.className, []);
+            }
+            methodsByClass.get(method.className)!.push(method);
+        }
+
+        md += `### ${title}\n\n`;
+        md += table(
+            [t('markdown.usage.class'), t('markdown.usage.file'), t('markdown.usage.lifecycles')],
+            Array.from(methodsByClass.entries())
+                .sort((a, b) => a[0].localeCompare(b[0]))
+                .map(([className, classMethods]) => [
+                    className,
+                    `\`${classMethods[0].filePath}\``,
+                    classMethods
+                        .sort((a, b) => a.lineNumber - b.lineNumber)
+                        .map(m => `${m.hasImplementation ? '✓' : '○'} ${m.phase}`)
+                        .join(', ')
+                ])
+        );
+    }
+    return md;
+}
+
+function renderUnused(result: AnalysisResult): string {
+    const unusedAbility = result.coverage.ability.filter(s => !s.isUsed).map(s => s.methodName);
+    const unusedComponent = result.coverage.component.filter(s => !s.isUsed).map(s => s.methodName);
+
+    let md = `## ⚪ ${t('report.unused.title')}\n\n`;
+    if (unusedAbility.length === 0 && unusedComponent.length === 0) {
+        return md + `${t('diff.none')}\n\n`;
+    }
+    if (unusedAbility.length > 0) {
+        md += `- **📱 ${t('report.unused.ability', { count: unusedAbility.length })}**: ${unusedAbility.join(', ')}\n`;
+    }
+    if (unusedComponent.length > 0) {
+        md += `- **🎨 ${t('report.unused.component', { count: unusedComponent.length })}**: ${unusedComponent.join(', ')}\n`;
+    }
+    return md + '\n';
+}
+
+/**
+ * 问题位置，列号未知时省略
+ */
+function location(issue: { filePath: string; line: number; column: number }): string {
+    return issue.column > 0 ? `${issue.filePath}:${issue.line}:${issue.column}` : `${issue.filePath}:${issue.line}`;
+}
+
+function renderIssues(result: AnalysisResult): string {
+    const issues = [
+        ...result.undefinedIssues.map(issue => ({
+            severity: issue.severity, ruleId: issue.ruleId, method: issue.method,
+            filePath: issue.filePath, line: issue.line, column: issue.column, message: issue.description,
+            snippet: issue.snippet
+        })),
+        ...result.findings.map(finding => ({
+            severity: finding.severity, ruleId: finding.ruleId, method: `${finding.className}.${finding.method}`,
+            filePath: finding.filePath, line: finding.line, column: finding.column ?? 0, message: finding.message,
+            snippet: finding.snippet
+        }))
+    ].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+        || a.filePath.localeCompare(b.filePath) || a.line - b.line);
+
+    let md = `## ⚠️ ${t('markdown.issues.title', { count: issues.length })}\n\n`;
+    if (issues.length === 0) {
+        return md + `${t('diff.none')}\n\n`;
+    }
+    md += table(
+        [t('diff.column.severity'), t('diff.column.rule'), t('diff.column.method'), t('diff.column.location'), t('diff.column.message')],
+        issues.map(issue => [issue.severity, issue.ruleId, issue.method, `\`${location(issue)}\``, issue.message])
+    );
+
+    const withSnippets = issues.filter(issue => issue.snippet);
+    if (withSnippets.length > 0) {
+        md += `### ${t('markdown.issues.source')}
+
+`;
+        for (const issue of withSnippets) {
+            md += `**${issue.ruleId}** \`${location(issue)}\` — ${issue.message}
+
+`;
+            md += '```text\n' + renderSnippetText(issue.snippet!).join('\n') + '\n```\n\n';
+        }
+    }
+    return md;
+}
+
+function renderRecommendations(result: AnalysisResult): string {
+    const recommendations = collectRecommendations(result);
+    let md = `## 💡 ${t('report.recommendations.title')}\n\n`;
+    if (recommendations.length === 0) {
+        return md + `${t('diff.none')}\n\n`;
+    }
+    md += table(
+        [t('markdown.coverage.method'), t('diff.column.type'), t('markdown.recommendations.reason')],
+        recommendations.map(item => [item.name, item.type, item.reason])
+    );
+    return md;
+}
+
+function renderCallGraph(callGraph: CallGraphData | null, options: MarkdownReportOptions, log: Logger): string {
+    let md = `## 🗺️ ${t('markdown.callgraph.title')}\n\n`;
+    if (!callGraph) {
+        return md + `${t('html.graph.missing')}\n\n`;
+    }
+
+    const graph = prepareCallGraph(callGraph, { collapseUnknown: true, ...options, depth: options.depth ?? DEFAULT_CALL_GRAPH_DEPTH }, log);
+    md += `> ${t('markdown.callgraph.intro', {
+        depth: options.depth ?? DEFAULT_CALL_GRAPH_DEPTH,
+        nodes: graph.nodes.length,
+        edges: graph.edges.length
+    })}\n\n`;
+    if (graph.edges.length > MERMAID_MAX_EDGES) {
+        log(`   ⚠️  ${t('export.mermaid.tooLarge', { max: MERMAID_MAX_EDGES })}`);
+    }
+    md += '```mermaid\n';
+    md += renderCallGraphMermaid(graph, options);
+    md += '```\n\n';
+    return md;
+}
+
+/**
+ * 渲染 Markdown 报告；`callGraph` 为完整调用图，嵌入前按选项裁剪
+ */
+export function renderMarkdownReport(
+    result: AnalysisResult,
+    callGraph: CallGraphData | null,
+    options: MarkdownReportOptions = {},
+    log: Logger = console.log
+): string {
+    let md = `# ${t('markdown.title')}\n\n`;
+    md += `- **${t('html.project')}**: \`${result.projectDirectory}\`\n`;
+    md += `- **${t('export.generatedAt')}**: ${formatDate(result.generatedAt)}\n`;
+    md += `- **Pass**: ${result.steps.join(', ')}\n\n`;
+
+    md += renderStats(result);
+    md += renderCoverage(result);
+    md += renderClassUsage(result);
+    md += renderUnused(result);
+    md += renderIssues(result);
+    md += renderRecommendations(result);
+    if (options.callGraph !== false) {
+        md += renderCallGraph(callGraph, options, log);
+    }
+
+    md += '---\n\n';
+    md += `*${t('markdown.footer')}*\n`;
+    return md;
+}
+
+/**
+ * 导出 Markdown 报告
+ */
+export function exportMarkdownReport(
+    result: AnalysisResult,
+    callGraph: CallGraphData | null,
+    outputPath: string,
+    options: MarkdownReportOptions = {},
+    log: Logger = console.log
+): void {
+    log(`\n📝 ${t('export.markdownReport.start')}...`);
+
+    try {
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, renderMarkdownReport(result, callGraph, options, log), 'utf-8');
+
+        log(`   ✓ ${t('export.markdown.done', { path: outputPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
@@ -0,0 +1,507 @@
+// messages.en.ts - 英文消息目录（--lang en）
+// 与 messages.zh.ts 的键一一对应，缺少键时类型检查报错
+import type { zh } from './messages.zh';
+
+export const en: Record<keyof typeof zh, string> = {
+    // 命令行
+    'cli.command.lifecycle': 'Identify lifecycle methods and print the coverage report',
+    'cli.command.undefined': 'Analyze undefined variables in lifecycle methods and export SARIF',
+    'cli.command.dataflow': 'Analyze inter-procedural data flow and export JSON / Markdown',
+    'cli.command.callgraph': 'Build the call graph and export a DOT file',
+    'cli.command.report': 'Run every pass enabled in the configuration file (default)',
+    'cli.command.diff': 'Compare two analysis results (<baseline> <current>) and write a Markdown / JSON diff report',
+    'cli.command.migrate': 'Upgrade older JSON export files in place to the current schemaVersion',
+    'cli.usage': 'Usage',
+    'cli.usage.baseline': 'baseline result',
+    'cli.usage.current': 'current result',
+    'cli.usage.file': 'export file',
+    'cli.commands': 'Commands',
+    'cli.options': 'Options',
+    'cli.option.config': 'Configuration file (default: {default})',
+    'cli.option.output': 'Output directory (default: {default})',
+    'cli.option.steps': 'Comma-separated passes, overriding the command\'s default steps',
+    'cli.option.steps.builtin': 'Built-in',
+    'cli.option.strict': 'Exit with code 1 on internal errors (solver crashes, etc.)',
+    'cli.option.baseline': 'Baseline file; only report issues missing from it',
+    'cli.option.updateBaseline': 'Rewrite the baseline file with this result',
+    'cli.option.diff': 'Incremental mode: only report lines changed in a git range (e.g. main..HEAD)',
+    'cli.option.cacheDir': 'Analysis cache directory (default: {default})',
+    'cli.option.noCache': 'Do not read or write the cache; analyze from scratch',
+    'cli.option.watch': 'Watch the project and print a diff after each save',
+    'cli.option.profile': 'Record time and memory per step and method in the report and a trace file',
+    'cli.option.jobs': 'Worker threads for per-method analysis (default: 1, serial; 0 uses all CPU cores)',
+    'cli.option.lang': 'Output language (default: {default})',
+    'cli.option.help': 'Show this help',
+    'cli.exitCodes': 'Exit codes',
+    'cli.exit.ok': 'success',
+    'cli.exit.failed': 'analysis failed',
+    'cli.exit.usage': 'invalid arguments',
+    'cli.exit.gateIssues': 'too many issues',
+    'cli.exit.gateListener': 'listeners not removed',
+    'cli.exit.gateCoverage': 'coverage below the gate',
+    'cli.error.emptySteps': '--steps must not be empty',
+    'cli.error.jobs': '--jobs needs a non-negative integer: {value}',
+    'cli.error.missingValue': 'Option {option} needs a value',
+    'cli.error.unknownOption': 'Unknown option: {option}',
+    'cli.error.extraArgument': 'Unexpected argument: {value}',
+    'cli.error.unknownCommand': 'Unknown command: {command}',
+    'cli.error.diffFiles': 'diff needs two result files: the baseline and the current one',
+    'cli.error.migrateFiles': 'migrate needs at least one export file',
+    'cli.error.lang': 'Unsupported language: {value} (available: {locales})',
+
+    // 分析流程
+    'run.step': 'Step {index}: {name}',
+    'run.loadConfig': 'Load configuration',
+    'run.configFile': 'Configuration file',
+    'run.projectDirectory': 'Project directory',
+    'run.passes': 'Passes',
+    'run.error.baselineRequired': 'Updating the baseline requires a baseline file (--baseline or baseline in the configuration file)',
+    'run.error.incrementalBaseline': 'Incremental results only cover changed code and cannot be used to update the baseline',
+    'run.buildScene': 'Build Scene',
+    'run.sceneBuilt': 'Scene built',
+    'run.inferTypes': 'Type inference',
+    'run.typesInferred': 'Types inferred',
+    'run.filesFound': 'Found {count} file(s)',
+    'run.initAnalyzer': 'Initialize the V3 analyzer',
+    'run.analyzerReady': 'Analyzer initialized',
+    'run.incremental': 'Incremental mode: {range} ({count} changed file(s))',
+    'run.baseline': 'Baseline: {path} ({count} known issue(s))',
+    'run.abilityLifecycles': '{count} Ability lifecycles supported',
+    'run.componentLifecycles': '{count} Component lifecycles supported',
+    'run.multiModule': 'Multi-module project',
+    'run.baselineUpdated': 'Baseline updated: {path} ({count} known issue(s))',
+    'run.cacheSaved': 'Analysis result cached ({count} passes)',
+    'run.cacheHit': 'Sources and configuration unchanged; reusing the cached result (Scene build skipped)',
+    'run.error.sceneUnavailable': 'The Scene is not built on a cache hit, so {name} is unavailable (set requiresScene to true on the pass)',
+    'run.internalErrors': '{count} internal error(s) occurred during analysis; results may be incomplete',
+    'run.error.strict': 'Strict mode: {count} internal error(s) occurred during analysis',
+    'run.title': 'Version 3.0 - HarmoneyOpenEye lifecycle analysis',
+    'run.gatesFailed': 'Quality gates failed (exit code {code})',
+    'run.done': 'Version 3.0 analysis complete!',
+    'run.failed': 'Analysis failed',
+
+    // 分析器
+    'analyze.lifecycle.start': 'Identifying lifecycle methods',
+    'analyze.lifecycle.defined': 'Defined by the framework: {ability} Ability + {component} Component = {total} lifecycles',
+    'analyze.lifecycle.scanned': 'Scan complete',
+    'analyze.lifecycle.classes': 'Classes: {count}',
+    'analyze.lifecycle.found': 'Lifecycle methods found: {count} instances',
+    'analyze.lifecycle.excluded': 'Excluded files: {files}, excluded classes: {classes}',
+    'analyze.callgraph.start': 'Building the call graph (with DummyMainCreater)',
+    'analyze.callgraph.dummyMain': 'DummyMainCreater created the virtual entry @dummyMain',
+    'analyze.callgraph.dummyMainSignature': 'DummyMain signature: {signature}',
+    'analyze.callgraph.built': 'Call graph built',
+    'analyze.callgraph.nodes': 'Nodes: {count}',
+    'analyze.callgraph.edges': 'Edges: {count}',
+    'analyze.callgraph.noDummyMain': '@dummyMain method not found',
+    'analyze.callgraph.fallback': 'Falling back to all lifecycle methods as entry points',
+    'analyze.callgraph.fallbackBuilt': 'Fallback call graph built',
+    'analyze.callgraph.failed': 'Failed to build the call graph: {error}',
+    'analyze.undefined.start': 'Analyzing undefined variables (lifecycle methods)',
+    'analyze.undefined.analyzed': 'Analyzed {analyzed} lifecycle methods (skipped {skipped}, failed {failed})',
+    'analyze.undefined.found': 'Found {count} potential issue(s)',
+    'analyze.undefined.failed': '{count} method(s) failed; results may be incomplete (see diagnostics)',
+    'analyze.dataflow.start': 'Analyzing inter-procedural data flow',
+    'analyze.dataflow.noCallGraph': 'No call graph; skipping data-flow analysis',
+    'analyze.dataflow.found': 'Found {count} data-flow path(s)',
+    'analyze.dataflow.failed': 'Data-flow analysis failed for {count} method(s); results may be incomplete (see diagnostics)',
+    'analyze.listeners.start': 'Checking component listener cleanup',
+    'analyze.listeners.checked': 'Checked {count} component(s)',
+    'analyze.listeners.missing': '{count} component(s) register listeners without implementing aboutToDisappear',
+    'analyze.modules.start': 'Analyzing cross-module calls',
+    'analyze.modules.count': 'Modules: {count} ({modules})',
+    'analyze.modules.crossCalls': 'Cross-module calls: {count}',
+    'analyze.parallel.start': '{workers} worker thread(s) analyzing {methods} method(s), each building its own Scene',
+    'analyze.parallel.startFailed': 'Could not start worker threads; analyzing serially: {error}',
+    'analyze.parallel.workerFailed': 'Worker thread {index} failed; analyzing its {count} method(s) serially',
+    'analyze.parallel.noResult': 'The worker thread returned no result',
+
+    // Pass
+    'pass.error.duplicate': 'Pass already registered: {name}',
+    'pass.error.unknown': 'Unknown pass: {name} (available: {available})',
+    'pass.error.noProducer': 'Pass {name} requires {artifact}, which no pass produces',
+    'pass.autoEnabled': '{name} requires {artifact}; enabling {producer}',
+    'pass.skipped': 'Skipping {name}: missing {missing}',
+    'pass.failed': 'Pass {name} failed: {error}',
+    'pass.error.cycle': 'Circular pass dependencies: {names}',
+    'pass.lifecycle.description': 'Identify lifecycle methods',
+    'pass.callgraph.description': 'Build the call graph',
+    'pass.undefined.description': 'Analyze undefined variables',
+    'pass.dataflow.description': 'Analyze data flow',
+    'pass.modules.description': 'Analyze modules',
+    'pass.listeners.description': 'Check component listener cleanup',
+    'pass.report.description': 'Print the detailed report',
+    'pass.export.description': 'Export result files',
+
+    // 规则
+    'rule.undefined-access.message': 'Possible undefined variable access: {statement}',
+    'rule.listener-without-cleanup.message': 'The component registers a listener by calling {api}() in {method} but does not implement aboutToDisappear to remove it',
+    'rule.undefined-access.short': 'Possible undefined variable access',
+    'rule.undefined-access.full': 'A statement in a lifecycle method uses an undefined / null value or accesses a field that may be empty. Severity: high for undefined, medium for null, low for optional field access.',
+    'rule.listener-without-cleanup.short': 'Component registers listeners without implementing aboutToDisappear',
+    'rule.listener-without-cleanup.full': 'The @Component calls on / subscribe or similar methods to register listeners but does not implement aboutToDisappear, so the listeners are never removed after the component is destroyed. This can leak memory or invoke callbacks on a destroyed component.',
+
+    // 控制台报告
+    'report.title': 'Version 3.0 - Lifecycle Analysis Report',
+    'report.stats.title': 'Basic statistics',
+    'report.stats.files': 'Files',
+    'report.stats.classes': 'Classes',
+    'report.stats.methods': 'Methods',
+    'report.stats.abilityClasses': 'Ability classes',
+    'report.stats.componentClasses': 'Component classes',
+    'report.stats.lifecycleMethods': 'Lifecycle method instances',
+    'report.stats.callGraphNodes': 'Call graph nodes',
+    'report.stats.callGraphEdges': 'Call graph edges',
+    'report.stats.dataFlowPaths': 'Data-flow paths',
+    'report.stats.issues': 'Potential issues',
+    'report.baseline.title': 'Baseline',
+    'report.baseline.new': 'New issues',
+    'report.baseline.known': 'Known issues (hidden)',
+    'report.baseline.fixed': '{count} baseline issue(s) no longer occur; run with --update-baseline to refresh the baseline',
+    'report.incremental.title': 'Incremental mode',
+    'report.incremental.changedFiles': 'Changed files',
+    'report.incremental.changedMethods': 'Changed methods',
+    'report.incremental.relatedMethods': 'Related methods in the call graph',
+    'report.incremental.hint': 'Lifecycle methods, issues and data flows below only cover changed lines; coverage is still computed for the whole project',
+    'report.incremental.related': 'Issues in callers / callees ({count})',
+    'report.exclusions.title': 'Excluded',
+    'report.exclusions.files': 'Files ({count})',
+    'report.exclusions.classes': 'Classes ({count})',
+    'report.modules.title': 'Modules',
+    'report.modules.module': 'Module',
+    'report.modules.type': 'Type',
+    'report.modules.columns': 'Files Classes Ability Component Issues Internal Cross Unresolved',
+    'report.modules.dependencies': 'Module dependencies',
+    'report.modules.crossCalls': 'Cross-module calls (top 10)',
+    'report.times': '{count}x',
+    'report.modules.moreCrossCalls': '{count} more cross-module call(s)',
+    'report.coverage.title': 'Lifecycle coverage',
+    'report.coverage.ability': 'Ability lifecycles',
+    'report.coverage.defined': 'Defined by the framework: {count}',
+    'report.coverage.used': 'Used: {count} ({percent}%)',
+    'report.coverage.instances': 'Instances: {count}',
+    'report.coverage.usedMethods': 'Used methods',
+    'report.coverage.component': 'Component lifecycles',
+    'report.coverage.usedMethodsByFrequency': 'Used methods (by frequency)',
+    'report.coverage.components': '{count} component(s)',
+    'report.usage.title': 'Detailed usage',
+    'report.usage.ability': 'Ability lifecycle usage',
+    'report.usage.component': 'Component lifecycle usage (by method)',
+    'report.usage.uses': '{count} use(s)',
+    'report.usage.moreComponents': '{count} more component(s)',
+    'report.unused.title': 'Unused lifecycle methods',
+    'report.unused.ability': 'Ability ({count})',
+    'report.unused.component': 'Component ({count})',
+    'report.issues.title': 'Undefined-variable issues (top 10)',
+    'report.line': 'Line',
+    'report.location': 'Location',
+    'report.issues.description': 'Description',
+    'report.issues.more': '{count} more issue(s) not shown',
+    'report.findings.title': 'Custom rule findings',
+    'report.suppressed.title': 'Suppressed issues ({count})',
+    'report.suppressed.noReason': 'no reason given',
+    'report.suppressed.reason': 'Reason',
+    'report.suppressed.commentLine': 'comment on line {line}',
+    'report.diagnostics.title': 'Diagnostics',
+    'report.diagnostics.methods': 'analyzed {analyzed}, skipped {skipped}, failed {failed}',
+    'report.diagnostics.noErrors': 'No internal errors',
+    'report.diagnostics.errors': 'Internal errors ({count})',
+    'report.diagnostics.errorsTop': 'Internal errors ({count}, first 10)',
+    'report.diagnostics.passExecution': 'Pass execution',
+    'report.profile.title': 'Profile',
+    'report.profile.total': 'Total {total}, peak heap {heap} MB, peak RSS {rss} MB',
+    'report.profile.steps': 'Steps',
+    'report.profile.heap': 'heap',
+    'report.profile.slowest': 'Slowest {count} methods ({total} runs, {cached} cache hits)',
+    'report.dataflow.title': 'Data-flow summary',
+    'report.dataflow.total': 'Data-flow paths: {count}',
+    'report.dataflow.topMethods': 'Lifecycle methods with the most data flows (top 10)',
+    'report.dataflow.flows': '{count}',
+    'report.recommendations.title': 'Recommended lifecycle methods',
+    'report.dataflowDetail.title': 'Data-flow details (top {limit} methods)',
+    'report.dataflowDetail.empty': 'No data flows',
+    'report.dataflowDetail.flows': '{count} data flow(s)',
+    'report.dataflowDetail.callChain': 'Call chain',
+    'report.dataflowDetail.more': '{count} more data flow(s)',
+
+    // 改进建议
+    'recommendation.onBackPress': 'Handle the back key for a better user experience',
+    'recommendation.aboutToReuse': 'Reuse components for better performance',
+    'recommendation.aboutToRecycle': 'Recycle components for better performance',
+    'recommendation.onNewWant': 'Handle new Wants so the app can be relaunched',
+    'recommendation.onConfigurationUpdate': 'React to system configuration changes',
+    'recommendation.onDidBuild': 'Post-process after the component is built',
+    'recommendation.onWillApplyTheme': 'Support theme switching',
+
+    // 质量门禁
+    'gate.maximum': '{label}: {actual} (maximum {threshold})',
+    'gate.label.high': 'high issues',
+    'gate.label.medium': 'medium issues',
+    'gate.label.issues': 'Total issues',
+    'gate.label.listenerCleanup': 'Listener cleanup',
+    'gate.notComputed': '{label}: the {pass} pass did not run, so this gate cannot be checked',
+    'gate.listenerCleanup.passed': 'Every component that registers listeners implements aboutToDisappear',
+    'gate.listenerCleanup.failed': '{count} component(s) register listeners without implementing aboutToDisappear: {classes}',
+    'gate.coverage': '{label} lifecycle coverage {actual}% (minimum {threshold}%)',
+    'gate.title': 'Quality gates',
+    'gate.exitCode': 'exit code {code}',
+    'gate.allPassed': 'All gates passed',
+    'gate.failed': '{failed} / {total} gate(s) failed',
+
+    // 基线
+    'baseline.error.missing': 'Baseline file not found: {path} (generate one with --update-baseline)',
+    'baseline.error.invalid': 'Unrecognized baseline file: {path}',
+
+    // 分析缓存
+    'cache.methods': 'Method cache: {hits} hit(s), {misses} recomputed',
+    'cache.writeFailed': 'Failed to write the cache: {error}',
+
+    // 配置
+    'config.error.noPasses': 'The pass module exports no passes: {path}',
+
+    // 增量模式
+    'gitDiff.error.failed': 'Failed to read git diff {range}: {error}',
+
+    // 分析范围
+    'scope.includeUnmatched': 'matches none of: {patterns}',
+
+    // 工作线程
+    'worker.exited': 'The worker thread exited abnormally with code {code}',
+    'worker.noResults': 'The worker pool returned no results',
+    'worker.notInWorker': 'serveWorker can only be called inside a worker thread',
+
+    // 监听模式
+    'watch.more': '{count} more',
+    'watch.changed': '{files} changed, re-analyzing',
+    'watch.analyzed': 'Analysis complete: {count} issue(s)',
+    'watch.incremental': 'Re-analyzed {count} affected file(s)',
+    'watch.full': 'Ran a full analysis',
+    'watch.stopped': 'Stopped watching',
+    'watch.started': 'Watching {path}; saving a source file re-runs the analysis (Ctrl+C to exit)',
+
+    // 性能分析
+    'profile.span.workers': 'Worker analysis',
+    'profile.thread.steps': 'Steps',
+    'profile.thread.methods': 'Methods',
+    'profile.thread.worker': 'Worker {index}',
+
+    // 结果文件
+    'result.error.missing': 'Result file not found: {path}',
+    'result.error.invalid': 'Unrecognized result file: {path} (expected the {name} written by export)',
+
+    // 导出格式 Schema
+    'schema.error.invalid': '{kind} export does not match its schema: {errors}',
+    'schema.error.more': '({count} more error(s))',
+    'schema.error.type': 'expected {expected}, got {actual}',
+    'schema.error.const': 'expected {expected}, got {actual}',
+    'schema.error.enum': 'expected one of {expected}, got {actual}',
+    'schema.error.required': 'missing property {property}',
+    'schema.error.additional': 'property {property} is not allowed',
+    'schema.error.minimum': 'must be at least {minimum}, got {actual}',
+    'schema.error.anyOf': 'does not match any of the allowed shapes',
+    'schema.error.ref': 'Unresolvable schema reference: {ref}',
+    'schema.error.version': 'Unsupported schemaVersion {version} in {kind} file (supported up to {supported})',
+    'schema.error.unknownFile': 'Unrecognized export file: {path}',
+    'schema.migrate.current': '{path} ({kind}) is already at version {version}',
+    'schema.migrate.done': '{path} ({kind}) upgraded from version {from} to {to}',
+
+    // 结果对比
+    'diff.summary.new': '{count} new issue(s)',
+    'diff.summary.resolved': '{count} resolved',
+    'diff.summary.coverage': 'coverage {delta} lifecycle(s)',
+    'diff.summary.methods': 'lifecycle methods {delta}',
+    'diff.summary.separator': ', ',
+    'diff.column.severity': 'Severity',
+    'diff.column.rule': 'Rule',
+    'diff.column.method': 'Method',
+    'diff.column.location': 'Location',
+    'diff.column.message': 'Description',
+    'diff.title': 'OpenEye analysis comparison',
+    'diff.previous': 'Baseline',
+    'diff.current': 'Current',
+    'diff.summary': 'Summary',
+    'diff.issues': 'Issues',
+    'diff.newIssues': 'New issues',
+    'diff.resolvedIssues': 'Resolved issues',
+    'diff.none': 'None',
+    'diff.lifecycleMethods': 'Lifecycle methods',
+    'diff.column.class': 'Class',
+    'diff.column.file': 'File',
+    'diff.column.added': 'Added',
+    'diff.column.removed': 'Removed',
+    'diff.unchanged': 'No changes',
+    'diff.coverage': 'Lifecycle coverage',
+    'diff.column.type': 'Type',
+    'diff.column.change': 'Change',
+    'diff.column.gained': 'Newly used',
+    'diff.column.lost': 'No longer used',
+    'diff.dataFlows': 'Data flow',
+    'diff.column.lifecycleMethod': 'Lifecycle method',
+    'diff.column.addedCalls': 'Added calls',
+    'diff.column.removedCalls': 'Removed calls',
+
+    // Markdown 报告
+    'markdown.title': 'OpenEye lifecycle analysis report',
+    'markdown.stats.item': 'Item',
+    'markdown.stats.value': 'Value',
+    'markdown.coverage.summary': '{used} / {total} used ({percent}%)',
+    'markdown.coverage.method': 'Lifecycle method',
+    'markdown.coverage.used': 'Used',
+    'markdown.coverage.usageCount': 'Uses',
+    'markdown.coverage.classes': 'Classes',
+    'markdown.usage.title': 'Lifecycle usage by class',
+    'markdown.usage.legend': '✓ has a body ○ no body (declaration only or empty)',
+    'markdown.usage.ability': 'Ability classes',
+    'markdown.usage.component': 'Component classes',
+    'markdown.usage.class': 'Class',
+    'markdown.usage.file': 'File',
+    'markdown.usage.lifecycles': 'Lifecycle methods',
+    'markdown.issues.title': 'Issues ({count})',
+    'markdown.issues.source': 'Source',
+    'markdown.recommendations.reason': 'Reason',
+    'markdown.callgraph.title': 'Call graph',
+    'markdown.callgraph.intro': 'Call graph from the lifecycle methods up to call depth {depth} ({nodes} nodes, {edges} edges), with unresolved SDK calls collapsed. See the DOT / Mermaid exports for the full graph.',
+    'markdown.footer': 'Generated by openeye-analyze from the analysis result',
+
+    // 导出
+    'export.callgraph.notBuilt': 'The call graph was not built; nothing to export',
+    'export.csv.start': 'Exporting lifecycle coverage tables',
+    'export.csv.rows': '{count} rows',
+    'export.failed': 'Export failed: {error}',
+    'export.result.start': 'Exporting the analysis result',
+    'export.result.done': 'Analysis result exported to: {path}',
+    'export.junit.issues': '{count} issue(s)',
+    'export.junit.unused': 'Not used',
+    'export.junit.gate': 'Actual {actual}, threshold {threshold}',
+    'export.junit.start': 'Exporting JUnit XML',
+    'export.junit.done': 'JUnit XML exported to: {path}',
+    'export.trace.start': 'Exporting the profiling trace',
+    'export.trace.done': 'Trace exported to: {path}',
+    'export.trace.hint': 'Open it in chrome://tracing or https://ui.perfetto.dev',
+    'export.callgraph.rootNotFound': 'Root node not found: {root}',
+    'export.callgraph.unresolved': 'SDK / unresolved calls',
+    'export.callgraph.start': 'Exporting the call graph',
+    'export.callgraph.done': 'Call graph exported to: {path}',
+    'export.callgraph.size': 'Nodes: {nodes}, edges: {edges}',
+    'export.callgraph.graphviz': 'View it with Graphviz: dot -Tsvg {path} -o callgraph.svg',
+    'export.sarif.start': 'Exporting SARIF',
+    'export.sarif.done': 'SARIF exported to: {path}',
+    'export.sarif.issues': 'Issues: {count}',
+    'export.outputDir': 'Output directory',
+    'export.generatedFiles': 'Generated files',
+    'export.dataflow-json.description': 'Data-flow JSON details',
+    'export.dataflow-md.description': 'Data-flow Markdown report',
+    'export.dot.description': 'Call graph DOT file',
+    'export.mermaid.description': 'Call graph and lifecycle call subtrees (Mermaid)',
+    'export.plantuml.description': 'Call graph and lifecycle call subtrees (PlantUML)',
+    'export.sarif.description': 'Issues as SARIF 2.1.0',
+    'export.junit.description': 'Rules and gates as JUnit XML',
+    'export.csv.description': 'Lifecycle coverage tables (CSV, by lifecycle / class / file)',
+    'export.result.description': 'Full analysis result JSON (input to the diff command)',
+    'export.issues-json.description': 'Issues JSON (undefined variables, rule findings and suppressed issues)',
+    'export.coverage-json.description': 'Lifecycle methods and coverage JSON',
+    'export.callgraph-json.description': 'Call graph JSON',
+    'export.schemaJson.start': 'Exporting {kind} JSON',
+    'export.html.description': 'Interactive HTML report',
+    'export.markdownReport.start': 'Exporting the Markdown report',
+    'export.markdown.description': 'Complete Markdown lifecycle report',
+    'export.profile.description': 'Profiling trace (Chrome Trace format)',
+    'export.subtrees.depth': 'depth {depth}',
+    'export.subtrees.title': 'Lifecycle call subtrees',
+    'export.subtrees.intro': '{count} call graph(s), one per lifecycle method, with a maximum call depth of {depth}.',
+    'export.subtrees.type': 'Type',
+    'export.subtrees.plainMethod': 'Regular method',
+    'export.subtrees.file': 'File',
+    'export.subtrees.nodes': 'Nodes',
+    'export.subtrees.edges': 'Edges',
+    'export.mermaid.tooLarge': 'More edges than the Mermaid default limit of {max}; GitHub may not render it. Trim it with depth / roots',
+    'export.subtrees.done': 'Lifecycle call subtrees exported to: {path} ({count})',
+    'export.mermaid.hint': 'Paste it into a ```mermaid block in Markdown',
+    'export.plantuml.hint': 'View it with PlantUML: plantuml -tsvg {path}',
+    'export.dataflowJson.start': 'Exporting data-flow details',
+    'export.dataflow.empty': 'No data-flow data to export',
+    'export.dataflowJson.done': 'Data-flow details exported to: {path}',
+    'export.dataflowJson.flows': 'Data flows: {count}',
+    'export.dataflowJson.methods': 'Methods covered: {count}',
+    'export.dataflowMd.start': 'Exporting the data-flow Markdown report',
+    'export.dataflowMd.title': 'OpenEye data-flow analysis report',
+    'export.generatedAt': 'Generated at',
+    'export.dataflowMd.overview': 'Overview',
+    'export.dataflowMd.totalFlows': 'Total data flows',
+    'export.dataflowMd.flowCount': '{count}',
+    'export.dataflowMd.lifecycleMethods': 'Lifecycle methods',
+    'export.dataflowMd.methods': 'Methods involved',
+    'export.dataflowMd.top': 'Methods with the most data flows',
+    'export.dataflowMd.rank': 'Rank',
+    'export.dataflowMd.method': 'Method',
+    'export.dataflowMd.flows': 'Data flows',
+    'export.dataflowMd.details': 'Data-flow details',
+    'export.dataflowMd.dataFlows': 'Data flows',
+    'export.dataflowMd.target': 'Target method',
+    'export.dataflowMd.calls': 'Calls',
+    'export.dataflowMd.exampleLine': 'Example line',
+    'export.dataflowMd.stats': 'Data-flow statistics',
+    'export.dataflowMd.byType': 'By lifecycle type',
+    'export.dataflowMd.abilityLifecycle': 'Ability lifecycles',
+    'export.dataflowMd.componentLifecycle': 'Component lifecycles',
+    'export.dataflowMd.typeFlows': '{count} data flow(s)',
+    'export.dataflowMd.average': 'Average data flows',
+    'export.dataflowMd.averagePerMethod': 'Average per lifecycle method: {average} data flow(s)',
+    'export.dataflowMd.depth': 'Call depth',
+    'export.dataflowMd.maxDepth': 'Maximum depth',
+    'export.dataflowMd.avgDepth': 'Average depth',
+    'export.dataflowMd.levels': '{count} level(s)',
+    'export.dataflowMd.footer': 'Generated by Version 3.0',
+    'export.markdown.done': 'Markdown report exported to: {path}',
+    'export.json.done': 'JSON report exported to: {path}',
+    'export.html.start': 'Exporting the HTML report',
+    'export.html.done': 'HTML report exported to: {path}',
+
+    // SARIF
+    'sarif.customRule': 'Custom pass rule {id}',
+
+    // HTML 报告
+    'html.noData': 'No data',
+    'html.stats.files': 'Files',
+    'html.stats.classes': 'Classes',
+    'html.stats.methods': 'Methods',
+    'html.stats.abilityClasses': 'Ability classes',
+    'html.stats.componentClasses': 'Component classes',
+    'html.stats.lifecycleMethods': 'Lifecycle instances',
+    'html.stats.callGraphNodes': 'Call graph nodes',
+    'html.stats.callGraphEdges': 'Call graph edges',
+    'html.stats.dataFlows': 'Data flows',
+    'html.stats.issues': 'Issues',
+    'html.coverage.methodName': 'Lifecycle method',
+    'html.coverage.used': 'Used',
+    'html.coverage.usageCount': 'Uses',
+    'html.coverage.classCount': 'Classes',
+    'html.coverage.classes': 'Class names',
+    'html.coverage.summary': '{used} / {total} used ({percent}%)',
+    'html.issues.severity': 'Severity',
+    'html.issues.ruleId': 'Rule',
+    'html.issues.method': 'Method',
+    'html.issues.location': 'Location',
+    'html.issues.message': 'Description',
+    'html.flows.count': '{count}',
+    'html.flows.target': 'Target',
+    'html.flows.line': 'Line',
+    'html.flows.callChain': 'Call chain',
+    'html.flows.empty': 'No data flows',
+    'html.graph.missing': 'No call graph (run the callgraph pass)',
+    'html.graph.summary': '{nodes} nodes, {edges} edges',
+    'html.title': 'OpenEye lifecycle analysis report',
+    'html.project': 'Project',
+    'html.section.overview': 'Overview',
+    'html.section.coverage': 'Lifecycle coverage',
+    'html.section.issues': 'Issues',
+    'html.section.dataflow': 'Data flow',
+    'html.section.callgraph': 'Call graph',
+    'html.filter.allRules': 'All rules',
+    'html.filter.allModules': 'All modules',
+    'html.filter.issueSearch': 'Search methods, locations or statements',
+    'html.filter.flowSearch': 'Search methods, targets or call chains',
+    'html.graph.search': 'Highlight matching methods',
+    'html.graph.reset': 'Reset view',
+    'html.graph.hint': 'Scroll to zoom, drag to pan; red is Ability, green is Component'
+};
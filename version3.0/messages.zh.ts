@@ -0,0 +1,506 @@
+// messages.zh.ts - 中文消息目录（默认语言，也是其他语言缺少某个键时的回退）
+// 键按「模块.用途」命名，发布后保持稳定；消息中的 {name} 为占位符
+
+export const zh = {
+    // 命令行
+    'cli.command.lifecycle': '识别生命周期方法并输出覆盖率报告',
+    'cli.command.undefined': '分析生命周期方法中的未定义变量并导出 SARIF',
+    'cli.command.dataflow': '分析函数间数据流并导出 JSON / Markdown',
+    'cli.command.callgraph': '构建调用图并导出 DOT 文件',
+    'cli.command.report': '执行配置文件中启用的全部 Pass（默认）',
+    'cli.command.diff': '比较两次分析结果（<基准> <当前>），输出 Markdown / JSON 差异报告',
+    'cli.command.migrate': '把旧版本的 JSON 导出文件原地升级到当前 schemaVersion',
+    'cli.usage': '用法',
+    'cli.usage.baseline': '基准结果',
+    'cli.usage.current': '当前结果',
+    'cli.usage.file': '导出文件',
+    'cli.commands': '子命令',
+    'cli.options': '选项',
+    'cli.option.config': '配置文件路径 (默认: {default})',
+    'cli.option.output': '输出目录 (默认: {default})',
+    'cli.option.steps': '逗号分隔的 Pass 列表，覆盖子命令的默认步骤',
+    'cli.option.steps.builtin': '内置',
+    'cli.option.strict': '出现内部错误（求解器崩溃等）时以退出码 1 结束',
+    'cli.option.baseline': '基线文件，只报告基线中没有的新问题',
+    'cli.option.updateBaseline': '用本次结果重写基线文件',
+    'cli.option.diff': '增量模式：只报告 git range（如 main..HEAD）中变更的行',
+    'cli.option.cacheDir': '分析缓存目录 (默认: {default})',
+    'cli.option.noCache': '不读写分析缓存，完整重新分析',
+    'cli.option.watch': '监听项目目录，保存源文件后重新分析并输出差异',
+    'cli.option.profile': '记录各步骤和各方法的耗时与内存，输出到报告和 Trace 文件',
+    'cli.option.jobs': '逐方法分析的工作线程数 (默认: 1 串行；0 为 CPU 核数)',
+    'cli.option.lang': '输出语言 (默认: {default})',
+    'cli.option.help': '显示帮助信息',
+    'cli.exitCodes': '退出码',
+    'cli.exit.ok': '成功',
+    'cli.exit.failed': '分析失败',
+    'cli.exit.usage': '参数错误',
+    'cli.exit.gateIssues': '问题数超过门禁',
+    'cli.exit.gateListener': '组件未注销监听',
+    'cli.exit.gateCoverage': '覆盖率低于门禁',
+    'cli.error.emptySteps': '--steps 不能为空',
+    'cli.error.jobs': '--jobs 需要非负整数: {value}',
+    'cli.error.missingValue': '选项 {option} 缺少参数',
+    'cli.error.unknownOption': '未知选项: {option}',
+    'cli.error.extraArgument': '多余的参数: {value}',
+    'cli.error.unknownCommand': '未知子命令: {command}',
+    'cli.error.diffFiles': 'diff 需要两个结果文件: 基准和当前',
+    'cli.error.migrateFiles': 'migrate 需要至少一个导出文件',
+    'cli.error.lang': '不支持的语言: {value}（可选: {locales}）',
+
+    // 分析流程
+    'run.step': '步骤 {index}: {name}',
+    'run.loadConfig': '加载配置',
+    'run.configFile': '配置文件',
+    'run.projectDirectory': '项目目录',
+    'run.passes': '执行 Pass',
+    'run.error.baselineRequired': '更新基线需要指定基线文件（--baseline 或配置文件中的 baseline）',
+    'run.error.incrementalBaseline': '增量模式只包含变更部分的结果，不能用于更新基线',
+    'run.buildScene': '构建 Scene',
+    'run.sceneBuilt': 'Scene 构建完成',
+    'run.inferTypes': '类型推导',
+    'run.typesInferred': '类型推导完成',
+    'run.filesFound': '发现 {count} 个文件',
+    'run.initAnalyzer': '初始化 V3 分析器',
+    'run.analyzerReady': '分析器初始化完成',
+    'run.incremental': '增量模式: {range} ({count} 个变更文件)',
+    'run.baseline': '基线: {path} ({count} 种已知问题)',
+    'run.abilityLifecycles': '支持 {count} 种 Ability 生命周期',
+    'run.componentLifecycles': '支持 {count} 种 Component 生命周期',
+    'run.multiModule': '多模块工程',
+    'run.baselineUpdated': '基线已更新: {path} ({count} 种已知问题)',
+    'run.cacheSaved': '分析结果已缓存 ({count} 个 Pass)',
+    'run.cacheHit': '源文件与配置未变化，复用缓存的分析结果（跳过 Scene 构建）',
+    'run.error.sceneUnavailable': '缓存命中时未构建 Scene，无法访问 {name}（Pass 需将 requiresScene 设为 true）',
+    'run.internalErrors': '分析过程中出现 {count} 个内部错误，结果可能不完整',
+    'run.error.strict': '严格模式: 分析过程中出现 {count} 个内部错误',
+    'run.title': 'Version 3.0 - HarmoneyOpenEye 生命周期深度分析',
+    'run.gatesFailed': '质量门禁未通过（退出码 {code}）',
+    'run.done': 'Version 3.0 分析完成！',
+    'run.failed': '分析失败',
+
+    // 分析器
+    'analyze.lifecycle.start': '识别生命周期方法',
+    'analyze.lifecycle.defined': '框架定义: {ability} 种 Ability + {component} 种 Component = {total} 种生命周期',
+    'analyze.lifecycle.scanned': '扫描完成',
+    'analyze.lifecycle.classes': '总类数: {count}',
+    'analyze.lifecycle.found': '发现生命周期方法: {count} 个实例',
+    'analyze.lifecycle.excluded': '排除文件: {files} 个, 排除类: {classes} 个',
+    'analyze.callgraph.start': '构建调用图（使用 DummyMainCreater）',
+    'analyze.callgraph.dummyMain': 'DummyMainCreater 已创建虚拟入口: @dummyMain',
+    'analyze.callgraph.dummyMainSignature': 'DummyMain 方法签名: {signature}',
+    'analyze.callgraph.built': '调用图构建完成',
+    'analyze.callgraph.nodes': '节点数: {count}',
+    'analyze.callgraph.edges': '边数: {count}',
+    'analyze.callgraph.noDummyMain': '未找到 @dummyMain 方法',
+    'analyze.callgraph.fallback': '使用备用方案：所有生命周期方法作为入口',
+    'analyze.callgraph.fallbackBuilt': '备用调用图构建完成',
+    'analyze.callgraph.failed': '构建调用图失败: {error}',
+    'analyze.undefined.start': '分析未定义变量（生命周期方法）',
+    'analyze.undefined.analyzed': '已分析 {analyzed} 个生命周期方法（跳过 {skipped}，失败 {failed}）',
+    'analyze.undefined.found': '发现 {count} 个潜在问题',
+    'analyze.undefined.failed': '{count} 个方法分析失败，结果可能不完整（详见诊断信息）',
+    'analyze.dataflow.start': '分析函数间数据流',
+    'analyze.dataflow.noCallGraph': '未构建调用图，跳过数据流分析',
+    'analyze.dataflow.found': '共发现 {count} 条数据流路径',
+    'analyze.dataflow.failed': '{count} 个方法的数据流分析失败，结果可能不完整（详见诊断信息）',
+    'analyze.listeners.start': '检查组件监听注销',
+    'analyze.listeners.checked': '已检查 {count} 个组件',
+    'analyze.listeners.missing': '{count} 个组件注册了监听但未实现 aboutToDisappear',
+    'analyze.modules.start': '分析模块间调用',
+    'analyze.modules.count': '模块数: {count} ({modules})',
+    'analyze.modules.crossCalls': '跨模块调用: {count} 种',
+    'analyze.parallel.start': '{workers} 个工作线程分析 {methods} 个方法（每个线程独立构建 Scene）',
+    'analyze.parallel.startFailed': '无法启动工作线程，改为串行分析: {error}',
+    'analyze.parallel.workerFailed': '工作线程 {index} 失败，{count} 个方法改为串行分析',
+    'analyze.parallel.noResult': '工作线程未返回结果',
+
+    // Pass
+    'pass.error.duplicate': 'Pass 已注册: {name}',
+    'pass.error.unknown': '未知 Pass: {name} (可选: {available})',
+    'pass.error.noProducer': 'Pass {name} 依赖的产物 {artifact} 没有任何 Pass 生成',
+    'pass.autoEnabled': '{name} 依赖 {artifact}，自动启用 {producer}',
+    'pass.skipped': '跳过 {name}：缺少产物 {missing}',
+    'pass.failed': 'Pass {name} 执行失败: {error}',
+    'pass.error.cycle': 'Pass 存在循环依赖: {names}',
+    'pass.lifecycle.description': '识别生命周期方法',
+    'pass.callgraph.description': '构建调用图',
+    'pass.undefined.description': '分析未定义变量',
+    'pass.dataflow.description': '分析数据流',
+    'pass.modules.description': '分析模块',
+    'pass.listeners.description': '检查组件监听注销',
+    'pass.report.description': '生成详细报告',
+    'pass.export.description': '导出结果文件',
+
+    // 规则
+    'rule.undefined-access.message': '可能的未定义变量访问: {statement}',
+    'rule.listener-without-cleanup.message': '组件在 {method} 中调用 {api}() 注册监听，但没有实现 aboutToDisappear 注销',
+    'rule.undefined-access.short': '可能的未定义变量访问',
+    'rule.undefined-access.full': '生命周期方法中的语句使用了 undefined / null 值，或访问了可能为空的字段。严重程度: undefined 为 high，null 为 medium，可选字段访问为 low。',
+    'rule.listener-without-cleanup.short': '组件注册监听但未实现 aboutToDisappear',
+    'rule.listener-without-cleanup.full': '@Component 组件调用了 on / subscribe 等方法注册监听，但没有实现 aboutToDisappear，组件销毁后监听不会被注销，可能导致内存泄漏或回调访问已销毁的组件。',
+
+    // 控制台报告
+    'report.title': 'Version 3.0 - 生命周期深度分析报告',
+    'report.stats.title': '基础统计',
+    'report.stats.files': '文件数',
+    'report.stats.classes': '类数量',
+    'report.stats.methods': '方法总数',
+    'report.stats.abilityClasses': 'Ability 类',
+    'report.stats.componentClasses': 'Component 类',
+    'report.stats.lifecycleMethods': '生命周期方法实例',
+    'report.stats.callGraphNodes': '调用图节点',
+    'report.stats.callGraphEdges': '调用图边',
+    'report.stats.dataFlowPaths': '数据流路径',
+    'report.stats.issues': '潜在问题',
+    'report.baseline.title': '基线',
+    'report.baseline.new': '新问题',
+    'report.baseline.known': '已知问题（已隐藏）',
+    'report.baseline.fixed': '基线中有 {count} 个问题已不再出现，可用 --update-baseline 更新基线',
+    'report.incremental.title': '增量模式',
+    'report.incremental.changedFiles': '变更文件',
+    'report.incremental.changedMethods': '变更方法',
+    'report.incremental.relatedMethods': '调用图相关方法',
+    'report.incremental.hint': '下方的生命周期方法、问题和数据流只包含变更行，覆盖率统计仍基于整个项目',
+    'report.incremental.related': '调用者 / 被调用者中的问题 ({count} 个)',
+    'report.exclusions.title': '排除范围',
+    'report.exclusions.files': '文件 ({count} 个)',
+    'report.exclusions.classes': '类 ({count} 个)',
+    'report.modules.title': '模块统计',
+    'report.modules.module': '模块',
+    'report.modules.type': '类型',
+    'report.modules.columns': '文件  类  Ability  Component  问题  内部调用  跨模块  未解析',
+    'report.modules.dependencies': '模块依赖',
+    'report.modules.crossCalls': '跨模块调用 (前10)',
+    'report.times': '{count} 次',
+    'report.modules.moreCrossCalls': '还有 {count} 种跨模块调用',
+    'report.coverage.title': '生命周期覆盖情况',
+    'report.coverage.ability': 'Ability 生命周期',
+    'report.coverage.defined': '框架定义: {count} 种',
+    'report.coverage.used': '实际使用: {count} 种 ({percent}%)',
+    'report.coverage.instances': '使用实例: {count} 个',
+    'report.coverage.usedMethods': '已使用的方法',
+    'report.coverage.component': 'Component 生命周期',
+    'report.coverage.usedMethodsByFrequency': '已使用的方法 (按使用频率排序)',
+    'report.coverage.components': '{count} 个组件',
+    'report.usage.title': '详细使用情况',
+    'report.usage.ability': 'Ability 生命周期使用详情',
+    'report.usage.component': 'Component 生命周期使用详情 (按方法类型)',
+    'report.usage.uses': '{count} 个使用',
+    'report.usage.moreComponents': '还有 {count} 个组件',
+    'report.unused.title': '未使用的生命周期方法',
+    'report.unused.ability': 'Ability ({count} 种)',
+    'report.unused.component': 'Component ({count} 种)',
+    'report.issues.title': '未定义变量问题 (前10个)',
+    'report.line': '行号',
+    'report.location': '位置',
+    'report.issues.description': '说明',
+    'report.issues.more': '还有 {count} 个问题未显示',
+    'report.findings.title': '自定义规则检查结果',
+    'report.suppressed.title': '已抑制的问题 ({count} 个)',
+    'report.suppressed.noReason': '未填写理由',
+    'report.suppressed.reason': '理由',
+    'report.suppressed.commentLine': '注释位于第 {line} 行',
+    'report.diagnostics.title': '分析诊断',
+    'report.diagnostics.methods': '已分析 {analyzed}，跳过 {skipped}，失败 {failed}',
+    'report.diagnostics.noErrors': '无内部错误',
+    'report.diagnostics.errors': '内部错误 ({count} 个)',
+    'report.diagnostics.errorsTop': '内部错误 ({count} 个，前10个)',
+    'report.diagnostics.passExecution': 'Pass 执行',
+    'report.profile.title': '性能分析',
+    'report.profile.total': '总耗时 {total}，堆内存峰值 {heap} MB，RSS 峰值 {rss} MB',
+    'report.profile.steps': '步骤',
+    'report.profile.heap': '堆',
+    'report.profile.slowest': '最慢的 {count} 个方法（共 {total} 次，缓存命中 {cached}）',
+    'report.dataflow.title': '数据流分析摘要',
+    'report.dataflow.total': '总数据流路径: {count} 条',
+    'report.dataflow.topMethods': '数据流最多的生命周期方法 (前10)',
+    'report.dataflow.flows': '{count} 条',
+    'report.recommendations.title': '推荐关注的生命周期方法',
+    'report.dataflowDetail.title': '详细数据流 (前 {limit} 个方法)',
+    'report.dataflowDetail.empty': '没有数据流数据',
+    'report.dataflowDetail.flows': '{count} 条数据流',
+    'report.dataflowDetail.callChain': '调用链',
+    'report.dataflowDetail.more': '还有 {count} 条数据流',
+
+    // 改进建议
+    'recommendation.onBackPress': '处理返回键，提升用户体验',
+    'recommendation.aboutToReuse': '组件复用优化，提升性能',
+    'recommendation.aboutToRecycle': '组件回收优化，提升性能',
+    'recommendation.onNewWant': '处理新 Intent，支持应用唤起',
+    'recommendation.onConfigurationUpdate': '响应系统配置变化',
+    'recommendation.onDidBuild': '组件构建完成后处理',
+    'recommendation.onWillApplyTheme': '主题切换支持',
+
+    // 质量门禁
+    'gate.maximum': '{label} {actual} 个（上限 {threshold}）',
+    'gate.label.high': 'high 问题',
+    'gate.label.medium': 'medium 问题',
+    'gate.label.issues': '问题总数',
+    'gate.label.listenerCleanup': '监听注销',
+    'gate.notComputed': '{label}: 依赖的 {pass} Pass 未执行，无法检查',
+    'gate.listenerCleanup.passed': '注册监听的组件均实现了 aboutToDisappear',
+    'gate.listenerCleanup.failed': '{count} 个组件注册了监听但未实现 aboutToDisappear: {classes}',
+    'gate.coverage': '{label} 生命周期覆盖率 {actual}%（下限 {threshold}%）',
+    'gate.title': '质量门禁',
+    'gate.exitCode': '退出码 {code}',
+    'gate.allPassed': '全部门禁通过',
+    'gate.failed': '{failed} / {total} 个门禁未通过',
+
+    // 基线
+    'baseline.error.missing': '基线文件不存在: {path}（可用 --update-baseline 生成）',
+    'baseline.error.invalid': '无法识别的基线文件: {path}',
+
+    // 分析缓存
+    'cache.methods': '方法级缓存: 命中 {hits}，重新分析 {misses}',
+    'cache.writeFailed': '写入缓存失败: {error}',
+
+    // 配置
+    'config.error.noPasses': 'Pass 模块未导出任何 Pass: {path}',
+
+    // 增量模式
+    'gitDiff.error.failed': '读取 git diff {range} 失败: {error}',
+
+    // 分析范围
+    'scope.includeUnmatched': '未匹配: {patterns}',
+
+    // 工作线程
+    'worker.exited': '工作线程异常退出，退出码 {code}',
+    'worker.noResults': '工作线程池未返回结果',
+    'worker.notInWorker': 'serveWorker 只能在工作线程中调用',
+
+    // 监听模式
+    'watch.more': '另有 {count} 个',
+    'watch.changed': '{files} 已变更，重新分析',
+    'watch.analyzed': '分析完成: {count} 个问题',
+    'watch.incremental': '重新分析了 {count} 个受影响的文件',
+    'watch.full': '已执行完整分析',
+    'watch.stopped': '已停止监听',
+    'watch.started': '监听 {path}，保存源文件后自动重新分析（Ctrl+C 退出）',
+
+    // 性能分析
+    'profile.span.workers': '工作线程分析',
+    'profile.thread.steps': '步骤',
+    'profile.thread.methods': '方法',
+    'profile.thread.worker': '工作线程 {index}',
+
+    // 结果文件
+    'result.error.missing': '结果文件不存在: {path}',
+    'result.error.invalid': '无法识别的结果文件: {path}（需要 export 导出的 {name}）',
+
+    // 导出格式 Schema
+    'schema.error.invalid': '{kind} 导出内容不符合 Schema: {errors}',
+    'schema.error.more': '（另有 {count} 个错误）',
+    'schema.error.type': '应为 {expected}，实际为 {actual}',
+    'schema.error.const': '应为 {expected}，实际为 {actual}',
+    'schema.error.enum': '应为 {expected} 之一，实际为 {actual}',
+    'schema.error.required': '缺少属性 {property}',
+    'schema.error.additional': '不允许的属性 {property}',
+    'schema.error.minimum': '不能小于 {minimum}，实际为 {actual}',
+    'schema.error.anyOf': '不符合任何一种允许的格式',
+    'schema.error.ref': 'Schema 引用无法解析: {ref}',
+    'schema.error.version': '{kind} 文件的 schemaVersion {version} 不受支持（当前支持到 {supported}）',
+    'schema.error.unknownFile': '无法识别的导出文件: {path}',
+    'schema.migrate.current': '{path}（{kind}）已是版本 {version}',
+    'schema.migrate.done': '{path}（{kind}）已从版本 {from} 升级到 {to}',
+
+    // 结果对比
+    'diff.summary.new': '{count} 个新问题',
+    'diff.summary.resolved': '{count} 个已解决',
+    'diff.summary.coverage': '覆盖 {delta} 种生命周期',
+    'diff.summary.methods': '生命周期方法 {delta}',
+    'diff.summary.separator': '，',
+    'diff.column.severity': '严重程度',
+    'diff.column.rule': '规则',
+    'diff.column.method': '方法',
+    'diff.column.location': '位置',
+    'diff.column.message': '描述',
+    'diff.title': 'OpenEye 分析结果对比',
+    'diff.previous': '基准',
+    'diff.current': '当前',
+    'diff.summary': '摘要',
+    'diff.issues': '问题',
+    'diff.newIssues': '新增问题',
+    'diff.resolvedIssues': '已解决问题',
+    'diff.none': '无',
+    'diff.lifecycleMethods': '生命周期方法',
+    'diff.column.class': '类',
+    'diff.column.file': '文件',
+    'diff.column.added': '新增',
+    'diff.column.removed': '移除',
+    'diff.unchanged': '无变化',
+    'diff.coverage': '生命周期覆盖率',
+    'diff.column.type': '类型',
+    'diff.column.change': '变化',
+    'diff.column.gained': '新增使用',
+    'diff.column.lost': '不再使用',
+    'diff.dataFlows': '数据流',
+    'diff.column.lifecycleMethod': '生命周期方法',
+    'diff.column.addedCalls': '新增调用',
+    'diff.column.removedCalls': '消失调用',
+
+    // Markdown 报告
+    'markdown.title': 'OpenEye 生命周期分析报告',
+    'markdown.stats.item': '项目',
+    'markdown.stats.value': '数值',
+    'markdown.coverage.summary': '已使用 {used} / {total} 种 ({percent}%)',
+    'markdown.coverage.method': '生命周期方法',
+    'markdown.coverage.used': '已使用',
+    'markdown.coverage.usageCount': '使用次数',
+    'markdown.coverage.classes': '类',
+    'markdown.usage.title': '各类的生命周期使用情况',
+    'markdown.usage.legend': '✓ 有方法体 ○ 无方法体（仅声明或空实现）',
+    'markdown.usage.ability': 'Ability 类',
+    'markdown.usage.component': 'Component 类',
+    'markdown.usage.class': '类',
+    'markdown.usage.file': '文件',
+    'markdown.usage.lifecycles': '生命周期方法',
+    'markdown.issues.title': '问题 ({count})',
+    'markdown.issues.source': '源码位置',
+    'markdown.recommendations.reason': '理由',
+    'markdown.callgraph.title': '调用图',
+    'markdown.callgraph.intro': '从生命周期方法出发、最大调用深度 {depth} 的调用图（{nodes} 个节点, {edges} 条边），SDK 未解析调用已折叠。完整调用图见 DOT / Mermaid 导出。',
+    'markdown.footer': '本报告由 openeye-analyze 根据分析结果生成',
+
+    // 导出
+    'export.callgraph.notBuilt': '调用图未构建，无法导出',
+    'export.csv.start': '导出生命周期覆盖表',
+    'export.csv.rows': '{count} 行',
+    'export.failed': '导出失败: {error}',
+    'export.result.start': '导出分析结果',
+    'export.result.done': '分析结果已导出至: {path}',
+    'export.junit.issues': '{count} 个问题',
+    'export.junit.unused': '未使用',
+    'export.junit.gate': '实际 {actual}，阈值 {threshold}',
+    'export.junit.start': '导出 JUnit XML',
+    'export.junit.done': 'JUnit XML 已导出至: {path}',
+    'export.trace.start': '导出性能分析 Trace',
+    'export.trace.done': 'Trace 已导出至: {path}',
+    'export.trace.hint': '可在 chrome://tracing 或 https://ui.perfetto.dev 中打开',
+    'export.callgraph.rootNotFound': '未找到根节点: {root}',
+    'export.callgraph.unresolved': 'SDK / 未解析调用',
+    'export.callgraph.start': '导出调用图',
+    'export.callgraph.done': '调用图已导出至: {path}',
+    'export.callgraph.size': '节点: {nodes}, 边: {edges}',
+    'export.callgraph.graphviz': '可使用 Graphviz 查看: dot -Tsvg {path} -o callgraph.svg',
+    'export.sarif.start': '导出 SARIF',
+    'export.sarif.done': 'SARIF 已导出至: {path}',
+    'export.sarif.issues': '问题数: {count}',
+    'export.outputDir': '输出目录',
+    'export.generatedFiles': '生成的文件',
+    'export.dataflow-json.description': '数据流 JSON 详情',
+    'export.dataflow-md.description': '数据流 Markdown 报告',
+    'export.dot.description': '调用图 DOT 文件',
+    'export.mermaid.description': '调用图与生命周期调用子树（Mermaid）',
+    'export.plantuml.description': '调用图与生命周期调用子树（PlantUML）',
+    'export.sarif.description': '问题 SARIF 2.1.0 文件',
+    'export.junit.description': '规则与门禁 JUnit XML',
+    'export.csv.description': '生命周期覆盖表（CSV，按生命周期 / 类 / 文件）',
+    'export.result.description': '完整分析结果 JSON（diff 子命令的输入）',
+    'export.issues-json.description': '问题 JSON（未定义变量、规则检查和已抑制的问题）',
+    'export.coverage-json.description': '生命周期方法与覆盖率 JSON',
+    'export.callgraph-json.description': '调用图 JSON',
+    'export.schemaJson.start': '导出 {kind} JSON',
+    'export.html.description': '交互式 HTML 报告',
+    'export.markdownReport.start': '导出 Markdown 报告',
+    'export.markdown.description': '完整的 Markdown 生命周期报告',
+    'export.profile.description': '性能分析 Trace（Chrome Trace 格式）',
+    'export.subtrees.depth': '深度 {depth}',
+    'export.subtrees.title': '生命周期调用子树',
+    'export.subtrees.intro': '从每个生命周期方法出发、最大调用深度 {depth} 的调用图，共 {count} 个。',
+    'export.subtrees.type': '类型',
+    'export.subtrees.plainMethod': '普通方法',
+    'export.subtrees.file': '文件',
+    'export.subtrees.nodes': '节点',
+    'export.subtrees.edges': '边',
+    'export.mermaid.tooLarge': '边数超过 Mermaid 默认上限 {max}，GitHub 可能无法渲染，可通过 depth / roots 裁剪',
+    'export.subtrees.done': '生命周期调用子树已导出至: {path} ({count} 个)',
+    'export.mermaid.hint': '可直接放入 Markdown 的 ```mermaid 代码块',
+    'export.plantuml.hint': '可使用 PlantUML 查看: plantuml -tsvg {path}',
+    'export.dataflowJson.start': '导出数据流详情',
+    'export.dataflow.empty': '没有数据流数据可导出',
+    'export.dataflowJson.done': '数据流详情已导出至: {path}',
+    'export.dataflowJson.flows': '总数据流: {count} 条',
+    'export.dataflowJson.methods': '覆盖方法: {count} 个',
+    'export.dataflowMd.start': '导出数据流 Markdown 报告',
+    'export.dataflowMd.title': 'OpenEye 数据流分析报告',
+    'export.generatedAt': '生成时间',
+    'export.dataflowMd.overview': '总览',
+    'export.dataflowMd.totalFlows': '总数据流',
+    'export.dataflowMd.flowCount': '{count} 条',
+    'export.dataflowMd.lifecycleMethods': '生命周期方法',
+    'export.dataflowMd.methods': '涉及方法',
+    'export.dataflowMd.top': '数据流最多的方法',
+    'export.dataflowMd.rank': '排名',
+    'export.dataflowMd.method': '方法',
+    'export.dataflowMd.flows': '数据流数量',
+    'export.dataflowMd.details': '详细数据流',
+    'export.dataflowMd.dataFlows': '数据流',
+    'export.dataflowMd.target': '目标方法',
+    'export.dataflowMd.calls': '调用次数',
+    'export.dataflowMd.exampleLine': '示例行号',
+    'export.dataflowMd.stats': '数据流统计',
+    'export.dataflowMd.byType': '按生命周期类型',
+    'export.dataflowMd.abilityLifecycle': 'Ability 生命周期',
+    'export.dataflowMd.componentLifecycle': 'Component 生命周期',
+    'export.dataflowMd.typeFlows': '{count} 条数据流',
+    'export.dataflowMd.average': '平均数据流',
+    'export.dataflowMd.averagePerMethod': '每个生命周期方法平均: {average} 条数据流',
+    'export.dataflowMd.depth': '调用深度',
+    'export.dataflowMd.maxDepth': '最大深度',
+    'export.dataflowMd.avgDepth': '平均深度',
+    'export.dataflowMd.levels': '{count} 层',
+    'export.dataflowMd.footer': '报告生成于 Version 3.0',
+    'export.markdown.done': 'Markdown 报告已导出至: {path}',
+    'export.json.done': 'JSON 报告已导出至: {path}',
+    'export.html.start': '导出 HTML 报告',
+    'export.html.done': 'HTML 报告已导出至: {path}',
+
+    // SARIF
+    'sarif.customRule': '自定义 Pass 规则 {id}',
+
+    // HTML 报告
+    'html.noData': '无数据',
+    'html.stats.files': '文件',
+    'html.stats.classes': '类',
+    'html.stats.methods': '方法',
+    'html.stats.abilityClasses': 'Ability 类',
+    'html.stats.componentClasses': 'Component 类',
+    'html.stats.lifecycleMethods': '生命周期实例',
+    'html.stats.callGraphNodes': '调用图节点',
+    'html.stats.callGraphEdges': '调用图边',
+    'html.stats.dataFlows': '数据流',
+    'html.stats.issues': '问题',
+    'html.coverage.methodName': '生命周期方法',
+    'html.coverage.used': '已使用',
+    'html.coverage.usageCount': '使用次数',
+    'html.coverage.classCount': '类数量',
+    'html.coverage.classes': '类',
+    'html.coverage.summary': '已使用 {used} / {total} 种 ({percent}%)',
+    'html.issues.severity': '严重程度',
+    'html.issues.ruleId': '规则',
+    'html.issues.method': '方法',
+    'html.issues.location': '位置',
+    'html.issues.message': '说明',
+    'html.flows.count': '{count} 条',
+    'html.flows.target': '目标',
+    'html.flows.line': '行号',
+    'html.flows.callChain': '调用链',
+    'html.flows.empty': '无数据流',
+    'html.graph.missing': '未构建调用图（需要执行 callgraph Pass）',
+    'html.graph.summary': '{nodes} 个节点, {edges} 条边',
+    'html.title': 'OpenEye 生命周期分析报告',
+    'html.project': '项目',
+    'html.section.overview': '总览',
+    'html.section.coverage': '生命周期覆盖',
+    'html.section.issues': '问题',
+    'html.section.dataflow': '数据流',
+    'html.section.callgraph': '调用图',
+    'html.filter.allRules': '全部规则',
+    'html.filter.allModules': '全部模块',
+    'html.filter.issueSearch': '搜索方法、位置或语句',
+    'html.filter.flowSearch': '搜索方法、目标或调用链',
+    'html.graph.search': '高亮匹配的方法',
+    'html.graph.reset': '重置视图',
+    'html.graph.hint': '滚轮缩放，拖拽平移；红色 Ability，绿色 Component'
+};
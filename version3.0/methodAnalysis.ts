@@ -0,0 +1,260 @@
+// methodAnalysis.ts - 单个方法的未定义变量与数据流分析
+// 串行分析和工作线程共用同一份实现，保证并行模式的输出与串行一致
+import { performance } from 'perf_hooks';
+
+import { Scene, SceneConfig, ArkMethod, UndefinedVariableChecker, UndefinedVariableSolver } from "../../arkanalyzer/src/index";
+
+import type { CachedStatementIssue } from './analysisCache';
+import type { WorkerOutcome } from './workerPool';
+import { buildLifecycleCallGraph, buildScene } from './sceneBuilder';
+import { DataFlowInfo } from './types';
+
+/**
+ * 可在工作线程中执行的逐方法分析
+ */
+export type MethodAnalysisKind = 'undefined' | 'dataflow';
+
+/**
+ * 一个方法的分析任务
+ */
+export interface MethodTask {
+    /** 方法签名（`MethodSignature.toString()`），工作线程据此在自己的 Scene 中找到方法 */
+    signature: string;
+    /** 数据流的来源名（类名.生命周期阶段） */
+    from: string;
+    /** 方法所在文件 */
+    filePath: string;
+    kinds: MethodAnalysisKind[];
+}
+
+/**
+ * 分配给一个工作线程的任务
+ */
+export interface MethodShard {
+    configPath: string;
+    /** 主线程构建了调用图时为备用入口（全部生命周期方法签名），未构建时为 null */
+    callGraphEntries: string[] | null;
+    methods: MethodTask[];
+}
+
+/**
+ * 一种分析的结果，失败时为异常信息
+ *
+ * `startedAt` 为开始分析的时刻（`performance.timeOrigin + performance.now()`），各线程之间可比较
+ */
+export type KindOutcome<T> =
+    | { value: T; startedAt: number; durationMs: number }
+    | { error: { message: string; stack: string | null }; startedAt: number; durationMs: number };
+
+/**
+ * 一个方法的分析结果
+ */
+export interface MethodOutcome {
+    signature: string;
+    /** 工作线程的 Scene 中没有找到该方法，由主线程串行分析 */
+    found: boolean;
+    /** 分析该方法的工作线程下标，由 mergeShardOutcomes 填写 */
+    worker?: number;
+    /** 为 null 表示方法没有可分析的语句（跳过） */
+    undefined?: KindOutcome<CachedStatementIssue[] | null>;
+    dataflow?: KindOutcome<DataFlowInfo[]>;
+}
+
+/**
+ * 检查语句是否包含未定义风险
+ */
+export function containsUndefinedRisk(stmtStr: string): boolean {
+    return stmtStr.includes('undefined') ||
+           stmtStr.includes('null') ||
+           (stmtStr.includes('fieldload') && stmtStr.includes('?'));
+}
+
+/**
+ * 用 IFDS 求解方法的未定义变量，返回有风险的语句；方法没有语句时返回 null
+ *
+ * `measureSolve` 包裹 `solver.solve()`，用于单独统计求解耗时
+ */
+export function solveUndefinedVariables(
+    method: ArkMethod,
+    scene: Scene,
+    measureSolve: (solve: () => void) => void = solve => solve()
+): CachedStatementIssue[] | null {
+    const cfg = method.getCfg();
+
+    if (!cfg || cfg.getBlocks().size === 0) {
+        return null;
+    }
+
+    // 获取方法的第一个基本块的第一个语句
+    const blocks = [...cfg.getBlocks()];
+    if (blocks[0].getStmts().length === 0) {
+        return null;
+    }
+    const firstStmt = blocks[0].getStmts()[0];
+
+    // 创建 UndefinedVariableChecker
+    const problem = new UndefinedVariableChecker(firstStmt, method);
+    const solver = new UndefinedVariableSolver(problem, scene);
+
+    // 执行分析
+    measureSolve(() => solver.solve());
+
+    // 检查结果
+    const issues: CachedStatementIssue[] = [];
+    for (const stmt of cfg.getStmts()) {
+        const stmtStr = stmt.toString();
+        if (containsUndefinedRisk(stmtStr)) {
+            const position = stmt.getOriginPositionInfo();
+            issues.push({ line: position.getLineNo(), column: position.getColNo(), statement: stmtStr });
+        }
+    }
+    return issues;
+}
+
+/**
+ * 从 invoke 表达式中提取方法名
+ */
+export function extractMethodFromInvoke(invokeExpr: string): string | null {
+    const match = invokeExpr.match(/invoke\s+(\w+)\.<[^>]+:\s*\.(\w+)\(\)>/);
+    if (match) {
+        return `${match[1]}.${match[2]}`;
+    }
+
+    const simpleMatch = invokeExpr.match(/\.(\w+)\(\)/);
+    if (simpleMatch) {
+        return simpleMatch[1];
+    }
+
+    return null;
+}
+
+/**
+ * 分析单个方法的数据流（方法中的调用）
+ */
+export function extractDataFlows(method: ArkMethod, from: string, filePath: string): DataFlowInfo[] {
+    const cfg = method.getCfg();
+
+    if (!cfg) {
+        return [];
+    }
+
+    const flows: DataFlowInfo[] = [];
+    const callChain: string[] = [from];
+
+    for (const stmt of cfg.getStmts()) {
+        const exprs = stmt.getExprs();
+        for (const expr of exprs) {
+            const exprStr = expr.toString();
+
+            if (exprStr.includes('invoke') || exprStr.includes('call')) {
+                const position = stmt.getOriginPositionInfo();
+                const targetMethod = extractMethodFromInvoke(exprStr);
+
+                flows.push({
+                    from,
+                    filePath,
+                    to: targetMethod || exprStr.substring(0, 60),
+                    variable: 'data',
+                    line: position.getLineNo(),
+                    callChain: [...callChain, targetMethod || 'unknown']
+                });
+            }
+        }
+    }
+
+    return flows;
+}
+
+/**
+ * 执行一种分析并计时，异常转为可序列化的错误信息
+ */
+function run<T>(analyze: (measure: (fn: () => void) => void) => T, solveOnly: boolean): KindOutcome<T> {
+    let durationMs = 0;
+    const measure = (fn: () => void): void => {
+        const start = performance.now();
+        try {
+            fn();
+        } finally {
+            durationMs += performance.now() - start;
+        }
+    };
+    const start = performance.now();
+    const startedAt = performance.timeOrigin + start;
+    try {
+        const value = analyze(measure);
+        return { value, startedAt, durationMs: solveOnly ? durationMs : performance.now() - start };
+    } catch (error) {
+        return {
+            error: {
+                message: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack ?? null : null
+            },
+            startedAt,
+            durationMs: solveOnly ? durationMs : performance.now() - start
+        };
+    }
+}
+
+/**
+ * 工作线程入口：按与主线程相同的步骤重新构建 Scene（含 @dummyMain 和 CHA 调用图），分析分配到的方法
+ */
+export function analyzeMethodShard(shard: MethodShard): MethodOutcome[] {
+    const config = new SceneConfig();
+    config.buildFromJson(shard.configPath);
+    const scene = buildScene(config);
+
+    const methods = new Map<string, ArkMethod>(
+        scene.getMethods().map((m: ArkMethod) => [m.getSignature().toString(), m] as [string, ArkMethod])
+    );
+    if (shard.callGraphEntries) {
+        const entries = shard.callGraphEntries.flatMap(signature => {
+            const method = methods.get(signature);
+            return method ? [method.getSignature()] : [];
+        });
+        buildLifecycleCallGraph(scene, entries);
+    }
+
+    return shard.methods.map(task => {
+        const method = methods.get(task.signature);
+        if (!method) {
+            return { signature: task.signature, found: false };
+        }
+        const outcome: MethodOutcome = { signature: task.signature, found: true };
+        if (task.kinds.includes('undefined')) {
+            outcome.undefined = run(measure => solveUndefinedVariables(method, scene, measure), true);
+        }
+        if (task.kinds.includes('dataflow')) {
+            outcome.dataflow = run(() => extractDataFlows(method, task.from, task.filePath), false);
+        }
+        return outcome;
+    });
+}
+
+/**
+ * 按轮转方式把任务分到至多 `workers` 个分片
+ */
+export function shardTasks(tasks: MethodTask[], workers: number): MethodTask[][] {
+    const count = Math.max(1, Math.min(workers, tasks.length));
+    const shards: MethodTask[][] = Array.from({ length: count }, () => []);
+    tasks.forEach((task, index) => shards[index % count].push(task));
+    return shards;
+}
+
+/**
+ * 合并各分片的结果（按方法签名索引，记录所在分片的下标），返回结果和没有结果的分片下标；
+ * 失败分片的方法由主线程串行分析
+ */
+export function mergeShardOutcomes(results: WorkerOutcome<MethodOutcome[]>[]): { outcomes: Map<string, MethodOutcome>; failed: number[] } {
+    const outcomes = new Map<string, MethodOutcome>();
+    const failed: number[] = [];
+    results.forEach((result, index) => {
+        if (result.error !== undefined || !result.result) {
+            failed.push(index);
+            return;
+        }
+        for (const outcome of result.result) {
+            outcomes.set(outcome.signature, { ...outcome, worker: index });
+        }
+    });
+    return { outcomes, failed };
+}
@@ -0,0 +1,213 @@
+// passes.ts - 分析 Pass 接口与注册表
+// 每个 Pass 声明依赖的产物（requires）和生成的产物（produces），由注册表排序执行
+import { Scene } from "../../arkanalyzer/src/index";
+
+import type { OpenEyeLifecycleAnalyzerV3, Logger } from './analyzeOpenEyeLifecycle';
+import type { GateResult } from './qualityGates';
+import { AnalysisResult, CallGraphData, Diagnostic, Finding } from './types';
+import { t } from './i18n';
+
+/**
+ * 内置产物名称
+ */
+export const ARTIFACTS = {
+    LIFECYCLE_METHODS: 'lifecycleMethods',
+    CALL_GRAPH: 'callGraph',
+    UNDEFINED_ISSUES: 'undefinedIssues',
+    DATA_FLOWS: 'dataFlows',
+    FINDINGS: 'findings',
+    MODULES: 'modules'
+} as const;
+
+/**
+ * Pass 执行阶段：分析阶段的 Pass 先于输出阶段执行
+ */
+export type PassPhase = 'analysis' | 'output';
+
+/**
+ * Pass 执行上下文
+ */
+export interface PassContext {
+    scene: Scene;
+    analyzer: OpenEyeLifecycleAnalyzerV3;
+    projectDirectory: string;
+    outputDir: string;
+    log: Logger;
+    /** 已生成的产物 */
+    artifacts: Set<string>;
+    /** 记录一条规则检查结果 */
+    addFinding(finding: Finding): void;
+    /** 记录一条内部错误 */
+    addDiagnostic(diagnostic: Diagnostic): void;
+    /** 以当前状态生成可序列化结果 */
+    getResult(): AnalysisResult;
+    /** 完整调用图，未构建调用图时为 null */
+    getFullCallGraph(): CallGraphData | null;
+    /** 以当前结果检查配置文件中的门禁，未配置时为空 */
+    getGateResults(): GateResult[];
+}
+
+/**
+ * 分析 Pass
+ */
+export interface AnalysisPass {
+    name: string;
+    description: string;
+    phase: PassPhase;
+    requires: string[];
+    produces: string[];
+    /** 未在配置中显式开关时是否执行，默认 true */
+    enabledByDefault?: boolean;
+    /**
+     * 是否需要访问 Scene 和分析器，默认 true
+     *
+     * 只读取 getResult() / getFullCallGraph() 的输出 Pass 可设为 false，整体缓存命中时无需构建 Scene
+     */
+    requiresScene?: boolean;
+    run(context: PassContext, options: Record<string, unknown>): void;
+}
+
+/**
+ * 配置文件中单个 Pass 的设置
+ */
+export interface PassSettings {
+    enabled?: boolean;
+    options?: Record<string, unknown>;
+}
+
+/**
+ * Pass 注册表
+ */
+export class PassRegistry {
+    private passes: Map<string, AnalysisPass> = new Map();
+
+    /**
+     * 注册 Pass，名称重复时报错
+     */
+    public register(pass: AnalysisPass): void {
+        if (this.passes.has(pass.name)) {
+            throw new Error(t('pass.error.duplicate', { name: pass.name }));
+        }
+        this.passes.set(pass.name, pass);
+    }
+
+    public unregister(name: string): boolean {
+        return this.passes.delete(name);
+    }
+
+    public get(name: string): AnalysisPass | undefined {
+        return this.passes.get(name);
+    }
+
+    /**
+     * 按注册顺序列出全部 Pass
+     */
+    public list(): AnalysisPass[] {
+        return Array.from(this.passes.values());
+    }
+
+    /**
+     * 根据配置选出要执行的 Pass 名称
+     */
+    public select(settings: Record<string, PassSettings>): string[] {
+        return this.list()
+            .filter(pass => settings[pass.name]?.enabled ?? pass.enabledByDefault !== false)
+            .map(pass => pass.name);
+    }
+
+    /**
+     * 补全依赖并排序：分析阶段在前，同阶段内按产物依赖拓扑排序，无依赖关系时保持注册顺序
+     */
+    public resolve(names: string[], log: Logger = () => undefined): AnalysisPass[] {
+        const selected = new Map<string, AnalysisPass>();
+        const pending = [...names];
+
+        while (pending.length > 0) {
+            const name = pending.shift()!;
+            if (selected.has(name)) {
+                continue;
+            }
+            const pass = this.passes.get(name);
+            if (!pass) {
+                throw new Error(t('pass.error.unknown', { name, available: Array.from(this.passes.keys()).join(', ') }));
+            }
+            selected.set(name, pass);
+
+            for (const artifact of pass.requires) {
+                const producers = this.list().filter(p => p.produces.includes(artifact));
+                if (producers.length === 0) {
+                    throw new Error(t('pass.error.noProducer', { name, artifact }));
+                }
+                if (!producers.some(p => selected.has(p.name) || pending.includes(p.name))) {
+                    log(`   ➕ ${t('pass.autoEnabled', { name, artifact, producer: producers[0].name })}`);
+                    pending.push(producers[0].name);
+                }
+            }
+        }
+
+        const order = this.list().map(p => p.name);
+        const byPhase = (phase: PassPhase): AnalysisPass[] => this.sortByDependencies(
+            Array.from(selected.values())
+                .filter(p => p.phase === phase)
+                .sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name))
+        );
+        return [...byPhase('analysis'), ...byPhase('output')];
+    }
+
+    /**
+     * 依次执行 Pass，返回已执行的 Pass 名称
+     *
+     * Pass 抛出的异常记录为诊断信息，其产物视为未生成，依赖它的 Pass 会被跳过
+     */
+    public run(passes: AnalysisPass[], context: PassContext, settings: Record<string, PassSettings>): string[] {
+        const executed: string[] = [];
+        for (const pass of passes) {
+            const missing = pass.requires.filter(a => !context.artifacts.has(a));
+            if (missing.length > 0) {
+                context.log(`   ⚠️  ${t('pass.skipped', { name: pass.name, missing: missing.join(', ') })}`);
+                continue;
+            }
+            try {
+                pass.run(context, settings[pass.name]?.options ?? {});
+            } catch (error) {
+                context.log(`   ❌ ${t('pass.failed', { name: pass.name, error: String(error) })}`);
+                context.addDiagnostic({
+                    pass: pass.name,
+                    method: null,
+                    phase: null,
+                    filePath: null,
+                    message: error instanceof Error ? error.message : String(error),
+                    stack: error instanceof Error ? error.stack ?? null : null
+                });
+                continue;
+            }
+            for (const artifact of pass.produces) {
+                context.artifacts.add(artifact);
+            }
+            executed.push(pass.name);
+        }
+        return executed;
+    }
+
+    /**
+     * 同阶段内的拓扑排序（Kahn 算法，就绪节点按输入顺序选取）
+     */
+    private sortByDependencies(passes: AnalysisPass[]): AnalysisPass[] {
+        const sorted: AnalysisPass[] = [];
+        const remaining = [...passes];
+
+        while (remaining.length > 0) {
+            const index = remaining.findIndex(pass =>
+                pass.requires.every(artifact =>
+                    !remaining.some(other => other !== pass && other.produces.includes(artifact))
+                )
+            );
+            if (index < 0) {
+                throw new Error(t('pass.error.cycle', { names: remaining.map(p => p.name).join(', ') }));
+            }
+            sorted.push(remaining.splice(index, 1)[0]);
+        }
+
+        return sorted;
+    }
+}
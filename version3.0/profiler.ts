@@ -0,0 +1,222 @@
+// profiler.ts - 分析耗时与内存统计
+// 记录流水线各步骤和每个方法的分析耗时，在步骤边界采样堆内存，可导出为 Chrome Trace 格式
+import * as fs from 'fs';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { MethodTiming, ProfileReport, ProfileSpan } from './types';
+import { t } from './i18n';
+
+/**
+ * 报告中保留的最慢方法数
+ */
+const SLOWEST_METHOD_COUNT = 20;
+
+function toMb(bytes: number): number {
+    return Math.round(bytes / 1024 / 1024 * 10) / 10;
+}
+
+function round(ms: number): number {
+    return Math.round(ms * 100) / 100;
+}
+
+/**
+ * 性能分析器
+ *
+ * 分析是同步执行的，无法定时采样，堆内存在每个步骤和每个方法的开始与结束时采样，峰值取全部采样的最大值。
+ */
+export class Profiler {
+    private origin = performance.now();
+    private depth = 0;
+    private spans: ProfileSpan[] = [];
+    private methods: MethodTiming[] = [];
+    private peakHeap = 0;
+    private peakRss = 0;
+
+    /**
+     * 计时执行 `fn`，嵌套调用记录为子步骤
+     */
+    public measure<T>(name: string, fn: () => T): T {
+        const start = performance.now();
+        const heapBefore = this.sample();
+        const span: ProfileSpan = {
+            name,
+            depth: this.depth,
+            startMs: round(start - this.origin),
+            durationMs: 0,
+            heapBeforeMb: toMb(heapBefore),
+            heapAfterMb: 0
+        };
+        // 先占位，保证父步骤排在子步骤之前
+        this.spans.push(span);
+        this.depth++;
+        try {
+            return fn();
+        } finally {
+            this.depth--;
+            span.durationMs = round(performance.now() - start);
+            span.heapAfterMb = toMb(this.sample());
+        }
+    }
+
+    /**
+     * 计时执行单个方法的分析
+     */
+    public measureMethod<T>(pass: string, method: string, filePath: string, fn: () => T): T {
+        const start = performance.now();
+        this.sample();
+        try {
+            return fn();
+        } finally {
+            this.methods.push({
+                pass,
+                method,
+                filePath,
+                startMs: round(start - this.origin),
+                durationMs: round(performance.now() - start),
+                cached: false
+            });
+            this.sample();
+        }
+    }
+
+    /**
+     * 记录一个在工作线程中完成的方法分析
+     *
+     * `startedAt` 为工作线程中开始分析的时刻（`performance.timeOrigin + performance.now()`），换算到本线程的时间轴
+     */
+    public recordMethod(
+        pass: string,
+        method: string,
+        filePath: string,
+        timing: { startedAt: number; durationMs: number },
+        worker?: number
+    ): void {
+        this.methods.push({
+            pass,
+            method,
+            filePath,
+            startMs: round(timing.startedAt - performance.timeOrigin - this.origin),
+            durationMs: round(timing.durationMs),
+            cached: false,
+            ...(worker !== undefined ? { worker } : {})
+        });
+    }
+
+    /**
+     * 记录一个结果来自缓存的方法
+     */
+    public recordCachedMethod(pass: string, method: string, filePath: string): void {
+        this.methods.push({
+            pass,
+            method,
+            filePath,
+            startMs: round(performance.now() - this.origin),
+            durationMs: 0,
+            cached: true
+        });
+    }
+
+    public getReport(): ProfileReport {
+        this.sample();
+        return {
+            totalMs: round(performance.now() - this.origin),
+            peakHeapMb: toMb(this.peakHeap),
+            peakRssMb: toMb(this.peakRss),
+            spans: this.spans.map(span => ({ ...span })),
+            methods: this.methods.map(method => ({ ...method })),
+            slowestMethods: this.methods
+                .filter(method => !method.cached)
+                .sort((a, b) => b.durationMs - a.durationMs)
+                .slice(0, SLOWEST_METHOD_COUNT)
+                .map(method => ({ ...method }))
+        };
+    }
+
+    /**
+     * 采样当前内存并更新峰值，返回已用堆内存（字节）
+     */
+    private sample(): number {
+        const usage = process.memoryUsage();
+        this.peakHeap = Math.max(this.peakHeap, usage.heapUsed);
+        this.peakRss = Math.max(this.peakRss, usage.rss);
+        return usage.heapUsed;
+    }
+}
+
+/**
+ * 工作线程 `worker` 在 Trace 中的线程号（1、2 为步骤和主线程中的方法）
+ */
+function workerTid(worker: number): number {
+    return 3 + worker;
+}
+
+/**
+ * 转换为 Chrome Trace Event 格式（可在 chrome://tracing 或 Perfetto 中打开）
+ *
+ * 步骤在线程 1，主线程中的逐方法分析在线程 2，各工作线程中的方法分别在线程 3 起；堆内存作为计数器事件。
+ */
+export function toChromeTrace(profile: ProfileReport): object {
+    const us = (ms: number): number => Math.round(ms * 1000);
+    const traceEvents: object[] = [
+        { name: 'thread_name', ph: 'M', pid: 1, tid: 1, args: { name: t('profile.thread.steps') } },
+        { name: 'thread_name', ph: 'M', pid: 1, tid: 2, args: { name: t('profile.thread.methods') } }
+    ];
+    const workers = new Set(profile.methods.flatMap(m => m.worker !== undefined ? [m.worker] : []));
+    for (const worker of Array.from(workers).sort((a, b) => a - b)) {
+        traceEvents.push({ name: 'thread_name', ph: 'M', pid: 1, tid: workerTid(worker), args: { name: t('profile.thread.worker', { index: worker + 1 }) } });
+    }
+
+    for (const span of profile.spans) {
+        traceEvents.push({
+            name: span.name,
+            cat: 'step',
+            ph: 'X',
+            pid: 1,
+            tid: 1,
+            ts: us(span.startMs),
+            dur: us(span.durationMs),
+            args: { heapBeforeMb: span.heapBeforeMb, heapAfterMb: span.heapAfterMb }
+        });
+        traceEvents.push({ name: 'heap', ph: 'C', pid: 1, ts: us(span.startMs), args: { MB: span.heapBeforeMb } });
+        traceEvents.push({ name: 'heap', ph: 'C', pid: 1, ts: us(span.startMs + span.durationMs), args: { MB: span.heapAfterMb } });
+    }
+    for (const method of profile.methods.filter(m => !m.cached)) {
+        traceEvents.push({
+            name: method.method,
+            cat: method.pass,
+            ph: 'X',
+            pid: 1,
+            tid: method.worker !== undefined ? workerTid(method.worker) : 2,
+            ts: us(method.startMs),
+            dur: us(method.durationMs),
+            args: { filePath: method.filePath }
+        });
+    }
+
+    traceEvents.sort((a, b) => ((a as { ts?: number }).ts ?? -1) - ((b as { ts?: number }).ts ?? -1));
+    return { traceEvents, displayTimeUnit: 'ms', profile };
+}
+
+/**
+ * 导出性能分析 Trace
+ */
+export function exportProfileTrace(profile: ProfileReport, outputPath: string, log: Logger = console.log): void {
+    log(`\n⏱️  ${t('export.trace.start')}...`);
+
+    try {
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, JSON.stringify(toChromeTrace(profile), null, 2), 'utf-8');
+
+        log(`   ✓ ${t('export.trace.done', { path: outputPath })}`);
+        log(`   💡 ${t('export.trace.hint')}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
@@ -0,0 +1,199 @@
+// projectModules.ts - OpenHarmony 多模块（HAP / HSP / HAR）工程发现
+// 从工程根目录的 build-profile.json5 和各模块的 oh-package.json5 / module.json5 读取模块信息
+import * as fs from 'fs';
+import * as path from 'path';
+import JSON5 from 'json5';
+
+import { ModuleInfo, ModuleType } from './types';
+
+/**
+ * build-profile.json5 的 `modules` 中的一项
+ */
+interface BuildProfileModule {
+    name: string;
+    /** 相对工程根目录的模块路径，省略时为 `./<name>` */
+    srcPath?: string;
+}
+
+/**
+ * oh-package.json5 中用到的字段
+ */
+interface OhPackage {
+    name: string | null;
+    /** 依赖包名 -> 版本或本地路径（如 file:../library） */
+    dependencies: Record<string, string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 读取 JSON5 文件，不存在时返回 null
+ */
+function readJson5(filePath: string): unknown {
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+    return JSON5.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * 读取 build-profile.json5 的模块列表，文件不存在或没有 `modules` 时返回 null；缺少 name 的项被忽略
+ */
+function readBuildProfileModules(projectDir: string): BuildProfileModule[] | null {
+    const buildProfile = readJson5(path.join(projectDir, 'build-profile.json5'));
+    if (!isRecord(buildProfile) || !Array.isArray(buildProfile.modules)) {
+        return null;
+    }
+    const modules: BuildProfileModule[] = [];
+    for (const entry of buildProfile.modules) {
+        if (isRecord(entry) && typeof entry.name === 'string') {
+            modules.push({ name: entry.name, srcPath: typeof entry.srcPath === 'string' ? entry.srcPath : undefined });
+        }
+    }
+    return modules;
+}
+
+/**
+ * 读取模块的 oh-package.json5，文件不存在时包名为 null、依赖为空
+ */
+function readOhPackage(moduleDir: string): OhPackage {
+    const ohPackage = readJson5(path.join(moduleDir, 'oh-package.json5'));
+    if (!isRecord(ohPackage)) {
+        return { name: null, dependencies: {} };
+    }
+    const dependencies: Record<string, string> = {};
+    if (isRecord(ohPackage.dependencies)) {
+        for (const [name, version] of Object.entries(ohPackage.dependencies)) {
+            dependencies[name] = String(version);
+        }
+    }
+    return { name: typeof ohPackage.name === 'string' ? ohPackage.name : null, dependencies };
+}
+
+/**
+ * 读取 module.json5 中的 module.type，不存在时返回 null
+ */
+function readModuleJsonType(moduleDir: string): string | null {
+    const moduleJson = readJson5(path.join(moduleDir, 'src/main/module.json5'));
+    if (!isRecord(moduleJson) || !isRecord(moduleJson.module)) {
+        return null;
+    }
+    return typeof moduleJson.module.type === 'string' ? moduleJson.module.type : null;
+}
+
+/**
+ * 根据 module.json5 的 module.type 和 hvigor 插件判断模块类型
+ */
+function detectModuleType(moduleDir: string): ModuleType {
+    const type = readModuleJsonType(moduleDir);
+    if (type === 'entry' || type === 'feature' || type === 'shared' || type === 'har') {
+        return type;
+    }
+    // HAR 模块没有 module.type 时通过 hvigorfile 识别
+    const hvigorFile = path.join(moduleDir, 'hvigorfile.ts');
+    if (fs.existsSync(hvigorFile) && fs.readFileSync(hvigorFile, 'utf-8').includes('harTasks')) {
+        return 'har';
+    }
+    return 'unknown';
+}
+
+/**
+ * 单模块工程：整个项目目录作为一个模块
+ */
+export function singleModule(name: string): ModuleInfo {
+    return { name, type: 'unknown', srcPath: '.', packageName: null, dependencies: [] };
+}
+
+/**
+ * 发现工程中的全部模块
+ *
+ * `projectDir` 下存在 build-profile.json5 时按其 `modules` 列表发现；
+ * 否则视为单模块工程（如直接指向 entry/src/main），整个目录作为一个模块。
+ */
+export function discoverModules(projectDir: string, fallbackName?: string): ModuleInfo[] {
+    const entries = readBuildProfileModules(projectDir);
+    if (!entries) {
+        return [singleModule(fallbackName ?? path.basename(path.resolve(projectDir)))];
+    }
+
+    const modules: ModuleInfo[] = entries.map(entry => {
+        const srcPath = path.posix.normalize((entry.srcPath ?? `./${entry.name}`).replace(/\\/g, '/'));
+        const moduleDir = path.join(projectDir, srcPath);
+        const ohPackage = readOhPackage(moduleDir);
+        return {
+            name: entry.name,
+            type: detectModuleType(moduleDir),
+            srcPath,
+            packageName: ohPackage.name,
+            dependencies: Object.keys(ohPackage.dependencies)
+        };
+    });
+
+    // oh-package.json5 中的依赖使用包名，转换为模块名；非本工程的三方包保留原名
+    const moduleByPackage = new Map<string, string>();
+    for (const module of modules) {
+        if (module.packageName) {
+            moduleByPackage.set(module.packageName, module.name);
+        }
+    }
+    for (const module of modules) {
+        module.dependencies = module.dependencies.map(dep => moduleByPackage.get(dep) ?? dep);
+    }
+
+    return modules;
+}
+
+/**
+ * 一次调用相对调用方模块的归类：模块内、跨模块、被调方无法归属（含 %unk 未解析调用）
+ */
+export type CallScope = 'internal' | 'cross' | 'unresolved';
+
+/**
+ * 按文件路径归属模块
+ */
+export class ModuleResolver {
+    private modules: ModuleInfo[];
+
+    constructor(modules: ModuleInfo[]) {
+        // 最长路径优先，避免嵌套模块被外层模块吞掉
+        this.modules = [...modules].sort((a, b) => b.srcPath.length - a.srcPath.length);
+    }
+
+    public getModules(): ModuleInfo[] {
+        return this.modules;
+    }
+
+    public isMultiModule(): boolean {
+        return this.modules.length > 1 || this.modules[0]?.srcPath !== '.';
+    }
+
+    /**
+     * 返回文件所属模块名（文件路径相对工程根目录），无法归属时返回 null
+     */
+    public moduleOf(filePath: string): string | null {
+        const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+        for (const module of this.modules) {
+            if (module.srcPath === '.') {
+                return module.name;
+            }
+            const prefix = module.srcPath.replace(/^\.\//, '').replace(/\/$/, '') + '/';
+            if (normalized.startsWith(prefix)) {
+                return module.name;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 按被调方法所在文件归类来自 `fromModule` 的调用
+     */
+    public classifyCall(fromModule: string, calleeFile: string): CallScope {
+        const toModule = calleeFile.includes('%unk') ? null : this.moduleOf(calleeFile);
+        if (!toModule) {
+            return 'unresolved';
+        }
+        return toModule === fromModule ? 'internal' : 'cross';
+    }
+}
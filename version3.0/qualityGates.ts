@@ -0,0 +1,202 @@
+// qualityGates.ts - 质量门禁
+// 按 config.json 中的 gates 阈值检查分析结果，不满足时以对应退出码结束，可用于本地阻止合并
+import { AnalysisResult, CoverageStats, LISTENER_CLEANUP_RULE } from './types';
+import { MessageKey, t } from './i18n';
+
+/**
+ * config.json 中的门禁阈值（未配置的项不检查）
+ */
+export interface GateConfig {
+    /** high 严重程度问题的上限 */
+    maxHighSeverity?: number;
+    /** medium 严重程度问题的上限 */
+    maxMediumSeverity?: number;
+    /** 问题总数上限 */
+    maxIssues?: number;
+    /** 注册了监听的组件必须实现 aboutToDisappear */
+    requireListenerCleanup?: boolean;
+    /** Ability 生命周期覆盖率下限（百分比） */
+    minAbilityCoverage?: number;
+    /** Component 生命周期覆盖率下限（百分比） */
+    minComponentCoverage?: number;
+}
+
+/**
+ * 进程退出码
+ */
+export const EXIT_CODES = {
+    OK: 0,
+    /** 分析失败或严格模式下出现内部错误 */
+    ANALYSIS_FAILED: 1,
+    /** 命令行参数错误 */
+    USAGE: 2,
+    /** 问题数超过上限 */
+    GATE_ISSUES: 3,
+    /** 组件注册监听但未实现 aboutToDisappear */
+    GATE_LISTENER_CLEANUP: 4,
+    /** 生命周期覆盖率低于下限 */
+    GATE_COVERAGE: 5
+} as const;
+
+/**
+ * 单个门禁的检查结果
+ */
+export interface GateResult {
+    name: string;
+    passed: boolean;
+    actual: number;
+    threshold: number;
+    message: string;
+    exitCode: number;
+}
+
+/**
+ * 问题数门禁依赖的 Pass
+ */
+const ISSUE_PASS = 'undefined';
+
+/**
+ * 监听注销门禁依赖的 Pass
+ */
+const LISTENER_PASS = 'listeners';
+
+function hasIssueGate(gates: GateConfig): boolean {
+    return gates.maxHighSeverity !== undefined || gates.maxMediumSeverity !== undefined || gates.maxIssues !== undefined;
+}
+
+/**
+ * 门禁依赖的 Pass：启用门禁时自动执行
+ */
+export function requiredPassesForGates(gates: GateConfig | undefined): string[] {
+    if (!gates) {
+        return [];
+    }
+    return [
+        ...(hasIssueGate(gates) ? [ISSUE_PASS] : []),
+        ...(gates.requireListenerCleanup ? [LISTENER_PASS] : [])
+    ];
+}
+
+/**
+ * 覆盖率百分比（已使用的生命周期种类 / 全部种类）
+ */
+export function coveragePercent(stats: CoverageStats[]): number {
+    if (stats.length === 0) {
+        return 0;
+    }
+    return stats.filter(s => s.isUsed).length / stats.length * 100;
+}
+
+/**
+ * 检查全部已配置的门禁
+ *
+ * 问题数按 result 中的 undefinedIssues 和 findings 计算，即已排除基线和行内抑制的问题。
+ * 依赖的 Pass 未执行（如执行失败）时门禁不通过，而不是按 0 个问题计算。
+ */
+export function evaluateGates(result: AnalysisResult, gates: GateConfig | undefined): GateResult[] {
+    if (!gates) {
+        return [];
+    }
+
+    const results: GateResult[] = [];
+    const issues = [...result.undefinedIssues, ...result.findings];
+    const countBySeverity = (severity: string): number => issues.filter(i => i.severity === severity).length;
+
+    const notComputed = (name: string, threshold: number, label: string, pass: string, exitCode: number): void => {
+        results.push({
+            name,
+            passed: false,
+            actual: 0,
+            threshold,
+            message: t('gate.notComputed', { label, pass }),
+            exitCode
+        });
+    };
+
+    const maximum = (name: string, actual: number, threshold: number | undefined, label: MessageKey): void => {
+        if (threshold === undefined) {
+            return;
+        }
+        if (!result.steps.includes(ISSUE_PASS)) {
+            notComputed(name, threshold, t(label), ISSUE_PASS, EXIT_CODES.GATE_ISSUES);
+            return;
+        }
+        results.push({
+            name,
+            passed: actual <= threshold,
+            actual,
+            threshold,
+            message: t('gate.maximum', { label: t(label), actual, threshold }),
+            exitCode: EXIT_CODES.GATE_ISSUES
+        });
+    };
+    maximum('maxHighSeverity', countBySeverity('high'), gates.maxHighSeverity, 'gate.label.high');
+    maximum('maxMediumSeverity', countBySeverity('medium'), gates.maxMediumSeverity, 'gate.label.medium');
+    maximum('maxIssues', issues.length, gates.maxIssues, 'gate.label.issues');
+
+    if (gates.requireListenerCleanup && !result.steps.includes(LISTENER_PASS)) {
+        notComputed('requireListenerCleanup', 0, t('gate.label.listenerCleanup'), LISTENER_PASS, EXIT_CODES.GATE_LISTENER_CLEANUP);
+    } else if (gates.requireListenerCleanup) {
+        const missing = result.findings.filter(f => f.ruleId === LISTENER_CLEANUP_RULE);
+        const classes = Array.from(new Set(missing.map(f => f.className)));
+        results.push({
+            name: 'requireListenerCleanup',
+            passed: missing.length === 0,
+            actual: missing.length,
+            threshold: 0,
+            message: missing.length === 0
+                ? t('gate.listenerCleanup.passed')
+                : t('gate.listenerCleanup.failed', { count: missing.length, classes: classes.join(', ') }),
+            exitCode: EXIT_CODES.GATE_LISTENER_CLEANUP
+        });
+    }
+
+    const minimum = (name: string, stats: CoverageStats[], threshold: number | undefined, label: string): void => {
+        if (threshold === undefined) {
+            return;
+        }
+        const actual = Math.round(coveragePercent(stats) * 10) / 10;
+        results.push({
+            name,
+            passed: actual >= threshold,
+            actual,
+            threshold,
+            message: t('gate.coverage', { label, actual: actual.toFixed(1), threshold }),
+            exitCode: EXIT_CODES.GATE_COVERAGE
+        });
+    };
+    minimum('minAbilityCoverage', result.coverage.ability, gates.minAbilityCoverage, 'Ability');
+    minimum('minComponentCoverage', result.coverage.component, gates.minComponentCoverage, 'Component');
+
+    return results;
+}
+
+/**
+ * 门禁结果对应的退出码：全部通过为 0，否则为第一个未通过门禁的退出码
+ */
+export function gateExitCode(results: GateResult[]): number {
+    return results.find(r => !r.passed)?.exitCode ?? EXIT_CODES.OK;
+}
+
+/**
+ * 打印门禁汇总
+ */
+export function printGateSummary(results: GateResult[]): void {
+    if (results.length === 0) {
+        return;
+    }
+
+    console.log(`\n🚦 ${t('gate.title')}:\n`);
+    for (const result of results) {
+        const icon = result.passed ? '✅' : '❌';
+        const code = result.passed ? '' : `  (${t('gate.exitCode', { code: result.exitCode })})`;
+        console.log(`   ${icon} ${result.name.padEnd(24)} ${result.message}${code}`);
+    }
+
+    const failed = results.filter(r => !r.passed);
+    if (failed.length === 0) {
+        console.log(`\n   ✓ ${t('gate.allPassed')}`);
+    } else {
+        console.log(`\n   ✗ ${t('gate.failed', { failed: failed.length, total: results.length })}`);
+    }
+}
@@ -0,0 +1,226 @@
+// resultDiff.ts - 两次分析结果的差异
+// 问题按基线指纹匹配（不含行号），生命周期覆盖按已使用的生命周期种类比较，数据流按（源方法, 调用目标）比较
+import { fingerprintFinding, fingerprintIssue } from './baseline';
+import { coveragePercent } from './qualityGates';
+import { AnalysisResult, CoverageStats, DataFlowInfo, LifecycleMethodRecord, Severity } from './types';
+import { t } from './i18n';
+
+/**
+ * 参与比较的问题（未定义变量问题和自定义规则结果统一表示）
+ */
+export interface DiffIssue {
+    fingerprint: string;
+    ruleId: string;
+    method: string;
+    filePath: string;
+    line: number;
+    message: string;
+    severity: Severity;
+}
+
+/**
+ * 一类生命周期的覆盖变化
+ */
+export interface CoverageDelta {
+    /** 新变为已使用的生命周期 */
+    gained: string[];
+    /** 不再被使用的生命周期 */
+    lost: string[];
+    /** 覆盖率百分比（保留一位小数） */
+    previousPercent: number;
+    currentPercent: number;
+}
+
+/**
+ * 一个类新增和移除的生命周期方法（不同文件中的同名类分别比较）
+ */
+export interface LifecycleClassDelta {
+    className: string;
+    filePath: string;
+    added: string[];
+    removed: string[];
+}
+
+/**
+ * 一个生命周期方法新增和消失的数据流调用目标
+ */
+export interface DataFlowDelta {
+    method: string;
+    filePath: string;
+    added: string[];
+    removed: string[];
+}
+
+/**
+ * 两次结果的差异
+ */
+export interface ResultDiff {
+    newIssues: DiffIssue[];
+    resolvedIssues: DiffIssue[];
+    coverage: {
+        ability: CoverageDelta;
+        component: CoverageDelta;
+        callback: CoverageDelta;
+    };
+    /** 生命周期方法实例数的变化 */
+    lifecycleMethodDelta: number;
+    /** 有生命周期方法增减的类 */
+    lifecycleClasses: LifecycleClassDelta[];
+    /** 有数据流增减的生命周期方法 */
+    dataFlows: DataFlowDelta[];
+}
+
+/**
+ * 结果中的全部问题
+ */
+export function collectIssues(result: AnalysisResult): DiffIssue[] {
+    return [
+        ...result.undefinedIssues.map(issue => ({
+            fingerprint: fingerprintIssue(issue),
+            ruleId: issue.ruleId,
+            method: issue.method,
+            filePath: issue.filePath,
+            line: issue.line,
+            message: issue.description,
+            severity: issue.severity
+        })),
+        ...result.findings.map(finding => ({
+            fingerprint: fingerprintFinding(finding),
+            ruleId: finding.ruleId,
+            method: `${finding.className}.${finding.method}`,
+            filePath: finding.filePath,
+            line: finding.line,
+            message: finding.message,
+            severity: finding.severity
+        }))
+    ];
+}
+
+/**
+ * 从 `from` 中按指纹逐个扣除 `other`，返回剩余的问题（同一指纹按次数匹配）
+ */
+function subtract(from: DiffIssue[], other: DiffIssue[]): DiffIssue[] {
+    const counts = new Map<string, number>();
+    for (const issue of other) {
+        counts.set(issue.fingerprint, (counts.get(issue.fingerprint) ?? 0) + 1);
+    }
+    return from.filter(issue => {
+        const remaining = counts.get(issue.fingerprint) ?? 0;
+        if (remaining > 0) {
+            counts.set(issue.fingerprint, remaining - 1);
+            return false;
+        }
+        return true;
+    });
+}
+
+function diffCoverage(previous: CoverageStats[], current: CoverageStats[]): CoverageDelta {
+    const before = new Set(previous.filter(s => s.isUsed).map(s => s.methodName));
+    const after = new Set(current.filter(s => s.isUsed).map(s => s.methodName));
+    return {
+        gained: Array.from(after).filter(name => !before.has(name)),
+        lost: Array.from(before).filter(name => !after.has(name)),
+        previousPercent: Math.round(coveragePercent(previous) * 10) / 10,
+        currentPercent: Math.round(coveragePercent(current) * 10) / 10
+    };
+}
+
+/**
+ * 按类比较生命周期方法（类名 + 生命周期阶段，文件移动不算变化）
+ */
+function diffLifecycleClasses(previous: LifecycleMethodRecord[], current: LifecycleMethodRecord[]): LifecycleClassDelta[] {
+    type ClassEntry = { className: string; filePath: string; phases: Set<string> };
+    const group = (methods: LifecycleMethodRecord[]): Map<string, ClassEntry> => {
+        const classes = new Map<string, ClassEntry>();
+        for (const method of methods) {
+            const key = `${method.filePath}\0${method.className}`;
+            const entry = classes.get(key) ?? { className: method.className, filePath: method.filePath, phases: new Set<string>() };
+            entry.phases.add(method.phase);
+            classes.set(key, entry);
+        }
+        return classes;
+    };
+    const before = group(previous);
+    const after = group(current);
+
+    const deltas: LifecycleClassDelta[] = [];
+    for (const key of new Set([...before.keys(), ...after.keys()])) {
+        const old = before.get(key)?.phases ?? new Set<string>();
+        const now = after.get(key)?.phases ?? new Set<string>();
+        const added = Array.from(now).filter(phase => !old.has(phase)).sort();
+        const removed = Array.from(old).filter(phase => !now.has(phase)).sort();
+        if (added.length > 0 || removed.length > 0) {
+            const { className, filePath } = (after.get(key) ?? before.get(key))!;
+            deltas.push({ className, filePath, added, removed });
+        }
+    }
+    return deltas.sort((a, b) => a.className.localeCompare(b.className) || a.filePath.localeCompare(b.filePath));
+}
+
+/**
+ * 按源方法（文件 + 类名.生命周期阶段）比较数据流的调用目标（不含行号，同一目标多次调用视为一条）
+ */
+function diffDataFlows(previous: DataFlowInfo[], current: DataFlowInfo[]): DataFlowDelta[] {
+    type MethodEntry = { method: string; filePath: string; targets: Set<string> };
+    const group = (flows: DataFlowInfo[]): Map<string, MethodEntry> => {
+        const methods = new Map<string, MethodEntry>();
+        for (const flow of flows) {
+            const key = `${flow.filePath}\0${flow.from}`;
+            const entry = methods.get(key) ?? { method: flow.from, filePath: flow.filePath, targets: new Set<string>() };
+            entry.targets.add(flow.to);
+            methods.set(key, entry);
+        }
+        return methods;
+    };
+    const before = group(previous);
+    const after = group(current);
+
+    const deltas: DataFlowDelta[] = [];
+    for (const key of new Set([...before.keys(), ...after.keys()])) {
+        const old = before.get(key)?.targets ?? new Set<string>();
+        const now = after.get(key)?.targets ?? new Set<string>();
+        const added = Array.from(now).filter(to => !old.has(to)).sort();
+        const removed = Array.from(old).filter(to => !now.has(to)).sort();
+        if (added.length > 0 || removed.length > 0) {
+            const { method, filePath } = (after.get(key) ?? before.get(key))!;
+            deltas.push({ method, filePath, added, removed });
+        }
+    }
+    return deltas.sort((a, b) => a.method.localeCompare(b.method) || a.filePath.localeCompare(b.filePath));
+}
+
+/**
+ * 比较两次分析结果
+ */
+export function diffResults(previous: AnalysisResult, current: AnalysisResult): ResultDiff {
+    const previousIssues = collectIssues(previous);
+    const currentIssues = collectIssues(current);
+    return {
+        newIssues: subtract(currentIssues, previousIssues),
+        resolvedIssues: subtract(previousIssues, currentIssues),
+        coverage: {
+            ability: diffCoverage(previous.coverage.ability, current.coverage.ability),
+            component: diffCoverage(previous.coverage.component, current.coverage.component),
+            callback: diffCoverage(previous.coverage.callback, current.coverage.callback)
+        },
+        lifecycleMethodDelta: current.lifecycleMethods.length - previous.lifecycleMethods.length,
+        lifecycleClasses: diffLifecycleClasses(previous.lifecycleMethods, current.lifecycleMethods),
+        dataFlows: diffDataFlows(previous.dataFlows, current.dataFlows)
+    };
+}
+
+/**
+ * 差异的一行摘要，如「2 个新问题，1 个已解决，覆盖 +1 种生命周期」
+ */
+export function summarizeDiff(diff: ResultDiff): string {
+    const parts = [t('diff.summary.new', { count: diff.newIssues.length }), t('diff.summary.resolved', { count: diff.resolvedIssues.length })];
+    const coverage = [diff.coverage.ability, diff.coverage.component, diff.coverage.callback];
+    const coverageDelta = coverage.reduce((sum, delta) => sum + delta.gained.length - delta.lost.length, 0);
+    if (coverage.some(delta => delta.gained.length > 0 || delta.lost.length > 0)) {
+        parts.push(t('diff.summary.coverage', { delta: `${coverageDelta >= 0 ? '+' : ''}${coverageDelta}` }));
+    }
+    if (diff.lifecycleMethodDelta !== 0) {
+        parts.push(t('diff.summary.methods', { delta: `${diff.lifecycleMethodDelta > 0 ? '+' : ''}${diff.lifecycleMethodDelta}` }));
+    }
+    return parts.join(t('diff.summary.separator'));
+}
@@ -0,0 +1,54 @@
+// resultFile.ts - 完整分析结果的 JSON 文件
+// export Pass 写出本次的 AnalysisResult，diff 子命令读取两次的结果文件进行比较
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { AnalysisResult } from './types';
+import { t } from './i18n';
+import { SCHEMA_VERSION, serializeExport } from './exportSchemas';
+import { detectExportKind, migrateExport } from './schemaMigration';
+
+/**
+ * 结果文件名；diff 子命令的参数为目录时读取其中的该文件
+ */
+export const RESULT_FILE_NAME = 'openeye-result-v3.json';
+
+/**
+ * 导出完整分析结果（格式见 schemas/result.schema.json）；失败时抛出，由 export Pass 记录为诊断
+ */
+export function exportResultJson(result: AnalysisResult, outputPath: string, log: Logger = console.log): void {
+    log(`\n💾 ${t('export.result.start')}...`);
+
+    try {
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, serializeExport('result', { schemaVersion: SCHEMA_VERSION, ...result }), 'utf-8');
+
+        log(`   ✓ ${t('export.result.done', { path: outputPath })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
+
+/**
+ * 读取结果文件（`resultPath` 为目录时读取其中的 openeye-result-v3.json），旧版本的文件先升级到当前格式
+ */
+export function loadResultFile(resultPath: string): AnalysisResult {
+    const filePath = fs.existsSync(resultPath) && fs.statSync(resultPath).isDirectory()
+        ? path.join(resultPath, RESULT_FILE_NAME)
+        : resultPath;
+    if (!fs.existsSync(filePath)) {
+        throw new Error(t('result.error.missing', { path: filePath }));
+    }
+
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (detectExportKind(raw) !== 'result') {
+        throw new Error(t('result.error.invalid', { path: filePath, name: RESULT_FILE_NAME }));
+    }
+    return migrateExport('result', raw).data as unknown as AnalysisResult;
+}
@@ -0,0 +1,107 @@
+// resultMerge.ts - 按文件合并分析结果
+// 监听模式只重新分析受影响的文件，用其结果替换上次结果中这些文件的部分
+import {
+    AnalysisResult,
+    CoverageStats,
+    Diagnostic,
+    LifecycleMethodRecord,
+    LifecycleType,
+    MethodAnalysisSummary,
+    UNDEFINED_ACCESS_RULE
+} from './types';
+
+/**
+ * 按本次的生命周期方法重新统计一类生命周期的覆盖情况
+ */
+function recountCoverage(previous: CoverageStats[], methods: LifecycleMethodRecord[], type: LifecycleType): CoverageStats[] {
+    return previous.map(stat => {
+        const records = methods.filter(lm => lm.type === type && lm.phase === stat.methodName);
+        return {
+            ...stat,
+            isUsed: records.length > 0,
+            usageCount: records.length,
+            classes: Array.from(new Set(records.map(lm => lm.className))),
+            files: Array.from(new Set(records.map(lm => lm.filePath)))
+        };
+    });
+}
+
+/**
+ * 按合并后的生命周期方法数和诊断重新统计各 Pass 分析的方法数
+ *
+ * 失败数按逐个方法记录的诊断统计；跳过（无 CFG）的方法没有按文件记录，沿用上次完整分析的值
+ */
+function recountMethodSummaries(
+    previous: Record<string, MethodAnalysisSummary>,
+    partial: Record<string, MethodAnalysisSummary>,
+    methodCount: number,
+    errors: Diagnostic[]
+): Record<string, MethodAnalysisSummary> {
+    const passes = new Set([...Object.keys(previous), ...Object.keys(partial)]);
+    return Object.fromEntries(Array.from(passes).map(pass => {
+        const failed = errors.filter(error => error.pass === pass && error.method !== null).length;
+        const skipped = Math.min((previous[pass] ?? partial[pass]).skipped, methodCount - failed);
+        return [pass, { analyzed: methodCount - skipped - failed, skipped, failed }];
+    }));
+}
+
+/**
+ * 用 `partial`（只分析了 `files` 的结果）替换 `previous` 中这些文件的结果
+ *
+ * 生命周期方法、问题、抑制记录、数据流和诊断按文件替换，Ability / Component 覆盖、生命周期方法数、
+ * 问题数和各 Pass 的方法统计由合并后的内容重新统计；调用图、模块统计、排除记录、基线摘要和其余统计数字
+ * 需要完整的 Scene，保留上次完整分析的值。
+ */
+export function mergeFileResults(previous: AnalysisResult, partial: AnalysisResult, files: Set<string>): AnalysisResult {
+    const inFiles = (filePath: string | null): boolean => filePath !== null && files.has(filePath);
+
+    const updatedMethods = partial.lifecycleMethods.filter(lm => inFiles(lm.filePath));
+    const lifecycleMethods = [...previous.lifecycleMethods.filter(lm => !inFiles(lm.filePath)), ...updatedMethods];
+    const dataFlows = [
+        ...previous.dataFlows.filter(flow => !inFiles(flow.filePath)),
+        ...partial.dataFlows.filter(flow => inFiles(flow.filePath))
+    ];
+    // 不属于任何文件的诊断（如调用图构建失败）以本次为准
+    const errors = [
+        ...previous.diagnostics.errors.filter(error => error.filePath !== null && !inFiles(error.filePath)),
+        ...partial.diagnostics.errors.filter(error => error.filePath === null || inFiles(error.filePath))
+    ];
+    // 问题数包含被抑制和被基线过滤的问题：减去这些文件上次的问题，加上本次的
+    const issuesInFiles = (result: AnalysisResult): number =>
+        result.undefinedIssues.filter(issue => inFiles(issue.filePath)).length +
+        result.suppressed.filter(item => item.ruleId === UNDEFINED_ACCESS_RULE && inFiles(item.filePath)).length;
+
+    return {
+        ...previous,
+        generatedAt: partial.generatedAt,
+        stats: {
+            ...previous.stats,
+            lifecycleMethods: lifecycleMethods.length,
+            dataFlowPaths: dataFlows.length,
+            undefinedIssues: previous.stats.undefinedIssues - issuesInFiles(previous) + issuesInFiles(partial)
+        },
+        lifecycleMethods,
+        coverage: {
+            ability: recountCoverage(previous.coverage.ability, lifecycleMethods, LifecycleType.ABILITY),
+            component: recountCoverage(previous.coverage.component, lifecycleMethods, LifecycleType.COMPONENT),
+            callback: previous.coverage.callback
+        },
+        undefinedIssues: [
+            ...previous.undefinedIssues.filter(issue => !inFiles(issue.filePath)),
+            ...partial.undefinedIssues.filter(issue => inFiles(issue.filePath))
+        ],
+        dataFlows,
+        findings: [
+            ...previous.findings.filter(finding => !inFiles(finding.filePath)),
+            ...partial.findings.filter(finding => inFiles(finding.filePath))
+        ],
+        suppressed: [
+            ...previous.suppressed.filter(item => !inFiles(item.filePath)),
+            ...partial.suppressed.filter(item => inFiles(item.filePath))
+        ],
+        diagnostics: {
+            errors,
+            methods: recountMethodSummaries(previous.diagnostics.methods, partial.diagnostics.methods, lifecycleMethods.length, errors)
+        }
+    };
+}
@@ -0,0 +1,227 @@
+// sarifExport.ts - SARIF 2.1.0 导出
+// 代码评审工具和 IDE 的 SARIF 查看器可以直接加载未定义变量问题和自定义规则结果
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { ANALYZER_VERSION, AnalysisResult, Severity, SourceSnippet, UNDEFINED_ACCESS_RULE, LISTENER_CLEANUP_RULE } from './types';
+import { fingerprintFinding, fingerprintIssue } from './baseline';
+import { formatMessage, hasMessage, languageTag, t } from './i18n';
+
+/**
+ * SARIF 的结果级别
+ */
+type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * assessSeverity() 的严重程度到 SARIF 级别的映射
+ */
+export const SEVERITY_TO_LEVEL: Record<Severity, SarifLevel> = {
+    high: 'error',
+    medium: 'warning',
+    low: 'note'
+};
+
+/**
+ * 内置规则名称；规则说明取自消息目录的 `rule.<规则 ID>.short` / `rule.<规则 ID>.full`
+ */
+const BUILTIN_RULE_NAMES: Record<string, string> = {
+    [UNDEFINED_ACCESS_RULE]: 'UndefinedAccess',
+    [LISTENER_CLEANUP_RULE]: 'ListenerWithoutCleanup'
+};
+
+/**
+ * 统一的 SARIF 结果输入
+ */
+interface SarifIssue {
+    ruleId: string;
+    message: string;
+    severity: Severity;
+    filePath: string;
+    line: number;
+    column: number;
+    qualifiedName: string;
+    fingerprint: string;
+    snippet?: SourceSnippet;
+    /** 行内抑制注释的理由，未被抑制时为 undefined */
+    suppression?: string;
+    properties: Record<string, unknown>;
+}
+
+/**
+ * JavaScript 堆栈转换为 SARIF stack 对象（每帧一个 location.message）
+ */
+function toSarifStack(stack: string): object {
+    const frames = stack.split('\n')
+        .map(line => line.trim())
+        .filter(line => line.startsWith('at '))
+        .map(line => ({ location: { message: { text: line } } }));
+    return { frames };
+}
+
+/**
+ * 构造 SARIF 日志对象
+ */
+export function buildSarifLog(result: AnalysisResult): object {
+    const issues: SarifIssue[] = [
+        ...result.undefinedIssues.map(issue => ({
+            ruleId: issue.ruleId,
+            message: issue.description,
+            severity: issue.severity,
+            filePath: issue.filePath,
+            line: issue.line,
+            column: issue.column,
+            qualifiedName: issue.method,
+            fingerprint: fingerprintIssue(issue),
+            snippet: issue.snippet,
+            properties: {
+                severity: issue.severity,
+                lifecyclePhase: issue.phase,
+                module: issue.module,
+                statement: issue.statement
+            }
+        })),
+        ...result.findings.map(finding => ({
+            ruleId: finding.ruleId,
+            message: finding.message,
+            severity: finding.severity,
+            filePath: finding.filePath,
+            line: finding.line,
+            column: finding.column ?? 0,
+            qualifiedName: `${finding.className}.${finding.method}`,
+            fingerprint: fingerprintFinding(finding),
+            snippet: finding.snippet,
+            properties: { severity: finding.severity }
+        })),
+        // 被抑制的问题仍写入结果，由 suppressions 标记，查看器默认隐藏
+        ...result.suppressed.map(item => ({
+            ruleId: item.ruleId,
+            message: item.message,
+            severity: item.severity,
+            filePath: item.filePath,
+            line: item.line,
+            column: item.column,
+            qualifiedName: item.method,
+            fingerprint: '',
+            suppression: item.reason,
+            properties: { severity: item.severity }
+        }))
+    ];
+
+    const ruleIds = Array.from(new Set([UNDEFINED_ACCESS_RULE, ...issues.map(issue => issue.ruleId)]));
+    const rules = ruleIds.map(id => {
+        const shortKey = `rule.${id}.short`;
+        const fullKey = `rule.${id}.full`;
+        return {
+            id,
+            name: BUILTIN_RULE_NAMES[id] ?? id,
+            shortDescription: { text: hasMessage(shortKey) ? formatMessage(shortKey) : id },
+            fullDescription: { text: hasMessage(fullKey) ? formatMessage(fullKey) : t('sarif.customRule', { id }) },
+            defaultConfiguration: { level: 'warning' }
+        };
+    });
+
+    const srcRoot = pathToFileURL(path.resolve(result.projectDirectory)).href.replace(/\/?$/, '/');
+
+    return {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'openeye-analyze',
+                    version: ANALYZER_VERSION,
+                    rules
+                }
+            },
+            language: languageTag(),
+            originalUriBaseIds: {
+                SRCROOT: { uri: srcRoot }
+            },
+            // 分析器内部错误作为工具执行通知，而不是结果
+            invocations: [{
+                executionSuccessful: result.diagnostics.errors.length === 0,
+                toolExecutionNotifications: result.diagnostics.errors.map(error => ({
+                    level: 'error',
+                    message: { text: `[${error.pass}] ${error.method ?? t('report.diagnostics.passExecution')}: ${error.message}` },
+                    ...(error.stack ? { exception: { message: error.message, stack: toSarifStack(error.stack) } } : {})
+                }))
+            }],
+            results: issues.map(issue => {
+                const region: Record<string, unknown> = {};
+                if (issue.line > 0) {
+                    region.startLine = issue.line;
+                    if (issue.column > 0) {
+                        region.startColumn = issue.column;
+                    }
+                }
+                const snippet = issue.snippet;
+                if (snippet) {
+                    // 片段标出的表达式作为结果区域，前后几行作为上下文区域
+                    const text = snippet.lines[snippet.line - snippet.startLine];
+                    region.startColumn = snippet.column;
+                    if (snippet.length > 0) {
+                        region.endColumn = snippet.column + snippet.length;
+                    }
+                    region.snippet = { text };
+                }
+                const contextRegion = snippet
+                    ? {
+                        startLine: snippet.startLine,
+                        endLine: snippet.startLine + snippet.lines.length - 1,
+                        snippet: { text: snippet.lines.join('\n') }
+                    }
+                    : undefined;
+                return {
+                    ruleId: issue.ruleId,
+                    ruleIndex: ruleIds.indexOf(issue.ruleId),
+                    level: SEVERITY_TO_LEVEL[issue.severity],
+                    message: { text: issue.message },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: {
+                                uri: issue.filePath.replace(/\\/g, '/').split('/').map(encodeURIComponent).join('/'),
+                                uriBaseId: 'SRCROOT'
+                            },
+                            ...(Object.keys(region).length > 0 ? { region } : {}),
+                            ...(contextRegion ? { contextRegion } : {})
+                        },
+                        logicalLocations: [{
+                            fullyQualifiedName: issue.qualifiedName,
+                            kind: 'function'
+                        }]
+                    }],
+                    // 与基线使用同一指纹，不随行号变化
+                    ...(issue.fingerprint ? { partialFingerprints: { 'openeye/v1': issue.fingerprint } } : {}),
+                    ...(issue.suppression !== undefined
+                        ? { suppressions: [{ kind: 'inSource', justification: issue.suppression }] }
+                        : {}),
+                    properties: issue.properties
+                };
+            })
+        }]
+    };
+}
+
+/**
+ * 导出 SARIF 文件
+ */
+export function exportIssuesToSarif(result: AnalysisResult, outputPath: string, log: Logger = console.log): void {
+    log(`\n📤 ${t('export.sarif.start')}...`);
+
+    try {
+        const outputDir = path.dirname(outputPath);
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+
+        fs.writeFileSync(outputPath, JSON.stringify(buildSarifLog(result), null, 2), 'utf-8');
+
+        log(`   ✓ ${t('export.sarif.done', { path: outputPath })}`);
+        log(`   📊 ${t('export.sarif.issues', { count: result.undefinedIssues.length + result.findings.length })}`);
+    } catch (error) {
+        console.error(`   ✗ ${t('export.failed', { error: String(error) })}`);
+        throw error;
+    }
+}
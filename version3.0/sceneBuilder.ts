@@ -0,0 +1,75 @@
+// sceneBuilder.ts - Scene 与生命周期调用图的构建
+// 主线程和并行分析的工作线程共用同一套构建步骤，保证工作线程中的 Scene 与串行分析一致
+import { Scene, SceneConfig, ArkMethod, DummyMainCreater, CallGraph, MethodSignature } from "../../arkanalyzer/src/index";
+
+/**
+ * 计时执行一个构建步骤（未开启性能分析时直接执行）
+ */
+export type StepMeasure = <T>(name: string, fn: () => T) => T;
+
+/**
+ * 生命周期调用图的构建结果
+ */
+export interface LifecycleCallGraph {
+    callGraph: CallGraph | null;
+    /** DummyMainCreater 生成的入口方法签名 */
+    dummyMainSignature: string;
+    /** Scene 中没有 @dummyMain 方法，改用生命周期方法作为入口 */
+    fallback: boolean;
+}
+
+const runStep: StepMeasure = (_name, fn) => fn();
+
+/**
+ * 按配置构建 Scene 并完成类型推导，`beforeInfer` 在类型推导前调用（主线程用于输出步骤日志）
+ */
+export function buildScene(config: SceneConfig, measure: StepMeasure = runStep, beforeInfer: () => void = () => undefined): Scene {
+    const scene = new Scene();
+    measure('Scene.buildBasicInfo', () => scene.buildBasicInfo(config));
+    measure('Scene.buildSceneFromProjectDir', () => scene.buildSceneFromProjectDir(config));
+    beforeInfer();
+    measure('Scene.inferTypes', () => scene.inferTypes());
+    return scene;
+}
+
+/**
+ * 只用项目中的部分文件构建 Scene 并完成类型推导（监听模式重新分析受影响的文件）
+ *
+ * `files` 为绝对路径，应包含要分析的文件及其导入的文件；SDK 与 `config` 相同
+ */
+export function buildSceneFromFiles(config: SceneConfig, files: string[], measure: StepMeasure = runStep): Scene {
+    const fileConfig = new SceneConfig();
+    fileConfig.buildFromProjectFiles(config.getTargetProjectName(), config.getTargetProjectDirectory(), files, config.getSdksObj());
+    const scene = new Scene();
+    measure('Scene.buildSceneFromFiles', () => scene.buildSceneFromFiles(fileConfig));
+    measure('Scene.inferTypes', () => scene.inferTypes());
+    return scene;
+}
+
+/**
+ * 用 DummyMainCreater 生成 @dummyMain 并以它为入口构建 CHA 调用图
+ *
+ * 生成 @dummyMain 会向 Scene 中加入方法，工作线程需要执行同样的步骤；
+ * 没有 @dummyMain 时以 `fallbackEntries`（全部生命周期方法）为入口，入口为空时不构建调用图
+ */
+export function buildLifecycleCallGraph(
+    scene: Scene,
+    fallbackEntries: MethodSignature[],
+    measure: StepMeasure = runStep
+): LifecycleCallGraph {
+    const dummyMainCreater = new DummyMainCreater(scene);
+    measure('DummyMainCreater.createDummyMain', () => dummyMainCreater.createDummyMain());
+    const dummyMainSignature = String(dummyMainCreater.getDummyMain().getSignature());
+
+    const entryPoints = scene.getMethods()
+        .filter((m: ArkMethod) => m.getName() === '@dummyMain')
+        .map((m: ArkMethod) => m.getSignature());
+    if (entryPoints.length > 0) {
+        return { callGraph: measure('makeCallGraphCHA', () => scene.makeCallGraphCHA(entryPoints)), dummyMainSignature, fallback: false };
+    }
+    return {
+        callGraph: fallbackEntries.length > 0 ? measure('makeCallGraphCHA', () => scene.makeCallGraphCHA(fallbackEntries)) : null,
+        dummyMainSignature,
+        fallback: true
+    };
+}
@@ -0,0 +1,222 @@
+// schemaMigration.ts - 旧版本导出文件的升级
+// 按 schemaVersion 逐版本升级到当前格式，下游工具读取旧文件前可先调用 migrateExport / migrate 子命令
+import * as fs from 'fs';
+
+import type { Logger } from './analyzeOpenEyeLifecycle';
+import { ExportKind, SCHEMA_VERSION, assertValidExport, validateExport } from './exportSchemas';
+import { buildDataFlowExport } from './dataFlowExport';
+import { DataFlowInfo, UNDEFINED_ACCESS_RULE } from './types';
+import { t } from './i18n';
+
+/**
+ * 导出文件的 JSON 内容
+ */
+type ExportData = Record<string, unknown>;
+
+/**
+ * 单个版本的升级步骤：输入版本 n 的内容，返回版本 n + 1 的内容
+ */
+type Migration = (data: ExportData) => ExportData;
+
+/**
+ * 升级结果
+ */
+export interface MigrationResult {
+    kind: ExportKind;
+    /** 升级前的版本，0 表示没有 schemaVersion 的旧文件 */
+    fromVersion: number;
+    data: ExportData;
+}
+
+function isRecord(value: unknown): value is ExportData {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 升级数组中的对象元素；其他值原样保留，由升级后的 Schema 校验报错
+ */
+function mapRecords(value: unknown, migrate: (item: ExportData) => ExportData): unknown {
+    return Array.isArray(value) ? value.map(item => isRecord(item) ? migrate(item) : item) : value;
+}
+
+/**
+ * 版本 1 的数据流还没有 filePath
+ */
+type DataFlowV1 = Omit<DataFlowInfo, 'filePath'>;
+
+function isDataFlow(value: unknown): value is DataFlowV1 {
+    return isRecord(value) && typeof value.from === 'string' && typeof value.to === 'string' &&
+        typeof value.variable === 'string' && typeof value.line === 'number' &&
+        Array.isArray(value.callChain) && value.callChain.every(item => typeof item === 'string');
+}
+
+/**
+ * 把 schemaVersion 放在最前面
+ */
+function withVersion(data: ExportData, version: number): ExportData {
+    const { schemaVersion: _previous, ...rest } = data;
+    return { schemaVersion: version, ...rest };
+}
+
+/**
+ * 版本 0 → 1：旧版 dataflow-v3.json 只有 allFlows 可靠，分组和元数据缺失时由 allFlows 重建
+ */
+function migrateDataFlowV0(data: ExportData): ExportData {
+    const allFlows = Array.isArray(data.allFlows) ? data.allFlows : [];
+    const metadata = isRecord(data.metadata) ? data.metadata : {};
+    const rebuilt = buildDataFlowExport(
+        allFlows.filter(isDataFlow).map(flow => ({ filePath: '', ...flow })),
+        typeof metadata.lifecycleMethods === 'number' ? metadata.lifecycleMethods : 0,
+        typeof metadata.timestamp === 'string' ? metadata.timestamp : undefined
+    );
+    return withVersion({
+        ...data,
+        metadata: { ...rebuilt.metadata, ...metadata },
+        dataFlowsByMethod: Array.isArray(data.dataFlowsByMethod) ? data.dataFlowsByMethod : rebuilt.dataFlowsByMethod,
+        allFlows
+    }, 1);
+}
+
+/**
+ * 版本 0 → 1：补齐早期 analyzeProject() 结果中还没有的字段
+ */
+function migrateResultV0(data: ExportData): ExportData {
+    return withVersion({
+        steps: [],
+        findings: [],
+        exclusions: { files: [], classes: [] },
+        modules: { modules: [], summaries: [], crossModuleCalls: [] },
+        callGraph: null,
+        diagnostics: { errors: [], methods: {} },
+        suppressed: [],
+        baseline: null,
+        incremental: null,
+        profile: null,
+        ...data,
+        lifecycleMethods: mapRecords(data.lifecycleMethods, method => ({ module: '', ...method })),
+        undefinedIssues: mapRecords(data.undefinedIssues, issue => ({
+            ruleId: UNDEFINED_ACCESS_RULE,
+            className: '',
+            phase: '',
+            module: '',
+            column: 0,
+            statement: '',
+            ...issue
+        }))
+    }, 1);
+}
+
+/**
+ * 版本 1 → 2：数据流补充来源方法所在文件，旧文件中无从得知，留空
+ */
+function migrateDataFlowV1(data: ExportData): ExportData {
+    return withVersion({
+        ...data,
+        dataFlowsByMethod: mapRecords(data.dataFlowsByMethod, group => ({ filePath: '', ...group })),
+        allFlows: mapRecords(data.allFlows, flow => ({ filePath: '', ...flow }))
+    }, 2);
+}
+
+/**
+ * 版本 1 → 2：数据流按来源的生命周期方法补充所在文件；同名方法出现在多个文件中时无法确定，留空
+ */
+function migrateResultV1(data: ExportData): ExportData {
+    const files = new Map<string, string>();
+    const ambiguous = new Set<string>();
+    for (const method of Array.isArray(data.lifecycleMethods) ? data.lifecycleMethods : []) {
+        if (!isRecord(method) || typeof method.filePath !== 'string') {
+            continue;
+        }
+        const name = `${method.className}.${method.phase}`;
+        if (files.has(name) && files.get(name) !== method.filePath) {
+            ambiguous.add(name);
+        }
+        files.set(name, method.filePath);
+    }
+    return withVersion({
+        ...data,
+        dataFlows: mapRecords(data.dataFlows, flow => {
+            const from = String(flow.from);
+            return { filePath: ambiguous.has(from) ? '' : files.get(from) ?? '', ...flow };
+        })
+    }, 2);
+}
+
+/**
+ * 各导出文件的升级步骤，下标为升级前的版本
+ */
+const MIGRATIONS: Record<ExportKind, Migration[]> = {
+    dataflow: [migrateDataFlowV0, migrateDataFlowV1],
+    // 问题、覆盖和调用图文件与 schemaVersion 同时加入，没有版本 0
+    issues: [data => withVersion(data, 1), data => withVersion(data, 2)],
+    coverage: [data => withVersion(data, 1), data => withVersion(data, 2)],
+    callgraph: [data => withVersion(data, 1), data => withVersion(data, 2)],
+    result: [migrateResultV0, migrateResultV1]
+};
+
+/**
+ * 按内容判断导出文件的类型，无法识别时返回 null
+ */
+export function detectExportKind(data: unknown): ExportKind | null {
+    if (!isRecord(data)) {
+        return null;
+    }
+    if (Array.isArray(data.allFlows)) {
+        return 'dataflow';
+    }
+    if (data.stats && Array.isArray(data.lifecycleMethods) && Array.isArray(data.undefinedIssues) && data.coverage) {
+        return 'result';
+    }
+    if (Array.isArray(data.nodes) && Array.isArray(data.edges)) {
+        return 'callgraph';
+    }
+    if (Array.isArray(data.lifecycleMethods) && data.coverage) {
+        return 'coverage';
+    }
+    if (Array.isArray(data.undefinedIssues) && Array.isArray(data.findings)) {
+        return 'issues';
+    }
+    return null;
+}
+
+/**
+ * 把导出内容升级到当前版本并按 Schema 校验；已是当前版本时只校验
+ */
+export function migrateExport(kind: ExportKind, data: unknown): MigrationResult {
+    if (!isRecord(data)) {
+        throw new Error(t('schema.error.invalid', { kind, errors: validateExport(kind, data).join('; ') }));
+    }
+    let current = data;
+    const fromVersion = typeof current.schemaVersion === 'number' ? current.schemaVersion : 0;
+    if (!Number.isInteger(fromVersion) || fromVersion < 0 || fromVersion > SCHEMA_VERSION) {
+        throw new Error(t('schema.error.version', { kind, version: String(current.schemaVersion), supported: SCHEMA_VERSION }));
+    }
+    for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+        current = MIGRATIONS[kind][version](current);
+    }
+    assertValidExport(kind, current);
+    return { kind, fromVersion, data: current };
+}
+
+/**
+ * 原地升级一个导出文件，返回是否改写了文件
+ */
+export function migrateExportFile(filePath: string, log: Logger = console.log): boolean {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(t('result.error.missing', { path: filePath }));
+    }
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const kind = detectExportKind(raw);
+    if (!kind) {
+        throw new Error(t('schema.error.unknownFile', { path: filePath }));
+    }
+
+    const result = migrateExport(kind, raw);
+    if (result.fromVersion === SCHEMA_VERSION) {
+        log(`   ✓ ${t('schema.migrate.current', { path: filePath, kind, version: SCHEMA_VERSION })}`);
+        return false;
+    }
+    fs.writeFileSync(filePath, JSON.stringify(result.data, null, 2), 'utf-8');
+    log(`   ✓ ${t('schema.migrate.done', { path: filePath, kind, from: result.fromVersion, to: SCHEMA_VERSION })}`);
+    return true;
+}
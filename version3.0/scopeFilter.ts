@@ -0,0 +1,140 @@
+// scopeFilter.ts - 分析范围过滤
+// 用配置中的 include / exclude 通配符和类名模式决定哪些文件、类参与分析
+import { Exclusion } from './types';
+import { t } from './i18n';
+
+/**
+ * 范围过滤配置
+ */
+export interface ScopeConfig {
+    /** 文件路径通配符，未匹配任何一项的文件被排除 */
+    include: string[];
+    /** 文件路径通配符，匹配任意一项的文件被排除 */
+    exclude: string[];
+    /** 类名通配符，匹配任意一项的类被排除 */
+    excludeClasses: string[];
+}
+
+/**
+ * 默认范围：分析全部文件，只排除测试目录、构建产物、三方依赖和编译器生成的默认类 / 匿名类
+ */
+export const DEFAULT_SCOPE: ScopeConfig = {
+    include: ['**'],
+    exclude: ['**/test/**', '**/ohosTest/**', '**/*.test.ets', '**/*.test.ts', '**/oh_modules/**', '**/build/**', '**/.hvigor/**'],
+    excludeClasses: ['*_DEFAULT_*', '*%AC*', '*%dflt*']
+};
+
+/**
+ * 将通配符转换为正则表达式
+ *
+ * 支持 `**`（跨目录）、`*`（目录内任意字符）、`?`（单个字符）和 `{a,b}`（多选）。
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` 可匹配零个或多个目录
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else if (ch === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (ch === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (ch === ',' && inGroup) {
+            source += '|';
+        } else {
+            source += ch.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * 文件与类的范围过滤器，记录每一次排除及其规则
+ */
+export class ScopeFilter {
+    private include: Array<{ glob: string; regex: RegExp }>;
+    private exclude: Array<{ glob: string; regex: RegExp }>;
+    private excludeClasses: Array<{ glob: string; regex: RegExp }>;
+    private excludedFiles: Map<string, string> = new Map();
+    private excludedClasses: Map<string, string> = new Map();
+    /** 监听模式下只重新分析的文件，为 null 时不限制 */
+    private only: Set<string> | null = null;
+
+    constructor(config: Partial<ScopeConfig> = {}) {
+        const compile = (globs: string[]) => globs.map(glob => ({ glob, regex: globToRegExp(glob) }));
+        this.include = compile(config.include ?? DEFAULT_SCOPE.include);
+        this.exclude = compile(config.exclude ?? DEFAULT_SCOPE.exclude);
+        this.excludeClasses = compile(config.excludeClasses ?? DEFAULT_SCOPE.excludeClasses);
+    }
+
+    /**
+     * 只接受 `files` 中的文件（相对项目目录，/ 分隔）；其余文件直接跳过，不记为排除
+     */
+    public restrictTo(files: Iterable<string>): void {
+        this.only = new Set(files);
+    }
+
+    /**
+     * 文件是否参与分析；不参与时记录排除规则
+     */
+    public acceptFile(filePath: string): boolean {
+        const normalized = filePath.replace(/\\/g, '/');
+        if (this.only && !this.only.has(normalized)) {
+            return false;
+        }
+        let rule: string | null = null;
+
+        if (!this.include.some(p => p.regex.test(normalized))) {
+            rule = `include (${t('scope.includeUnmatched', { patterns: this.include.map(p => p.glob).join(', ') })})`;
+        } else {
+            const matched = this.exclude.find(p => p.regex.test(normalized));
+            if (matched) {
+                rule = `exclude: ${matched.glob}`;
+            }
+        }
+
+        if (rule) {
+            this.excludedFiles.set(normalized, rule);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * 类是否参与分析；不参与时记录排除规则
+     */
+    public acceptClass(className: string, filePath: string): boolean {
+        const matched = this.excludeClasses.find(p => p.regex.test(className));
+        if (matched) {
+            this.excludedClasses.set(`${filePath.replace(/\\/g, '/')}#${className}`, `excludeClasses: ${matched.glob}`);
+            return false;
+        }
+        return true;
+    }
+
+    public getExcludedFiles(): Exclusion[] {
+        return Array.from(this.excludedFiles.entries()).map(([target, rule]) => ({ target, rule }));
+    }
+
+    public getExcludedClasses(): Exclusion[] {
+        return Array.from(this.excludedClasses.entries()).map(([target, rule]) => ({ target, rule }));
+    }
+}
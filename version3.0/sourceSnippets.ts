@@ -0,0 +1,102 @@
+// sourceSnippets.ts - 问题所在的 ArkTS 源码片段
+// IR 语句难以对应回源码，报告中为每个问题附上出错行前后的源码并标出出错的表达式
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { SourceSnippet } from './types';
+
+/**
+ * 出错行前后各显示的行数
+ */
+export const SNIPPET_CONTEXT_LINES = 2;
+
+/**
+ * 从列号处开始的表达式：标识符，后接 `.x` / `?.x` / `!.x`、调用参数或下标
+ */
+const EXPRESSION_PATTERN = /^[\w$]+(?:\s*(?:\?\.|!?\.)\s*[\w$]+|\([^()]*\)|\[[^[\]]*\])*/;
+
+/**
+ * 按文件缓存的源码（路径相对项目目录）
+ */
+export class SourceFiles {
+    private projectDirectory: string;
+    private files: Map<string, string[]> = new Map();
+
+    constructor(projectDirectory: string) {
+        this.projectDirectory = projectDirectory;
+    }
+
+    /**
+     * 读取源文件的各行，文件不存在时返回空数组
+     */
+    public getLines(filePath: string): string[] {
+        let lines = this.files.get(filePath);
+        if (!lines) {
+            const absolute = path.resolve(this.projectDirectory, filePath);
+            lines = fs.existsSync(absolute) ? fs.readFileSync(absolute, 'utf-8').split(/\r?\n/) : [];
+            this.files.set(filePath, lines);
+        }
+        return lines;
+    }
+
+    /**
+     * 取问题所在的源码片段，行号无效或文件无法读取时返回 undefined
+     */
+    public snippet(filePath: string, line: number, column: number = 0): SourceSnippet | undefined {
+        if (!filePath || line <= 0) {
+            return undefined;
+        }
+        return extractSnippet(this.getLines(filePath), line, column);
+    }
+}
+
+/**
+ * 从源码各行中截取片段；`column` 未知（≤ 0）或超出行长度时高亮整行去掉缩进后的内容
+ */
+export function extractSnippet(
+    lines: string[],
+    line: number,
+    column: number,
+    context: number = SNIPPET_CONTEXT_LINES
+): SourceSnippet | undefined {
+    if (line <= 0 || line > lines.length) {
+        return undefined;
+    }
+
+    const text = lines[line - 1];
+    const indent = text.length - text.trimStart().length;
+    const known = column > 0 && column <= text.length;
+    const start = known ? column - 1 : indent;
+    const expression = known ? text.substring(start).match(EXPRESSION_PATTERN)?.[0] : undefined;
+    const length = expression ? expression.length : Math.max(text.trimEnd().length - start, 0);
+
+    const startLine = Math.max(1, line - context);
+    const endLine = Math.min(lines.length, line + context);
+    return {
+        startLine,
+        lines: lines.slice(startLine - 1, endLine),
+        line,
+        column: start + 1,
+        length
+    };
+}
+
+/**
+ * 渲染为带行号的纯文本，出错行下方用 `^` 标出表达式（控制台和 Markdown 代码块使用）
+ */
+export function renderSnippetText(snippet: SourceSnippet): string[] {
+    const endLine = snippet.startLine + snippet.lines.length - 1;
+    const width = String(endLine).length;
+    const output: string[] = [];
+    snippet.lines.forEach((text, index) => {
+        const lineNumber = snippet.startLine + index;
+        const marker = lineNumber === snippet.line ? '>' : ' ';
+        output.push(`${marker} ${String(lineNumber).padStart(width)} | ${text}`);
+        if (lineNumber === snippet.line && snippet.length > 0) {
+            // 制表符保留原样，使 ^ 与上一行对齐
+            const padding = text.substring(0, snippet.column - 1).replace(/[^\t]/g, ' ');
+            output.push(`  ${' '.repeat(width)} | ${padding}${'^'.repeat(snippet.length)}`);
+        }
+    });
+    return output;
+}
@@ -0,0 +1,106 @@
+// suppressions.ts - 源码中的行内抑制注释
+// `// openeye-ignore <rule>[, <rule>]: 理由` 写在语句上一行或行尾，抑制该语句上的指定规则
+import { SourceFiles } from './sourceSnippets';
+
+/**
+ * 抑制注释格式
+ */
+const SUPPRESSION_PATTERN = /\/\/\s*openeye-ignore\s+([\w*-]+(?:\s*,\s*[\w*-]+)*)\s*(?::\s*(.*))?$/;
+
+/**
+ * 一条抑制注释
+ */
+export interface Suppression {
+    rules: string[];
+    /** 理由，未填写时为空字符串 */
+    reason: string;
+    /** 注释所在行（从 1 开始） */
+    line: number;
+}
+
+/**
+ * 解析单行中的抑制注释
+ */
+export function parseSuppression(text: string, line: number): Suppression | null {
+    const match = text.match(SUPPRESSION_PATTERN);
+    if (!match) {
+        return null;
+    }
+    return {
+        rules: match[1].split(',').map(rule => rule.trim()),
+        reason: (match[2] ?? '').trim(),
+        line
+    };
+}
+
+/**
+ * 单个源文件的内容和其中的抑制注释
+ */
+interface SourceFile {
+    lines: string[];
+    suppressions: Map<number, Suppression>;
+}
+
+/**
+ * 按文件缓存的抑制注释索引
+ */
+export class SuppressionIndex {
+    private sources: SourceFiles;
+    private files: Map<string, SourceFile> = new Map();
+
+    /**
+     * `sources` 可与源码片段共用，避免重复读取源文件
+     */
+    constructor(projectDirectory: string, sources: SourceFiles = new SourceFiles(projectDirectory)) {
+        this.sources = sources;
+    }
+
+    /**
+     * 查找作用于某行的抑制注释：同一行行尾，或上方紧邻的注释行（跳过空行）
+     */
+    public find(filePath: string, line: number, ruleId: string): Suppression | null {
+        if (!filePath || line <= 0) {
+            return null;
+        }
+        const { lines, suppressions } = this.load(filePath);
+        const matches = (s: Suppression | undefined): s is Suppression =>
+            !!s && (s.rules.includes(ruleId) || s.rules.includes('*'));
+
+        const sameLine = suppressions.get(line);
+        if (matches(sameLine)) {
+            return sameLine;
+        }
+        for (let current = Math.min(line - 1, lines.length); current >= 1; current--) {
+            // 上方只看独占一行的注释，其他语句的行尾注释不向下生效
+            const text = lines[current - 1].trim();
+            if (text !== '' && !text.startsWith('//')) {
+                break;
+            }
+            const suppression = suppressions.get(current);
+            if (matches(suppression)) {
+                return suppression;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 读取并解析源文件（路径相对项目目录），文件不存在时视为没有抑制注释
+     */
+    private load(filePath: string): SourceFile {
+        let file = this.files.get(filePath);
+        if (!file) {
+            const lines = this.sources.getLines(filePath);
+            const suppressions = new Map<number, Suppression>();
+            lines.forEach((text, index) => {
+                const suppression = parseSuppression(text, index + 1);
+                if (suppression) {
+                    suppressions.set(index + 1, suppression);
+                }
+            });
+            file = { lines, suppressions };
+            this.files.set(filePath, file);
+        }
+        return file;
+    }
+}
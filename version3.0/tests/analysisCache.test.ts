@@ -0,0 +1,139 @@
+// analysisCache.test.ts - 方法级缓存的依赖哈希与读写
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { AnalysisCache, CachedDataFlow, CachedStatementIssue, computeDependencyHashes, hashProjectFiles, parseImports } from '../analysisCache';
+import { ModuleInfo } from '../types';
+
+const MODULES: ModuleInfo[] = [
+    { name: 'entry', type: 'entry', srcPath: 'entry', packageName: 'entry', dependencies: ['common'] },
+    { name: 'common', type: 'shared', srcPath: 'common', packageName: '@app/common', dependencies: [] }
+];
+
+/**
+ * 在临时目录中创建项目文件，执行 `fn` 后删除
+ */
+function withProject(files: Record<string, string>, fn: (dir: string) => void): void {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-cache-'));
+    try {
+        for (const [file, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+            fs.writeFileSync(path.join(dir, file), content, 'utf-8');
+        }
+        fn(dir);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+function dependencyHashes(dir: string): Map<string, string> {
+    return computeDependencyHashes(dir, hashProjectFiles(dir), MODULES);
+}
+
+test('parseImports 提取静态、副作用、再导出和动态导入', () => {
+    const source = [
+        "import { a } from './a';",
+        "import type {\n  B\n} from '../b';",
+        "import './side';",
+        "export * from './reexport';",
+        "const lazy = import('./lazy');",
+        "import { emitter } from '@kit.BasicServicesKit';"
+    ].join('\n');
+    assert.deepEqual(parseImports(source), ['./a', '../b', './side', './reexport', './lazy', '@kit.BasicServicesKit']);
+});
+
+test('被导入文件变化时导入方的依赖哈希变化，无关文件不变', () => {
+    const files = {
+        'entry/src/main/ets/pages/Index.ets': "import { load } from '../model/Loader';\n",
+        'entry/src/main/ets/model/Loader.ets': "import { parse } from './Parser';\nexport function load() {}\n",
+        'entry/src/main/ets/model/Parser.ets': 'export function parse() {}\n',
+        'entry/src/main/ets/pages/About.ets': 'struct About {}\n'
+    };
+    let before = new Map<string, string>();
+    withProject(files, dir => {
+        before = dependencyHashes(dir);
+    });
+    withProject({ ...files, 'entry/src/main/ets/model/Parser.ets': 'export function parse() { return 1; }\n' }, dir => {
+        const after = dependencyHashes(dir);
+        // 间接导入（Index → Loader → Parser）也会失效
+        assert.notEqual(after.get('entry/src/main/ets/pages/Index.ets'), before.get('entry/src/main/ets/pages/Index.ets'));
+        assert.notEqual(after.get('entry/src/main/ets/model/Loader.ets'), before.get('entry/src/main/ets/model/Loader.ets'));
+        assert.equal(after.get('entry/src/main/ets/pages/About.ets'), before.get('entry/src/main/ets/pages/About.ets'));
+    });
+});
+
+test('按包名导入 HSP / HAR 模块时依赖该模块的源文件', () => {
+    const files = {
+        'entry/src/main/ets/pages/Index.ets': "import { Logger } from '@app/common';\n",
+        'entry/src/main/ets/pages/Plain.ets': "import { hilog } from '@kit.PerformanceAnalysisKit';\n",
+        'common/src/main/ets/Logger.ets': 'export class Logger {}\n'
+    };
+    let before = new Map<string, string>();
+    withProject(files, dir => {
+        before = dependencyHashes(dir);
+    });
+    withProject({ ...files, 'common/src/main/ets/Logger.ets': 'export class Logger { level = 1; }\n' }, dir => {
+        const after = dependencyHashes(dir);
+        assert.notEqual(after.get('entry/src/main/ets/pages/Index.ets'), before.get('entry/src/main/ets/pages/Index.ets'));
+        assert.equal(after.get('entry/src/main/ets/pages/Plain.ets'), before.get('entry/src/main/ets/pages/Plain.ets'));
+    });
+});
+
+test('导入成环时正常结束', () => {
+    withProject({
+        'entry/src/main/ets/a.ets': "import { b } from './b';\n",
+        'entry/src/main/ets/b.ets': "import { a } from './a';\n"
+    }, dir => {
+        const hashes = dependencyHashes(dir);
+        assert.equal(hashes.size, 2);
+    });
+});
+
+const PAGE = 'entry/src/main/ets/pages/Index.ets';
+const SIGNATURE = '@entry/src/main/ets/pages/Index.ets: Index.aboutToAppear()';
+const ISSUES: CachedStatementIssue[] = [{ line: 12, column: 5, statement: 'this.data = undefined' }];
+const FLOWS: CachedDataFlow[] = [{ to: 'Index.load', variable: 'data', line: 13, callChain: ['Index.aboutToAppear', 'Index.load'] }];
+
+test('未定义变量和数据流结果按依赖哈希和方法签名复用', () => {
+    withProject({}, dir => {
+        const first = new AnalysisCache(dir, new Map([[PAGE, 'hash-1']]));
+        assert.equal(first.getMethodResult('undefined', PAGE, SIGNATURE), null);
+        assert.equal(first.getMethodResult('dataflow', PAGE, SIGNATURE), null);
+        first.setMethodResult('undefined', PAGE, SIGNATURE, ISSUES);
+        first.setMethodResult('dataflow', PAGE, SIGNATURE, FLOWS);
+        first.saveMethods();
+
+        const second = new AnalysisCache(dir, new Map([[PAGE, 'hash-1']]));
+        assert.equal(second.hasMethodResult('dataflow', PAGE, SIGNATURE), true);
+        assert.deepEqual(second.getMethodResult('undefined', PAGE, SIGNATURE), ISSUES);
+        assert.deepEqual(second.getMethodResult('dataflow', PAGE, SIGNATURE), FLOWS);
+
+        // 所在文件或其导入的文件变化后依赖哈希不同
+        const changed = new AnalysisCache(dir, new Map([[PAGE, 'hash-2']]));
+        assert.equal(changed.hasMethodResult('undefined', PAGE, SIGNATURE), false);
+        assert.equal(changed.getMethodResult('dataflow', PAGE, SIGNATURE), null);
+    });
+});
+
+test('本次未执行的分析保留仍有效的方法级结果', () => {
+    withProject({}, dir => {
+        const hashes = new Map([[PAGE, 'hash-1']]);
+        const first = new AnalysisCache(dir, hashes);
+        first.setMethodResult('undefined', PAGE, SIGNATURE, ISSUES);
+        first.getMethodResult('undefined', PAGE, SIGNATURE);
+        first.saveMethods();
+
+        // 只执行数据流分析
+        const second = new AnalysisCache(dir, hashes);
+        assert.equal(second.getMethodResult('dataflow', PAGE, SIGNATURE), null);
+        second.setMethodResult('dataflow', PAGE, SIGNATURE, FLOWS);
+        second.saveMethods();
+
+        const third = new AnalysisCache(dir, hashes);
+        assert.deepEqual(third.getMethodResult('undefined', PAGE, SIGNATURE), ISSUES);
+        assert.deepEqual(third.getMethodResult('dataflow', PAGE, SIGNATURE), FLOWS);
+    });
+});
@@ -0,0 +1,92 @@
+// baseline.test.ts - 基线指纹与按次数匹配
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { applyBaseline, createBaseline, fingerprintFinding, fingerprintIssue, loadBaseline, normalizeStatement, writeBaseline } from '../baseline';
+import { Finding } from '../types';
+import { sampleResult } from './fixtures/sampleResult';
+
+/**
+ * 在临时目录中执行 `fn` 后删除
+ */
+function withDir(fn: (dir: string) => void): void {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-baseline-'));
+    try {
+        fn(dir);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+test('normalizeStatement 忽略临时变量编号和空白', () => {
+    assert.equal(normalizeStatement('  %3 = this.<MainPage.data>\t'), '%_ = this.<MainPage.data>');
+    assert.equal(normalizeStatement('$temp12 =  undefined'), '$temp_ = undefined');
+    assert.equal(normalizeStatement('%1 = $temp2'), normalizeStatement('%7 =   $temp9'));
+});
+
+test('指纹不含行号，语句或方法不同时不同', () => {
+    const issue = sampleResult().undefinedIssues[0];
+
+    assert.equal(fingerprintIssue({ ...issue, line: 99, column: 1 }), fingerprintIssue(issue));
+    assert.equal(fingerprintIssue({ ...issue, statement: '  windowClass  =  undefined ' }), fingerprintIssue(issue));
+    assert.notEqual(fingerprintIssue({ ...issue, statement: 'windowStage = undefined' }), fingerprintIssue(issue));
+    assert.notEqual(fingerprintIssue({ ...issue, phase: 'onCreate' }), fingerprintIssue(issue));
+
+    const finding = sampleResult().findings[0];
+    assert.equal(fingerprintFinding({ ...finding, line: 1 }), fingerprintFinding(finding));
+    assert.notEqual(fingerprintFinding({ ...finding, ruleId: 'other' }), fingerprintFinding(finding));
+});
+
+test('带 messageId 的结果按中文消息计算指纹', () => {
+    const base: Finding = {
+        ...sampleResult().findings[0],
+        messageId: 'rule.listener-without-cleanup.message',
+        messageArgs: { method: 'aboutToAppear', api: 'emitter.on' }
+    };
+    const english = { ...base, message: 'The component registers a listener by calling emitter.on() in aboutToAppear' };
+    const chinese = { ...base, message: '组件在 aboutToAppear 中调用 emitter.on() 注册监听，但没有实现 aboutToDisappear 注销' };
+
+    assert.equal(fingerprintFinding(english), fingerprintFinding(chinese));
+    assert.equal(fingerprintFinding(chinese), fingerprintFinding({ ...chinese, messageId: undefined, messageArgs: undefined }));
+});
+
+test('基线按次数匹配，多出的同类问题作为新问题报告', () => {
+    const result = sampleResult();
+    const baseline = createBaseline(result);
+    assert.deepEqual(baseline.entries.map(entry => entry.count), [1, 1]);
+
+    const issue = result.undefinedIssues[0];
+    const applied = applyBaseline(baseline, 'baseline.json', [issue, { ...issue, line: 30 }], result.findings);
+
+    assert.deepEqual(applied.undefinedIssues.map(i => i.line), [30]);
+    assert.deepEqual(applied.findings, []);
+    assert.deepEqual(applied.summary, { path: 'baseline.json', suppressed: 2, fixed: 0 });
+});
+
+test('基线中未再出现的问题计为已修复', () => {
+    const result = sampleResult();
+    result.undefinedIssues.push({ ...result.undefinedIssues[0], line: 30 });
+    const baseline = createBaseline(result);
+    assert.equal(baseline.entries.find(entry => entry.ruleId === 'undefined-access')?.count, 2);
+
+    const applied = applyBaseline(baseline, 'baseline.json', [], []);
+
+    assert.deepEqual(applied.summary, { path: 'baseline.json', suppressed: 0, fixed: 3 });
+});
+
+test('写出的基线可以读回，缺失或格式不符时报错', () => {
+    withDir(dir => {
+        const baselinePath = path.join(dir, 'nested/baseline.json');
+        const baseline = createBaseline(sampleResult());
+        writeBaseline(baselinePath, baseline);
+
+        assert.deepEqual(loadBaseline(baselinePath), baseline);
+        assert.throws(() => loadBaseline(path.join(dir, 'missing.json')), /基线文件不存在/);
+
+        fs.writeFileSync(baselinePath, JSON.stringify({ version: 99, entries: [] }), 'utf-8');
+        assert.throws(() => loadBaseline(baselinePath), /无法识别的基线文件/);
+    });
+});
@@ -0,0 +1,134 @@
+// callGraphDiagrams.test.ts - 调用图 Mermaid / PlantUML 渲染
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { collapseUnknownCalls } from '../callGraphDot';
+import {
+    MERMAID_MAX_EDGES,
+    extractCallSubtrees,
+    renderCallGraphMermaid,
+    renderCallGraphPlantUml,
+    renderCallSubtrees,
+    writeCallGraphDiagram
+} from '../callGraphDiagrams';
+import { CallGraphData } from '../types';
+import { ENTRY_ABILITY, INIT, ON_CREATE, sampleCallGraph } from './fixtures/sampleCallGraph';
+
+test('Mermaid 按文件和类分组，节点使用短 ID 并按生命周期类型着色', () => {
+    const mermaid = renderCallGraphMermaid(collapseUnknownCalls(sampleCallGraph()));
+
+    assert.equal(mermaid, [
+        'flowchart LR',
+        `    subgraph f0["${ENTRY_ABILITY}"]`,
+        '        subgraph f0_c0["EntryAbility"]',
+        '            n0["EntryAbility.onCreate"]',
+        '            n1["EntryAbility.init"]',
+        '        end',
+        '    end',
+        '    subgraph f1["common/src/main/ets/Logger.ets"]',
+        '        subgraph f1_c0["Logger"]',
+        '            n2["Logger.info"]',
+        '            n3["Logger.write"]',
+        '        end',
+        '    end',
+        '    subgraph f2["SDK / 未解析调用"]',
+        '        n4(["hilog.info"])',
+        '    end',
+        '    n0 --> n1',
+        '    n0 --> n4',
+        '    n1 --> n2',
+        '    n1 --> n4',
+        '    n2 --> n3',
+        '    classDef ability fill:#F08080,stroke:#555',
+        '    class n0 ability',
+        '    classDef method fill:#ADD8E6,stroke:#555',
+        '    class n1,n2,n3 method',
+        '    classDef unknown fill:#D3D3D3,stroke:#555',
+        '    class n4 unknown',
+        ''
+    ].join('\n'));
+});
+
+test('签名中的特殊字符不进入节点 ID，标签中的引号、尖括号和 # 被转义', () => {
+    const graph: CallGraphData = {
+        nodes: [
+            { id: '@a.ets: A.<init>()', label: 'A.<init>', className: 'A', filePath: 'a.ets', lifecycle: null },
+            { id: '@a.ets: A.say("hi")#1', label: 'A."say"#1\nnext', className: 'A', filePath: 'a.ets', lifecycle: null }
+        ],
+        edges: [{ from: '@a.ets: A.<init>()', to: '@a.ets: A.say("hi")#1' }]
+    };
+
+    const mermaid = renderCallGraphMermaid(graph, { cluster: false });
+    assert.ok(!mermaid.includes('subgraph'));
+    assert.ok(mermaid.includes('    n0["A.#lt;init#gt;"]\n'));
+    assert.ok(mermaid.includes('    n1["A.#quot;say#quot;#35;1 next"]\n'));
+    assert.ok(mermaid.includes('    n0 --> n1\n'));
+
+    const uml = renderCallGraphPlantUml(graph, { cluster: false });
+    assert.ok(uml.includes('rectangle "A.<init>" as n0 #ADD8E6\n'));
+    assert.ok(uml.includes('rectangle "A.\'say\'#1 next" as n1 #ADD8E6\n'));
+    assert.ok(uml.includes('n0 --> n1\n'));
+});
+
+test('PlantUML 按文件和类嵌套分组，%unk 调用为椭圆', () => {
+    const uml = renderCallGraphPlantUml(collapseUnknownCalls(sampleCallGraph()), {}, 'EntryAbility.onCreate');
+
+    assert.ok(uml.startsWith('@startuml\ntitle EntryAbility.onCreate\nleft to right direction\n'));
+    assert.ok(uml.includes(`package "${ENTRY_ABILITY}" as f0 {\n    rectangle "EntryAbility" as f0_c0 {\n        rectangle "EntryAbility.onCreate" as n0 #F08080\n`));
+    assert.ok(uml.includes('package "SDK / 未解析调用" as f2 {\n    usecase "hilog.info" as n4 #D3D3D3\n}\n'));
+    assert.ok(uml.endsWith('n2 --> n3\n@enduml\n'));
+});
+
+test('调用子树按根节点深度裁剪，跳过没有调用的根', () => {
+    const graph = sampleCallGraph();
+
+    const lifecycles = extractCallSubtrees(graph, { subtreeDepth: 1 });
+    assert.deepEqual(lifecycles.map(s => s.root.id), [ON_CREATE]);
+    assert.equal(lifecycles[0].graph.nodes.length, 3);
+
+    // 指定根节点时不限于生命周期方法；Logger.write 没有调用，不生成子树
+    const byRoots = extractCallSubtrees(graph, { roots: [INIT, 'Logger.write'], collapseUnknown: true });
+    assert.deepEqual(byRoots.map(s => s.root.label), ['EntryAbility.init']);
+    assert.deepEqual(byRoots[0].graph.nodes.map(n => n.label), ['EntryAbility.init', 'Logger.info', 'Logger.write', 'hilog.info']);
+
+    const md = renderCallSubtrees(lifecycles, 'mermaid', { subtreeDepth: 1 });
+    assert.ok(md.startsWith('# 生命周期调用子树\n\n> 从每个生命周期方法出发、最大调用深度 1 的调用图，共 1 个。\n\n## EntryAbility.onCreate\n'));
+    assert.ok(md.includes('- **类型**: Ability\n'));
+    assert.ok(md.includes('```mermaid\nflowchart LR\n'));
+
+    const uml = renderCallSubtrees(lifecycles, 'plantuml', { subtreeDepth: 1 });
+    assert.ok(uml.startsWith('@startuml\ntitle EntryAbility.onCreate (深度 1)\n'));
+});
+
+test(`Mermaid 边数超过 ${MERMAID_MAX_EDGES} 时提示裁剪`, () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-diagrams-'));
+    const logs: string[] = [];
+    const log = (message: string): void => {
+        logs.push(message);
+    };
+    const tooLarge = 'GitHub 可能无法渲染';
+    try {
+        const graph = sampleCallGraph();
+        const outputPath = path.join(dir, 'callgraph.mmd');
+
+        writeCallGraphDiagram(graph, 'mermaid', outputPath, { subtrees: false }, log);
+        assert.ok(!logs.some(line => line.includes(tooLarge)));
+
+        const hub = graph.nodes[0];
+        for (let i = 0; i < MERMAID_MAX_EDGES; i++) {
+            const id = `${hub.id}#callee${i}`;
+            graph.nodes.push({ ...hub, id, label: `EntryAbility.callee${i}`, lifecycle: null });
+            graph.edges.push({ from: hub.id, to: id });
+        }
+        writeCallGraphDiagram(graph, 'mermaid', outputPath, { subtrees: false }, log);
+
+        assert.ok(logs.some(line => line.includes(tooLarge)));
+        assert.ok(fs.readFileSync(outputPath, 'utf-8').includes(`n0 --> n${graph.nodes.length - 1}\n`));
+        assert.ok(!fs.existsSync(path.join(dir, 'openeye-callgraph-lifecycles-v3.md')));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
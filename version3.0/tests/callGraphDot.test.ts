@@ -0,0 +1,98 @@
+// callGraphDot.test.ts - 调用图裁剪、%unk 折叠与 DOT 渲染
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { collapseUnknownCalls, limitDepth, parseDotOptions, prepareCallGraph, renderCallGraphDot } from '../callGraphDot';
+import { CallGraphData } from '../types';
+import {
+    ENTRY_ABILITY, HILOG_FROM_INIT, HILOG_FROM_ON_CREATE, INIT, LOGGER, LOGGER_INFO, LOGGER_WRITE, ON_CREATE, sampleCallGraph
+} from './fixtures/sampleCallGraph';
+
+function ids(graph: CallGraphData): string[] {
+    return graph.nodes.map(n => n.id);
+}
+
+test('limitDepth 未指定根节点时从生命周期方法出发按深度裁剪', () => {
+    const { graph, unmatchedRoots } = limitDepth(sampleCallGraph(), undefined, 1);
+
+    assert.deepEqual(ids(graph), [ON_CREATE, INIT, HILOG_FROM_ON_CREATE]);
+    assert.deepEqual(graph.edges, [
+        { from: ON_CREATE, to: INIT },
+        { from: ON_CREATE, to: HILOG_FROM_ON_CREATE }
+    ]);
+    assert.deepEqual(unmatchedRoots, []);
+});
+
+test('limitDepth 按标签或签名匹配根节点，记录未匹配的根', () => {
+    const byLabel = limitDepth(sampleCallGraph(), ['Logger.info', 'Missing.run'], Infinity);
+    assert.deepEqual(ids(byLabel.graph), [LOGGER_INFO, LOGGER_WRITE]);
+    assert.deepEqual(byLabel.graph.edges, [{ from: LOGGER_INFO, to: LOGGER_WRITE }]);
+    assert.deepEqual(byLabel.unmatchedRoots, ['Missing.run']);
+
+    // 深度 0 只保留根节点本身
+    const rootOnly = limitDepth(sampleCallGraph(), [INIT], 0);
+    assert.deepEqual(ids(rootOnly.graph), [INIT]);
+    assert.deepEqual(rootOnly.graph.edges, []);
+});
+
+test('collapseUnknownCalls 把同一 API 的 %unk 调用合并为一个节点并去掉重复边', () => {
+    const graph = sampleCallGraph();
+    graph.edges.push({ from: ON_CREATE, to: HILOG_FROM_INIT });
+
+    const collapsed = collapseUnknownCalls(graph);
+
+    assert.deepEqual(ids(collapsed), [ON_CREATE, INIT, LOGGER_INFO, LOGGER_WRITE, '%unk:hilog.info']);
+    assert.deepEqual(collapsed.edges, [
+        { from: ON_CREATE, to: INIT },
+        { from: ON_CREATE, to: '%unk:hilog.info' },
+        { from: INIT, to: LOGGER_INFO },
+        { from: INIT, to: '%unk:hilog.info' },
+        { from: LOGGER_INFO, to: LOGGER_WRITE }
+    ]);
+});
+
+test('prepareCallGraph 先裁剪再折叠，未匹配的根节点输出警告', () => {
+    const logs: string[] = [];
+
+    const graph = prepareCallGraph(sampleCallGraph(), { roots: ['EntryAbility.init', 'Nope.run'], collapseUnknown: true }, message => logs.push(message));
+
+    assert.deepEqual(ids(graph), [INIT, LOGGER_INFO, LOGGER_WRITE, '%unk:hilog.info']);
+    assert.deepEqual(logs, ['   ⚠️  未找到根节点: Nope.run']);
+    // 未指定根节点和深度时保持完整调用图
+    assert.equal(prepareCallGraph(sampleCallGraph(), {}).nodes.length, 6);
+});
+
+test('parseDotOptions 忽略类型不符的字段', () => {
+    assert.deepEqual(parseDotOptions({ roots: ['A.b', 1], depth: 2.7, collapseUnknown: true, cluster: false }), {
+        roots: ['A.b', '1'], depth: 2, collapseUnknown: true, cluster: false
+    });
+    assert.deepEqual(parseDotOptions({ roots: 'A.b', depth: -1, collapseUnknown: 'yes' }), {});
+});
+
+test('renderCallGraphDot 按文件和类分组，%unk 调用单独成组且不按类分组', () => {
+    const dot = renderCallGraphDot(collapseUnknownCalls(sampleCallGraph()));
+
+    assert.ok(dot.startsWith('digraph CallGraph {\n'));
+    assert.ok(dot.includes(`    subgraph cluster_f0 {\n        label="${ENTRY_ABILITY}";\n`));
+    assert.ok(dot.includes('        subgraph cluster_f0_c0 {\n            label="EntryAbility";\n'));
+    assert.ok(dot.includes(`    subgraph cluster_f1 {\n        label="${LOGGER}";\n`));
+    assert.ok(dot.includes('    subgraph cluster_f2 {\n        label="SDK / 未解析调用";\n'));
+    assert.ok(!dot.includes('cluster_f2_c'));
+    assert.ok(dot.includes(`            "${ON_CREATE}" [label="EntryAbility.onCreate", tooltip="${ON_CREATE}", fillcolor=lightcoral];\n`));
+    assert.ok(dot.includes('        "%unk:hilog.info" [label="hilog.info", tooltip="%unk:hilog.info", fillcolor=lightgray, shape=ellipse];\n'));
+    assert.ok(dot.includes(`    "${INIT}" -> "${LOGGER_INFO}";\n`));
+    assert.ok(dot.endsWith('}\n'));
+});
+
+test('renderCallGraphDot 关闭分组时平铺节点，并转义引号和反斜杠', () => {
+    const graph: CallGraphData = {
+        nodes: [{ id: 'a"b\\c', label: 'A."quoted"', className: 'A', filePath: 'a.ets', lifecycle: null }],
+        edges: [{ from: 'a"b\\c', to: 'a"b\\c' }]
+    };
+
+    const dot = renderCallGraphDot(graph, { cluster: false });
+
+    assert.ok(!dot.includes('subgraph'));
+    assert.ok(dot.includes('    "a\\"b\\\\c" [label="A.\\"quoted\\"", tooltip="a\\"b\\\\c", fillcolor=lightblue];\n'));
+    assert.ok(dot.includes('    "a\\"b\\\\c" -> "a\\"b\\\\c";\n'));
+});
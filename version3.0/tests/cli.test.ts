@@ -0,0 +1,115 @@
+// cli.test.ts - 命令行参数与退出码
+// 命令行入口会加载分析器模块，需要 ArkAnalyzer（不构建 Scene），不存在时跳过
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { EXIT_CODES } from '../qualityGates';
+
+function hasArkAnalyzer(): boolean {
+    try {
+        require.resolve('../../../arkanalyzer/src/index');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const skip = !hasArkAnalyzer() && 'ArkAnalyzer 不可用';
+
+/**
+ * 执行命令行主函数，返回退出码和输出
+ */
+function runMain(argv: string[]): { code: number; output: string } {
+    const { main } = require('../cli') as typeof import('../cli');
+    const lines: string[] = [];
+    const originalLog = console.log;
+    const originalError = console.error;
+    console.log = (...args: unknown[]): void => {
+        lines.push(args.join(' '));
+    };
+    console.error = console.log;
+    try {
+        return { code: main(argv), output: lines.join('\n') };
+    } finally {
+        console.log = originalLog;
+        console.error = originalError;
+    }
+}
+
+test('parseArgs 按子命令选择默认步骤，--steps 覆盖默认值', { skip }, () => {
+    const { parseArgs, CLI_CACHE_DIR } = require('../cli') as typeof import('../cli');
+
+    const report = parseArgs([]);
+    assert.equal(report.command, 'report');
+    assert.equal(report.options.steps, null);
+    assert.equal(report.options.cacheDir, CLI_CACHE_DIR);
+
+    const undefinedArgs = parseArgs(['undefined', '-c', 'config.json', '--no-cache', '-j', '2', '--strict']);
+    assert.equal(undefinedArgs.command, 'undefined');
+    assert.deepEqual(undefinedArgs.options.steps, ['lifecycle', 'undefined', 'report', 'export']);
+    assert.equal(undefinedArgs.options.configPath, 'config.json');
+    assert.equal(undefinedArgs.options.cacheDir, null);
+    assert.equal(undefinedArgs.options.workers, 2);
+    assert.equal(undefinedArgs.options.strict, true);
+
+    assert.deepEqual(parseArgs(['callgraph', '--steps', 'lifecycle, callgraph,']).options.steps, ['lifecycle', 'callgraph']);
+});
+
+test('parseArgs 把 diff / migrate 之后的参数作为文件', { skip }, () => {
+    const { parseArgs } = require('../cli') as typeof import('../cli');
+
+    const diff = parseArgs(['diff', 'old.json', 'new.json', '-o', 'out']);
+    assert.equal(diff.command, 'diff');
+    assert.deepEqual(diff.files, ['old.json', 'new.json']);
+    assert.equal(diff.options.outputDir, 'out');
+
+    assert.deepEqual(parseArgs(['migrate', 'a.json', 'b.json']).files, ['a.json', 'b.json']);
+});
+
+test('参数错误时打印用法并返回用法错误', { skip }, () => {
+    const cases: [string[], RegExp][] = [
+        [['--verbose'], /未知选项: --verbose/],
+        [['-c'], /选项 -c 缺少参数/],
+        [['-o', '--strict'], /选项 -o 缺少参数/],
+        [['lint'], /未知子命令: lint/],
+        [['report', 'extra'], /多余的参数: extra/],
+        [['--steps', ' , '], /--steps 不能为空/],
+        [['--jobs', '-1'], /选项 --jobs 缺少参数/],
+        [['--jobs', '1.5'], /--jobs 需要非负整数: 1.5/],
+        [['--lang', 'fr'], /不支持的语言: fr/],
+        [['diff', 'only-one.json'], /diff 需要两个结果文件/],
+        [['migrate'], /migrate 需要至少一个导出文件/]
+    ];
+    for (const [argv, message] of cases) {
+        const { code, output } = runMain(argv);
+
+        assert.equal(code, EXIT_CODES.USAGE, argv.join(' '));
+        assert.match(output, message);
+        assert.match(output, /用法: openeye-analyze <command> \[options\]/);
+    }
+});
+
+test('--lang 在参数错误时也生效，--help 返回成功', { skip }, () => {
+    const english = runMain(['--lang', 'en', '--bogus']);
+    assert.equal(english.code, EXIT_CODES.USAGE);
+    assert.match(english.output, /Unknown option: --bogus/);
+
+    const help = runMain(['--help']);
+    assert.equal(help.code, EXIT_CODES.OK);
+    assert.match(help.output, /openeye-analyze migrate/);
+});
+
+test('监听模式读取不到配置文件时返回分析失败', { skip }, () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-cli-'));
+    try {
+        const { code, output } = runMain(['--watch', '-c', path.join(dir, 'missing.json'), '-o', dir]);
+
+        assert.equal(code, EXIT_CODES.ANALYSIS_FAILED);
+        assert.match(output, /❌ 分析失败: ENOENT/);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,85 @@
+// csvExport.test.ts - 覆盖表的 CSV / TSV 导出
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { buildCoverageTables, exportCoverageTables, renderDelimited } from '../csvExport';
+import { ENTRY_ABILITY, MAIN_PAGE, sampleResult } from './fixtures/sampleResult';
+
+test('按 RFC 4180 转义单元格，行尾为 CRLF', () => {
+    const text = renderDelimited([
+        ['name', 'value'],
+        ['a,b', 'say "hi"'],
+        ['multi\nline', true],
+        ['plain', 3]
+    ], ',');
+
+    assert.equal(text, 'name,value\r\n"a,b","say ""hi"""\r\n"multi\nline",true\r\nplain,3\r\n');
+    // 制表符分隔时逗号不需要引号
+    assert.equal(renderDelimited([['a,b', 'c\td']], '\t'), 'a,b\t"c\td"\r\n');
+});
+
+test('生命周期表每种生命周期一行', () => {
+    const { lifecycle } = buildCoverageTables(sampleResult());
+
+    assert.deepEqual(lifecycle, [
+        ['type', 'lifecycle', 'defined', 'used', 'usageCount', 'classCount', 'classes', 'files'],
+        ['Ability', 'onCreate', true, false, 0, 0, '', ''],
+        ['Ability', 'onWindowStageCreate', true, true, 1, 1, 'EntryAbility', ENTRY_ABILITY],
+        ['Component', 'aboutToAppear', true, true, 1, 1, 'MainPage', MAIN_PAGE],
+        ['Component', 'onPageShow', true, false, 0, 0, '', ''],
+        ['Callback', 'onClick', true, false, 0, 0, '', '']
+    ]);
+});
+
+test('类表和文件表按文件路径排序', () => {
+    const result = sampleResult();
+    result.lifecycleMethods.push({ ...result.lifecycleMethods[0], phase: 'build', lineNumber: 30, hasImplementation: false });
+    const { classes, files } = buildCoverageTables(result);
+
+    assert.deepEqual(classes.slice(1).map(row => [row[1], row[3], row[4]]), [
+        ['EntryAbility', 'onWindowStageCreate', true],
+        ['MainPage', 'aboutToAppear', true],
+        ['MainPage', 'build', false]
+    ]);
+    assert.deepEqual(files.slice(1), [
+        [ENTRY_ABILITY, 'entry', 1, 1, 1, 1, 0, 0, 'EntryAbility', 'onWindowStageCreate'],
+        [MAIN_PAGE, 'entry', 1, 2, 1, 0, 2, 0, 'MainPage', 'aboutToAppear; build']
+    ]);
+});
+
+test('按分隔符选择扩展名，文件带 UTF-8 BOM', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-csv-'));
+    try {
+        const written = exportCoverageTables(sampleResult(), path.join(dir, 'out'), '\t', () => undefined);
+
+        assert.deepEqual(written.map(file => path.basename(file)), [
+            'openeye-lifecycle-v3.tsv',
+            'openeye-classes-v3.tsv',
+            'openeye-files-v3.tsv'
+        ]);
+        const content = fs.readFileSync(written[0], 'utf-8');
+        assert.ok(content.startsWith('\uFEFFtype\tlifecycle\t'));
+        assert.equal(content.trimEnd().split('\r\n').length, 6);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
+test('写入失败时抛出，由导出 Pass 记录为诊断', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-csv-'));
+    const originalError = console.error;
+    console.error = () => undefined;
+    try {
+        // 输出目录被同名文件占用
+        const outputDir = path.join(dir, 'out');
+        fs.writeFileSync(outputDir, '', 'utf-8');
+
+        assert.throws(() => exportCoverageTables(sampleResult(), outputDir, ',', () => undefined), /EEXIST|ENOTDIR/);
+    } finally {
+        console.error = originalError;
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,192 @@
+// exportSchemas.test.ts - 导出文件的 Schema 校验、往返读写与旧版本升级
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { SCHEMA_VERSION, assertValidExport, serializeExport, validateExport } from '../exportSchemas';
+import { buildCallGraphExport, buildCoverageExport, buildIssuesExport, exportSchemaJson } from '../jsonExport';
+import { buildDataFlowExport } from '../dataFlowExport';
+import { exportResultJson, loadResultFile } from '../resultFile';
+import { detectExportKind, migrateExport, migrateExportFile } from '../schemaMigration';
+import { AnalysisResult } from '../types';
+import { sampleResult } from './fixtures/sampleResult';
+
+const silent = (): void => undefined;
+
+/**
+ * 在临时目录中执行 `fn` 后删除
+ */
+function withDir(fn: (dir: string) => void): void {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-schemas-'));
+    try {
+        fn(dir);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * 分析器为读不到源码的问题留下 `snippet: undefined`
+ */
+function resultWithoutSnippet(): AnalysisResult {
+    const result = sampleResult();
+    result.undefinedIssues[0].snippet = undefined;
+    result.findings[0].snippet = undefined;
+    return result;
+}
+
+function omit(record: object, keys: string[]): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(record).filter(([key]) => !keys.includes(key)));
+}
+
+test('各导出文件的内容符合 Schema', () => {
+    const result = sampleResult();
+
+    assert.deepEqual(validateExport('issues', buildIssuesExport(result)), []);
+    assert.deepEqual(validateExport('coverage', buildCoverageExport(result)), []);
+    assert.deepEqual(validateExport('callgraph', buildCallGraphExport(result, result.callGraph!)), []);
+    assert.deepEqual(validateExport('dataflow', buildDataFlowExport(result.dataFlows, 2, result.generatedAt)), []);
+    assert.deepEqual(validateExport('result', { schemaVersion: SCHEMA_VERSION, ...result }), []);
+});
+
+test('值为 undefined 的可选属性可以导出并通过校验', () => {
+    const result = resultWithoutSnippet();
+    const issues = buildIssuesExport(result);
+
+    // 内存中的对象和序列化后的内容都要通过校验
+    assert.deepEqual(validateExport('issues', issues), []);
+    const json = serializeExport('issues', issues);
+    assert.deepEqual(validateExport('issues', JSON.parse(json)), []);
+    assert.equal('snippet' in JSON.parse(json).undefinedIssues[0], false);
+
+    withDir(dir => {
+        const outputPath = path.join(dir, 'out/openeye-result-v3.json');
+        exportResultJson(result, outputPath, silent);
+        const loaded = loadResultFile(path.dirname(outputPath));
+
+        assert.deepEqual(loaded, JSON.parse(JSON.stringify({ schemaVersion: SCHEMA_VERSION, ...result })));
+    });
+});
+
+test('源码片段按 Schema 校验', () => {
+    const result = sampleResult();
+    result.undefinedIssues[0].snippet = { startLine: 23, lines: ['a', 'b'], line: 24, column: 5, length: 3 };
+    assert.deepEqual(validateExport('issues', buildIssuesExport(result)), []);
+
+    const invalid = JSON.parse(JSON.stringify(buildIssuesExport(result)));
+    invalid.undefinedIssues[0].snippet.lines = 'a\nb';
+    assert.deepEqual(validateExport('issues', invalid), ['/undefinedIssues/0/snippet/lines: 应为 array，实际为 string']);
+});
+
+test('不符合 Schema 时列出 JSON Pointer 和原因', () => {
+    const data = JSON.parse(JSON.stringify(buildIssuesExport(sampleResult())));
+    data.undefinedIssues[0].line = '24';
+    data.undefinedIssues[0].severity = 'critical';
+    delete data.findings[0].ruleId;
+
+    const errors = validateExport('issues', data);
+    assert.deepEqual(errors, [
+        '/undefinedIssues/0/line: 应为 integer，实际为 string',
+        '/undefinedIssues/0/severity: 应为 high | medium | low 之一，实际为 "critical"',
+        '/findings/0: 缺少属性 ruleId'
+    ]);
+    assert.throws(() => assertValidExport('issues', data), /^Error: issues 导出内容不符合 Schema: \/undefinedIssues\/0\/line/);
+});
+
+test('exportSchemaJson 校验失败时抛出且不写文件', () => {
+    withDir(dir => {
+        const outputPath = path.join(dir, 'openeye-callgraph-v3.json');
+        const data = { ...buildCallGraphExport(sampleResult(), sampleResult().callGraph!), nodes: 'none' };
+        const originalError = console.error;
+        console.error = silent;
+        try {
+            assert.throws(() => exportSchemaJson('callgraph', data, outputPath, silent), /callgraph 导出内容不符合 Schema/);
+        } finally {
+            console.error = originalError;
+        }
+        assert.equal(fs.existsSync(outputPath), false);
+
+        exportSchemaJson('callgraph', buildCallGraphExport(sampleResult(), sampleResult().callGraph!), outputPath, silent);
+        assert.equal(detectExportKind(JSON.parse(fs.readFileSync(outputPath, 'utf-8'))), 'callgraph');
+    });
+});
+
+test('按内容识别导出文件类型', () => {
+    const result = sampleResult();
+
+    assert.equal(detectExportKind(result), 'result');
+    assert.equal(detectExportKind(buildIssuesExport(result)), 'issues');
+    assert.equal(detectExportKind(buildCoverageExport(result)), 'coverage');
+    assert.equal(detectExportKind(buildCallGraphExport(result, result.callGraph!)), 'callgraph');
+    assert.equal(detectExportKind(buildDataFlowExport(result.dataFlows, 2)), 'dataflow');
+    assert.equal(detectExportKind([]), null);
+    assert.equal(detectExportKind({ version: 1 }), null);
+});
+
+test('没有 schemaVersion 的旧结果文件升级到当前版本', () => {
+    const result = sampleResult();
+    const legacy = {
+        ...omit(result, ['steps', 'findings', 'exclusions', 'modules', 'callGraph', 'diagnostics', 'suppressed', 'baseline', 'incremental', 'profile']),
+        lifecycleMethods: result.lifecycleMethods.map(method => omit(method, ['module'])),
+        undefinedIssues: result.undefinedIssues.map(issue => omit(issue, ['ruleId', 'className', 'phase', 'module', 'column', 'statement']))
+    };
+    const migrated = migrateExport('result', legacy);
+
+    assert.equal(migrated.fromVersion, 0);
+    assert.equal(migrated.data.schemaVersion, SCHEMA_VERSION);
+    assert.equal(Object.keys(migrated.data)[0], 'schemaVersion');
+    assert.deepEqual(migrated.data.findings, []);
+    assert.equal(migrated.data.callGraph, null);
+    assert.deepEqual(migrated.data.undefinedIssues, [{ ...result.undefinedIssues[0], ruleId: 'undefined-access', className: '', phase: '', module: '', column: 0, statement: '' }]);
+});
+
+test('旧版数据流文件由 allFlows 重建分组', () => {
+    const flows = sampleResult().dataFlows;
+    const migrated = migrateExport('dataflow', { metadata: { timestamp: '2025-01-01T00:00:00.000Z' }, allFlows: flows });
+
+    assert.deepEqual(migrated.data, buildDataFlowExport(flows, 0, '2025-01-01T00:00:00.000Z'));
+});
+
+test('版本 1 的数据流按来源生命周期方法补充文件路径', () => {
+    const result = sampleResult();
+    const { filePath: _filePath, ...flow } = result.dataFlows[0];
+    const v1 = { ...result, schemaVersion: 1, dataFlows: [flow, { ...flow, from: 'Unknown.build' }] };
+
+    assert.deepEqual(migrateExport('result', v1).data.dataFlows, [
+        result.dataFlows[0],
+        { ...result.dataFlows[0], from: 'Unknown.build', filePath: '' }
+    ]);
+
+    // 同名生命周期方法出现在两个文件中时无法确定
+    v1.lifecycleMethods = [...result.lifecycleMethods, { ...result.lifecycleMethods[0], filePath: 'entry/src/main/ets/pages/Other.ets' }];
+    assert.equal((migrateExport('result', v1).data.dataFlows as { filePath: string }[])[0].filePath, '');
+
+    const dataflow = JSON.parse(JSON.stringify(buildDataFlowExport(result.dataFlows, 2)));
+    delete dataflow.allFlows[0].filePath;
+    delete dataflow.dataFlowsByMethod[0].filePath;
+    const migrated = migrateExport('dataflow', { ...dataflow, schemaVersion: 1 });
+    assert.equal(migrated.fromVersion, 1);
+    assert.deepEqual([migrated.data.allFlows, migrated.data.dataFlowsByMethod].map(items => (items as { filePath: string }[])[0].filePath), ['', '']);
+});
+
+test('不支持的版本和非对象内容报错', () => {
+    assert.throws(() => migrateExport('issues', { ...buildIssuesExport(sampleResult()), schemaVersion: SCHEMA_VERSION + 1 }), new RegExp(`schemaVersion ${SCHEMA_VERSION + 1} 不受支持`));
+    assert.throws(() => migrateExport('issues', []), /issues 导出内容不符合 Schema/);
+});
+
+test('migrateExportFile 只改写旧版本文件', () => {
+    withDir(dir => {
+        const filePath = path.join(dir, 'openeye-issues-v3.json');
+        const { schemaVersion: _version, ...legacy } = buildIssuesExport(sampleResult());
+        fs.writeFileSync(filePath, JSON.stringify(legacy), 'utf-8');
+
+        assert.equal(migrateExportFile(filePath, silent), true);
+        assert.equal(JSON.parse(fs.readFileSync(filePath, 'utf-8')).schemaVersion, SCHEMA_VERSION);
+        assert.equal(migrateExportFile(filePath, silent), false);
+
+        fs.writeFileSync(filePath, '{"unknown": true}', 'utf-8');
+        assert.throws(() => migrateExportFile(filePath, silent), /无法识别的导出文件/);
+    });
+});
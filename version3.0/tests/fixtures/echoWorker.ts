@@ -0,0 +1,20 @@
+// echoWorker.ts - workerPool 测试用的工作线程：等待 delayMs 后返回 value，按输入抛出异常或直接退出
+import { serveWorker } from '../../workerPool';
+
+interface EchoInput {
+    value: string;
+    delayMs: number;
+    fail?: boolean;
+    exitCode?: number;
+}
+
+serveWorker((input: EchoInput) => {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, input.delayMs);
+    if (input.exitCode !== undefined) {
+        process.exit(input.exitCode);
+    }
+    if (input.fail) {
+        throw new Error(`failed: ${input.value}`);
+    }
+    return input.value;
+});
@@ -0,0 +1,36 @@
+// sampleCallGraph.ts - 测试用的调用图
+// EntryAbility.onCreate -> init -> Logger.info -> Logger.write，两处调用同一个未解析的 hilog.info
+import { CallGraphData, LifecycleType } from '../../types';
+
+export const ENTRY_ABILITY = 'entry/src/main/ets/entryability/EntryAbility.ets';
+export const LOGGER = 'common/src/main/ets/Logger.ets';
+
+export const ON_CREATE = `@${ENTRY_ABILITY}: EntryAbility.onCreate()`;
+export const INIT = `@${ENTRY_ABILITY}: EntryAbility.init()`;
+export const LOGGER_INFO = `@${LOGGER}: Logger.info(string)`;
+export const LOGGER_WRITE = `@${LOGGER}: Logger.write(string)`;
+export const HILOG_FROM_ON_CREATE = '@%unk/%unk: hilog.info#1()';
+export const HILOG_FROM_INIT = '@%unk/%unk: hilog.info#2()';
+
+/**
+ * 每次调用返回新的对象，测试可以随意修改
+ */
+export function sampleCallGraph(): CallGraphData {
+    return {
+        nodes: [
+            { id: ON_CREATE, label: 'EntryAbility.onCreate', className: 'EntryAbility', filePath: ENTRY_ABILITY, lifecycle: LifecycleType.ABILITY },
+            { id: INIT, label: 'EntryAbility.init', className: 'EntryAbility', filePath: ENTRY_ABILITY, lifecycle: null },
+            { id: LOGGER_INFO, label: 'Logger.info', className: 'Logger', filePath: LOGGER, lifecycle: null },
+            { id: LOGGER_WRITE, label: 'Logger.write', className: 'Logger', filePath: LOGGER, lifecycle: null },
+            { id: HILOG_FROM_ON_CREATE, label: 'hilog.info', className: 'hilog', filePath: '%unk', lifecycle: null },
+            { id: HILOG_FROM_INIT, label: 'hilog.info', className: 'hilog', filePath: '%unk', lifecycle: null }
+        ],
+        edges: [
+            { from: ON_CREATE, to: INIT },
+            { from: ON_CREATE, to: HILOG_FROM_ON_CREATE },
+            { from: INIT, to: LOGGER_INFO },
+            { from: INIT, to: HILOG_FROM_INIT },
+            { from: LOGGER_INFO, to: LOGGER_WRITE }
+        ]
+    };
+}
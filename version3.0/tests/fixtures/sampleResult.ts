@@ -0,0 +1,121 @@
+// sampleResult.ts - 测试用的分析结果
+// 一个 Ability 和一个组件，含一个未定义变量问题、一个自定义规则结果和一条数据流
+import { AnalysisResult, CoverageStats, LifecycleType } from '../../types';
+
+export const MAIN_PAGE = 'entry/src/main/ets/pages/MainPage.ets';
+export const ENTRY_ABILITY = 'entry/src/main/ets/entryability/EntryAbility.ets';
+
+function coverage(methodName: string, className: string | null, filePath: string | null): CoverageStats {
+    return {
+        methodName,
+        isDefined: true,
+        isUsed: className !== null,
+        usageCount: className !== null ? 1 : 0,
+        classes: className !== null ? [className] : [],
+        files: filePath !== null ? [filePath] : []
+    };
+}
+
+/**
+ * 每次调用返回新的对象，测试可以随意修改
+ */
+export function sampleResult(): AnalysisResult {
+    return {
+        generatedAt: '2026-01-01T00:00:00.000Z',
+        projectDirectory: '/tmp/project',
+        steps: ['lifecycle', 'callgraph', 'undefined', 'dataflow'],
+        stats: {
+            totalFiles: 2,
+            totalClasses: 2,
+            totalMethods: 6,
+            abilityClasses: 1,
+            componentClasses: 1,
+            lifecycleMethods: 2,
+            callGraphNodes: 2,
+            callGraphEdges: 1,
+            dataFlowPaths: 1,
+            undefinedIssues: 1
+        },
+        lifecycleMethods: [
+            {
+                signature: '@entry/src/main/ets/pages/MainPage.ets: MainPage.aboutToAppear()',
+                type: LifecycleType.COMPONENT,
+                phase: 'aboutToAppear',
+                className: 'MainPage',
+                filePath: MAIN_PAGE,
+                lineNumber: 12,
+                hasImplementation: true,
+                module: 'entry'
+            },
+            {
+                signature: '@entry/src/main/ets/entryability/EntryAbility.ets: EntryAbility.onWindowStageCreate(window.WindowStage)',
+                type: LifecycleType.ABILITY,
+                phase: 'onWindowStageCreate',
+                className: 'EntryAbility',
+                filePath: ENTRY_ABILITY,
+                lineNumber: 20,
+                hasImplementation: true,
+                module: 'entry'
+            }
+        ],
+        coverage: {
+            ability: [coverage('onCreate', null, null), coverage('onWindowStageCreate', 'EntryAbility', ENTRY_ABILITY)],
+            component: [coverage('aboutToAppear', 'MainPage', MAIN_PAGE), coverage('onPageShow', null, null)],
+            callback: [coverage('onClick', null, null)]
+        },
+        undefinedIssues: [
+            {
+                ruleId: 'undefined-access',
+                method: 'EntryAbility.onWindowStageCreate',
+                className: 'EntryAbility',
+                phase: 'onWindowStageCreate',
+                module: 'entry',
+                filePath: ENTRY_ABILITY,
+                line: 24,
+                column: 9,
+                description: '可能的未定义变量访问: windowClass = undefined',
+                statement: 'windowClass = undefined',
+                severity: 'high'
+            }
+        ],
+        dataFlows: [
+            {
+                from: 'MainPage.aboutToAppear',
+                filePath: MAIN_PAGE,
+                to: 'MainPage.loadData',
+                variable: 'data',
+                line: 14,
+                callChain: ['MainPage.aboutToAppear', 'MainPage.loadData']
+            }
+        ],
+        findings: [
+            {
+                ruleId: 'listener-without-cleanup',
+                message: 'MainPage 注册了监听 (emitter.on) 但没有实现 aboutToDisappear',
+                severity: 'medium',
+                className: 'MainPage',
+                method: 'aboutToAppear',
+                filePath: MAIN_PAGE,
+                line: 13
+            }
+        ],
+        exclusions: { files: [], classes: [] },
+        modules: {
+            modules: [{ name: 'entry', type: 'entry', srcPath: 'entry', packageName: 'entry', dependencies: [] }],
+            summaries: [],
+            crossModuleCalls: []
+        },
+        callGraph: {
+            nodes: [
+                { id: 'EntryAbility.onCreate', label: 'EntryAbility.onCreate', className: 'EntryAbility', filePath: ENTRY_ABILITY, lifecycle: LifecycleType.ABILITY },
+                { id: 'Logger.info', label: 'Logger.info', className: 'Logger', filePath: 'entry/src/main/ets/common/Logger.ets', lifecycle: null }
+            ],
+            edges: [{ from: 'EntryAbility.onCreate', to: 'Logger.info' }]
+        },
+        diagnostics: { errors: [], methods: { undefined: { analyzed: 2, skipped: 0, failed: 0 } } },
+        suppressed: [],
+        baseline: null,
+        incremental: null,
+        profile: null
+    };
+}
@@ -0,0 +1,141 @@
+// gitDiff.test.ts - unified diff 的变更行区间
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ChangeSet, parseUnifiedDiff, unquotePath } from '../gitDiff';
+
+const DIFF = [
+    'diff --git a/entry/src/main/ets/pages/Index.ets b/entry/src/main/ets/pages/Index.ets',
+    'index 1111111..2222222 100644',
+    '--- a/entry/src/main/ets/pages/Index.ets',
+    '+++ b/entry/src/main/ets/pages/Index.ets',
+    '@@ -10,0 +11,3 @@ struct Index {',
+    '+  a',
+    '+  b',
+    '+  c',
+    '@@ -20 +23 @@ struct Index {',
+    '-  old',
+    '+  new',
+    '@@ -30,2 +32,0 @@ struct Index {',
+    '-  removed',
+    '-  removed',
+    'diff --git a/entry/src/main/ets/Old.ets b/entry/src/main/ets/Old.ets',
+    'deleted file mode 100644',
+    '--- a/entry/src/main/ets/Old.ets',
+    '+++ /dev/null',
+    '@@ -1,2 +0,0 @@',
+    '-x',
+    '-y',
+    'diff --git a/entry/src/main/ets/New.ets b/entry/src/main/ets/New.ets',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/entry/src/main/ets/New.ets',
+    '@@ -0,0 +1,2 @@',
+    '+x',
+    '+y'
+].join('\n');
+
+test('按 hunk 记录新版本的变更行区间', () => {
+    const files = parseUnifiedDiff(DIFF);
+
+    assert.deepEqual(Array.from(files.keys()), ['entry/src/main/ets/pages/Index.ets', 'entry/src/main/ets/New.ets']);
+    assert.deepEqual(files.get('entry/src/main/ets/pages/Index.ets'), [
+        { start: 11, end: 13 },
+        { start: 23, end: 23 },
+        // 纯删除：删除位置前后两行
+        { start: 32, end: 33 }
+    ]);
+    assert.deepEqual(files.get('entry/src/main/ets/New.ets'), [{ start: 1, end: 2 }]);
+});
+
+test('还原加引号的路径：八进制 UTF-8 字节和 C 风格转义', () => {
+    assert.equal(unquotePath('"b/pages/\\351\\246\\226\\351\\241\\265.ets"'), 'b/pages/首页.ets');
+    assert.equal(unquotePath('"b/a\\"q\\"\\\\b\\tc.ets"'), 'b/a"q"\\b\tc.ets');
+    assert.equal(unquotePath('b/plain.ets'), 'b/plain.ets');
+});
+
+test('解析加引号的路径和含空格的路径', () => {
+    const files = parseUnifiedDiff([
+        'diff --git "a/entry/\\351\\246\\226\\351\\241\\265.ets" "b/entry/\\351\\246\\226\\351\\241\\265.ets"',
+        '--- "a/entry/\\351\\246\\226\\351\\241\\265.ets"',
+        '+++ "b/entry/\\351\\246\\226\\351\\241\\265.ets"',
+        '@@ -1 +1 @@',
+        '-a',
+        '+b',
+        'diff --git a/entry/My Page.ets b/entry/My Page.ets',
+        '--- a/entry/My Page.ets\t',
+        '+++ b/entry/My Page.ets\t',
+        '@@ -2 +2 @@',
+        '-a',
+        '+b'
+    ].join('\n'));
+
+    assert.deepEqual(Array.from(files.keys()), ['entry/首页.ets', 'entry/My Page.ets']);
+});
+
+test('ChangeSet 按行和区间判断变更，路径分隔符统一', () => {
+    const changes = new ChangeSet('HEAD~1', parseUnifiedDiff(DIFF));
+
+    assert.deepEqual(changes.getChangedFiles(), ['entry/src/main/ets/New.ets', 'entry/src/main/ets/pages/Index.ets']);
+    assert.equal(changes.isFileChanged('.\\entry\\src\\main\\ets\\pages\\Index.ets'), true);
+    assert.equal(changes.isFileChanged('entry/src/main/ets/Old.ets'), false);
+    assert.equal(changes.isLineChanged('entry/src/main/ets/pages/Index.ets', 12), true);
+    assert.equal(changes.isLineChanged('entry/src/main/ets/pages/Index.ets', 14), false);
+    assert.equal(changes.overlaps('entry/src/main/ets/pages/Index.ets', 14, 23), true);
+    assert.equal(changes.overlaps('entry/src/main/ets/pages/Index.ets', 24, 31), false);
+});
+
+test('fromGit 读取工作区相对 range 的变更，失败时报错', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-gitdiff-'));
+    const git = (...args: string[]): void => {
+        execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir, stdio: 'ignore' });
+    };
+    try {
+        fs.writeFileSync(path.join(dir, 'Index.ets'), 'a\nb\nc\n', 'utf-8');
+        git('init', '-q');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'init');
+        fs.writeFileSync(path.join(dir, 'Index.ets'), 'a\nB\nc\n', 'utf-8');
+
+        const changes = ChangeSet.fromGit(dir, 'HEAD');
+        assert.deepEqual(changes.getChangedFiles(), ['Index.ets']);
+        assert.equal(changes.isLineChanged('Index.ets', 2), true);
+        assert.equal(changes.isLineChanged('Index.ets', 1), false);
+
+        assert.throws(() => ChangeSet.fromGit(dir, 'no-such-ref'), /no-such-ref/);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
+test('fromGit 不受 diff.noprefix 配置影响，非 ASCII 和含空格的文件名不变', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-gitdiff-'));
+    const git = (...args: string[]): void => {
+        execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir, stdio: 'ignore' });
+    };
+    try {
+        const files = ['首页.ets', 'My Page.ets'];
+        for (const file of files) {
+            fs.writeFileSync(path.join(dir, file), 'a\nb\n', 'utf-8');
+        }
+        git('init', '-q');
+        git('config', 'diff.noprefix', 'true');
+        git('config', 'core.quotePath', 'true');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'init');
+        for (const file of files) {
+            fs.writeFileSync(path.join(dir, file), 'a\nB\n', 'utf-8');
+        }
+
+        const changes = ChangeSet.fromGit(dir, 'HEAD');
+        assert.deepEqual(changes.getChangedFiles(), [...files].sort());
+        assert.equal(changes.isLineChanged('首页.ets', 2), true);
+        assert.equal(changes.isLineChanged('My Page.ets', 2), true);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
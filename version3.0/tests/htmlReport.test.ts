@@ -0,0 +1,61 @@
+// htmlReport.test.ts - 自包含 HTML 报告与内嵌数据的转义
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { renderHtmlReport } from '../htmlReport';
+import { getLocale, setLocale } from '../i18n';
+import { sampleResult } from './fixtures/sampleResult';
+
+/**
+ * 取出指定 id 的 <script> 块内容
+ */
+function scriptContent(html: string, id: string): string {
+    const match = html.match(new RegExp(`<script type="application/json" id="${id}">([\\s\\S]*?)</script>`));
+    assert.ok(match, `缺少 #${id}`);
+    return match[1];
+}
+
+test('报告不引用任何外部资源', () => {
+    const html = renderHtmlReport(sampleResult());
+
+    assert.ok(html.startsWith('<!DOCTYPE html>\n<html lang="zh-CN">'));
+    assert.doesNotMatch(html, /<script[^>]+src=/);
+    assert.doesNotMatch(html, /<link\b/);
+    assert.doesNotMatch(html, /<img\b/);
+    assert.doesNotMatch(html, /@import|url\(/);
+    assert.doesNotMatch(html, /(?:src|href)="(?:https?:)?\/\//);
+    assert.equal(html.match(/<script\b/g)?.length, 3);
+});
+
+test('内嵌数据中的 </script> 和 < 被转义，解析后与原结果一致', () => {
+    const result = sampleResult();
+    result.findings[0].message = '</script><script>alert(1)</script> <!-- a < b';
+    result.lifecycleMethods[0].className = 'List<Item>';
+
+    const html = renderHtmlReport(result);
+    const json = scriptContent(html, 'report-data');
+
+    assert.ok(!json.includes('<'));
+    assert.ok(json.includes('\\u003c/script>\\u003cscript>alert(1)\\u003c/script> \\u003c!-- a \\u003c b'));
+    assert.deepEqual(JSON.parse(json), result);
+    // 报告中只有三个脚本块的结束标签
+    assert.equal(html.match(/<\/script>/g)?.length, 3);
+});
+
+test('页面标题中的项目路径按 HTML 转义，消息按当前语言写入', () => {
+    const result = sampleResult();
+    result.projectDirectory = '/tmp/<b>"a&b"</b>';
+    const previous = getLocale();
+    setLocale('en');
+    try {
+        const html = renderHtmlReport(result);
+
+        assert.ok(html.includes('<html lang="en-US">'));
+        assert.ok(html.includes('/tmp/&lt;b&gt;&quot;a&amp;b&quot;&lt;/b&gt;'));
+        assert.ok(!html.includes('<b>"a&b"</b>'));
+        const messages = JSON.parse(scriptContent(html, 'report-messages')) as Record<string, string>;
+        assert.equal(messages['html.flows.target'], 'Target');
+    } finally {
+        setLocale(previous);
+    }
+});
@@ -0,0 +1,76 @@
+// i18n.test.ts - 消息格式化、语言回退与 --lang 解析
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { formatMessage, getLocale, hasMessage, languageTag, parseLocale, registerMessages, setLocale, t } from '../i18n';
+import { zh } from '../messages.zh';
+import { en } from '../messages.en';
+
+/**
+ * 消息中的占位符名称（排序去重）
+ */
+function placeholders(message: string): string[] {
+    return Array.from(new Set(Array.from(message.matchAll(/\{(\w+)\}/g), match => match[1]))).sort();
+}
+
+/**
+ * 以指定语言执行 `fn`，结束后恢复原语言
+ */
+function withLocale(locale: 'zh' | 'en', fn: () => void): void {
+    const previous = getLocale();
+    setLocale(locale);
+    try {
+        fn();
+    } finally {
+        setLocale(previous);
+    }
+}
+
+test('中英文消息目录的键和占位符一一对应', () => {
+    assert.deepEqual(Object.keys(en).sort(), Object.keys(zh).sort());
+
+    const mismatched = (Object.keys(zh) as (keyof typeof zh)[])
+        .filter(key => placeholders(zh[key]).join(',') !== placeholders(en[key]).join(','));
+    assert.deepEqual(mismatched, []);
+});
+
+test('按当前语言格式化消息并替换占位符', () => {
+    withLocale('zh', () => {
+        assert.equal(t('cli.error.unknownOption', { option: '--x' }), '未知选项: --x');
+    });
+    withLocale('en', () => {
+        assert.equal(t('cli.error.unknownOption', { option: '--x' }), 'Unknown option: --x');
+        assert.equal(languageTag(), 'en-US');
+    });
+    assert.equal(formatMessage('cli.error.unknownOption', { option: '--y' }, 'en'), 'Unknown option: --y');
+});
+
+test('缺少参数的占位符保持原样，多余参数被忽略，数字参数转为文本', () => {
+    assert.equal(formatMessage('cli.error.jobs', {}, 'zh'), '--jobs 需要非负整数: {value}');
+    assert.equal(formatMessage('cli.error.jobs', { value: 0, extra: 'x' }, 'zh'), '--jobs 需要非负整数: 0');
+    // 参数值中的占位符不会被再次替换
+    assert.equal(formatMessage('cli.error.jobs', { value: '{value}' }, 'zh'), '--jobs 需要非负整数: {value}');
+});
+
+test('当前语言缺少键时回退到中文，都没有时返回键本身', () => {
+    registerMessages('zh', { 'test.i18n.zhOnly': '只有中文 {name}' });
+
+    assert.equal(formatMessage('test.i18n.zhOnly', { name: 'A' }, 'en'), '只有中文 A');
+    assert.equal(hasMessage('test.i18n.zhOnly', 'en'), true);
+    assert.equal(formatMessage('test.i18n.missing', { name: 'A' }, 'en'), 'test.i18n.missing');
+    assert.equal(hasMessage('test.i18n.missing', 'en'), false);
+
+    registerMessages('en', { 'test.i18n.zhOnly': 'English {name}' });
+    assert.equal(formatMessage('test.i18n.zhOnly', { name: 'A' }, 'en'), 'English A');
+});
+
+test('parseLocale 接受大小写和地区后缀，拒绝不支持的语言', () => {
+    assert.equal(parseLocale('en'), 'en');
+    assert.equal(parseLocale('EN-us'), 'en');
+    assert.equal(parseLocale('zh_CN'), 'zh');
+
+    withLocale('zh', () => {
+        assert.throws(() => parseLocale('fr'), { message: '不支持的语言: fr（可选: zh, en）' });
+        assert.throws(() => parseLocale(''), /不支持的语言/);
+    });
+});
@@ -0,0 +1,78 @@
+// junitExport.test.ts - 规则、覆盖和门禁的 JUnit XML
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { renderJUnitXml } from '../junitExport';
+import { evaluateGates } from '../qualityGates';
+import { sampleResult } from './fixtures/sampleResult';
+
+/**
+ * 取出名为 `name` 的测试套件元素（含子元素）
+ */
+function suite(xml: string, name: string): string {
+    const match = xml.match(new RegExp(`  <testsuite name="${name}"[\\s\\S]*?  </testsuite>\\n`));
+    assert.ok(match, `缺少测试套件 ${name}`);
+    return match[0];
+}
+
+test('每条规则一个套件，有问题的生命周期方法失败', () => {
+    const xml = renderJUnitXml(sampleResult(), []);
+
+    assert.match(xml, /^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites name="OpenEye" tests="9" failures="2" errors="0" time="0">\n/);
+
+    const undefinedSuite = suite(xml, 'undefined-access');
+    assert.match(undefinedSuite, /tests="2" failures="1" errors="0" skipped="0" time="0" timestamp="2026-01-01T00:00:00.000Z"/);
+    assert.match(undefinedSuite, /<testcase name="aboutToAppear" classname="MainPage" file="entry\/src\/main\/ets\/pages\/MainPage.ets" line="12" time="0"\/>/);
+    assert.match(undefinedSuite, /<failure message="1 个问题" type="undefined-access">entry\/src\/main\/ets\/entryability\/EntryAbility.ets:24:9 \[high\] /);
+
+    // listeners Pass 未执行，但有该规则的结果时仍输出套件
+    const listenerSuite = suite(xml, 'listener-without-cleanup');
+    assert.match(listenerSuite, /<testcase name="aboutToAppear" classname="MainPage"[^>]*>\n      <failure [^>]*>entry\/src\/main\/ets\/pages\/MainPage.ets:13 \[medium\]/);
+});
+
+test('执行过的 Pass 即使没有问题也输出规则套件', () => {
+    const result = sampleResult();
+    result.undefinedIssues = [];
+    result.findings = [];
+    const xml = renderJUnitXml(result, []);
+
+    assert.match(suite(xml, 'undefined-access'), /failures="0"/);
+    assert.doesNotMatch(xml, /name="listener-without-cleanup"/);
+});
+
+test('不属于生命周期方法的问题单独成为用例', () => {
+    const result = sampleResult();
+    result.findings[0] = { ...result.findings[0], className: 'Helper', method: 'register' };
+    const listenerSuite = suite(renderJUnitXml(result, []), 'listener-without-cleanup');
+
+    assert.match(listenerSuite, /tests="3" failures="1"/);
+    assert.match(listenerSuite, /<testcase name="register" classname="Helper" file="entry\/src\/main\/ets\/pages\/MainPage.ets" line="13" time="0">/);
+});
+
+test('未使用的生命周期记为跳过', () => {
+    const xml = renderJUnitXml(sampleResult(), []);
+
+    assert.match(suite(xml, 'coverage.ability'), /skipped="1"/);
+    assert.match(suite(xml, 'coverage.ability'), /<testcase name="onCreate" classname="coverage.ability" time="0">\n      <skipped message="未使用"\/>/);
+    assert.match(suite(xml, 'coverage.ability'), /<testcase name="onWindowStageCreate" classname="coverage.ability" time="0"\/>/);
+    assert.match(suite(xml, 'coverage.callback'), /tests="1" failures="0" errors="0" skipped="1"/);
+});
+
+test('门禁结果作为 quality-gates 套件', () => {
+    const result = sampleResult();
+    const xml = renderJUnitXml(result, evaluateGates(result, { maxHighSeverity: 0, maxIssues: 5 }));
+    const gates = suite(xml, 'quality-gates');
+
+    assert.match(gates, /tests="2" failures="1"/);
+    assert.match(gates, /<failure message="high 问题 1 个（上限 0）" type="exit-code-3">实际 1，阈值 0<\/failure>/);
+    assert.match(gates, /<testcase name="maxIssues" classname="quality-gates" time="0"\/>/);
+});
+
+test('转义 XML 特殊字符并去掉控制字符', () => {
+    const result = sampleResult();
+    result.undefinedIssues[0].description = 'a < b && c > "d"\u0001';
+    const xml = renderJUnitXml(result, []);
+
+    assert.match(xml, /\[high\] a &lt; b &amp;&amp; c &gt; &quot;d&quot;<\/failure>/);
+    assert.doesNotMatch(xml, /\u0001/);
+});
@@ -0,0 +1,209 @@
+// markdownReport.test.ts - Markdown 报告的完整内容
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { renderMarkdownReport } from '../markdownReport';
+import { formatDate } from '../i18n';
+import { AnalysisResult, LifecycleType } from '../types';
+import { MAIN_PAGE, sampleResult } from './fixtures/sampleResult';
+import { sampleCallGraph } from './fixtures/sampleCallGraph';
+
+/**
+ * 样例结果加上一个无方法体的生命周期方法、带源码片段的问题和含表格分隔符的消息
+ */
+function reportResult(): AnalysisResult {
+    const result = sampleResult();
+    result.lifecycleMethods.push({
+        signature: `@${MAIN_PAGE}: MainPage.onPageShow()`,
+        type: LifecycleType.COMPONENT,
+        phase: 'onPageShow',
+        className: 'MainPage',
+        filePath: MAIN_PAGE,
+        lineNumber: 30,
+        hasImplementation: false,
+        module: 'entry'
+    });
+    result.undefinedIssues[0].snippet = {
+        startLine: 23,
+        lines: ['    let windowClass;', '    windowClass = undefined;'],
+        line: 24,
+        column: 5,
+        length: 11
+    };
+    result.findings[0].message = 'a | b';
+    return result;
+}
+
+test('Markdown 报告包含统计、覆盖率、各类使用情况、未使用方法、问题、推荐和调用图', () => {
+    const result = reportResult();
+    const GENERATED_AT = result.generatedAt;
+
+    const md = renderMarkdownReport(result, sampleCallGraph(), {}, () => undefined);
+
+    assert.equal(md, [
+        '# OpenEye 生命周期分析报告',
+        '',
+        '- **项目**: `/tmp/project`',
+        `- **生成时间**: ${formatDate(GENERATED_AT)}`,
+        '- **Pass**: lifecycle, callgraph, undefined, dataflow',
+        '',
+        '## 📊 基础统计',
+        '',
+        '| 项目 | 数值 |',
+        '|------|------|',
+        '| 文件数 | 2 |',
+        '| 类数量 | 2 |',
+        '| 方法总数 | 6 |',
+        '| Ability 类 | 1 |',
+        '| Component 类 | 1 |',
+        '| 生命周期方法实例 | 2 |',
+        '| 调用图节点 | 2 |',
+        '| 调用图边 | 1 |',
+        '| 数据流路径 | 1 |',
+        '| 潜在问题 | 2 |',
+        '',
+        '## 📈 生命周期覆盖情况',
+        '',
+        '### 📱 Ability 生命周期',
+        '',
+        '已使用 1 / 2 种 (50.0%)',
+        '',
+        '| 生命周期方法 | 已使用 | 使用次数 | 类 |',
+        '|------|------|------|------|',
+        '| onWindowStageCreate | ✓ | 1 | EntryAbility |',
+        '| onCreate | — | 0 | - |',
+        '',
+        '### 🎨 Component 生命周期',
+        '',
+        '已使用 1 / 2 种 (50.0%)',
+        '',
+        '| 生命周期方法 | 已使用 | 使用次数 | 类 |',
+        '|------|------|------|------|',
+        '| aboutToAppear | ✓ | 1 | MainPage |',
+        '| onPageShow | — | 0 | - |',
+        '',
+        '## 📋 各类的生命周期使用情况',
+        '',
+        '> ✓ 有方法体 ○ 无方法体（仅声明或空实现）',
+        '',
+        '### 📱 Ability 类',
+        '',
+        '| 类 | 文件 | 生命周期方法 |',
+        '|------|------|------|',
+        '| EntryAbility | `entry/src/main/ets/entryability/EntryAbility.ets` | ✓ onWindowStageCreate |',
+        '',
+        '### 🎨 Component 类',
+        '',
+        '| 类 | 文件 | 生命周期方法 |',
+        '|------|------|------|',
+        '| MainPage | `entry/src/main/ets/pages/MainPage.ets` | ✓ aboutToAppear, ○ onPageShow |',
+        '',
+        '## ⚪ 未使用的生命周期方法',
+        '',
+        '- **📱 Ability (1 种)**: onCreate',
+        '- **🎨 Component (1 种)**: onPageShow',
+        '',
+        '## ⚠️ 问题 (2)',
+        '',
+        '| 严重程度 | 规则 | 方法 | 位置 | 描述 |',
+        '|------|------|------|------|------|',
+        '| high | undefined-access | EntryAbility.onWindowStageCreate | `entry/src/main/ets/entryability/EntryAbility.ets:24:9` | 可能的未定义变量访问: windowClass = undefined |',
+        '| medium | listener-without-cleanup | MainPage.aboutToAppear | `entry/src/main/ets/pages/MainPage.ets:13` | a \\| b |',
+        '',
+        '### 源码位置',
+        '',
+        '**undefined-access** `entry/src/main/ets/entryability/EntryAbility.ets:24:9` — 可能的未定义变量访问: windowClass = undefined',
+        '',
+        '```text',
+        '  23 |     let windowClass;',
+        '> 24 |     windowClass = undefined;',
+        '     |     ^^^^^^^^^^^',
+        '```',
+        '',
+        '## 💡 推荐关注的生命周期方法',
+        '',
+        '| 生命周期方法 | 类型 | 理由 |',
+        '|------|------|------|',
+        '| onBackPress | Component | 处理返回键，提升用户体验 |',
+        '| aboutToReuse | Component | 组件复用优化，提升性能 |',
+        '| aboutToRecycle | Component | 组件回收优化，提升性能 |',
+        '| onNewWant | Ability | 处理新 Intent，支持应用唤起 |',
+        '| onConfigurationUpdate | Ability | 响应系统配置变化 |',
+        '| onDidBuild | Component | 组件构建完成后处理 |',
+        '| onWillApplyTheme | Component | 主题切换支持 |',
+        '',
+        '## 🗺️ 调用图',
+        '',
+        '> 从生命周期方法出发、最大调用深度 2 的调用图（4 个节点, 4 条边），SDK 未解析调用已折叠。完整调用图见 DOT / Mermaid 导出。',
+        '',
+        '```mermaid',
+        'flowchart LR',
+        '    subgraph f0["entry/src/main/ets/entryability/EntryAbility.ets"]',
+        '        subgraph f0_c0["EntryAbility"]',
+        '            n0["EntryAbility.onCreate"]',
+        '            n1["EntryAbility.init"]',
+        '        end',
+        '    end',
+        '    subgraph f1["common/src/main/ets/Logger.ets"]',
+        '        subgraph f1_c0["Logger"]',
+        '            n2["Logger.info"]',
+        '        end',
+        '    end',
+        '    subgraph f2["SDK / 未解析调用"]',
+        '        n3(["hilog.info"])',
+        '    end',
+        '    n0 --> n1',
+        '    n0 --> n3',
+        '    n1 --> n2',
+        '    n1 --> n3',
+        '    classDef ability fill:#F08080,stroke:#555',
+        '    class n0 ability',
+        '    classDef method fill:#ADD8E6,stroke:#555',
+        '    class n1,n2 method',
+        '    classDef unknown fill:#D3D3D3,stroke:#555',
+        '    class n3 unknown',
+        '```',
+        '',
+        '---',
+        '',
+        '*本报告由 openeye-analyze 根据分析结果生成*',
+        ''
+    ].join('\n'));
+});
+
+test('没有问题和调用图时输出占位文本，callGraph: false 时省略调用图一节', () => {
+    const result = reportResult();
+    result.undefinedIssues = [];
+    result.findings = [];
+    result.coverage.ability.forEach(stats => {
+        stats.isUsed = true;
+    });
+    result.coverage.component.forEach(stats => {
+        stats.isUsed = true;
+    });
+
+    const md = renderMarkdownReport(result, null, {}, () => undefined);
+    assert.ok(md.includes('## ⚪ 未使用的生命周期方法\n\n无\n\n'));
+    assert.ok(md.includes('## ⚠️ 问题 (0)\n\n无\n\n'));
+    assert.ok(md.includes('## 🗺️ 调用图\n\n未构建调用图（需要执行 callgraph Pass）\n\n'));
+    assert.ok(!md.includes('```mermaid'));
+
+    const withoutGraph = renderMarkdownReport(result, sampleCallGraph(), { callGraph: false }, () => undefined);
+    assert.ok(!withoutGraph.includes('## 🗺️ 调用图'));
+});
+
+test('嵌入的调用图按 depth / roots 裁剪，超过 Mermaid 边数上限时提示', () => {
+    const logs: string[] = [];
+    const graph = sampleCallGraph();
+    const hub = graph.nodes[1];
+    for (let i = 0; i <= 500; i++) {
+        graph.nodes.push({ ...hub, id: `${hub.id}#${i}`, label: `EntryAbility.step${i}` });
+        graph.edges.push({ from: hub.id, to: `${hub.id}#${i}` });
+    }
+
+    const md = renderMarkdownReport(reportResult(), graph, { roots: ['EntryAbility.init'], depth: 1 }, message => logs.push(message));
+
+    assert.ok(md.includes('最大调用深度 1 的调用图（504 个节点, 503 条边）'));
+    assert.ok(!md.includes('EntryAbility.onCreate"]'));
+    assert.ok(logs.some(line => line.includes('GitHub 可能无法渲染')));
+});
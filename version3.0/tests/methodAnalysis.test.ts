@@ -0,0 +1,57 @@
+// methodAnalysis.test.ts - 并行分析的任务分片与结果合并
+// 模块加载需要 ArkAnalyzer（不构建 Scene），不存在时跳过
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import type { MethodOutcome, MethodTask } from '../methodAnalysis';
+
+function hasArkAnalyzer(): boolean {
+    try {
+        require.resolve('../../../arkanalyzer/src/index');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const skip = !hasArkAnalyzer() && 'ArkAnalyzer 不可用';
+
+function loadMethodAnalysis(): typeof import('../methodAnalysis') {
+    return require('../methodAnalysis') as typeof import('../methodAnalysis');
+}
+
+function task(name: string): MethodTask {
+    return { signature: `@entry/Index.ets: Index.${name}()`, from: `Index.${name}`, filePath: 'entry/Index.ets', kinds: ['undefined', 'dataflow'] };
+}
+
+function outcome(name: string, found: boolean = true): MethodOutcome {
+    return { signature: task(name).signature, found, dataflow: { value: [], startedAt: 0, durationMs: 1 } };
+}
+
+test('按轮转方式分片，分片数不超过任务数', { skip }, () => {
+    const { shardTasks } = loadMethodAnalysis();
+    const tasks = ['a', 'b', 'c', 'd', 'e'].map(task);
+    const names = (shards: MethodTask[][]): string[][] => shards.map(shard => shard.map(item => item.from));
+
+    assert.deepEqual(names(shardTasks(tasks, 2)), [['Index.a', 'Index.c', 'Index.e'], ['Index.b', 'Index.d']]);
+    assert.deepEqual(names(shardTasks(tasks.slice(0, 2), 4)), [['Index.a'], ['Index.b']]);
+    // 工作线程数无效或没有任务时仍返回一个分片
+    assert.deepEqual(names(shardTasks(tasks.slice(0, 2), 0)), [['Index.a', 'Index.b']]);
+    assert.deepEqual(shardTasks([], 4), [[]]);
+});
+
+test('合并各分片的结果，失败的分片单独列出', { skip }, () => {
+    const { mergeShardOutcomes } = loadMethodAnalysis();
+    const merged = mergeShardOutcomes([
+        { result: [outcome('a'), outcome('c', false)] },
+        { error: 'Worker exited' },
+        { result: [outcome('b')] },
+        {}
+    ]);
+
+    assert.deepEqual(Array.from(merged.outcomes.keys()), ['a', 'c', 'b'].map(name => task(name).signature));
+    // 工作线程中找不到的方法也保留，由主线程按 found 判断是否串行分析
+    assert.equal(merged.outcomes.get(task('c').signature)?.found, false);
+    assert.deepEqual(['a', 'c', 'b'].map(name => merged.outcomes.get(task(name).signature)?.worker), [0, 0, 2]);
+    assert.deepEqual(merged.failed, [1, 3]);
+});
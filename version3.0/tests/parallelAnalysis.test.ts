@@ -0,0 +1,50 @@
+// parallelAnalysis.test.ts - 并行分析与串行分析的结果一致性
+// 需要 ArkAnalyzer（与 version3.0 同级的 arkanalyzer 目录），不存在时跳过
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { AnalysisResult } from '../types';
+
+const FIXTURE_PROJECT = path.join(__dirname, 'fixtures/lifecycle-project/entry/src/main');
+
+function hasArkAnalyzer(): boolean {
+    try {
+        require.resolve('../../../arkanalyzer/src/index');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 去掉每次运行都不同的字段
+ */
+function comparable(result: AnalysisResult): Omit<AnalysisResult, 'generatedAt'> {
+    const { generatedAt: _generatedAt, ...rest } = result;
+    return rest;
+}
+
+test('并行分析的结果与串行一致', { skip: !hasArkAnalyzer() && 'ArkAnalyzer 不可用' }, () => {
+    // 分析入口依赖 ArkAnalyzer，确认可用后再加载
+    const { analyzeProject } = require('../index') as typeof import('../index');
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-parallel-'));
+    try {
+        const configPath = path.join(dir, 'config.json');
+        fs.writeFileSync(configPath, JSON.stringify({
+            targetProjectName: 'lifecycle-project',
+            targetProjectDirectory: FIXTURE_PROJECT
+        }), 'utf-8');
+        const steps = ['lifecycle', 'callgraph', 'undefined', 'dataflow', 'listeners'];
+        const serial = analyzeProject({ configPath, outputDir: dir, steps, cacheDir: null, workers: 1 });
+        const parallel = analyzeProject({ configPath, outputDir: dir, steps, cacheDir: null, workers: 2 });
+
+        assert.ok(serial.lifecycleMethods.length > 0);
+        assert.deepEqual(parallel.diagnostics.errors, []);
+        assert.deepEqual(comparable(parallel), comparable(serial));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,106 @@
+// passes.test.ts - Pass 注册表的选择、依赖补全与排序
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { AnalysisPass, PassPhase, PassRegistry } from '../passes';
+
+/**
+ * 只声明依赖关系、不执行任何分析的 Pass
+ */
+function pass(name: string, requires: string[], produces: string[], phase: PassPhase = 'analysis', enabledByDefault?: boolean): AnalysisPass {
+    return { name, description: name, phase, requires, produces, enabledByDefault, run: () => undefined };
+}
+
+function registry(...passes: AnalysisPass[]): PassRegistry {
+    const result = new PassRegistry();
+    for (const p of passes) {
+        result.register(p);
+    }
+    return result;
+}
+
+function names(passes: AnalysisPass[]): string[] {
+    return passes.map(p => p.name);
+}
+
+test('select 按配置开关选择 Pass，未配置时使用 enabledByDefault', () => {
+    const passes = registry(
+        pass('lifecycle', [], ['lifecycleMethods']),
+        pass('listeners', ['lifecycleMethods'], ['findings'], 'analysis', false),
+        pass('report', [], [], 'output')
+    );
+
+    assert.deepEqual(passes.select({}), ['lifecycle', 'report']);
+    assert.deepEqual(passes.select({ listeners: { enabled: true }, report: { enabled: false } }), ['lifecycle', 'listeners']);
+});
+
+test('register 拒绝重复名称', () => {
+    const passes = registry(pass('lifecycle', [], ['lifecycleMethods']));
+
+    assert.throws(() => passes.register(pass('lifecycle', [], [])), /Pass 已注册: lifecycle/);
+});
+
+test('resolve 自动启用依赖产物的生成者，并把分析阶段排在输出阶段之前', () => {
+    const passes = registry(
+        pass('report', ['callGraph'], [], 'output'),
+        pass('dataflow', ['callGraph'], ['dataFlows']),
+        pass('callgraph', ['lifecycleMethods'], ['callGraph']),
+        pass('lifecycle', [], ['lifecycleMethods'])
+    );
+    const logs: string[] = [];
+
+    const resolved = passes.resolve(['report', 'dataflow'], message => logs.push(message));
+
+    assert.deepEqual(names(resolved), ['lifecycle', 'callgraph', 'dataflow', 'report']);
+    assert.deepEqual(logs, [
+        '   ➕ report 依赖 callGraph，自动启用 callgraph',
+        '   ➕ callgraph 依赖 lifecycleMethods，自动启用 lifecycle'
+    ]);
+});
+
+test('resolve 无依赖关系的 Pass 保持注册顺序，已选中的生成者不重复启用', () => {
+    const passes = registry(
+        pass('modules', [], ['modules']),
+        pass('lifecycle', [], ['lifecycleMethods']),
+        pass('undefined', ['lifecycleMethods'], ['undefinedIssues']),
+        pass('export', [], [], 'output')
+    );
+    const logs: string[] = [];
+
+    const resolved = passes.resolve(['export', 'undefined', 'lifecycle', 'modules'], message => logs.push(message));
+
+    assert.deepEqual(names(resolved), ['modules', 'lifecycle', 'undefined', 'export']);
+    assert.deepEqual(logs, []);
+});
+
+test('resolve 遇到未知 Pass 时列出可选名称', () => {
+    const passes = registry(pass('lifecycle', [], ['lifecycleMethods']), pass('report', [], [], 'output'));
+
+    assert.throws(() => passes.resolve(['lifecycel']), /未知 Pass: lifecycel \(可选: lifecycle, report\)/);
+});
+
+test('resolve 依赖的产物没有生成者时报错', () => {
+    const passes = registry(pass('dataflow', ['callGraph'], ['dataFlows']));
+
+    assert.throws(() => passes.resolve(['dataflow']), /Pass dataflow 依赖的产物 callGraph 没有任何 Pass 生成/);
+});
+
+test('resolve 检测同阶段内的循环依赖', () => {
+    const passes = registry(
+        pass('lifecycle', [], ['lifecycleMethods']),
+        pass('a', ['lifecycleMethods', 'fromB'], ['fromA']),
+        pass('b', ['fromA'], ['fromB'])
+    );
+
+    assert.throws(() => passes.resolve(['a']), /Pass 存在循环依赖: a, b/);
+});
+
+test('输出阶段依赖分析阶段的产物不构成循环', () => {
+    // 排序只在同阶段内进行，输出阶段的 Pass 总在分析阶段之后
+    const passes = registry(
+        pass('export', ['findings'], ['exported'], 'output'),
+        pass('listeners', [], ['findings'])
+    );
+
+    assert.deepEqual(names(passes.resolve(['export'], () => undefined)), ['listeners', 'export']);
+});
@@ -0,0 +1,94 @@
+// profiler.test.ts - 耗时统计、最慢方法与 Chrome Trace 转换
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { performance } from 'perf_hooks';
+
+import { Profiler, toChromeTrace } from '../profiler';
+import { ProfileReport } from '../types';
+
+/**
+ * 其他线程中 `msAgo` 毫秒前的时刻（performance.timeOrigin + performance.now() 的形式）
+ */
+function startedAt(msAgo: number): number {
+    return performance.timeOrigin + performance.now() - msAgo;
+}
+
+test('getReport 只列出实际求解最慢的 20 个方法，按耗时降序', () => {
+    const profiler = new Profiler();
+    for (let i = 0; i < 25; i++) {
+        profiler.recordMethod('undefined', `Page${i}.aboutToAppear`, 'Index.ets', { startedAt: startedAt(0), durationMs: i });
+    }
+    profiler.recordCachedMethod('undefined', 'Cached.onCreate', 'Index.ets');
+
+    const report = profiler.getReport();
+
+    assert.equal(report.methods.length, 26);
+    assert.deepEqual(report.slowestMethods.map(m => m.durationMs), Array.from({ length: 20 }, (_, i) => 24 - i));
+    assert.ok(!report.slowestMethods.some(m => m.cached));
+    // 报告是快照，修改不影响分析器内部状态
+    report.methods[0].durationMs = 1000;
+    assert.equal(profiler.getReport().methods[0].durationMs, 0);
+});
+
+test('measure 记录嵌套步骤，父步骤排在子步骤之前', () => {
+    const profiler = new Profiler();
+
+    const value = profiler.measure('Scene', () => profiler.measure('inferTypes', () => 42));
+    assert.throws(() => profiler.measure('lifecycle', () => {
+        throw new Error('boom');
+    }), /boom/);
+
+    const { spans, peakHeapMb } = profiler.getReport();
+    assert.equal(value, 42);
+    assert.deepEqual(spans.map(s => [s.name, s.depth]), [['Scene', 0], ['inferTypes', 1], ['lifecycle', 0]]);
+    assert.ok(spans[0].durationMs >= spans[1].durationMs);
+    assert.ok(peakHeapMb > 0);
+});
+
+test('工作线程中的方法按其开始时刻记录，而不是主线程收集结果的时刻', () => {
+    const profiler = new Profiler();
+    const before = profiler.getReport().totalMs;
+
+    profiler.recordMethod('dataflow', 'Index.aboutToAppear', 'Index.ets', { startedAt: startedAt(-50), durationMs: 12.3456 }, 1);
+    profiler.measureMethod('dataflow', 'Index.build', 'Index.ets', () => undefined);
+
+    const [parallel, serial] = profiler.getReport().methods;
+    assert.ok(parallel.startMs >= before + 50 && parallel.startMs < before + 1000, String(parallel.startMs));
+    assert.equal(parallel.durationMs, 12.35);
+    assert.equal(parallel.worker, 1);
+    assert.equal('worker' in serial, false);
+});
+
+test('toChromeTrace 把步骤、主线程方法和各工作线程的方法放在不同线程，跳过缓存命中的方法', () => {
+    const profile: ProfileReport = {
+        totalMs: 100,
+        peakHeapMb: 50,
+        peakRssMb: 80,
+        spans: [{ name: 'Scene', depth: 0, startMs: 0, durationMs: 40, heapBeforeMb: 10, heapAfterMb: 30 }],
+        methods: [
+            { pass: 'undefined', method: 'A.onCreate', filePath: 'A.ets', startMs: 45.5, durationMs: 2, cached: false, worker: 1 },
+            { pass: 'undefined', method: 'B.onCreate', filePath: 'B.ets', startMs: 41, durationMs: 3, cached: false, worker: 0 },
+            { pass: 'dataflow', method: 'C.build', filePath: 'C.ets', startMs: 60, durationMs: 1, cached: false },
+            { pass: 'dataflow', method: 'D.build', filePath: 'D.ets', startMs: 61, durationMs: 0, cached: true }
+        ],
+        slowestMethods: []
+    };
+
+    const trace = toChromeTrace(profile) as { traceEvents: Array<Record<string, unknown>>; displayTimeUnit: string; profile: ProfileReport };
+
+    assert.equal(trace.displayTimeUnit, 'ms');
+    assert.equal(trace.profile, profile);
+    assert.deepEqual(trace.traceEvents.filter(e => e.ph === 'M').map(e => [e.tid, (e.args as { name: string }).name]), [
+        [1, '步骤'], [2, '方法'], [3, '工作线程 1'], [4, '工作线程 2']
+    ]);
+    assert.deepEqual(trace.traceEvents.filter(e => e.ph === 'X').map(e => [e.name, e.tid, e.ts, e.dur]), [
+        ['Scene', 1, 0, 40000],
+        ['B.onCreate', 3, 41000, 3000],
+        ['A.onCreate', 4, 45500, 2000],
+        ['C.build', 2, 60000, 1000]
+    ]);
+    assert.deepEqual(trace.traceEvents.filter(e => e.ph === 'C').map(e => [e.ts, e.args]), [
+        [0, { MB: 10 }],
+        [40000, { MB: 30 }]
+    ]);
+});
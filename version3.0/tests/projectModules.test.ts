@@ -0,0 +1,135 @@
+// projectModules.test.ts - 多模块工程发现与跨模块调用解析
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ModuleResolver, discoverModules, singleModule } from '../projectModules';
+
+const FIXTURE_PROJECT = path.join(__dirname, 'fixtures/multi-module-project');
+
+function hasArkAnalyzer(): boolean {
+    try {
+        require.resolve('../../../arkanalyzer/src/index');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 在临时目录中创建工程文件，执行 `fn` 后删除
+ */
+function withProject(files: Record<string, string>, fn: (dir: string) => void): void {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-modules-'));
+    try {
+        for (const [file, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+            fs.writeFileSync(path.join(dir, file), content, 'utf-8');
+        }
+        fn(dir);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+test('从 build-profile.json5 发现模块并识别 HAP / HSP / HAR', () => {
+    const modules = discoverModules(FIXTURE_PROJECT);
+
+    assert.deepEqual(modules, [
+        { name: 'entry', type: 'entry', srcPath: 'entry', packageName: 'entry', dependencies: ['common', 'utils', '@ohos/axios'] },
+        { name: 'common', type: 'shared', srcPath: 'common', packageName: 'common', dependencies: [] },
+        { name: 'utils', type: 'har', srcPath: 'utils', packageName: '@app/utils', dependencies: [] }
+    ]);
+});
+
+test('没有 build-profile.json5 时按单模块工程处理', () => {
+    const modules = discoverModules(path.join(FIXTURE_PROJECT, 'entry/src/main'), 'HarmoneyOpenEye');
+
+    assert.deepEqual(modules, [singleModule('HarmoneyOpenEye')]);
+});
+
+test('忽略格式不符的模块项和依赖', () => {
+    withProject({
+        'build-profile.json5': "{ modules: [{ srcPath: './nameless' }, 'entry', { name: 'lib' }] }",
+        'lib/oh-package.json5': "{ name: 42, dependencies: ['not', 'a', 'map'] }",
+        'lib/src/main/module.json5': "{ module: 'shared' }"
+    }, dir => {
+        assert.deepEqual(discoverModules(dir), [
+            { name: 'lib', type: 'unknown', srcPath: 'lib', packageName: null, dependencies: [] }
+        ]);
+    });
+});
+
+test('build-profile.json5 没有 modules 时按单模块工程处理', () => {
+    withProject({ 'build-profile.json5': '{ app: {} }' }, dir => {
+        assert.deepEqual(discoverModules(dir, 'app'), [singleModule('app')]);
+    });
+});
+
+test('ModuleResolver 按最长路径归属文件', () => {
+    const resolver = new ModuleResolver([
+        { name: 'features', type: 'feature', srcPath: 'features', packageName: null, dependencies: [] },
+        { name: 'home', type: 'feature', srcPath: './features/home/', packageName: null, dependencies: [] }
+    ]);
+
+    assert.equal(resolver.moduleOf('features/home/src/main/ets/Home.ets'), 'home');
+    assert.equal(resolver.moduleOf('features\\settings\\src\\main\\ets\\Settings.ets'), 'features');
+    assert.equal(resolver.moduleOf('entry/src/main/ets/Index.ets'), null);
+    assert.equal(resolver.isMultiModule(), true);
+    assert.equal(new ModuleResolver([singleModule('app')]).isMultiModule(), false);
+});
+
+test('ModuleResolver 嵌套模块归属到内层模块，外层模块的其他目录仍归属外层', () => {
+    const resolver = new ModuleResolver([
+        { name: 'entry', type: 'entry', srcPath: 'entry', packageName: null, dependencies: [] },
+        { name: 'widgets', type: 'har', srcPath: 'entry/libs/widgets', packageName: null, dependencies: [] }
+    ]);
+
+    assert.equal(resolver.moduleOf('entry/libs/widgets/src/main/ets/Card.ets'), 'widgets');
+    assert.equal(resolver.moduleOf('./entry/libs/other/Util.ets'), 'entry');
+    // 只按路径段匹配，同名前缀的目录不归属该模块
+    assert.equal(resolver.moduleOf('entry2/src/main/ets/Index.ets'), null);
+    assert.equal(resolver.moduleOf('entry\\libs\\widgets\\src\\main\\ets\\Card.ets'), 'widgets');
+});
+
+test('ModuleResolver 单模块工程（srcPath 为 .）的所有文件都归属该模块', () => {
+    const resolver = new ModuleResolver([singleModule('app')]);
+
+    assert.equal(resolver.moduleOf('src/main/ets/pages/Index.ets'), 'app');
+    assert.equal(resolver.moduleOf('Index.ets'), 'app');
+    assert.equal(resolver.moduleOf('src\\main\\ets\\Index.ets'), 'app');
+});
+
+test('classifyCall 区分模块内、跨模块和未解析调用', () => {
+    const resolver = new ModuleResolver([
+        { name: 'entry', type: 'entry', srcPath: 'entry', packageName: null, dependencies: ['common'] },
+        { name: 'common', type: 'shared', srcPath: 'common', packageName: null, dependencies: [] }
+    ]);
+
+    assert.equal(resolver.classifyCall('entry', 'entry/src/main/ets/pages/Index.ets'), 'internal');
+    assert.equal(resolver.classifyCall('entry', 'common\\src\\main\\ets\\Logger.ets'), 'cross');
+    assert.equal(resolver.classifyCall('entry', '%unk'), 'unresolved');
+    assert.equal(resolver.classifyCall('entry', 'common/%unk/Logger.ets'), 'unresolved');
+    assert.equal(resolver.classifyCall('entry', 'oh_modules/@ohos/lottie/index.ets'), 'unresolved');
+    // 调用方不在任何模块时，能归属的被调方都算跨模块
+    assert.equal(resolver.classifyCall('(unknown)', 'common/src/main/ets/Logger.ets'), 'cross');
+});
+
+test('entry 对 HSP / HAR 的调用解析到被调模块', { skip: !hasArkAnalyzer() && 'ArkAnalyzer 不可用' }, () => {
+    // 分析入口依赖 ArkAnalyzer，确认可用后再加载
+    const { analyzeProject } = require('../index') as typeof import('../index');
+    withProject({}, dir => {
+        const configPath = path.join(dir, 'config.json');
+        fs.writeFileSync(configPath, JSON.stringify({
+            targetProjectName: 'multi-module-project',
+            targetProjectDirectory: FIXTURE_PROJECT
+        }), 'utf-8');
+        const result = analyzeProject({ configPath, outputDir: dir, steps: ['lifecycle', 'modules'] });
+        const calls = result.modules.crossModuleCalls;
+
+        assert.ok(calls.some(call => call.fromModule === 'entry' && call.toModule === 'common' && call.callee === 'Logger.info'));
+        assert.ok(calls.some(call => call.fromModule === 'entry' && call.toModule === 'utils' && call.callee.endsWith('.formatDate')));
+    });
+});
@@ -0,0 +1,75 @@
+// qualityGates.test.ts - 门禁阈值、依赖的 Pass 与退出码
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { EXIT_CODES, coveragePercent, evaluateGates, gateExitCode, requiredPassesForGates } from '../qualityGates';
+import { sampleResult } from './fixtures/sampleResult';
+
+test('启用的门禁自动加入依赖的 Pass', () => {
+    assert.deepEqual(requiredPassesForGates(undefined), []);
+    assert.deepEqual(requiredPassesForGates({ minAbilityCoverage: 50 }), []);
+    assert.deepEqual(requiredPassesForGates({ maxIssues: 0 }), ['undefined']);
+    assert.deepEqual(requiredPassesForGates({ maxHighSeverity: 0, requireListenerCleanup: true }), ['undefined', 'listeners']);
+});
+
+test('按严重程度和总数检查问题上限', () => {
+    // 样例结果中有 1 个 high 问题和 1 个 medium 结果
+    const results = evaluateGates(sampleResult(), { maxHighSeverity: 0, maxMediumSeverity: 1, maxIssues: 2 });
+
+    assert.deepEqual(results.map(r => [r.name, r.passed, r.actual, r.threshold]), [
+        ['maxHighSeverity', false, 1, 0],
+        ['maxMediumSeverity', true, 1, 1],
+        ['maxIssues', true, 2, 2]
+    ]);
+    assert.equal(gateExitCode(results), EXIT_CODES.GATE_ISSUES);
+});
+
+test('undefined Pass 未执行时问题数门禁不通过，而不是按 0 个问题通过', () => {
+    const result = sampleResult();
+    result.steps = ['lifecycle', 'callgraph'];
+    result.undefinedIssues = [];
+    result.findings = [];
+    const results = evaluateGates(result, { maxIssues: 0 });
+
+    assert.equal(results.length, 1);
+    assert.equal(results[0].passed, false);
+    assert.equal(results[0].message, '问题总数: 依赖的 undefined Pass 未执行，无法检查');
+    assert.equal(gateExitCode(results), EXIT_CODES.GATE_ISSUES);
+});
+
+test('监听注销门禁依赖 listeners Pass', () => {
+    const notRun = evaluateGates(sampleResult(), { requireListenerCleanup: true });
+    assert.equal(notRun[0].passed, false);
+    assert.match(notRun[0].message, /listeners Pass 未执行/);
+
+    const result = sampleResult();
+    result.steps.push('listeners');
+    const failed = evaluateGates(result, { requireListenerCleanup: true });
+    assert.deepEqual([failed[0].passed, failed[0].actual], [false, 1]);
+    assert.match(failed[0].message, /MainPage$/);
+    assert.equal(gateExitCode(failed), EXIT_CODES.GATE_LISTENER_CLEANUP);
+
+    result.findings = [];
+    assert.equal(gateExitCode(evaluateGates(result, { requireListenerCleanup: true })), EXIT_CODES.OK);
+});
+
+test('覆盖率按已使用的生命周期种类计算', () => {
+    const result = sampleResult();
+    assert.equal(coveragePercent(result.coverage.ability), 50);
+    assert.equal(coveragePercent([]), 0);
+
+    const results = evaluateGates(result, { minAbilityCoverage: 50, minComponentCoverage: 60 });
+    assert.deepEqual(results.map(r => [r.name, r.passed, r.actual]), [
+        ['minAbilityCoverage', true, 50],
+        ['minComponentCoverage', false, 50]
+    ]);
+    assert.equal(gateExitCode(results), EXIT_CODES.GATE_COVERAGE);
+});
+
+test('退出码取第一个未通过的门禁，未配置门禁时为 0', () => {
+    assert.deepEqual(evaluateGates(sampleResult(), undefined), []);
+    assert.equal(gateExitCode([]), EXIT_CODES.OK);
+
+    const results = evaluateGates(sampleResult(), { maxHighSeverity: 0, minComponentCoverage: 100 });
+    assert.equal(gateExitCode(results), EXIT_CODES.GATE_ISSUES);
+});
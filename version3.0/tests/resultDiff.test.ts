@@ -0,0 +1,111 @@
+// resultDiff.test.ts - 两次分析结果的比较
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { DIFF_REPORT_NAME, exportResultDiff } from '../diffReport';
+import { exportResultJson } from '../resultFile';
+import { collectIssues, diffResults, summarizeDiff } from '../resultDiff';
+import { AnalysisResult } from '../types';
+import { MAIN_PAGE, sampleResult } from './fixtures/sampleResult';
+
+/**
+ * 在样例结果上：问题下移两行、监听结果已修复、新增一个问题，MainPage 新实现 onPageShow，数据流目标改变
+ */
+function currentResult(): AnalysisResult {
+    const current = sampleResult();
+    const issue = current.undefinedIssues[0];
+    current.undefinedIssues = [
+        { ...issue, line: 26 },
+        { ...issue, line: 30, statement: 'windowStage = undefined', description: '可能的未定义变量访问: windowStage = undefined' }
+    ];
+    current.findings = [];
+    current.lifecycleMethods.push({ ...current.lifecycleMethods[0], phase: 'onPageShow', signature: 'MainPage.onPageShow()', lineNumber: 20 });
+    current.coverage.component[1] = { ...current.coverage.component[1], isUsed: true, usageCount: 1, classes: ['MainPage'], files: [MAIN_PAGE] };
+    current.dataFlows = [{ ...current.dataFlows[0], to: 'MainPage.refresh' }];
+    return current;
+}
+
+test('问题按指纹匹配，行号变化不算新问题', () => {
+    const diff = diffResults(sampleResult(), currentResult());
+
+    assert.deepEqual(diff.newIssues.map(issue => [issue.ruleId, issue.line]), [['undefined-access', 30]]);
+    assert.deepEqual(diff.resolvedIssues.map(issue => [issue.ruleId, issue.method]), [['listener-without-cleanup', 'MainPage.aboutToAppear']]);
+});
+
+test('同一指纹按次数匹配', () => {
+    const previous = sampleResult();
+    const current = sampleResult();
+    current.undefinedIssues.push({ ...current.undefinedIssues[0], line: 40 });
+
+    assert.equal(collectIssues(current).length, 3);
+    assert.deepEqual(diffResults(previous, current).newIssues.map(issue => issue.line), [40]);
+    assert.deepEqual(diffResults(current, previous).resolvedIssues.map(issue => issue.line), [40]);
+});
+
+test('比较生命周期覆盖、生命周期方法和数据流', () => {
+    const diff = diffResults(sampleResult(), currentResult());
+
+    assert.deepEqual(diff.coverage.component, { gained: ['onPageShow'], lost: [], previousPercent: 50, currentPercent: 100 });
+    assert.deepEqual(diff.coverage.ability, { gained: [], lost: [], previousPercent: 50, currentPercent: 50 });
+    assert.equal(diff.lifecycleMethodDelta, 1);
+    assert.deepEqual(diff.lifecycleClasses, [{ className: 'MainPage', filePath: MAIN_PAGE, added: ['onPageShow'], removed: [] }]);
+    assert.deepEqual(diff.dataFlows, [{ method: 'MainPage.aboutToAppear', filePath: MAIN_PAGE, added: ['MainPage.refresh'], removed: ['MainPage.loadData'] }]);
+});
+
+test('不同文件中的同名类分别比较', () => {
+    const otherPage = 'entry/src/main/ets/pages/settings/MainPage.ets';
+    const previous = sampleResult();
+    previous.lifecycleMethods.push({ ...previous.lifecycleMethods[0], filePath: otherPage, phase: 'onPageShow' });
+    previous.dataFlows.push({ ...previous.dataFlows[0], filePath: otherPage, to: 'Settings.load' });
+    const current = sampleResult();
+    current.lifecycleMethods.push({ ...current.lifecycleMethods[0], filePath: otherPage });
+    current.dataFlows.push({ ...current.dataFlows[0], filePath: otherPage });
+
+    // 另一个 MainPage 改为实现 aboutToAppear、调用目标改变，不影响原来的 MainPage
+    const diff = diffResults(previous, current);
+    assert.deepEqual(diff.lifecycleClasses, [
+        { className: 'MainPage', filePath: otherPage, added: ['aboutToAppear'], removed: ['onPageShow'] }
+    ]);
+    assert.deepEqual(diff.dataFlows, [
+        { method: 'MainPage.aboutToAppear', filePath: otherPage, added: ['MainPage.loadData'], removed: ['Settings.load'] }
+    ]);
+});
+
+test('相同结果没有差异', () => {
+    const diff = diffResults(sampleResult(), sampleResult());
+
+    assert.deepEqual([diff.newIssues, diff.resolvedIssues, diff.lifecycleClasses, diff.dataFlows], [[], [], [], []]);
+    assert.equal(summarizeDiff(diff), '0 个新问题，0 个已解决');
+});
+
+test('摘要包含覆盖和生命周期方法的变化', () => {
+    assert.equal(summarizeDiff(diffResults(sampleResult(), currentResult())), '1 个新问题，1 个已解决，覆盖 +1 种生命周期，生命周期方法 +1');
+    assert.equal(summarizeDiff(diffResults(currentResult(), sampleResult())), '1 个新问题，1 个已解决，覆盖 -1 种生命周期，生命周期方法 -1');
+});
+
+test('差异报告写入失败时抛出，diff 子命令据此返回非零退出码', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-diff-'));
+    const silent = (): void => undefined;
+    const originalError = console.error;
+    console.error = silent;
+    try {
+        const previousPath = path.join(dir, 'previous.json');
+        const currentPath = path.join(dir, 'current.json');
+        exportResultJson(sampleResult(), previousPath, silent);
+        exportResultJson(currentResult(), currentPath, silent);
+
+        const report = exportResultDiff(previousPath, currentPath, path.join(dir, 'out'), silent);
+        assert.equal(report.newIssues.length, 1);
+        assert.ok(fs.existsSync(path.join(dir, 'out', `${DIFF_REPORT_NAME}.json`)));
+
+        // 输出目录被同名文件占用
+        fs.writeFileSync(path.join(dir, 'blocked'), '', 'utf-8');
+        assert.throws(() => exportResultDiff(previousPath, currentPath, path.join(dir, 'blocked'), silent), /ENOTDIR|EEXIST/);
+    } finally {
+        console.error = originalError;
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,117 @@
+// resultMerge.test.ts - 监听模式的按文件合并
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { mergeFileResults } from '../resultMerge';
+import { AnalysisResult } from '../types';
+import { ENTRY_ABILITY, MAIN_PAGE, sampleResult } from './fixtures/sampleResult';
+
+/**
+ * 只重新分析了 MainPage.ets 的结果：aboutToAppear 换成 onPageShow，问题和数据流随之变化
+ */
+function partialForMainPage(): AnalysisResult {
+    const partial = sampleResult();
+    partial.generatedAt = '2026-01-01T00:05:00.000Z';
+    partial.lifecycleMethods = [{ ...partial.lifecycleMethods[0], phase: 'onPageShow', signature: 'MainPage.onPageShow()' }];
+    partial.undefinedIssues = [];
+    partial.findings = [];
+    partial.dataFlows = [{ from: 'MainPage.onPageShow', filePath: MAIN_PAGE, to: 'MainPage.refresh', variable: 'data', line: 20, callChain: ['MainPage.onPageShow', 'MainPage.refresh'] }];
+    partial.diagnostics.errors = [
+        { pass: 'undefined', method: 'MainPage.onPageShow()', phase: 'onPageShow', filePath: MAIN_PAGE, message: 'boom', stack: null }
+    ];
+    return partial;
+}
+
+test('只替换重新分析的文件中的结果', () => {
+    const merged = mergeFileResults(sampleResult(), partialForMainPage(), new Set([MAIN_PAGE]));
+
+    assert.deepEqual(merged.lifecycleMethods.map(lm => `${lm.className}.${lm.phase}`).sort(), ['EntryAbility.onWindowStageCreate', 'MainPage.onPageShow']);
+    // EntryAbility.ets 未重新分析，其问题保留
+    assert.deepEqual(merged.undefinedIssues.map(issue => issue.filePath), [ENTRY_ABILITY]);
+    assert.deepEqual(merged.findings, []);
+    assert.deepEqual(merged.dataFlows.map(flow => flow.from), ['MainPage.onPageShow']);
+    assert.equal(merged.stats.lifecycleMethods, 2);
+    assert.equal(merged.stats.dataFlowPaths, 1);
+    assert.equal(merged.diagnostics.errors.length, 1);
+    assert.equal(merged.generatedAt, '2026-01-01T00:05:00.000Z');
+});
+
+test('按合并后的生命周期方法重新统计覆盖', () => {
+    const merged = mergeFileResults(sampleResult(), partialForMainPage(), new Set([MAIN_PAGE]));
+    const component = Object.fromEntries(merged.coverage.component.map(stat => [stat.methodName, stat]));
+
+    assert.equal(component.aboutToAppear.isUsed, false);
+    assert.deepEqual(component.aboutToAppear.classes, []);
+    assert.equal(component.onPageShow.isUsed, true);
+    assert.deepEqual(component.onPageShow.files, [MAIN_PAGE]);
+    assert.equal(merged.coverage.ability.find(stat => stat.methodName === 'onWindowStageCreate')?.isUsed, true);
+});
+
+test('部分结果中依赖文件的内容不计入', () => {
+    // 构建 Scene 时加载的被导入文件也可能产生结果，只取重新分析的文件
+    const partial = partialForMainPage();
+    partial.undefinedIssues = [{ ...sampleResult().undefinedIssues[0], line: 99 }];
+    const merged = mergeFileResults(sampleResult(), partial, new Set([MAIN_PAGE]));
+
+    assert.deepEqual(merged.undefinedIssues.map(issue => issue.line), [24]);
+});
+
+test('不属于任何文件的旧诊断被本次结果替换', () => {
+    const previous = sampleResult();
+    previous.diagnostics.errors = [
+        { pass: 'callgraph', method: null, phase: null, filePath: null, message: 'old', stack: null },
+        { pass: 'undefined', method: 'EntryAbility.onCreate()', phase: 'onCreate', filePath: ENTRY_ABILITY, message: 'kept', stack: null }
+    ];
+    const merged = mergeFileResults(previous, partialForMainPage(), new Set([MAIN_PAGE]));
+
+    assert.deepEqual(merged.diagnostics.errors.map(error => error.message), ['kept', 'boom']);
+});
+
+test('问题数和各 Pass 的方法统计按合并后的内容重新统计', () => {
+    const partial = partialForMainPage();
+    const issue = { ...sampleResult().undefinedIssues[0], filePath: MAIN_PAGE, method: 'MainPage.onPageShow', line: 21 };
+    partial.undefinedIssues = [issue];
+    partial.suppressed = [{
+        ruleId: issue.ruleId,
+        method: issue.method,
+        filePath: MAIN_PAGE,
+        line: 22,
+        column: 9,
+        message: issue.description,
+        severity: 'high',
+        reason: '',
+        commentLine: 21
+    }];
+    // 部分结果的统计还包含构建 Scene 时加载的依赖文件
+    partial.stats.undefinedIssues = 5;
+    partial.diagnostics.methods = { undefined: { analyzed: 3, skipped: 0, failed: 1 } };
+    const merged = mergeFileResults(sampleResult(), partial, new Set([MAIN_PAGE]));
+
+    // EntryAbility.ets 的 1 个 + MainPage.ets 本次的 1 个可见、1 个被抑制
+    assert.equal(merged.stats.undefinedIssues, 3);
+    // onPageShow 失败（诊断 boom），onWindowStageCreate 沿用上次
+    assert.deepEqual(merged.diagnostics.methods, { undefined: { analyzed: 1, skipped: 0, failed: 1 } });
+});
+
+test('部分结果中依赖文件的诊断不计入', () => {
+    const partial = partialForMainPage();
+    partial.diagnostics.errors.push(
+        { pass: 'undefined', method: 'EntryAbility.onCreate()', phase: 'onCreate', filePath: ENTRY_ABILITY, message: 'dependency', stack: null }
+    );
+    const merged = mergeFileResults(sampleResult(), partial, new Set([MAIN_PAGE]));
+
+    assert.deepEqual(merged.diagnostics.errors.map(error => error.message), ['boom']);
+});
+
+test('数据流按来源方法所在文件替换，其他文件中的同名类不受影响', () => {
+    const otherPage = 'entry/src/main/ets/pages/settings/MainPage.ets';
+    const previous = sampleResult();
+    previous.lifecycleMethods.push({ ...previous.lifecycleMethods[0], filePath: otherPage });
+    previous.dataFlows.push({ ...previous.dataFlows[0], filePath: otherPage, to: 'Settings.load' });
+    const merged = mergeFileResults(previous, partialForMainPage(), new Set([MAIN_PAGE]));
+
+    assert.deepEqual(merged.dataFlows.map(flow => [flow.filePath, flow.from, flow.to]), [
+        [otherPage, 'MainPage.aboutToAppear', 'Settings.load'],
+        [MAIN_PAGE, 'MainPage.onPageShow', 'MainPage.refresh']
+    ]);
+});
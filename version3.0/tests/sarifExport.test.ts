@@ -0,0 +1,170 @@
+// sarifExport.test.ts - SARIF 2.1.0 日志结构
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { buildSarifLog } from '../sarifExport';
+import { AnalysisResult } from '../types';
+import { ENTRY_ABILITY, MAIN_PAGE, sampleResult } from './fixtures/sampleResult';
+
+/**
+ * 测试读取到的 SARIF 字段
+ */
+interface SarifRegion {
+    startLine?: number;
+    startColumn?: number;
+    endColumn?: number;
+    endLine?: number;
+    snippet?: { text: string };
+}
+
+interface SarifResult {
+    ruleId: string;
+    ruleIndex: number;
+    level: string;
+    message: { text: string };
+    locations: Array<{
+        physicalLocation: {
+            artifactLocation: { uri: string; uriBaseId: string };
+            region?: SarifRegion;
+            contextRegion?: SarifRegion;
+        };
+        logicalLocations: Array<{ fullyQualifiedName: string }>;
+    }>;
+    partialFingerprints?: Record<string, string>;
+    suppressions?: Array<{ kind: string; justification: string }>;
+}
+
+interface SarifRun {
+    tool: { driver: { rules: Array<{ id: string; name: string; fullDescription: { text: string } }> } };
+    originalUriBaseIds: { SRCROOT: { uri: string } };
+    invocations: Array<{
+        executionSuccessful: boolean;
+        toolExecutionNotifications: Array<{ message: { text: string }; exception?: { stack: { frames: unknown[] } } }>;
+    }>;
+    results: SarifResult[];
+}
+
+function sarifRun(result: AnalysisResult): SarifRun {
+    const log = buildSarifLog(result) as { version: string; runs: SarifRun[] };
+    assert.equal(log.version, '2.1.0');
+    assert.equal(log.runs.length, 1);
+    return log.runs[0];
+}
+
+test('按严重程度映射结果级别，规则索引指向规则表', () => {
+    const run = sarifRun(sampleResult());
+    const rules = run.tool.driver.rules;
+
+    assert.deepEqual(rules.map(rule => [rule.id, rule.name]), [
+        ['undefined-access', 'UndefinedAccess'],
+        ['listener-without-cleanup', 'ListenerWithoutCleanup']
+    ]);
+    assert.deepEqual(run.results.map(r => [r.ruleId, r.level]), [
+        ['undefined-access', 'error'],
+        ['listener-without-cleanup', 'warning']
+    ]);
+    for (const r of run.results) {
+        assert.equal(rules[r.ruleIndex].id, r.ruleId);
+    }
+    assert.equal(run.originalUriBaseIds.SRCROOT.uri, 'file:///tmp/project/');
+});
+
+test('自定义规则使用通用说明', () => {
+    const result = sampleResult();
+    result.findings[0].ruleId = 'my-rule';
+    const rule = sarifRun(result).tool.driver.rules.find(r => r.id === 'my-rule');
+
+    assert.equal(rule?.name, 'my-rule');
+    assert.equal(rule?.fullDescription.text, '自定义 Pass 规则 my-rule');
+});
+
+test('没有源码片段时只写行列号', () => {
+    const location = sarifRun(sampleResult()).results[0].locations[0];
+
+    assert.deepEqual(location.physicalLocation.artifactLocation, { uri: ENTRY_ABILITY, uriBaseId: 'SRCROOT' });
+    assert.deepEqual(location.physicalLocation.region, { startLine: 24, startColumn: 9 });
+    assert.equal(location.physicalLocation.contextRegion, undefined);
+    assert.equal(location.logicalLocations[0].fullyQualifiedName, 'EntryAbility.onWindowStageCreate');
+});
+
+test('源码片段写入结果区域和上下文区域', () => {
+    const result = sampleResult();
+    result.undefinedIssues[0].snippet = {
+        startLine: 23,
+        lines: ['    let windowClass;', '    windowClass = undefined;', '    windowClass.show();'],
+        line: 24,
+        column: 5,
+        length: 11
+    };
+    const location = sarifRun(result).results[0].locations[0].physicalLocation;
+
+    assert.deepEqual(location.region, {
+        startLine: 24,
+        startColumn: 5,
+        endColumn: 16,
+        snippet: { text: '    windowClass = undefined;' }
+    });
+    assert.deepEqual(location.contextRegion, {
+        startLine: 23,
+        endLine: 25,
+        snippet: { text: '    let windowClass;\n    windowClass = undefined;\n    windowClass.show();' }
+    });
+});
+
+test('文件路径按 URI 编码并统一分隔符', () => {
+    const result = sampleResult();
+    result.findings[0].filePath = 'entry\\src\\main\\ets\\pages\\Main Page#1.ets';
+
+    assert.equal(sarifRun(result).results[1].locations[0].physicalLocation.artifactLocation.uri, 'entry/src/main/ets/pages/Main%20Page%231.ets');
+});
+
+test('指纹不随行号变化', () => {
+    const moved = sampleResult();
+    moved.undefinedIssues[0].line = 40;
+    moved.findings[0].line = 30;
+    const before = sarifRun(sampleResult()).results.map(r => r.partialFingerprints?.['openeye/v1']);
+    const after = sarifRun(moved).results.map(r => r.partialFingerprints?.['openeye/v1']);
+
+    assert.ok(before.every(fingerprint => typeof fingerprint === 'string' && fingerprint.length > 0));
+    assert.deepEqual(after, before);
+});
+
+test('被抑制的问题带 inSource 抑制标记且没有指纹', () => {
+    const result = sampleResult();
+    result.suppressed = [{
+        ruleId: 'undefined-access',
+        method: 'MainPage.aboutToAppear',
+        filePath: MAIN_PAGE,
+        line: 15,
+        column: 3,
+        message: '可能的未定义变量访问: x = undefined',
+        severity: 'low',
+        reason: '初始化前不会访问',
+        commentLine: 14
+    }];
+    const suppressed = sarifRun(result).results[2];
+
+    assert.equal(suppressed.level, 'note');
+    assert.deepEqual(suppressed.suppressions, [{ kind: 'inSource', justification: '初始化前不会访问' }]);
+    assert.equal(suppressed.partialFingerprints, undefined);
+});
+
+test('分析器内部错误写为工具执行通知', () => {
+    const run = sarifRun(sampleResult());
+    assert.deepEqual(run.invocations[0], { executionSuccessful: true, toolExecutionNotifications: [] });
+
+    const result = sampleResult();
+    result.diagnostics.errors = [{
+        pass: 'undefined',
+        method: 'MainPage.aboutToAppear()',
+        phase: 'aboutToAppear',
+        filePath: MAIN_PAGE,
+        message: 'boom',
+        stack: 'Error: boom\n    at solve (solver.ts:1:1)\n    at run (pass.ts:2:2)'
+    }];
+    const invocation = sarifRun(result).invocations[0];
+
+    assert.equal(invocation.executionSuccessful, false);
+    assert.equal(invocation.toolExecutionNotifications[0].message.text, '[undefined] MainPage.aboutToAppear(): boom');
+    assert.equal(invocation.toolExecutionNotifications[0].exception?.stack.frames.length, 2);
+});
@@ -0,0 +1,62 @@
+// scopeFilter.test.ts - include / exclude 通配符与类名过滤
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { ScopeFilter, globToRegExp } from '../scopeFilter';
+
+test('globToRegExp 支持 **、*、? 和 {a,b}', () => {
+    assert.ok(globToRegExp('**/*.ets').test('Index.ets'));
+    assert.ok(globToRegExp('**/*.ets').test('entry/src/main/ets/pages/Index.ets'));
+    assert.ok(!globToRegExp('*.ets').test('pages/Index.ets'));
+    assert.ok(globToRegExp('pages/Page?.ets').test('pages/Page1.ets'));
+    assert.ok(!globToRegExp('pages/Page?.ets').test('pages/Page10.ets'));
+    assert.ok(globToRegExp('**/*.{ets,ts}').test('common/Logger.ts'));
+    assert.ok(!globToRegExp('**/*.{ets,ts}').test('common/Logger.js'));
+    // 正则元字符按字面匹配
+    assert.ok(globToRegExp('a+b.(1).ets').test('a+b.(1).ets'));
+    assert.ok(!globToRegExp('a.ets').test('abets'));
+});
+
+test('默认范围排除测试目录、构建产物和三方依赖', () => {
+    const scope = new ScopeFilter();
+
+    assert.equal(scope.acceptFile('entry/src/main/ets/pages/Index.ets'), true);
+    assert.equal(scope.acceptFile('entry/src/ohosTest/ets/test/Ability.test.ets'), false);
+    assert.equal(scope.acceptFile('entry/oh_modules/@ohos/axios/index.ts'), false);
+    assert.equal(scope.acceptFile('entry\\build\\default\\generated.ts'), false);
+    assert.deepEqual(scope.getExcludedFiles().map(e => e.target), [
+        'entry/src/ohosTest/ets/test/Ability.test.ets',
+        'entry/oh_modules/@ohos/axios/index.ts',
+        'entry/build/default/generated.ts'
+    ]);
+    assert.match(scope.getExcludedFiles()[1].rule, /^exclude: \*\*\/oh_modules\/\*\*$/);
+});
+
+test('未匹配 include 的文件被排除并记录规则', () => {
+    const scope = new ScopeFilter({ include: ['**/pages/**'], exclude: [] });
+
+    assert.equal(scope.acceptFile('entry/src/main/ets/pages/Index.ets'), true);
+    assert.equal(scope.acceptFile('entry/src/main/ets/common/Logger.ets'), false);
+    assert.match(scope.getExcludedFiles()[0].rule, /^include \(/);
+});
+
+test('按类名模式排除默认类和匿名类', () => {
+    const scope = new ScopeFilter();
+
+    assert.equal(scope.acceptClass('MainPage', 'pages/MainPage.ets'), true);
+    assert.equal(scope.acceptClass('%dflt', 'pages/MainPage.ets'), false);
+    assert.equal(scope.acceptClass('%AC0$MainPage$build', 'pages/MainPage.ets'), false);
+    assert.deepEqual(scope.getExcludedClasses(), [
+        { target: 'pages/MainPage.ets#%dflt', rule: 'excludeClasses: *%dflt*' },
+        { target: 'pages/MainPage.ets#%AC0$MainPage$build', rule: 'excludeClasses: *%AC*' }
+    ]);
+});
+
+test('restrictTo 只接受指定文件，其余文件不记为排除', () => {
+    const scope = new ScopeFilter();
+    scope.restrictTo(['entry/src/main/ets/pages/Index.ets']);
+
+    assert.equal(scope.acceptFile('entry/src/main/ets/pages/Index.ets'), true);
+    assert.equal(scope.acceptFile('entry/src/main/ets/pages/About.ets'), false);
+    assert.deepEqual(scope.getExcludedFiles(), []);
+});
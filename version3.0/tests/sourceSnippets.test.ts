@@ -0,0 +1,105 @@
+// sourceSnippets.test.ts - 源码片段截取与文本渲染
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { SourceFiles, extractSnippet, renderSnippetText } from '../sourceSnippets';
+
+const LINES = [
+    'export default class EntryAbility extends UIAbility {',
+    '    onCreate(want: Want): void {',
+    '        this.context.eventHub.on(\'ready\', this.onReady);',
+    '        let windowClass = undefined;',
+    '        windowClass.setUIContent(\'pages/Index\');',
+    '    }',
+    '}'
+];
+
+test('截取出错行前后各两行，按列号高亮表达式', () => {
+    const snippet = extractSnippet(LINES, 5, 9)!;
+
+    assert.deepEqual(snippet, {
+        startLine: 3,
+        lines: LINES.slice(2, 7),
+        line: 5,
+        column: 9,
+        length: 'windowClass.setUIContent(\'pages/Index\')'.length
+    });
+    assert.deepEqual(renderSnippetText(snippet), [
+        '  3 |         this.context.eventHub.on(\'ready\', this.onReady);',
+        '  4 |         let windowClass = undefined;',
+        '> 5 |         windowClass.setUIContent(\'pages/Index\');',
+        '    |         ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+        '  6 |     }',
+        '  7 | }'
+    ]);
+});
+
+test('第一行和最后一行的片段不越过文件边界', () => {
+    const first = extractSnippet(LINES, 1, 0)!;
+    assert.equal(first.startLine, 1);
+    assert.deepEqual(first.lines, LINES.slice(0, 3));
+
+    const last = extractSnippet(LINES, 7, 1)!;
+    assert.equal(last.startLine, 5);
+    assert.deepEqual(last.lines, LINES.slice(4, 7));
+    // 列号处不是表达式时高亮到行尾
+    assert.equal(last.length, 1);
+});
+
+test('行号越界时不生成片段', () => {
+    assert.equal(extractSnippet(LINES, 0, 1), undefined);
+    assert.equal(extractSnippet(LINES, LINES.length + 1, 1), undefined);
+    assert.equal(extractSnippet([], 1, 1), undefined);
+});
+
+test('列号未知或越界时高亮去掉缩进后的整行', () => {
+    const unknown = extractSnippet(LINES, 4, 0, 0)!;
+    assert.equal(unknown.column, 9);
+    assert.equal(unknown.length, 'let windowClass = undefined;'.length);
+
+    const beyond = extractSnippet(LINES, 4, 200, 0)!;
+    assert.equal(beyond.column, 9);
+    assert.deepEqual(renderSnippetText(beyond), [
+        '> 4 |         let windowClass = undefined;',
+        '    |         ^^^^^^^^^^^^^^^^^^^^^^^^^^^^'
+    ]);
+});
+
+test('高亮行保留制表符，行号按最大行号对齐', () => {
+    const lines = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', '\tfoo?.bar(x).baz = 1', 'j', 'k'];
+    const snippet = extractSnippet(lines, 9, 2)!;
+
+    assert.equal(snippet.length, 'foo?.bar(x).baz'.length);
+    assert.deepEqual(renderSnippetText(snippet), [
+        '   7 | g',
+        '   8 | h',
+        '>  9 | \tfoo?.bar(x).baz = 1',
+        '     | \t^^^^^^^^^^^^^^^',
+        '  10 | j',
+        '  11 | k'
+    ]);
+});
+
+test('SourceFiles 读取并缓存项目中的文件，文件不存在时返回 undefined', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-snippets-'));
+    try {
+        fs.mkdirSync(path.join(dir, 'src'));
+        fs.writeFileSync(path.join(dir, 'src/Index.ets'), LINES.join('\r\n'), 'utf-8');
+        const files = new SourceFiles(dir);
+
+        assert.deepEqual(files.snippet('src/Index.ets', 5, 9)?.lines, LINES.slice(2, 7));
+        // 读取后的修改不影响已缓存的内容
+        fs.writeFileSync(path.join(dir, 'src/Index.ets'), '', 'utf-8');
+        assert.equal(files.getLines('src/Index.ets').length, LINES.length);
+
+        assert.equal(files.snippet('src/Missing.ets', 1, 1), undefined);
+        assert.deepEqual(files.getLines('src/Missing.ets'), []);
+        assert.equal(files.snippet('', 1, 1), undefined);
+        assert.equal(files.snippet('src/Index.ets', 0, 1), undefined);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
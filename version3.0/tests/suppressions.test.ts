@@ -0,0 +1,80 @@
+// suppressions.test.ts - openeye-ignore 注释的解析与作用范围
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { SuppressionIndex, parseSuppression } from '../suppressions';
+
+const PAGE = 'entry/src/main/ets/pages/Index.ets';
+
+/**
+ * 把 `source` 写到临时工程的 PAGE，执行 `fn` 后删除
+ */
+function withSource(source: string[], fn: (index: SuppressionIndex) => void): void {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openeye-suppressions-'));
+    try {
+        fs.mkdirSync(path.dirname(path.join(dir, PAGE)), { recursive: true });
+        fs.writeFileSync(path.join(dir, PAGE), source.join('\n'), 'utf-8');
+        fn(new SuppressionIndex(dir));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+test('解析规则列表和理由', () => {
+    assert.deepEqual(parseSuppression('// openeye-ignore undefined-access: 初始化前不会访问', 3), {
+        rules: ['undefined-access'],
+        reason: '初始化前不会访问',
+        line: 3
+    });
+    assert.deepEqual(parseSuppression('  x = y; //openeye-ignore undefined-access , listener-without-cleanup', 7), {
+        rules: ['undefined-access', 'listener-without-cleanup'],
+        reason: '',
+        line: 7
+    });
+    assert.deepEqual(parseSuppression('// openeye-ignore *: 生成代码', 1)?.rules, ['*']);
+});
+
+test('没有规则或不是注释时不算抑制', () => {
+    assert.equal(parseSuppression('// openeye-ignore', 1), null);
+    assert.equal(parseSuppression('// openeye-ignore: 理由', 1), null);
+    assert.equal(parseSuppression('const s = "openeye-ignore undefined-access";', 1), null);
+});
+
+test('行尾注释和上方连续的注释行生效，空行被跳过', () => {
+    withSource([
+        'aboutToAppear() {',
+        '  // openeye-ignore undefined-access: 初始化前不会访问',
+        '',
+        '  this.a = undefined;',
+        '  this.b = undefined; // openeye-ignore listener-without-cleanup',
+        '}'
+    ], index => {
+        assert.equal(index.find(PAGE, 4, 'undefined-access')?.line, 2);
+        assert.equal(index.find(PAGE, 5, 'listener-without-cleanup')?.line, 5);
+        // 规则不匹配
+        assert.equal(index.find(PAGE, 4, 'listener-without-cleanup'), null);
+    });
+});
+
+test('上方语句的行尾注释不向下生效', () => {
+    withSource([
+        '  this.a = undefined; // openeye-ignore undefined-access',
+        '  this.b = undefined;',
+        '  // openeye-ignore *',
+        '  this.c = undefined;'
+    ], index => {
+        assert.equal(index.find(PAGE, 2, 'undefined-access'), null);
+        assert.equal(index.find(PAGE, 4, 'any-rule')?.rules.join(), '*');
+    });
+});
+
+test('文件不存在或行号无效时没有抑制', () => {
+    withSource(['// openeye-ignore *'], index => {
+        assert.equal(index.find('missing.ets', 2, 'undefined-access'), null);
+        assert.equal(index.find(PAGE, 0, 'undefined-access'), null);
+        assert.equal(index.find('', 2, 'undefined-access'), null);
+    });
+});
@@ -0,0 +1,34 @@
+// workerPool.test.ts - 同步工作线程池的结果顺序与失败处理
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+
+import { runWorkersSync } from '../workerPool';
+
+const ECHO_WORKER = path.join(__dirname, 'fixtures/echoWorker.ts');
+
+test('按输入顺序返回结果，与工作线程结束的先后无关', () => {
+    const outcomes = runWorkersSync<string>(ECHO_WORKER, [
+        { value: 'slow', delayMs: 300 },
+        { value: 'fast', delayMs: 0 }
+    ]);
+
+    assert.deepEqual(outcomes, [{ result: 'slow' }, { result: 'fast' }]);
+});
+
+test('工作线程抛出异常或异常退出时只影响对应的结果', () => {
+    const outcomes = runWorkersSync<string>(ECHO_WORKER, [
+        { value: 'a', delayMs: 0, fail: true },
+        { value: 'b', delayMs: 0 },
+        { value: 'c', delayMs: 0, exitCode: 3 }
+    ]);
+
+    assert.match(outcomes[0].error ?? '', /failed: a/);
+    assert.deepEqual(outcomes[1], { result: 'b' });
+    assert.equal(outcomes[2].result, undefined);
+    assert.equal(outcomes[2].error, '工作线程异常退出，退出码 3');
+});
+
+test('没有输入时立即返回', () => {
+    assert.deepEqual(runWorkersSync<string>(ECHO_WORKER, []), []);
+});
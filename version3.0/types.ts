@@ -0,0 +1,433 @@
+// types.ts - Version 3.0 分析结果类型定义
+// 这些类型都是可序列化的，供 CLI、报告和外部脚本共同使用
+import type { Locale } from './i18n';
+import type { AnalysisPass } from './passes';
+
+/**
+ * 分析器版本，写入 SARIF 和缓存键；分析逻辑变化时递增以使旧缓存失效
+ */
+export const ANALYZER_VERSION = '3.0.0';
+
+/**
+ * 生命周期方法类型
+ */
+export enum LifecycleType {
+    ABILITY = 'Ability',
+    COMPONENT = 'Component',
+    CALLBACK = 'Callback'
+}
+
+/**
+ * 生命周期方法记录（不含 ArkMethod 引用，可直接序列化）
+ */
+export interface LifecycleMethodRecord {
+    signature: string;
+    type: LifecycleType;
+    phase: string;
+    className: string;
+    filePath: string;
+    lineNumber: number;
+    hasImplementation: boolean;
+    module: string;
+}
+
+/**
+ * 数据流信息
+ */
+export interface DataFlowInfo {
+    /** 来源的生命周期方法（类名.生命周期阶段） */
+    from: string;
+    /** 来源方法所在文件；不同文件中可能有同名的类 */
+    filePath: string;
+    to: string;
+    variable: string;
+    line: number;
+    callChain: string[];
+}
+
+/**
+ * 问题严重程度
+ */
+export type Severity = 'high' | 'medium' | 'low';
+
+/**
+ * 未定义变量检查的规则 ID
+ */
+export const UNDEFINED_ACCESS_RULE = 'undefined-access';
+
+/**
+ * 组件注册监听但未实现 aboutToDisappear 的规则 ID
+ */
+export const LISTENER_CLEANUP_RULE = 'listener-without-cleanup';
+
+/**
+ * 问题所在的源码片段：出错行及前后几行，`line` / `column` / `length` 标出出错的表达式
+ */
+export interface SourceSnippet {
+    /** 片段第一行的行号（从 1 开始） */
+    startLine: number;
+    lines: string[];
+    /** 出错行的行号 */
+    line: number;
+    /** 高亮起始列（从 1 开始） */
+    column: number;
+    /** 高亮的字符数 */
+    length: number;
+}
+
+/**
+ * 未定义变量问题
+ */
+export interface UndefinedIssue {
+    ruleId: string;
+    method: string;
+    className: string;
+    /** 所在的生命周期阶段（方法名） */
+    phase: string;
+    module: string;
+    filePath: string;
+    line: number;
+    column: number;
+    description: string;
+    /** 完整的 IR 语句文本 */
+    statement: string;
+    severity: Severity;
+    /** 源码片段，源文件无法读取时不存在 */
+    snippet?: SourceSnippet;
+}
+
+/**
+ * 自定义 Pass 产生的规则检查结果
+ */
+export interface Finding {
+    ruleId: string;
+    message: string;
+    severity: Severity;
+    className: string;
+    method: string;
+    filePath: string;
+    line: number;
+    /** 列号（从 1 开始），未知时为 0 或不填 */
+    column?: number;
+    /** 源码片段，由分析器按 filePath / line / column 填充 */
+    snippet?: SourceSnippet;
+    /** 消息键；设置后 message 按当前语言由该键生成，基线指纹始终使用中文消息 */
+    messageId?: string;
+    /** 消息键的占位符参数 */
+    messageArgs?: Record<string, string | number>;
+}
+
+/**
+ * 被排除的文件或类，以及排除它的规则
+ */
+export interface Exclusion {
+    target: string;
+    rule: string;
+}
+
+/**
+ * 分析结果统计
+ */
+export interface AnalysisStats {
+    totalFiles: number;
+    totalClasses: number;
+    totalMethods: number;
+    abilityClasses: number;
+    componentClasses: number;
+    lifecycleMethods: number;
+    callGraphNodes: number;
+    callGraphEdges: number;
+    dataFlowPaths: number;
+    undefinedIssues: number;
+}
+
+/**
+ * 生命周期覆盖统计
+ */
+export interface CoverageStats {
+    methodName: string;
+    isDefined: boolean;
+    isUsed: boolean;
+    usageCount: number;
+    classes: string[];
+    files: string[];
+}
+
+/**
+ * 模块类型（module.json5 中的 module.type，HAR 通过 hvigor 插件识别）
+ */
+export type ModuleType = 'entry' | 'feature' | 'shared' | 'har' | 'unknown';
+
+/**
+ * 工程模块
+ */
+export interface ModuleInfo {
+    name: string;
+    type: ModuleType;
+    /** 相对工程根目录的模块路径 */
+    srcPath: string;
+    /** oh-package.json5 中的包名 */
+    packageName: string | null;
+    /** 依赖的模块名（非本工程的三方包保留包名） */
+    dependencies: string[];
+}
+
+/**
+ * 单个模块的统计
+ */
+export interface ModuleSummary {
+    module: string;
+    type: ModuleType;
+    files: number;
+    classes: number;
+    methods: number;
+    abilityLifecycles: number;
+    componentLifecycles: number;
+    undefinedIssues: number;
+    findings: number;
+    dataFlows: number;
+    internalCalls: number;
+    crossModuleCalls: number;
+    unresolvedCalls: number;
+}
+
+/**
+ * 跨模块调用
+ */
+export interface CrossModuleCall {
+    fromModule: string;
+    toModule: string;
+    caller: string;
+    callee: string;
+    count: number;
+}
+
+/**
+ * 模块分析结果
+ */
+export interface ModuleReport {
+    modules: ModuleInfo[];
+    summaries: ModuleSummary[];
+    crossModuleCalls: CrossModuleCall[];
+}
+
+/**
+ * 调用图节点
+ */
+export interface CallGraphNode {
+    /** 方法签名 */
+    id: string;
+    /** 类名.方法名 */
+    label: string;
+    className: string;
+    filePath: string;
+    /** 生命周期方法的类型，普通方法为 null */
+    lifecycle: LifecycleType | null;
+}
+
+/**
+ * 调用图边
+ */
+export interface CallGraphEdge {
+    from: string;
+    to: string;
+}
+
+/**
+ * 可序列化的调用图（从生命周期方法出发的调用关系）
+ */
+export interface CallGraphData {
+    nodes: CallGraphNode[];
+    edges: CallGraphEdge[];
+}
+
+/**
+ * 分析器内部错误（求解器崩溃、Pass 抛出异常等），不是被分析代码的问题
+ */
+export interface Diagnostic {
+    /** 出错的 Pass */
+    pass: string;
+    /** 出错的方法签名，Pass 级错误为 null */
+    method: string | null;
+    /** 生命周期阶段，非生命周期方法为 null */
+    phase: string | null;
+    filePath: string | null;
+    message: string;
+    stack: string | null;
+}
+
+/**
+ * 按方法执行的 Pass 的统计
+ */
+export interface MethodAnalysisSummary {
+    analyzed: number;
+    /** 无 CFG 或方法体为空 */
+    skipped: number;
+    failed: number;
+}
+
+/**
+ * 分析诊断信息
+ */
+export interface DiagnosticReport {
+    errors: Diagnostic[];
+    /** Pass 名称 -> 方法统计 */
+    methods: Record<string, MethodAnalysisSummary>;
+}
+
+/**
+ * 被源码中的 `openeye-ignore` 注释抑制的问题
+ */
+export interface SuppressedFinding {
+    ruleId: string;
+    /** 类名.方法名 */
+    method: string;
+    filePath: string;
+    line: number;
+    column: number;
+    message: string;
+    severity: Severity;
+    /** 注释中填写的理由，未填写时为空字符串 */
+    reason: string;
+    /** 抑制注释所在行 */
+    commentLine: number;
+}
+
+/**
+ * 一段计时（Scene 构建、类型推导、Pass 等），时间相对分析开始，内存单位为 MB
+ */
+export interface ProfileSpan {
+    name: string;
+    /** 嵌套层级，0 为顶层步骤 */
+    depth: number;
+    startMs: number;
+    durationMs: number;
+    heapBeforeMb: number;
+    heapAfterMb: number;
+}
+
+/**
+ * 单个方法的一次分析耗时
+ */
+export interface MethodTiming {
+    pass: string;
+    method: string;
+    filePath: string;
+    startMs: number;
+    durationMs: number;
+    /** 结果来自方法级缓存，未实际求解 */
+    cached: boolean;
+    /** 在第几个工作线程中分析（从 0 开始），主线程中分析时省略 */
+    worker?: number;
+}
+
+/**
+ * 性能分析报告
+ */
+export interface ProfileReport {
+    totalMs: number;
+    peakHeapMb: number;
+    peakRssMb: number;
+    spans: ProfileSpan[];
+    methods: MethodTiming[];
+    /** 实际求解耗时最长的方法（最多 20 个） */
+    slowestMethods: MethodTiming[];
+}
+
+/**
+ * 增量分析结果
+ */
+export interface IncrementalReport {
+    /** git range，如 main..HEAD */
+    range: string;
+    changedFiles: string[];
+    /** 与变更行相交的方法（类名.方法名） */
+    changedMethods: string[];
+    /** 变更方法在调用图中的直接调用者和被调用者（类名.方法名，不含变更方法本身） */
+    relatedMethods: string[];
+    /** 不在变更行内、但位于相关方法中的问题 */
+    related: {
+        undefinedIssues: UndefinedIssue[];
+        findings: Finding[];
+    };
+}
+
+/**
+ * 基线过滤结果
+ */
+export interface BaselineSummary {
+    path: string;
+    /** 因已在基线中而未报告的问题数 */
+    suppressed: number;
+    /** 基线中有、本次未再出现的问题数（可更新基线） */
+    fixed: number;
+}
+
+/**
+ * 分析步骤（即 Pass 名称）
+ */
+export type AnalysisStep = string;
+
+/**
+ * 分析选项
+ */
+export interface AnalyzeOptions {
+    configPath: string;
+    outputDir: string;
+    /** 要执行的 Pass；为 null 时按配置文件的 passes 设置选择 */
+    steps: AnalysisStep[] | null;
+    /** 额外注册的自定义 Pass */
+    passes: AnalysisPass[];
+    silent: boolean;
+    /** 严格模式：存在内部错误时分析失败 */
+    strict: boolean;
+    /** 基线文件路径，为 null 时使用配置文件中的 baseline */
+    baselinePath: string | null;
+    /** 用本次结果重写基线文件，而不是按基线过滤 */
+    updateBaseline: boolean;
+    /** 增量模式的 git range（如 main..HEAD），为 null 时分析全部文件 */
+    diffRange: string | null;
+    /** 分析缓存目录，为 null 时不读写缓存 */
+    cacheDir: string | null;
+    /** 记录各步骤和各方法的耗时与堆内存 */
+    profile: boolean;
+    /** 逐方法分析的工作线程数，1 为串行，0 为 CPU 核数 */
+    workers: number;
+    /** 控制台输出和导出文件的语言 */
+    lang: Locale;
+}
+
+/**
+ * 完整分析结果
+ */
+export interface AnalysisResult {
+    generatedAt: string;
+    projectDirectory: string;
+    steps: AnalysisStep[];
+    stats: AnalysisStats;
+    lifecycleMethods: LifecycleMethodRecord[];
+    coverage: {
+        ability: CoverageStats[];
+        component: CoverageStats[];
+        callback: CoverageStats[];
+    };
+    undefinedIssues: UndefinedIssue[];
+    dataFlows: DataFlowInfo[];
+    findings: Finding[];
+    exclusions: {
+        files: Exclusion[];
+        classes: Exclusion[];
+    };
+    modules: ModuleReport;
+    /** 未构建调用图时为 null */
+    callGraph: CallGraphData | null;
+    diagnostics: DiagnosticReport;
+    /** 被行内注释抑制的问题（不出现在 undefinedIssues / findings 中） */
+    suppressed: SuppressedFinding[];
+    /** 未使用基线时为 null */
+    baseline: BaselineSummary | null;
+    /** 非增量模式时为 null；增量模式下 lifecycleMethods、undefinedIssues、findings、dataFlows 只包含变更部分 */
+    incremental: IncrementalReport | null;
+    /** 未开启性能分析时为 null */
+    profile: ProfileReport | null;
+}
@@ -0,0 +1,183 @@
+// watchMode.ts - 监听模式
+// 监听目标项目目录，源文件保存后只重新分析变化的文件及导入了它们的文件，并输出与上次结果的差异
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { AnalysisResult, AnalyzeOptions, ModuleInfo } from './types';
+import { FileSelection, runAnalysis } from './analyzeOpenEyeLifecycle';
+import { loadAnalysisConfig } from './analysisConfig';
+import { buildImportGraph, collectReachable, hashProjectFiles, invertImportGraph, isSourcePath } from './analysisCache';
+import { discoverModules } from './projectModules';
+import { mergeFileResults } from './resultMerge';
+import { DiffIssue, diffResults, summarizeDiff } from './resultDiff';
+import { PassPhase } from './passes';
+import { formatTime, setLocale, t } from './i18n';
+
+/**
+ * 文件保存后等待的时间，合并编辑器一次保存触发的多个事件
+ */
+const DEBOUNCE_MS = 300;
+
+/**
+ * 每次差异中最多列出的问题数
+ */
+const MAX_LISTED_ISSUES = 10;
+
+/**
+ * 执行一次分析，失败时打印错误并返回 null
+ */
+function analyzeOnce(opts: AnalyzeOptions, phases: PassPhase[], selection?: FileSelection): AnalysisResult | null {
+    try {
+        return runAnalysis(opts, phases, selection).result;
+    } catch (error) {
+        console.error(`   ❌ ${t('run.failed')}: ${error instanceof Error ? error.message : error}`);
+        return null;
+    }
+}
+
+/**
+ * 一次重新分析的结果
+ */
+interface WatchUpdate {
+    result: AnalysisResult;
+    /** 重新分析的文件数，完整分析时为 null */
+    affected: number | null;
+}
+
+/**
+ * 监听会话：在两次保存之间保留上次结果和文件哈希
+ *
+ * ArkAnalyzer 不能在已有 Scene 中替换文件，每次变化只用受影响的文件（变化的文件及直接、间接导入了它们的文件）
+ * 和它们导入的文件构建 Scene，重新执行分析阶段的 Pass 后按文件合并到上次结果中。
+ * 模块配置（.json5）变化、新增或删除文件、增量模式（--diff）以及上次分析失败时执行完整分析。
+ */
+class WatchSession {
+    private opts: AnalyzeOptions;
+    private projectDirectory: string;
+    private modules: ModuleInfo[];
+    private fileHashes: Map<string, string> = new Map();
+    private result: AnalysisResult | null = null;
+
+    constructor(opts: AnalyzeOptions, projectDirectory: string, modules: ModuleInfo[]) {
+        this.opts = opts;
+        this.projectDirectory = projectDirectory;
+        this.modules = modules;
+    }
+
+    /**
+     * 完整分析并记录当前的文件哈希
+     */
+    public analyzeAll(opts: AnalyzeOptions, phases: PassPhase[]): AnalysisResult | null {
+        this.fileHashes = hashProjectFiles(this.projectDirectory);
+        this.result = analyzeOnce(opts, phases);
+        return this.result;
+    }
+
+    /**
+     * 按文件内容哈希找出变化的文件并重新分析，分析失败时返回 null（下次变化时重试）
+     */
+    public update(): WatchUpdate | null {
+        const hashes = hashProjectFiles(this.projectDirectory);
+        const changed = Array.from(hashes.keys()).filter(file => this.fileHashes.get(file) !== hashes.get(file));
+        const removed = Array.from(this.fileHashes.keys()).some(file => !hashes.has(file));
+        const fullRun = !this.result || this.opts.diffRange !== null || removed ||
+            changed.some(file => !this.fileHashes.has(file) || path.extname(file) === '.json5');
+        if (fullRun) {
+            const result = this.analyzeAll({ ...this.opts, silent: true }, ['analysis']);
+            return result ? { result, affected: null } : null;
+        }
+        if (changed.length === 0) {
+            return { result: this.result!, affected: 0 };
+        }
+
+        const imports = buildImportGraph(this.projectDirectory, hashes, this.modules);
+        const affected = collectReachable(invertImportGraph(imports), changed);
+        const selection: FileSelection = {
+            analyze: Array.from(affected),
+            load: Array.from(collectReachable(imports, affected))
+        };
+        const partial = analyzeOnce({ ...this.opts, silent: true }, ['analysis'], selection);
+        if (!partial) {
+            return null;
+        }
+        this.fileHashes = hashes;
+        this.result = mergeFileResults(this.result!, partial, affected);
+        return { result: this.result, affected: affected.size };
+    }
+}
+
+function printIssues(sign: string, issues: DiffIssue[]): void {
+    for (const issue of issues.slice(0, MAX_LISTED_ISSUES)) {
+        console.log(`   ${sign} [${issue.severity}] ${issue.method}  ${issue.filePath}:${issue.line}  ${issue.message}`);
+    }
+    if (issues.length > MAX_LISTED_ISSUES) {
+        console.log(`   ${sign} ... ${t('watch.more', { count: issues.length - MAX_LISTED_ISSUES })}`);
+    }
+}
+
+/**
+ * 监听项目目录并在源文件变化时重新分析
+ *
+ * 首次运行执行完整分析（含报告和导出），之后每次变化只静默重新分析受影响的文件（见 WatchSession），
+ * 并打印「新问题 / 已解决 / 覆盖变化」摘要。返回的 watcher 关闭后进程即可退出。
+ * 配置文件无法读取、项目目录不存在时抛出异常，此时没有开始监听。
+ */
+export function watchProject(opts: AnalyzeOptions, debounceMs: number = DEBOUNCE_MS): fs.FSWatcher {
+    setLocale(opts.lang);
+    const analysisConfig = loadAnalysisConfig(opts.configPath);
+    const projectDirectory = path.resolve(analysisConfig.targetProjectDirectory);
+    const session = new WatchSession(opts, projectDirectory, discoverModules(projectDirectory, analysisConfig.targetProjectName));
+
+    let previous = session.analyzeAll(opts, ['analysis', 'output']);
+    const changed = new Set<string>();
+    let timer: NodeJS.Timeout | null = null;
+
+    const rerun = (): void => {
+        timer = null;
+        const files = Array.from(changed).sort();
+        changed.clear();
+
+        const time = formatTime(new Date());
+        console.log(`\n🔄 [${time}] ${t('watch.changed', { files: files.join(', ') })}...`);
+        const start = Date.now();
+        const update = session.update();
+        if (!update) {
+            return;
+        }
+        const current = update.result;
+
+        const elapsed = ((Date.now() - start) / 1000).toFixed(1);
+        console.log(`   ✓ ${update.affected === null ? t('watch.full') : t('watch.incremental', { count: update.affected })}`);
+        if (!previous) {
+            console.log(`   ✓ ${t('watch.analyzed', { count: current.undefinedIssues.length + current.findings.length })} (${elapsed}s)`);
+        } else {
+            const diff = diffResults(previous, current);
+            console.log(`   ${summarizeDiff(diff)} (${elapsed}s)`);
+            printIssues('+', diff.newIssues);
+            printIssues('-', diff.resolvedIssues);
+        }
+        previous = current;
+    };
+
+    const watcher = fs.watch(projectDirectory, { recursive: true }, (_event, fileName) => {
+        if (!fileName || !isSourcePath(fileName.toString())) {
+            return;
+        }
+        changed.add(fileName.toString().split(path.sep).join('/'));
+        if (timer) {
+            clearTimeout(timer);
+        }
+        timer = setTimeout(rerun, debounceMs);
+    });
+
+    process.once('SIGINT', () => {
+        if (timer) {
+            clearTimeout(timer);
+        }
+        watcher.close();
+        console.log(`\n👋 ${t('watch.stopped')}`);
+    });
+
+    console.log(`\n👀 ${t('watch.started', { path: projectDirectory })}`);
+    return watcher;
+}
@@ -0,0 +1,108 @@
+// workerPool.ts - 同步等待的工作线程池
+// 分析流程是同步的：主线程用 Atomics.wait 阻塞等待结果；工作线程由一个监督线程创建，
+// 工作线程异常退出（如内存不足）时监督线程仍能收到 exit 事件并返回错误，主线程不会一直等待
+import { MessageChannel, Worker, parentPort, receiveMessageOnPort, workerData } from 'worker_threads';
+
+import { t } from './i18n';
+
+/**
+ * 单个工作线程的执行结果
+ */
+export interface WorkerOutcome<R> {
+    result?: R;
+    error?: string;
+}
+
+/**
+ * 监督线程：为每个输入创建一个工作线程，全部退出后把结果发回主线程
+ */
+const SUPERVISOR_SOURCE = `
+const { Worker, workerData } = require('worker_threads');
+const { script, tsNode, inputs, port, signal, exitMessage } = workerData;
+const results = new Array(inputs.length);
+let remaining = inputs.length;
+
+function finish() {
+    port.postMessage(results);
+    const flag = new Int32Array(signal);
+    Atomics.store(flag, 0, 1);
+    Atomics.notify(flag, 0);
+}
+
+function start(input, index) {
+    const worker = tsNode
+        ? new Worker('require(' + JSON.stringify(tsNode) + ').register({ transpileOnly: true }); require(' + JSON.stringify(script) + ');',
+            { eval: true, workerData: input })
+        : new Worker(script, { workerData: input });
+    worker.once('message', message => { results[index] = message; });
+    worker.once('error', error => { results[index] = results[index] || { error: String(error && error.stack || error) }; });
+    worker.once('exit', code => {
+        results[index] = results[index] || { error: exitMessage.replace('{code}', code) };
+        if (--remaining === 0) {
+            finish();
+        }
+    });
+}
+
+try {
+    if (remaining === 0) {
+        finish();
+    }
+    inputs.forEach(start);
+} catch (error) {
+    for (let i = 0; i < inputs.length; i++) {
+        results[i] = results[i] || { error: String(error && error.stack || error) };
+    }
+    finish();
+}
+`;
+
+/**
+ * 为每个输入启动一个工作线程执行 `script`，阻塞直到全部结束，按输入顺序返回结果
+ *
+ * `script` 为 .ts 文件时（通过 ts-node 运行）在工作线程中注册 ts-node。
+ */
+export function runWorkersSync<R>(script: string, inputs: unknown[]): WorkerOutcome<R>[] {
+    const signal = new Int32Array(new SharedArrayBuffer(4));
+    const { port1, port2 } = new MessageChannel();
+    const supervisor = new Worker(SUPERVISOR_SOURCE, {
+        eval: true,
+        workerData: {
+            script,
+            tsNode: script.endsWith('.ts') ? require.resolve('ts-node') : null,
+            inputs,
+            port: port2,
+            signal: signal.buffer,
+            exitMessage: t('worker.exited')
+        },
+        transferList: [port2]
+    });
+
+    while (Atomics.load(signal, 0) === 0) {
+        Atomics.wait(signal, 0, 0);
+    }
+
+    const received = receiveMessageOnPort(port1);
+    port1.close();
+    void supervisor.terminate();
+    if (!received) {
+        throw new Error(t('worker.noResults'));
+    }
+    return received.message as WorkerOutcome<R>[];
+}
+
+/**
+ * 在工作线程中处理 workerData 并把结果或异常发回
+ */
+export function serveWorker<I, R>(handler: (input: I) => R): void {
+    if (!parentPort) {
+        throw new Error(t('worker.notInWorker'));
+    }
+    let outcome: WorkerOutcome<R>;
+    try {
+        outcome = { result: handler(workerData as I) };
+    } catch (error) {
+        outcome = { error: error instanceof Error ? error.stack ?? error.message : String(error) };
+    }
+    parentPort.postMessage(outcome);
+}